@@ -3,12 +3,19 @@ import { Board } from './components/Board/Board';
 import { AgentDrawer } from './components/AgentDrawer/AgentDrawer';
 import { GameInput } from './components/GameInput/GameInput';
 import { MoveTree } from './components/MoveTree/MoveTree';
+import { EvalGraph } from './components/EvalGraph/EvalGraph';
 import { OpeningSelector } from './components/OpeningSelector/OpeningSelector';
+import { OpeningTree } from './components/OpeningTree/OpeningTree';
 import { OpeningExplorer } from './components/OpeningExplorer/OpeningExplorer';
+import { RepertoirePanel } from './components/RepertoirePanel/RepertoirePanel';
+import { DrillPanel } from './components/DrillPanel/DrillPanel';
+import { SparringPanel } from './components/SparringPanel/SparringPanel';
+import { ProfilePanel } from './components/ProfilePanel/ProfilePanel';
 import { TurnIndicator } from './components/TurnIndicator/TurnIndicator';
 import { AnalysisPanel } from './components/AnalysisPanel/AnalysisPanel';
 import { useConnectionStore } from './stores/connectionStore';
 import { useBoardStore } from './stores/boardStore';
+import { useDrillStore } from './stores/drillStore';
 import { useUrlStore } from './stores/urlStore';
 import { useConversationStore } from './stores/conversationStore';
 import { ConnectionStatus } from './components/ConnectionStatus/ConnectionStatus';
@@ -23,7 +30,10 @@ function App() {
   const history = useBoardStore((state) => state.history);
   const virtualState = useBoardStore((state) => state.virtualState);
   const navigateVirtual = useBoardStore((state) => state.navigateVirtual);
+  const orientation = useBoardStore((state) => state.orientation);
+  const setOrientation = useBoardStore((state) => state.setOrientation);
   const exitVirtualMode = useConnectionStore((state) => state.exitVirtualMode);
+  const drillActive = useDrillStore((state) => state.isActive);
 
   // URL state
   const drawerOpen = useUrlStore((state) => state.drawerOpen);
@@ -36,6 +46,8 @@ function App() {
   const urlModelId = useUrlStore((state) => state.modelId);
   const urlThinking = useUrlStore((state) => state.thinking);
   const urlWebSearch = useUrlStore((state) => state.webSearch);
+  const urlOrientation = useUrlStore((state) => state.orientation);
+  const setUrlOrientation = useUrlStore((state) => state.setOrientation);
 
   // Conversation state
   const setActiveConversation = useConversationStore((state) => state.setActiveConversation);
@@ -106,6 +118,19 @@ function App() {
     }
   }, [currentMoveIndex, setMoveIndex]);
 
+  // Sync board orientation both ways (the board store starts from the URL value)
+  useEffect(() => {
+    if (useBoardStore.getState().orientation !== urlOrientation) {
+      setOrientation(urlOrientation);
+    }
+  }, [urlOrientation, setOrientation]);
+
+  useEffect(() => {
+    if (useUrlStore.getState().orientation !== orientation) {
+      setUrlOrientation(orientation);
+    }
+  }, [orientation, setUrlOrientation]);
+
   // Sync conversation ID from URL
   const selectConversation = useConnectionStore((state) => state.selectConversation);
   useEffect(() => {
@@ -210,6 +235,9 @@ function App() {
         return;
       }
 
+      // The drill board has no history to step through
+      if (drillActive) return;
+
       // Normal mode navigation
       if (e.key === 'ArrowLeft') {
         e.preventDefault();
@@ -239,6 +267,7 @@ function App() {
     virtualState,
     navigateVirtual,
     exitVirtualMode,
+    drillActive,
   ]);
 
   return (
@@ -269,8 +298,13 @@ function App() {
             </div>
             <div className="side-panel">
               <OpeningSelector />
+              <OpeningTree />
               <OpeningExplorer />
+              {drillActive ? <DrillPanel /> : <RepertoirePanel />}
+              {!drillActive && <SparringPanel />}
+              <ProfilePanel />
               <MoveTree />
+              <EvalGraph />
               <GameInput />
             </div>
           </div>
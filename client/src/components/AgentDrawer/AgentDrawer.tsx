@@ -5,6 +5,7 @@ import { useConversationStore } from '../../stores/conversationStore';
 import { useConnectionStore } from '../../stores/connectionStore';
 import { useUrlStore } from '../../stores/urlStore';
 import { useOpeningStore } from '../../stores/openingStore';
+import { useBoardStore } from '../../stores/boardStore';
 import { ConversationSelector } from '../ConversationSelector/ConversationSelector';
 import { ConfirmModal } from '../ConfirmModal/ConfirmModal';
 import './AgentDrawer.css';
@@ -34,10 +35,13 @@ function formatToolName(toolName: string): string {
     draw_arrows: 'Drawing arrows',
     highlight_squares: 'Highlighting squares',
     clear_annotations: 'Clearing board',
+    set_board_orientation: 'Turning the board',
     // Analysis
     analyze_position: 'Analyzing position',
     // Teaching flow
     ask_multiple_choice: 'Asking question',
+    pause_for_user: 'Waiting for you',
+    update_student_profile: 'Noting your progress',
   };
   return toolLabels[toolName] || toolName.replace(/_/g, ' ');
 }
@@ -166,6 +170,7 @@ export function AgentDrawer() {
   const activeToolCall = useConversationStore((state) => state.activeToolCall);
   const toolCallHistory = useConversationStore((state) => state.toolCallHistory);
   const multipleChoice = useConversationStore((state) => state.multipleChoice);
+  const pause = useConversationStore((state) => state.pause);
   const reasoningMode = useConversationStore((state) => state.reasoningMode);
   const error = useConversationStore((state) => state.error);
 
@@ -179,6 +184,7 @@ export function AgentDrawer() {
   const setWebSearchEnabled = useConnectionStore((state) => state.setWebSearchEnabled);
   const setPromptStyle = useConnectionStore((state) => state.setPromptStyle);
   const answerMultipleChoice = useConnectionStore((state) => state.answerMultipleChoice);
+  const continueExplanation = useConnectionStore((state) => state.continueExplanation);
   const dismissPrompt = useConnectionStore((state) => state.dismissPrompt);
   const stopConversation = useConnectionStore((state) => state.stopConversation);
 
@@ -290,6 +296,33 @@ export function AgentDrawer() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [multipleChoice.isActive, multipleChoice.questionId, multipleChoice.options.length, answerMultipleChoice, dismissPrompt]);
 
+  // Keyboard shortcuts for a pause (Space to continue, Esc to stop - unless
+  // Esc is leaving a previewed variation, which App handles)
+  useEffect(() => {
+    if (!pause.isPaused || !pause.pauseId) return;
+    const pauseId = pause.pauseId;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (['INPUT', 'TEXTAREA'].includes((e.target as HTMLElement)?.tagName)) {
+        return;
+      }
+      if (e.code === 'Space') {
+        e.preventDefault();
+        continueExplanation(pauseId);
+      } else if (e.code === 'Escape') {
+        if (e.defaultPrevented || useBoardStore.getState().virtualState.isActive) return;
+        e.preventDefault();
+        dismissPrompt(pauseId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pause.isPaused, pause.pauseId, continueExplanation, dismissPrompt]);
+
+  // The agent is waiting on the user, who can answer or type something else
+  const awaitingUser = multipleChoice.isActive || pause.isPaused;
+
   const handleOpenDrawer = useCallback(() => {
     setDrawerOpen(true);
   }, [setDrawerOpen]);
@@ -336,8 +369,8 @@ export function AgentDrawer() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Allow sending when multiple choice is active (to interrupt with a different question)
-    if (!input.trim() || !isConnected || (isStreaming && !multipleChoice.isActive)) return;
+    // Allow sending when multiple choice or a pause is active (to interrupt with a different question)
+    if (!input.trim() || !isConnected || (isStreaming && !awaitingUser)) return;
 
     const trimmedInput = input.trim();
     setInput('');
@@ -733,6 +766,36 @@ export function AgentDrawer() {
             </div>
           )}
 
+          {/* Pause - the agent waits until the user continues */}
+          {pause.isPaused && pause.pauseId && (
+            <div className="pause-indicator" data-testid="pause-indicator">
+              <div className="pause-content">
+                <span className="pause-icon">⏸</span>
+                <span className="pause-message">{pause.message || 'Ready to continue?'}</span>
+              </div>
+              <div className="pause-actions">
+                <button
+                  className="continue-btn"
+                  onClick={() => continueExplanation(pause.pauseId!)}
+                  data-testid="continue-button"
+                >
+                  <span className="continue-icon">▶</span>
+                  Continue
+                  <span className="continue-hint">Space</span>
+                </button>
+                <button
+                  className="dismiss-btn"
+                  onClick={() => dismissPrompt(pause.pauseId!)}
+                  data-testid="dismiss-pause-button"
+                  title="Stop here (Esc)"
+                >
+                  ×
+                </button>
+              </div>
+              <span className="prompt-hint">press Space to continue, Esc to stop here, or type a new question</span>
+            </div>
+          )}
+
           {error && (
             <div className="message error">
               <p>{error}</p>
@@ -763,12 +826,12 @@ export function AgentDrawer() {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={multipleChoice.isActive ? "Type to ask something else..." : "Ask about this position..."}
-            disabled={!isConnected || (isStreaming && !multipleChoice.isActive)}
+            placeholder={awaitingUser ? "Type to ask something else..." : "Ask about this position..."}
+            disabled={!isConnected || (isStreaming && !awaitingUser)}
             rows={2}
           />
           <div className="input-buttons">
-            {isStreaming && !multipleChoice.isActive ? (
+            {isStreaming && !awaitingUser ? (
               <button
                 type="button"
                 className="stop-btn"
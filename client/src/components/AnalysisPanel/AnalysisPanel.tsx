@@ -3,6 +3,7 @@ import { useAnalysisStore } from '../../stores/analysisStore';
 import { useConnectionStore } from '../../stores/connectionStore';
 import { useBoardStore } from '../../stores/boardStore';
 import type { AnalysisLine } from '@chess/shared';
+import { uciPromotion } from '../../utils/uci';
 import './AnalysisPanel.css';
 
 // Convert UCI move to more readable format
@@ -91,8 +92,7 @@ function AnalysisLineRow({ line, rank, isWhiteTurn }: AnalysisLineRowProps) {
     if (firstMove && firstMove.length >= 4) {
       const from = firstMove.slice(0, 2);
       const to = firstMove.slice(2, 4);
-      const promotion = firstMove.length > 4 ? firstMove[4] : undefined;
-      makeMove(from, to, promotion);
+      makeMove(from, to, uciPromotion(firstMove));
     }
   }, [firstMove, makeMove]);
   
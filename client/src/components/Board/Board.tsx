@@ -3,12 +3,22 @@ import { DndContext, DragEndEvent, DragStartEvent, useDraggable, useDroppable }
 import { useBoardStore } from '../../stores/boardStore';
 import { useConnectionStore } from '../../stores/connectionStore';
 import { Piece } from '../Pieces/Piece';
-import type { BoardArrow, SquareHighlight, ArrowColor } from '@chess/shared';
+import { EvalBar } from '../EvalBar/EvalBar';
+import type { BoardArrow, SquareHighlight, ArrowColor, BoardOrientation, PieceType } from '@chess/shared';
 import './Board.css';
 
 const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
 const RANKS = [8, 7, 6, 5, 4, 3, 2, 1];
 
+// Files left to right and ranks top to bottom, as seen from the given side
+function getFiles(orientation: BoardOrientation): string[] {
+  return orientation === 'white' ? FILES : [...FILES].reverse();
+}
+
+function getRanks(orientation: BoardOrientation): number[] {
+  return orientation === 'white' ? RANKS : [...RANKS].reverse();
+}
+
 interface SquareProps {
   square: string;
   isLight: boolean;
@@ -20,9 +30,13 @@ interface SquareProps {
 
 // Convert square notation to percentage coordinates (for SVG with viewBox 0-800)
 // Using 100 units per square for cleaner math
-function squareToCoords(square: string): { x: number; y: number } {
-  const file = square.charCodeAt(0) - 'a'.charCodeAt(0);
-  const rank = 8 - parseInt(square[1], 10);
+function squareToCoords(square: string, orientation: BoardOrientation): { x: number; y: number } {
+  let file = square.charCodeAt(0) - 'a'.charCodeAt(0);
+  let rank = 8 - parseInt(square[1], 10);
+  if (orientation === 'black') {
+    file = 7 - file;
+    rank = 7 - rank;
+  }
   return {
     x: file * 100 + 50,
     y: rank * 100 + 50,
@@ -34,9 +48,10 @@ interface BoardArrowsProps {
   arrows: BoardArrow[];
   userArrows: BoardArrow[];
   drawingArrow?: { from: string; to: string; color: ArrowColor } | null;
+  orientation: BoardOrientation;
 }
 
-function BoardArrows({ arrows, userArrows, drawingArrow }: BoardArrowsProps) {
+function BoardArrows({ arrows, userArrows, drawingArrow, orientation }: BoardArrowsProps) {
   // Filter out any invalid arrows (defensive - in case server sends malformed data)
   const validArrows = [...arrows, ...userArrows].filter(
     (a) => a && typeof a.from === 'string' && typeof a.to === 'string' && a.from.length >= 2 && a.to.length >= 2
@@ -64,8 +79,8 @@ function BoardArrows({ arrows, userArrows, drawingArrow }: BoardArrowsProps) {
           ))}
         </defs>
         {validArrows.map((arrow, idx) => {
-          const from = squareToCoords(arrow.from);
-          const to = squareToCoords(arrow.to);
+          const from = squareToCoords(arrow.from, orientation);
+          const to = squareToCoords(arrow.to, orientation);
           
           // Shorten the arrow slightly so arrowhead doesn't overlap center
           const dx = to.x - from.x;
@@ -93,8 +108,8 @@ function BoardArrows({ arrows, userArrows, drawingArrow }: BoardArrowsProps) {
         {/* Drawing preview arrow (ghost) */}
         {hasDrawing && (
           (() => {
-            const from = squareToCoords(drawingArrow.from);
-            const to = squareToCoords(drawingArrow.to);
+            const from = squareToCoords(drawingArrow.from, orientation);
+            const to = squareToCoords(drawingArrow.to, orientation);
             const dx = to.x - from.x;
             const dy = to.y - from.y;
             const len = Math.sqrt(dx * dx + dy * dy);
@@ -126,9 +141,10 @@ function BoardArrows({ arrows, userArrows, drawingArrow }: BoardArrowsProps) {
 interface SquareHighlightsProps {
   highlights: SquareHighlight[];
   userHighlights: SquareHighlight[];
+  orientation: BoardOrientation;
 }
 
-function SquareHighlights({ highlights, userHighlights }: SquareHighlightsProps) {
+function SquareHighlights({ highlights, userHighlights, orientation }: SquareHighlightsProps) {
   const allHighlights = [...highlights, ...userHighlights];
   if (allHighlights.length === 0) return null;
 
@@ -143,9 +159,9 @@ function SquareHighlights({ highlights, userHighlights }: SquareHighlightsProps)
 
   return (
     <div className="highlights-layer">
-      {RANKS.map((rank) => (
+      {getRanks(orientation).map((rank) => (
         <div key={rank} className="highlights-rank">
-          {FILES.map((file) => {
+          {getFiles(orientation).map((file) => {
             const square = `${file}${rank}`;
             const highlight = highlightMap.get(square);
             
@@ -168,7 +184,7 @@ function SquareHighlights({ highlights, userHighlights }: SquareHighlightsProps)
 }
 
 interface DroppableSquareWithMoveProps extends SquareProps {
-  onMakeMove: (from: string, to: string, promotion?: string) => void;
+  onMakeMove: (from: string, to: string, promotion?: PieceType) => void;
 }
 
 function DroppableSquare({ square, isLight, isSelected, isLegalMove, isLastMove, children, onMakeMove }: DroppableSquareWithMoveProps) {
@@ -254,18 +270,23 @@ function DraggablePiece({ square, piece }: DraggablePieceProps) {
 }
 
 // Get square from mouse position relative to board element
-function getSquareFromPoint(boardElement: HTMLElement, clientX: number, clientY: number): string | null {
+function getSquareFromPoint(
+  boardElement: HTMLElement,
+  clientX: number,
+  clientY: number,
+  orientation: BoardOrientation
+): string | null {
   const rect = boardElement.getBoundingClientRect();
   const x = clientX - rect.left;
   const y = clientY - rect.top;
   
   const squareSize = rect.width / 8;
-  const file = Math.floor(x / squareSize);
-  const rank = 7 - Math.floor(y / squareSize);
+  const column = Math.floor(x / squareSize);
+  const row = Math.floor(y / squareSize);
   
-  if (file < 0 || file > 7 || rank < 0 || rank > 7) return null;
+  if (column < 0 || column > 7 || row < 0 || row > 7) return null;
   
-  return `${FILES[file]}${rank + 1}`;
+  return `${getFiles(orientation)[column]}${getRanks(orientation)[row]}`;
 }
 
 export function Board() {
@@ -284,6 +305,7 @@ export function Board() {
   const toggleUserHighlight = useBoardStore((state) => state.toggleUserHighlight);
   const clearUserAnnotations = useBoardStore((state) => state.clearUserAnnotations);
   const virtualState = useBoardStore((state) => state.virtualState);
+  const orientation = useBoardStore((state) => state.orientation);
   const makeMove = useConnectionStore((state) => state.makeMove);
   
   // Arrow drawing state
@@ -381,12 +403,12 @@ export function Board() {
     const boardElement = boardRef.current?.querySelector('.board') as HTMLElement | null;
     if (!boardElement) return;
     
-    const square = getSquareFromPoint(boardElement, e.clientX, e.clientY);
+    const square = getSquareFromPoint(boardElement, e.clientX, e.clientY, orientation);
     if (!square) return;
     
     // Start drawing arrow from this square
     setDrawingArrow({ from: square, to: square, color: 'green' });
-  }, [userArrows.length, userHighlights.length, clearUserAnnotations]);
+  }, [userArrows.length, userHighlights.length, clearUserAnnotations, orientation]);
   
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     if (!isRightMouseDown.current || !drawingArrow) return;
@@ -394,14 +416,14 @@ export function Board() {
     const boardElement = boardRef.current?.querySelector('.board') as HTMLElement | null;
     if (!boardElement) return;
     
-    const square = getSquareFromPoint(boardElement, e.clientX, e.clientY);
+    const square = getSquareFromPoint(boardElement, e.clientX, e.clientY, orientation);
     if (!square) return;
     
     // Update the arrow target
     if (square !== drawingArrow.to) {
       setDrawingArrow({ ...drawingArrow, to: square });
     }
-  }, [drawingArrow]);
+  }, [drawingArrow, orientation]);
   
   const handleMouseUp = useCallback((e: React.MouseEvent) => {
     // Only handle right-click release
@@ -432,6 +454,9 @@ export function Board() {
     }
   }, []);
 
+  const files = useMemo(() => getFiles(orientation), [orientation]);
+  const ranks = useMemo(() => getRanks(orientation), [orientation]);
+
   const renderSquare = (file: string, rank: number) => {
     const square = `${file}${rank}`;
     const isLight = (FILES.indexOf(file) + rank) % 2 === 0;
@@ -469,29 +494,32 @@ export function Board() {
         {virtualState.isActive && (
           <div className="virtual-mode-indicator">Analysis</div>
         )}
-        <SquareHighlights highlights={highlights} userHighlights={userHighlights} />
-        <div className="board">
-          {RANKS.map((rank) => (
+        <SquareHighlights highlights={highlights} userHighlights={userHighlights} orientation={orientation} />
+        <div className="board" data-orientation={orientation}>
+          {ranks.map((rank) => (
             <div key={rank} className="rank">
-              {FILES.map((file) => renderSquare(file, rank))}
+              {files.map((file) => renderSquare(file, rank))}
             </div>
           ))}
         </div>
-        <BoardArrows arrows={arrows} userArrows={userArrows} drawingArrow={drawingArrow} />
+        <BoardArrows arrows={arrows} userArrows={userArrows} drawingArrow={drawingArrow} orientation={orientation} />
         <div className="file-labels">
-          {FILES.map((file) => (
+          {files.map((file) => (
             <span key={file} className="file-label">
               {file}
             </span>
           ))}
         </div>
         <div className="rank-labels">
-          {RANKS.map((rank) => (
+          {ranks.map((rank) => (
             <span key={rank} className="rank-label">
               {rank}
             </span>
           ))}
         </div>
+        <div className="board-eval-bar">
+          <EvalBar orientation={orientation} />
+        </div>
       </div>
     </DndContext>
   );
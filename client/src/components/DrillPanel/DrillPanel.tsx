@@ -0,0 +1,88 @@
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useDrillStore } from '../../stores/drillStore';
+import type { DrillState } from '@chess/shared';
+import './DrillPanel.css';
+
+function getPrompt(state: DrillState): string {
+  switch (state.status) {
+    case 'awaitingUser':
+      return 'Your move';
+    case 'opponentToMove':
+      return 'Opponent is replying…';
+    case 'complete':
+      return 'Line complete';
+  }
+}
+
+function Feedback({ state }: { state: DrillState }) {
+  const { feedback } = state;
+  if (!feedback) return null;
+
+  switch (feedback.result) {
+    case 'correct':
+      return <div className="drill-feedback correct">✓ {feedback.played}</div>;
+    case 'alternative':
+      return (
+        <div className="drill-feedback alternative">
+          {feedback.played} is an alternative - play your main move
+        </div>
+      );
+    case 'mistake':
+      return (
+        <div className="drill-feedback mistake">
+          ✗ {feedback.played} - the move is {feedback.expected}
+        </div>
+      );
+  }
+}
+
+export function DrillPanel() {
+  const drillState = useDrillStore((s) => s.drillState);
+  const error = useDrillStore((s) => s.error);
+  const nextDrillLine = useConnectionStore((s) => s.nextDrillLine);
+  const stopDrill = useConnectionStore((s) => s.stopDrill);
+
+  if (!drillState) return null;
+
+  return (
+    <div className="drill-panel">
+      <div className="drill-header">
+        <span className="drill-title">
+          Drill · {drillState.color === 'white' ? 'White' : 'Black'} repertoire
+        </span>
+        <span className="drill-score">
+          <span className="drill-score-correct">{drillState.correctCount} ✓</span>
+          <span className="drill-score-mistakes">{drillState.mistakeCount} ✗</span>
+        </span>
+      </div>
+
+      <div className={`drill-prompt ${drillState.status}`}>{getPrompt(drillState)}</div>
+      <Feedback state={drillState} />
+      {error && <div className="drill-feedback mistake">{error}</div>}
+
+      <div className="drill-line">
+        {drillState.moves.map((move, i) => (
+          <span key={i} className="drill-line-move">
+            {i % 2 === 0 && (
+              <span className="drill-move-number">{i / 2 + 1}.</span>
+            )}
+            {move.san}
+          </span>
+        ))}
+      </div>
+
+      <div className="drill-actions">
+        <button
+          className="drill-btn primary"
+          onClick={nextDrillLine}
+          disabled={drillState.status !== 'complete'}
+        >
+          Next line
+        </button>
+        <button className="drill-btn" onClick={stopDrill}>
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+}
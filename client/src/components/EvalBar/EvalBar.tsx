@@ -0,0 +1,76 @@
+import type { EngineScore } from '@chess/shared';
+import { useBoardStore } from '../../stores/boardStore';
+import { useAnalysisStore, selectPositionEval } from '../../stores/analysisStore';
+import './EvalBar.css';
+
+/**
+ * Share of the bar (0-100) filled by White for a White-side score
+ */
+export function getWhiteShare(score: EngineScore): number {
+  if (score.type === 'mate') {
+    return score.value >= 0 ? 100 : 0;
+  }
+  // Same curve as the analysis panel: roughly White's winning chances
+  const share = 100 / (1 + Math.exp(-score.value / 400));
+  return Math.max(2, Math.min(98, share));
+}
+
+export function formatEval(score: EngineScore): string {
+  if (score.type === 'mate') {
+    return score.value >= 0 ? `M${Math.abs(score.value)}` : `-M${Math.abs(score.value)}`;
+  }
+  const pawns = score.value / 100;
+  if (Math.abs(pawns) < 0.05) return '0.0';
+  return pawns > 0 ? `+${pawns.toFixed(1)}` : pawns.toFixed(1);
+}
+
+interface EvalBarProps {
+  /** Side shown at the bottom of the board */
+  orientation?: 'white' | 'black';
+}
+
+/**
+ * Full-height evaluation bar beside the board
+ */
+export function EvalBar({ orientation = 'white' }: EvalBarProps) {
+  const fen = useBoardStore((s) => s.fen);
+  const isCheckmate = useBoardStore((s) => s.isCheckmate);
+  const turn = useBoardStore((s) => s.turn);
+  const lines = useAnalysisStore((s) => s.lines);
+  const linesFen = useAnalysisStore((s) => s.linesFen);
+  const evalCache = useAnalysisStore((s) => s.evalCache);
+
+  // Checkmate on the board needs no engine: the side to move has lost
+  const positionEval = isCheckmate
+    ? null
+    : selectPositionEval({ lines, linesFen, evalCache }, fen);
+  const score = positionEval?.score ?? null;
+
+  const whiteShare = isCheckmate ? (turn === 'w' ? 0 : 100) : score ? getWhiteShare(score) : 50;
+  const whiteAhead = whiteShare >= 50;
+  const label = isCheckmate ? '#' : score ? formatEval(score) : '';
+
+  // The label sits at the end of the bar belonging to the side that is ahead
+  const labelAtBottom = whiteAhead === (orientation === 'white');
+
+  return (
+    <div
+      className={`eval-bar-board ${orientation === 'black' ? 'flipped' : ''} ${score || isCheckmate ? '' : 'empty'}`}
+      title={
+        positionEval
+          ? `${label} (depth ${positionEval.depth}, ${positionEval.source === 'agent' ? 'coach analysis' : 'engine'})`
+          : undefined
+      }
+      data-testid="eval-bar"
+    >
+      <div className="eval-bar-board-fill" style={{ height: `${whiteShare}%` }} />
+      {label && (
+        <span
+          className={`eval-bar-board-label ${labelAtBottom ? 'bottom' : 'top'} ${whiteAhead ? 'on-white' : 'on-black'}`}
+        >
+          {label}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import type { MouseEvent } from 'react';
+import type { EngineScore, Move, MoveClassification, MoveReview, MoveTreeNode } from '@chess/shared';
+import { useBoardStore } from '../../stores/boardStore';
+import { useReviewStore, getMoveReview } from '../../stores/reviewStore';
+import './EvalGraph.css';
+
+// Evaluations beyond this are drawn at the edge; mates sit exactly on it
+const EVAL_CLAMP = 1000;
+
+// Verdicts marked on the graph
+const MARKED: MoveClassification[] = ['mistake', 'blunder'];
+
+/** One plotted ply: 0 is the starting position */
+export interface EvalPoint {
+  ply: number;
+  /** White-side centipawns, clamped to ±EVAL_CLAMP */
+  cp: number;
+  score: EngineScore;
+  /** Review of the move leading to this ply */
+  review?: MoveReview;
+  san?: string;
+}
+
+/**
+ * Clamp a White-side score for plotting. A mate 0 score (checkmate on the
+ * board) counts against the side to move.
+ */
+export function scoreToGraphCp(score: EngineScore, sideToMove: 'w' | 'b'): number {
+  if (score.type === 'mate') {
+    if (score.value === 0) {
+      return sideToMove === 'w' ? -EVAL_CLAMP : EVAL_CLAMP;
+    }
+    return score.value > 0 ? EVAL_CLAMP : -EVAL_CLAMP;
+  }
+  return Math.max(-EVAL_CLAMP, Math.min(EVAL_CLAMP, score.value));
+}
+
+function sameMove(node: MoveTreeNode, move: Move): boolean {
+  return node.move.from === move.from && node.move.to === move.to && node.move.promotion === move.promotion;
+}
+
+/**
+ * Tree nodes of the line in `history`, following matching moves from the start
+ */
+export function getLineNodes(moveTree: MoveTreeNode[], history: Move[]): MoveTreeNode[] {
+  const nodes: MoveTreeNode[] = [];
+  let siblings = moveTree;
+  for (const move of history) {
+    const node = siblings.find((candidate) => sameMove(candidate, move));
+    if (!node) break;
+    nodes.push(node);
+    siblings = node.children;
+  }
+  return nodes;
+}
+
+/**
+ * Evaluated plies of a line. The start position takes the first move's
+ * "before" evaluation, every other ply the "after" evaluation of its move.
+ */
+export function buildEvalPoints(lineNodes: MoveTreeNode[], reviews: Record<string, MoveReview>): EvalPoint[] {
+  const points: EvalPoint[] = [];
+  lineNodes.forEach((node, index) => {
+    const review = getMoveReview(node, reviews);
+    if (!review) return;
+    const sideToMove = node.fen.split(' ')[1] === 'b' ? 'b' : 'w';
+    if (index === 0) {
+      const firstMover = sideToMove === 'w' ? 'b' : 'w';
+      points.push({ ply: 0, cp: scoreToGraphCp(review.evalBefore, firstMover), score: review.evalBefore });
+    }
+    points.push({
+      ply: index + 1,
+      cp: scoreToGraphCp(review.evalAfter, sideToMove),
+      score: review.evalAfter,
+      review,
+      san: node.move.san,
+    });
+  });
+  return points;
+}
+
+function formatScore(score: EngineScore): string {
+  if (score.type === 'mate') {
+    return score.value === 0 ? '#' : `#${score.value}`;
+  }
+  const pawns = score.value / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+// Graph coordinates: x in 0..100 (percent of plies), y in 0..100 (top = White winning)
+function toY(cp: number): number {
+  return 50 - (cp / EVAL_CLAMP) * 50;
+}
+
+/**
+ * Evaluation of the current line across its moves, filled in as review results arrive
+ */
+export function EvalGraph() {
+  const history = useBoardStore((s) => s.history);
+  const moveTree = useBoardStore((s) => s.moveTree);
+  const currentMoveIndex = useBoardStore((s) => s.currentMoveIndex);
+  const navigateToMove = useBoardStore((s) => s.navigateToMove);
+  const reviews = useReviewStore((s) => s.reviews);
+
+  const points = buildEvalPoints(getLineNodes(moveTree, history), reviews);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const plies = Math.max(history.length, 1);
+  const toX = (ply: number) => (ply / plies) * 100;
+
+  const coords = points.map((p) => `${toX(p.ply)},${toY(p.cp)}`);
+  const line = coords.join(' ');
+  // White's share: from the bottom edge up to the curve
+  const area = `M ${toX(points[0].ply)},100 L ${coords.join(' L ')} L ${toX(points[points.length - 1].ply)},100 Z`;
+
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (rect.width === 0) return;
+    const ratio = (event.clientX - rect.left) / rect.width;
+    const ply = Math.max(0, Math.min(history.length, Math.round(ratio * plies)));
+    navigateToMove(ply);
+  };
+
+  return (
+    <div className="eval-graph">
+      <div className="eval-graph-plot" onClick={handleClick} data-testid="eval-graph-plot">
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="eval-graph-svg">
+          <path d={area} className="eval-graph-area" />
+          <line x1="0" y1="50" x2="100" y2="50" className="eval-graph-midline" />
+          <polyline points={line} className="eval-graph-line" />
+        </svg>
+
+        <div className="eval-graph-cursor" style={{ left: `${toX(currentMoveIndex)}%` }} />
+
+        {points
+          .filter((p) => p.review && MARKED.includes(p.review.classification))
+          .map((p) => (
+            <button
+              key={p.ply}
+              className={`eval-graph-marker ${p.review!.classification}`}
+              style={{ left: `${toX(p.ply)}%`, top: `${toY(p.cp)}%` }}
+              title={`${p.san} ${p.review!.classification} (${formatScore(p.score)})`}
+              onClick={(event) => {
+                event.stopPropagation();
+                navigateToMove(p.ply);
+              }}
+            />
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useConnectionStore } from '../../stores/connectionStore';
 import { useConversationStore } from '../../stores/conversationStore';
 import { useUrlStore } from '../../stores/urlStore';
+import { useBoardStore } from '../../stores/boardStore';
 import { ConfirmModal } from '../ConfirmModal/ConfirmModal';
 import './GameControls.css';
 
@@ -12,6 +13,8 @@ export function GameControls() {
   const isConnected = useConnectionStore((state) => state.isConnected);
   const setActiveConversation = useConversationStore((state) => state.setActiveConversation);
   const setRoute = useUrlStore((state) => state.setRoute);
+  const orientation = useBoardStore((state) => state.orientation);
+  const flipBoard = useBoardStore((state) => state.flipBoard);
 
   const handleReset = () => {
     setShowConfirm(true);
@@ -53,6 +56,28 @@ export function GameControls() {
           </svg>
           <span>New Game</span>
         </button>
+        <button
+          className="flip-button"
+          onClick={flipBoard}
+          title={orientation === 'white' ? "View from Black's side" : "View from White's side"}
+          data-testid="flip-board-btn"
+        >
+          <svg
+            className="flip-icon"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M7 3v18" />
+            <path d="M3 7l4-4 4 4" />
+            <path d="M17 21V3" />
+            <path d="M13 17l4 4 4-4" />
+          </svg>
+          <span>Flip</span>
+        </button>
       </div>
 
       <ConfirmModal
@@ -1,5 +1,6 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useConnectionStore } from '../../stores/connectionStore';
+import { useBoardStore } from '../../stores/boardStore';
 import './GameInput.css';
 
 type InputType = 'fen' | 'pgn' | 'auto';
@@ -27,6 +28,21 @@ export function GameInput() {
   const [isExpanded, setIsExpanded] = useState(false);
   const loadGame = useConnectionStore((state) => state.loadGame);
   const resetGame = useConnectionStore((state) => state.resetGame);
+  const exportPgn = useConnectionStore((state) => state.exportPgn);
+  const exportedPgn = useBoardStore((state) => state.exportedPgn);
+  const setExportedPgn = useBoardStore((state) => state.setExportedPgn);
+
+  // Show the exported game in the textarea so it can be copied or edited and reloaded
+  useEffect(() => {
+    if (exportedPgn === null) return;
+    setInput(exportedPgn);
+    setInputType('pgn');
+    setIsExpanded(true);
+    navigator.clipboard?.writeText(exportedPgn).catch(() => {
+      // Clipboard may be unavailable (e.g. insecure context) - the textarea still has it
+    });
+    setExportedPgn(null);
+  }, [exportedPgn, setExportedPgn]);
 
   const handleSubmit = useCallback(() => {
     if (!input.trim()) return;
@@ -102,6 +118,9 @@ export function GameInput() {
             <button className="reset-btn" onClick={handleReset}>
               Reset Board
             </button>
+            <button className="export-btn" onClick={exportPgn}>
+              Export PGN
+            </button>
             <button
               className="submit-btn"
               onClick={handleSubmit}
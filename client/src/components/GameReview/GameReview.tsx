@@ -0,0 +1,72 @@
+import type { GameReviewSide } from '@chess/shared';
+import { useBoardStore } from '../../stores/boardStore';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useReviewStore } from '../../stores/reviewStore';
+import './GameReview.css';
+
+interface ReviewSideProps {
+  label: string;
+  side: GameReviewSide;
+}
+
+function ReviewSide({ label, side }: ReviewSideProps) {
+  return (
+    <div className="game-review-side" title={`Average centipawn loss: ${side.averageCpLoss}`}>
+      <span className="game-review-label">{label}</span>
+      <span className="game-review-accuracy">{side.accuracy.toFixed(1)}%</span>
+      <span className="game-review-counts">
+        <span className="review-count inaccuracy" title="Inaccuracies">{side.inaccuracies}?!</span>
+        <span className="review-count mistake" title="Mistakes">{side.mistakes}?</span>
+        <span className="review-count blunder" title="Blunders">{side.blunders}??</span>
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Start an engine review of the current line and show per-side accuracy
+ */
+export function GameReview() {
+  const historyLength = useBoardStore((s) => s.history.length);
+  const isConnected = useConnectionStore((s) => s.isConnected);
+  const startGameReview = useConnectionStore((s) => s.startGameReview);
+  const cancelGameReview = useConnectionStore((s) => s.cancelGameReview);
+  const { isReviewing, progress, summary, error } = useReviewStore();
+
+  if (isReviewing) {
+    const percent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+    return (
+      <div className="game-review">
+        <div className="game-review-progress" title={progress ? `${progress.completed}/${progress.total} positions` : undefined}>
+          <div className="game-review-progress-fill" style={{ width: `${percent}%` }} />
+        </div>
+        <span className="game-review-status">Reviewing {percent}%</span>
+        <button className="game-review-btn" onClick={cancelGameReview}>
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="game-review">
+      {summary ? (
+        <div className="game-review-summary">
+          <ReviewSide label="White" side={summary.white} />
+          <ReviewSide label="Black" side={summary.black} />
+        </div>
+      ) : (
+        <span className={`game-review-status ${error ? 'error' : ''}`}>
+          {error ?? 'Engine review of the current line'}
+        </span>
+      )}
+      <button
+        className="game-review-btn"
+        onClick={() => startGameReview()}
+        disabled={!isConnected || historyLength === 0}
+      >
+        {summary ? 'Re-run' : 'Review'}
+      </button>
+    </div>
+  );
+}
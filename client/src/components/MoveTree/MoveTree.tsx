@@ -1,38 +1,226 @@
+import type { ReactNode } from 'react';
+import type { MoveClassification, MoveReview, MoveTreeNode } from '@chess/shared';
 import { useBoardStore } from '../../stores/boardStore';
 import { useConnectionStore } from '../../stores/connectionStore';
+import { useReviewStore, getMoveReview } from '../../stores/reviewStore';
+import { GameReview } from '../GameReview/GameReview';
 import './MoveTree.css';
 
+// Common NAGs shown as glyphs; anything else is shown as $n
+const NAG_SYMBOLS: Record<number, string> = {
+  1: '!',
+  2: '?',
+  3: '!!',
+  4: '??',
+  5: '!?',
+  6: '?!',
+  10: '=',
+  13: '∞',
+  14: '⩲',
+  15: '⩱',
+  16: '±',
+  17: '∓',
+  18: '+−',
+  19: '−+',
+};
+
+function formatNags(nags: number[] | undefined): string {
+  return (nags || []).map((nag) => NAG_SYMBOLS[nag] ?? ` $${nag}`).join('');
+}
+
+// Glyphs for engine review verdicts worth flagging in the move list
+const REVIEW_SYMBOLS: Partial<Record<MoveClassification, string>> = {
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+
+function formatReviewTitle(review: MoveReview): string {
+  const best = review.bestMoveSan ?? review.bestMove;
+  const label = review.classification.charAt(0).toUpperCase() + review.classification.slice(1);
+  if (review.classification === 'best' || !best) {
+    return label;
+  }
+  return `${label} (-${review.winChanceLoss.toFixed(1)}% win chance) - best was ${best}`;
+}
+
+interface NodeLocation {
+  node: MoveTreeNode;
+  parentId: string | null;
+  siblingIndex: number;
+}
+
+/**
+ * Move number and side for the move that led to a node, derived from its FEN
+ */
+function getMoveNumber(node: MoveTreeNode): { number: number; isWhite: boolean } {
+  const [, turn, , , , fullMove] = node.fen.split(' ');
+  const isWhite = turn === 'b';
+  const moveNumber = parseInt(fullMove, 10) || 1;
+  return { number: isWhite ? moveNumber : moveNumber - 1, isWhite };
+}
+
+function indexTree(
+  nodes: MoveTreeNode[],
+  parentId: string | null,
+  index: Map<string, NodeLocation>
+): Map<string, NodeLocation> {
+  nodes.forEach((node, siblingIndex) => {
+    index.set(node.id, { node, parentId, siblingIndex });
+    indexTree(node.children, node.id, index);
+  });
+  return index;
+}
+
+/**
+ * Walk up from a node to the start of the side line containing it.
+ * Returns null when the node is on the main line.
+ */
+function findVariationStart(nodeId: string, index: Map<string, NodeLocation>): string | null {
+  let location = index.get(nodeId);
+  while (location) {
+    if (location.siblingIndex > 0) {
+      return location.node.id;
+    }
+    location = location.parentId ? index.get(location.parentId) : undefined;
+  }
+  return null;
+}
+
 export function MoveTree() {
   const history = useBoardStore((state) => state.history);
   const currentMoveIndex = useBoardStore((state) => state.currentMoveIndex);
+  const moveTree = useBoardStore((state) => state.moveTree);
+  const currentNodeId = useBoardStore((state) => state.currentNodeId);
   const navigateToMove = useBoardStore((state) => state.navigateToMove);
+  const navigateToNode = useBoardStore((state) => state.navigateToNode);
+  const promoteVariation = useBoardStore((state) => state.promoteVariation);
+  const deleteVariation = useBoardStore((state) => state.deleteVariation);
   const virtualState = useBoardStore((state) => state.virtualState);
   const navigateVirtual = useBoardStore((state) => state.navigateVirtual);
   const exitVirtualMode = useConnectionStore((state) => state.exitVirtualMode);
+  const streamedReviews = useReviewStore((state) => state.reviews);
 
-  // Build move pairs for display
-  const movePairs: {
-    moveNum: number;
-    white?: { san: string; index: number };
-    black?: { san: string; index: number };
-  }[] = [];
+  const nodeIndex = indexTree(moveTree, null, new Map());
+  const currentVariationStart = currentNodeId
+    ? findVariationStart(currentNodeId, nodeIndex)
+    : null;
 
-  for (let i = 0; i < history.length; i += 2) {
-    const moveNum = Math.floor(i / 2) + 1;
-    movePairs.push({
-      moveNum,
-      white: history[i] ? { san: history[i].san || '', index: i + 1 } : undefined,
-      black: history[i + 1]
-        ? { san: history[i + 1].san || '', index: i + 2 }
-        : undefined,
-    });
-  }
+  const renderMove = (node: MoveTreeNode, showNumber: boolean, inVariation: boolean) => {
+    const { number, isWhite } = getMoveNumber(node);
+    const isCurrent = !virtualState.isActive && node.id === currentNodeId;
+    const isBranchPoint = virtualState.isActive && node.id === currentNodeId;
+    const review = getMoveReview(node, streamedReviews);
+    const reviewSymbol = review ? REVIEW_SYMBOLS[review.classification] : undefined;
+    return (
+      <span key={node.id} className="move-tree-move">
+        {node.commentBefore && <span className="move-comment">{node.commentBefore}</span>}
+        {showNumber && (
+          <span className={inVariation ? 'variation-number' : 'move-number'}>
+            {isWhite ? `${number}.` : `${number}...`}
+          </span>
+        )}
+        <span
+          className={`move-san ${isWhite ? 'white' : 'black'} ${inVariation ? 'variation' : ''} ${isCurrent ? 'current' : ''} ${isBranchPoint ? 'branch-point' : ''} ${review ? `review-${review.classification}` : ''}`}
+          data-node-id={node.id}
+          onClick={() => navigateToNode(node.id)}
+          title={review ? formatReviewTitle(review) : undefined}
+        >
+          {node.move.san}
+          {node.nags && <span className="move-nag">{formatNags(node.nags)}</span>}
+          {!node.nags && reviewSymbol && <span className="move-review-glyph">{reviewSymbol}</span>}
+        </span>
+        {node.comment && <span className="move-comment">{node.comment}</span>}
+      </span>
+    );
+  };
+
+  // Side line rendered inline, with nested variations in parentheses
+  const renderVariation = (start: MoveTreeNode): ReactNode[] => {
+    const elements: ReactNode[] = [];
+    let node: MoveTreeNode | undefined = start;
+    let needsNumber = true;
+
+    while (node) {
+      const { isWhite } = getMoveNumber(node);
+      elements.push(renderMove(node, needsNumber || isWhite, true));
+      needsNumber = false;
+
+      const [next, ...alternatives]: MoveTreeNode[] = node.children;
+      for (const alternative of alternatives) {
+        elements.push(
+          <span key={`sub-${alternative.id}`} className="variation-nested">
+            ({renderVariation(alternative)})
+          </span>
+        );
+        needsNumber = true;
+      }
+      node = next;
+    }
+    return elements;
+  };
+
+  // Main line in move-pair rows; side lines break the row and are shown indented below it
+  const renderMainLine = (): ReactNode[] => {
+    const rows: ReactNode[] = [];
+    let rowMoves: ReactNode[] = [];
+    let rowKey = '';
+    let rowNumber = 0;
+
+    const closeRow = () => {
+      if (rowMoves.length > 0) {
+        rows.push(
+          <div key={rowKey} className="move-tree-row">
+            <span className="move-number">{rowNumber}.</span>
+            {rowMoves}
+          </div>
+        );
+      }
+      rowMoves = [];
+    };
+
+    let siblings = moveTree;
+    while (siblings.length > 0) {
+      const [node, ...alternatives] = siblings;
+      const { number, isWhite } = getMoveNumber(node);
+
+      if (isWhite || rowMoves.length === 0) {
+        closeRow();
+        rowKey = node.id;
+        rowNumber = number;
+        if (!isWhite) {
+          rowMoves.push(<span key="ellipsis" className="move-san placeholder">…</span>);
+        }
+      }
+      rowMoves.push(renderMove(node, false, false));
+      if (node.comment) {
+        closeRow();
+      }
+
+      if (alternatives.length > 0) {
+        closeRow();
+        rows.push(
+          <div key={`vars-${node.id}`} className="move-tree-variations">
+            {alternatives.map((alternative) => (
+              <div key={alternative.id} className="move-tree-variation">
+                {renderVariation(alternative)}
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      siblings = node.children;
+    }
+    closeRow();
+    return rows;
+  };
 
   // Build virtual move pairs
   const virtualMovePairs: {
     moveNum: number;
-    white?: { san: string; index: number };
-    black?: { san: string; index: number };
+    white?: { san: string; index: number; comment?: string };
+    black?: { san: string; index: number; comment?: string };
   }[] = [];
 
   if (virtualState.isActive && virtualState.virtualMoves.length > 0) {
@@ -51,6 +239,7 @@ export function MoveTree() {
         black: {
           san: virtualState.virtualMoves[0].san || '',
           index: 1,
+          comment: virtualState.virtualMoves[0].comment,
         },
       });
       virtualMoveIndex = 1;
@@ -64,10 +253,10 @@ export function MoveTree() {
       virtualMovePairs.push({
         moveNum: currentMoveNum,
         white: whiteMove
-          ? { san: whiteMove.san || '', index: virtualMoveIndex + 1 }
+          ? { san: whiteMove.san || '', index: virtualMoveIndex + 1, comment: whiteMove.comment }
           : undefined,
         black: blackMove
-          ? { san: blackMove.san || '', index: virtualMoveIndex + 2 }
+          ? { san: blackMove.san || '', index: virtualMoveIndex + 2, comment: blackMove.comment }
           : undefined,
       });
 
@@ -80,6 +269,18 @@ export function MoveTree() {
     navigateToMove(index);
   };
 
+  const handlePromote = () => {
+    if (currentVariationStart) {
+      promoteVariation(currentVariationStart);
+    }
+  };
+
+  const handleDeleteVariation = () => {
+    if (currentVariationStart) {
+      deleteVariation(currentVariationStart);
+    }
+  };
+
   const handleVirtualMoveClick = (index: number) => {
     navigateVirtual(index);
   };
@@ -94,7 +295,7 @@ export function MoveTree() {
         <h3>
           {virtualState.isActive ? (
             <>
-              <span className="virtual-indicator">●</span> Analysis Mode
+              <span className="virtual-indicator">●</span> {virtualState.title || 'Analysis Mode'}
             </>
           ) : (
             'Moves'
@@ -107,6 +308,8 @@ export function MoveTree() {
         </span>
       </div>
 
+      {!virtualState.isActive && <GameReview />}
+
       <div className="move-tree">
         {/* Starting position */}
         <div
@@ -117,28 +320,8 @@ export function MoveTree() {
           <span className="move-san">Start</span>
         </div>
 
-        {/* Main line moves */}
-        {movePairs.map(({ moveNum, white, black }) => (
-          <div key={moveNum} className="move-tree-row">
-            <span className="move-number">{moveNum}.</span>
-            {white && (
-              <span
-                className={`move-san white ${!virtualState.isActive && currentMoveIndex === white.index ? 'current' : ''} ${virtualState.isActive && virtualState.baseIndex === white.index ? 'branch-point' : ''}`}
-                onClick={() => handleMoveClick(white.index)}
-              >
-                {white.san}
-              </span>
-            )}
-            {black && (
-              <span
-                className={`move-san black ${!virtualState.isActive && currentMoveIndex === black.index ? 'current' : ''} ${virtualState.isActive && virtualState.baseIndex === black.index ? 'branch-point' : ''}`}
-                onClick={() => handleMoveClick(black.index)}
-              >
-                {black.san}
-              </span>
-            )}
-          </div>
-        ))}
+        {/* Main line with side lines */}
+        {renderMainLine()}
 
         {/* Virtual/Analysis moves */}
         {virtualState.isActive && virtualMovePairs.length > 0 && (
@@ -160,6 +343,7 @@ export function MoveTree() {
                     {white.san}
                   </span>
                 )}
+                {white?.comment && <span className="move-comment">{white.comment}</span>}
                 {black && (
                   <span
                     className={`move-san black virtual ${virtualState.currentVirtualIndex === black.index ? 'current' : ''}`}
@@ -168,6 +352,7 @@ export function MoveTree() {
                     {black.san}
                   </span>
                 )}
+                {black?.comment && <span className="move-comment">{black.comment}</span>}
               </div>
             ))}
           </>
@@ -198,6 +383,20 @@ export function MoveTree() {
         </div>
       )}
 
+      {!virtualState.isActive && currentVariationStart && (
+        <div className="variation-controls">
+          <span className="variation-label">Side line</span>
+          <div className="variation-actions">
+            <button className="promote-variation-btn" onClick={handlePromote}>
+              ▲ Promote
+            </button>
+            <button className="delete-variation-btn" onClick={handleDeleteVariation}>
+              ✕ Delete
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="move-tree-hint">
         {virtualState.isActive ? (
           <span>Esc to exit • ← → navigate analysis</span>
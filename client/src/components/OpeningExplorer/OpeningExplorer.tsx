@@ -1,8 +1,25 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useBoardStore } from '../../stores/boardStore';
 import { useConnectionStore } from '../../stores/connectionStore';
-import { useExplorerStore, formatGameCount, getTopMoves, type ExplorerSource } from '../../stores/explorerStore';
-import type { ExplorerResult, ExplorerMoveStats } from '@chess/shared';
+import {
+  useExplorerStore,
+  formatGameCount,
+  getTopMoves,
+  getSelectedDatabase,
+  type ExplorerSource,
+} from '../../stores/explorerStore';
+import type {
+  ExplorerResult,
+  ExplorerMoveStats,
+  LichessDatabase,
+  LichessExplorerGame,
+  LocalDatabaseInfo,
+  LocalPlayerFilter,
+  LocalGameFilter,
+  LichessRating,
+  LichessSpeed,
+} from '@chess/shared';
+import { uciPromotion } from '../../utils/uci';
 import './OpeningExplorer.css';
 
 interface MoveRowProps {
@@ -17,8 +34,7 @@ function MoveRow({ move, totalGames }: MoveRowProps) {
     if (move.uci && move.uci.length >= 4) {
       const from = move.uci.slice(0, 2);
       const to = move.uci.slice(2, 4);
-      const promotion = move.uci.length > 4 ? move.uci[4] : undefined;
-      makeMove(from, to, promotion);
+      makeMove(from, to, uciPromotion(move.uci));
     }
   };
   
@@ -54,16 +70,53 @@ function MoveRow({ move, totalGames }: MoveRowProps) {
   );
 }
 
+const MAX_TOP_GAMES_SHOWN = 4;
+
+function formatGameResult(game: LichessExplorerGame): string {
+  if (game.winner === 'white') return '1-0';
+  if (game.winner === 'black') return '0-1';
+  return '½-½';
+}
+
+interface TopGameRowProps {
+  game: LichessExplorerGame;
+  database: LichessDatabase;
+}
+
+function TopGameRow({ game, database }: TopGameRowProps) {
+  const loadExplorerGame = useConnectionStore((s) => s.loadExplorerGame);
+
+  return (
+    <div
+      className="explorer-game-row"
+      onClick={() => loadExplorerGame(game.id, database)}
+      title="Load this game onto the board"
+    >
+      <span className="game-players">
+        {game.white.name}
+        {game.white.rating > 0 && <span className="game-rating"> {game.white.rating}</span>}
+        {' – '}
+        {game.black.name}
+        {game.black.rating > 0 && <span className="game-rating"> {game.black.rating}</span>}
+      </span>
+      <span className="game-result">{formatGameResult(game)}</span>
+      {game.year > 0 && <span className="game-year">{game.year}</span>}
+    </div>
+  );
+}
+
 interface DatabasePanelProps {
   title: string;
+  database: LichessDatabase;
   result: ExplorerResult | null;
   isLoading: boolean;
   error: string | null;
 }
 
-function DatabasePanel({ title, result, isLoading, error }: DatabasePanelProps) {
+function DatabasePanel({ title, database, result, isLoading, error }: DatabasePanelProps) {
   const topMoves = getTopMoves(result, 8);
   const totalGames = result?.stats.totalGames ?? 0;
+  const topGames = result?.raw.topGames?.slice(0, MAX_TOP_GAMES_SHOWN) ?? [];
   
   return (
     <div className="database-panel">
@@ -132,6 +185,23 @@ function DatabasePanel({ title, result, isLoading, error }: DatabasePanelProps)
                 </div>
               </div>
             )}
+
+            {/* Notable games reaching this position */}
+            {topGames.length > 0 && (
+              <div className="explorer-games">
+                <div className="explorer-games-title">
+                  Top games
+                  {result.topGamesUnfiltered && (
+                    <span className="explorer-games-note" title="No stored top game matches the filters">
+                      {' '}· all games
+                    </span>
+                  )}
+                </div>
+                {topGames.map((game) => (
+                  <TopGameRow key={game.id} game={game} database={database} />
+                ))}
+              </div>
+            )}
           </>
         )}
         
@@ -180,22 +250,192 @@ function SourceToggle({ activeSource, localAvailable, localPositionCount, onTogg
   );
 }
 
+/**
+ * One-line summary of how a local database was built, for its tooltip
+ */
+function describeDatabase(db: LocalDatabaseInfo): string {
+  const parts = [db.kind === 'personal' ? 'Your games' : db.kind === 'lichess' ? 'Lichess games' : 'PGN games'];
+  if (db.gameCount !== undefined) parts.push(`${formatGameCount(db.gameCount)} games`);
+  if (db.positionCount !== undefined) parts.push(`${formatGameCount(db.positionCount)} positions`);
+  if (db.filters.minRating) parts.push(`rated ${db.filters.minRating}+`);
+  if (db.builtAt) parts.push(`built ${db.builtAt.slice(0, 10)}`);
+  if (db.sources.length > 0) parts.push(`from ${db.sources.join(', ')}`);
+  return parts.join(' · ');
+}
+
+interface LocalFiltersProps {
+  databases: LocalDatabaseInfo[];
+  selected: LocalDatabaseInfo | null;
+  playerFilter: LocalPlayerFilter;
+  onSelect: (id: string) => void;
+  onPlayerFilterChange: (filter: Partial<LocalPlayerFilter>) => void;
+}
+
+function LocalFilters({ databases, selected, playerFilter, onSelect, onPlayerFilterChange }: LocalFiltersProps) {
+  // Typed names are applied on Enter/blur, not on every keystroke
+  const [player, setPlayer] = useState(playerFilter.player ?? '');
+
+  useEffect(() => {
+    setPlayer(playerFilter.player ?? '');
+  }, [playerFilter.player]);
+
+  const commitPlayer = () => {
+    const trimmed = player.trim();
+    if (trimmed !== (playerFilter.player ?? '')) {
+      onPlayerFilterChange({ player: trimmed || undefined });
+    }
+  };
+
+  return (
+    <div className="explorer-local-filters">
+      <select
+        className="local-select local-database"
+        value={selected?.id ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        title={selected ? describeDatabase(selected) : 'Local database'}
+      >
+        {databases.map((db) => (
+          <option key={db.id} value={db.id} title={describeDatabase(db)}>{db.id}</option>
+        ))}
+      </select>
+      {selected?.players && (
+        <>
+          <input
+            className="local-player"
+            type="text"
+            placeholder="Player (all games)"
+            value={player}
+            onChange={(e) => setPlayer(e.target.value)}
+            onBlur={commitPlayer}
+            onKeyDown={(e) => e.key === 'Enter' && commitPlayer()}
+          />
+          <select
+            className="local-select"
+            value={playerFilter.color ?? ''}
+            onChange={(e) => onPlayerFilterChange({ color: (e.target.value || undefined) as LocalPlayerFilter['color'] })}
+            disabled={!playerFilter.player}
+            title={playerFilter.player ? 'Color played' : 'Enter a player to filter by color'}
+          >
+            <option value="">Both colors</option>
+            <option value="white">As White</option>
+            <option value="black">As Black</option>
+          </select>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Lichess rating buckets, lowest first (a bucket covers up to the next one)
+const RATING_BUCKETS: LichessRating[] = [400, 1000, 1200, 1400, 1600, 1800, 2000, 2200, 2500];
+
+const SPEEDS: Array<{ value: LichessSpeed; label: string }> = [
+  { value: 'ultraBullet', label: 'UltraBullet' },
+  { value: 'bullet', label: 'Bullet' },
+  { value: 'blitz', label: 'Blitz' },
+  { value: 'rapid', label: 'Rapid' },
+  { value: 'classical', label: 'Classical' },
+  { value: 'correspondence', label: 'Correspondence' },
+];
+
+/**
+ * Buckets from one rating to another (both optional), for the ratings filter
+ */
+function ratingRange(min: LichessRating | undefined, max: LichessRating | undefined): LichessRating[] | undefined {
+  if (min === undefined && max === undefined) return undefined;
+  return RATING_BUCKETS.filter((r) => (min === undefined || r >= min) && (max === undefined || r <= max));
+}
+
+interface GameFiltersProps {
+  filter: LocalGameFilter;
+  onChange: (filter: Partial<LocalGameFilter>) => void;
+}
+
+function GameFilters({ filter, onChange }: GameFiltersProps) {
+  const min = filter.ratings?.[0];
+  const max = filter.ratings?.at(-1);
+
+  const setRatings = (from: LichessRating | undefined, to: LichessRating | undefined) => {
+    onChange({ ratings: ratingRange(from, to) });
+  };
+
+  return (
+    <div className="explorer-local-filters explorer-game-filters">
+      <select
+        className="local-select"
+        value={min ?? ''}
+        onChange={(e) => setRatings(e.target.value ? (Number(e.target.value) as LichessRating) : undefined, max)}
+        title="Lowest rating"
+      >
+        <option value="">Any rating</option>
+        {RATING_BUCKETS.filter((r) => max === undefined || r <= max).map((r) => (
+          <option key={r} value={r}>From {r}</option>
+        ))}
+      </select>
+      <select
+        className="local-select"
+        value={max ?? ''}
+        onChange={(e) => setRatings(min, e.target.value ? (Number(e.target.value) as LichessRating) : undefined)}
+        title="Highest rating bucket (covers up to the next one)"
+      >
+        <option value="">No limit</option>
+        {RATING_BUCKETS.filter((r) => min === undefined || r >= min).map((r) => (
+          <option key={r} value={r}>To {r}s</option>
+        ))}
+      </select>
+      <select
+        className="local-select"
+        value={filter.speeds?.[0] ?? ''}
+        onChange={(e) => onChange({ speeds: e.target.value ? [e.target.value as LichessSpeed] : undefined })}
+        title="Time control"
+      >
+        <option value="">All speeds</option>
+        {SPEEDS.map(({ value, label }) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <input
+        className="local-month"
+        type="month"
+        value={filter.since ?? ''}
+        onChange={(e) => onChange({ since: e.target.value || undefined })}
+        title="Games since"
+      />
+      <input
+        className="local-month"
+        type="month"
+        value={filter.until ?? ''}
+        onChange={(e) => onChange({ until: e.target.value || undefined })}
+        title="Games until"
+      />
+    </div>
+  );
+}
+
 export function OpeningExplorer() {
   const fen = useBoardStore((s) => s.fen);
   const isConnected = useConnectionStore((s) => s.isConnected);
   const requestExplorer = useConnectionStore((s) => s.requestExplorer);
   const fetchExplorerStatus = useConnectionStore((s) => s.fetchExplorerStatus);
+  const selectLocalDatabase = useConnectionStore((s) => s.selectLocalDatabase);
   
   const { 
     activeSource,
     localAvailable,
     localPositionCount,
+    localDatabases,
+    selectedDatabase,
+    playerFilter,
+    gameFilter,
     mastersResult, lichessResult, localResult,
     mastersLoading, lichessLoading, localLoading,
     mastersError, lichessError, localError,
     lastQueriedFen,
     setActiveSource,
+    setPlayerFilter,
+    setGameFilter,
   } = useExplorerStore();
+  const selected = getSelectedDatabase({ localDatabases, selectedDatabase });
   
   const prevFenRef = useRef<string | null>(null);
   const prevSourceRef = useRef<ExplorerSource | null>(null);
@@ -245,6 +485,24 @@ export function OpeningExplorer() {
     }
   };
   
+  // Re-query after switching local database (the server applies the selection first)
+  const handleDatabaseSelect = (id: string) => {
+    selectLocalDatabase(id);
+    requestExplorer(fen, 'local');
+  };
+
+  // Re-query the local database when the player/color filter changes
+  const handlePlayerFilterChange = (filter: Partial<LocalPlayerFilter>) => {
+    setPlayerFilter(filter);
+    requestExplorer(fen, 'local');
+  };
+
+  // Re-query the local database when the rating/speed/month filter changes
+  const handleGameFilterChange = (filter: Partial<LocalGameFilter>) => {
+    setGameFilter(filter);
+    requestExplorer(fen, 'local');
+  };
+  
   // Get opening name from appropriate result
   const opening = activeSource === 'local' 
     ? localResult?.opening 
@@ -259,6 +517,19 @@ export function OpeningExplorer() {
         localPositionCount={localPositionCount}
         onToggle={handleSourceToggle}
       />
+
+      {activeSource === 'local' && localDatabases.length > 0 && (
+        <LocalFilters
+          databases={localDatabases}
+          selected={selected}
+          playerFilter={playerFilter}
+          onSelect={handleDatabaseSelect}
+          onPlayerFilterChange={handlePlayerFilterChange}
+        />
+      )}
+      {activeSource === 'local' && localDatabases.length > 0 && (
+        <GameFilters filter={gameFilter} onChange={handleGameFilterChange} />
+      )}
       
       {/* Opening name header */}
       {opening && (
@@ -272,7 +543,8 @@ export function OpeningExplorer() {
       {activeSource === 'local' ? (
         <div className="explorer-panels single">
           <DatabasePanel
-            title="Local Database"
+            title={selected?.players && playerFilter.player ? `Games of ${playerFilter.player}` : 'Local Database'}
+            database="local"
             result={localResult}
             isLoading={localLoading}
             error={localError}
@@ -282,12 +554,14 @@ export function OpeningExplorer() {
         <div className="explorer-panels">
           <DatabasePanel
             title="Masters"
+            database="masters"
             result={mastersResult}
             isLoading={mastersLoading}
             error={mastersError}
           />
           <DatabasePanel
             title="Lichess"
+            database="lichess"
             result={lichessResult}
             isLoading={lichessLoading}
             error={lichessError}
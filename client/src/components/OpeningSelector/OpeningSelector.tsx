@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useConnectionStore } from '../../stores/connectionStore';
-import { useOpeningStore } from '../../stores/openingStore';
+import { useOpeningStore, getOpeningSide } from '../../stores/openingStore';
+import { useBoardStore } from '../../stores/boardStore';
 import './OpeningSelector.css';
 
 // Debounce hook for search
@@ -29,6 +30,7 @@ export function OpeningSelector({ onSelect }: OpeningSelectorProps) {
   const loadOpeningByPgn = useConnectionStore((state) => state.loadOpeningByPgn);
   const searchOpenings = useConnectionStore((state) => state.searchOpenings);
   const isConnected = useConnectionStore((state) => state.isConnected);
+  const setOrientation = useBoardStore((state) => state.setOrientation);
   
   const searchResults = useOpeningStore((state) => state.searchResults);
   const isSearching = useOpeningStore((state) => state.isSearching);
@@ -61,11 +63,12 @@ export function OpeningSelector({ onSelect }: OpeningSelectorProps) {
 
   const handleSelect = useCallback((pgn: string, name: string) => {
     loadOpeningByPgn(pgn);
+    setOrientation(getOpeningSide(name));
     onSelect?.(name);
     setIsExpanded(false);
     setSearchQuery('');
     clearSearch();
-  }, [loadOpeningByPgn, onSelect, clearSearch]);
+  }, [loadOpeningByPgn, setOrientation, onSelect, clearSearch]);
   
   // Popular openings to show when no search query
   const popularOpenings = [
@@ -0,0 +1,187 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import type { OpeningTreeNode } from '@chess/shared';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useOpeningStore, getOpeningSide } from '../../stores/openingStore';
+import { useBoardStore } from '../../stores/boardStore';
+import { useExplorerStore, formatGameCount } from '../../stores/explorerStore';
+import './OpeningTree.css';
+
+/** Position part of a FEN (move counters differ between move orders) */
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/** Moves from the start as PGN, e.g. "1. d4 d5 2. Bf4" */
+function pgnOf(path: string[]): string {
+  return path.map((san, i) => (i % 2 === 0 ? `${i / 2 + 1}. ${san}` : san)).join(' ');
+}
+
+function StatsBar({ stats }: { stats: NonNullable<OpeningTreeNode['stats']> }) {
+  if (stats.games === 0) {
+    return <span className="tree-stats empty">no games</span>;
+  }
+  const percent = (count: number) => (count / stats.games) * 100;
+  return (
+    <span className="tree-stats">
+      <span className="tree-games">{formatGameCount(stats.games)}</span>
+      <span className="tree-result-bar">
+        <span className="tree-bar white" style={{ width: `${percent(stats.white)}%` }} />
+        <span className="tree-bar draw" style={{ width: `${percent(stats.draws)}%` }} />
+        <span className="tree-bar black" style={{ width: `${percent(stats.black)}%` }} />
+      </span>
+    </span>
+  );
+}
+
+export function OpeningTree() {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const listOpenings = useConnectionStore((state) => state.listOpenings);
+  const getOpeningTree = useConnectionStore((state) => state.getOpeningTree);
+  const loadOpeningByPgn = useConnectionStore((state) => state.loadOpeningByPgn);
+  const isConnected = useConnectionStore((state) => state.isConnected);
+  const library = useOpeningStore((state) => state.library);
+  const treeOpeningId = useOpeningStore((state) => state.treeOpeningId);
+  const tree = useOpeningStore((state) => state.tree);
+  const browseOpening = useOpeningStore((state) => state.browseOpening);
+  const boardFen = useBoardStore((state) => state.fen);
+  const setOrientation = useBoardStore((state) => state.setOrientation);
+  const activeSource = useExplorerStore((state) => state.activeSource);
+
+  // Stats come from the explorer source being shown
+  const database = activeSource === 'local' ? 'local' : 'lichess';
+  const opening = library.find((o) => o.id === treeOpeningId);
+  const currentKey = positionKey(boardFen);
+
+  useEffect(() => {
+    if (isExpanded && isConnected && library.length === 0) {
+      listOpenings();
+    }
+  }, [isExpanded, isConnected, library.length, listOpenings]);
+
+  // Refresh the stats when the explorer source changes
+  useEffect(() => {
+    if (treeOpeningId && isConnected) {
+      getOpeningTree(treeOpeningId, database);
+    }
+  }, [database]);
+
+  const handleBrowse = (openingId: string, name: string) => {
+    getOpeningTree(openingId, database);
+    setOrientation(getOpeningSide(name));
+  };
+
+  const renderMove = (node: OpeningTreeNode, path: string[], showNumber: boolean) => {
+    const ply = path.length - 1;
+    const number = Math.floor(ply / 2) + 1;
+    const isWhite = ply % 2 === 0;
+    const isCurrent = positionKey(node.fen) === currentKey;
+
+    return (
+      <div key={path.join(' ')} className="tree-move">
+        <div
+          className={`tree-move-row ${node.isMainLine ? 'main-line' : ''} ${isCurrent ? 'current' : ''}`}
+          onClick={() => loadOpeningByPgn(pgnOf(path))}
+          data-testid="tree-move"
+        >
+          <span className="tree-san">
+            {(isWhite || showNumber) && (
+              <span className="tree-move-number">{isWhite ? `${number}.` : `${number}...`}</span>
+            )}
+            {node.san}
+          </span>
+          {node.stats && <StatsBar stats={node.stats} />}
+        </div>
+        {node.comment && <div className="tree-comment">{node.comment}</div>}
+      </div>
+    );
+  };
+
+  // A line follows first children; the alternatives to a move branch off indented below it
+  const renderContinuation = (from: OpeningTreeNode, fromPath: string[], showFirstNumber: boolean): ReactNode[] => {
+    const elements: ReactNode[] = [];
+    let node = from;
+    let path = fromPath;
+    let showNumber = showFirstNumber;
+
+    while (node.children.length > 0) {
+      const [next, ...branches] = node.children;
+      const nextPath = [...path, next.san];
+      elements.push(renderMove(next, nextPath, showNumber));
+      showNumber = false;
+
+      if (branches.length > 0) {
+        elements.push(
+          <div key={`branches-${nextPath.join(' ')}`} className="tree-branches">
+            {branches.map((branch) => {
+              const branchPath = [...path, branch.san];
+              return (
+                <div key={branch.san} className="tree-branch">
+                  {renderMove(branch, branchPath, true)}
+                  {renderContinuation(branch, branchPath, false)}
+                </div>
+              );
+            })}
+          </div>
+        );
+        showNumber = true;
+      }
+
+      node = next;
+      path = nextPath;
+    }
+    return elements;
+  };
+
+  return (
+    <div className="opening-tree">
+      <button className="opening-tree-toggle" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="course-toggle-icon">{isExpanded ? '▼' : '▶'}</span>
+        <span className="course-toggle-text">Opening Courses</span>
+        {library.length > 0 && <span className="course-count">{library.length} openings</span>}
+      </button>
+
+      {isExpanded && (
+        <div className="opening-tree-content">
+          {!opening ? (
+            <div className="course-list">
+              {library.length === 0 && <div className="course-empty">Loading openings...</div>}
+              {library.map((o) => (
+                <div key={o.id} className="course-item" onClick={() => handleBrowse(o.id, o.name)}>
+                  <div className="course-header">
+                    <span className="course-eco">{o.eco}</span>
+                    <span className="course-name">{o.name}</span>
+                  </div>
+                  <div className="course-moves">{o.moves}</div>
+                  {o.themes && o.themes.length > 0 && (
+                    <div className="course-themes">
+                      {o.themes.map((theme) => (
+                        <span key={theme} className="course-theme">{theme}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="course-tree">
+              <div className="course-tree-header">
+                <button className="course-back-btn" onClick={() => browseOpening(null)} title="All openings">
+                  ←
+                </button>
+                <span className="course-eco">{opening.eco}</span>
+                <span className="course-name">{opening.name}</span>
+                {tree?.stats && <StatsBar stats={tree.stats} />}
+              </div>
+              {tree ? (
+                <div className="tree-lines">{renderContinuation(tree, [], true)}</div>
+              ) : (
+                <div className="course-empty">Loading tree...</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
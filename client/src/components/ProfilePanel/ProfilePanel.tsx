@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import type { StudentProfile } from '@chess/shared';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useProfileStore, getQuizScore } from '../../stores/profileStore';
+import { ConfirmModal } from '../ConfirmModal/ConfirmModal';
+import './ProfilePanel.css';
+
+// Quiz answers listed in the panel
+const RECENT_ANSWERS = 5;
+
+interface ProfileTextFieldProps {
+  label: string;
+  value: string;
+  placeholder: string;
+  multiline?: boolean;
+  onSave: (value: string) => void;
+}
+
+/**
+ * Text saved when the field loses focus (or on Enter for single lines)
+ */
+function ProfileTextField({ label, value, placeholder, multiline, onSave }: ProfileTextFieldProps) {
+  const [draft, setDraft] = useState(value);
+
+  // Follow updates made by the agent
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const save = () => {
+    if (draft.trim() !== value) onSave(draft.trim());
+  };
+
+  return (
+    <label className="profile-field">
+      <span className="profile-label">{label}</span>
+      {multiline ? (
+        <textarea
+          className="profile-input"
+          value={draft}
+          placeholder={placeholder}
+          rows={2}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+        />
+      ) : (
+        <input
+          className="profile-input"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        />
+      )}
+    </label>
+  );
+}
+
+function isEmpty(profile: StudentProfile): boolean {
+  return (
+    profile.openings.length === 0 &&
+    profile.mistakes.length === 0 &&
+    profile.quizAnswers.length === 0 &&
+    !profile.style &&
+    !profile.notes
+  );
+}
+
+export function ProfilePanel() {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const isConnected = useConnectionStore((s) => s.isConnected);
+  const fetchProfile = useConnectionStore((s) => s.fetchProfile);
+  const updateProfile = useConnectionStore((s) => s.updateProfile);
+  const resetProfile = useConnectionStore((s) => s.resetProfile);
+  const profile = useProfileStore((s) => s.profile);
+
+  useEffect(() => {
+    if (isExpanded && isConnected) {
+      fetchProfile();
+    }
+  }, [isExpanded, isConnected, fetchProfile]);
+
+  const score = profile ? getQuizScore(profile) : null;
+
+  return (
+    <div className="profile-panel">
+      <button className="profile-toggle" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="profile-toggle-icon">{isExpanded ? '▼' : '▶'}</span>
+        <span className="profile-toggle-text">Student Profile</span>
+        {score && score.total > 0 && (
+          <span className="profile-score" title="Recent quiz answers">
+            {score.correct}/{score.total} quiz
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="profile-content">
+          {!profile ? (
+            <div className="profile-empty">Loading profile...</div>
+          ) : (
+            <>
+              {isEmpty(profile) && (
+                <div className="profile-empty">
+                  The coach fills this in as you study - openings, quiz answers and mistakes to work on.
+                </div>
+              )}
+
+              <ProfileTextField
+                label="Style"
+                value={profile.style}
+                placeholder="e.g. Aggressive, likes gambits"
+                onSave={(style) => updateProfile({ style })}
+              />
+
+              {profile.openings.length > 0 && (
+                <div className="profile-section">
+                  <div className="profile-label">Openings</div>
+                  {profile.openings.map((opening) => (
+                    <div key={opening.name} className="profile-item" data-testid="profile-opening">
+                      <div className="profile-item-text">
+                        <span className="profile-item-title">{opening.name}</span>
+                        {opening.color && <span className={`profile-color ${opening.color}`}>{opening.color}</span>}
+                        {opening.notes && <div className="profile-item-detail">{opening.notes}</div>}
+                      </div>
+                      <button
+                        className="profile-remove-btn"
+                        onClick={() =>
+                          updateProfile({ openings: profile.openings.filter((o) => o !== opening) })
+                        }
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {profile.mistakes.length > 0 && (
+                <div className="profile-section">
+                  <div className="profile-label">Mistakes to work on</div>
+                  {profile.mistakes.map((mistake) => (
+                    <div key={mistake.description} className="profile-item" data-testid="profile-mistake">
+                      <div className="profile-item-text">
+                        <span className="profile-item-title">{mistake.description}</span>
+                        {mistake.count > 1 && <span className="profile-count">×{mistake.count}</span>}
+                        {mistake.example && <div className="profile-item-detail">{mistake.example}</div>}
+                      </div>
+                      <button
+                        className="profile-remove-btn"
+                        onClick={() =>
+                          updateProfile({ mistakes: profile.mistakes.filter((m) => m !== mistake) })
+                        }
+                        title="No longer a problem"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {profile.quizAnswers.length > 0 && (
+                <div className="profile-section">
+                  <div className="profile-label">
+                    Quiz answers
+                    <button className="profile-link-btn" onClick={() => updateProfile({ quizAnswers: [] })}>
+                      Clear
+                    </button>
+                  </div>
+                  {profile.quizAnswers
+                    .slice(-RECENT_ANSWERS)
+                    .reverse()
+                    .map((answer) => (
+                      <div key={answer.answeredAt} className="profile-quiz" data-testid="profile-quiz">
+                        <span className={`profile-quiz-mark ${answer.correct ? 'correct' : 'wrong'}`}>
+                          {answer.correct ? '✓' : '✗'}
+                        </span>
+                        <div className="profile-item-text">
+                          <span className="profile-item-title">{answer.question}</span>
+                          <div className="profile-item-detail">
+                            {answer.correct ? answer.answer : `${answer.answer} - answer: ${answer.correctAnswer}`}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              )}
+
+              <ProfileTextField
+                label="Notes"
+                value={profile.notes}
+                placeholder="Level, goals, how you like to learn"
+                multiline
+                onSave={(notes) => updateProfile({ notes })}
+              />
+
+              {!isEmpty(profile) && (
+                <button className="profile-reset-btn" onClick={() => setConfirmReset(true)}>
+                  Forget everything
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmReset}
+        title="Reset Profile"
+        message="The coach will forget your openings, quiz answers, mistakes and style. This cannot be undone."
+        confirmText="Reset"
+        variant="danger"
+        onConfirm={() => {
+          resetProfile();
+          setConfirmReset(false);
+        }}
+        onCancel={() => setConfirmReset(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RepertoireColor, RepertoireGap, RepertoireMove } from '@chess/shared';
+import { useBoardStore } from '../../stores/boardStore';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useRepertoireStore, getRepertoireMoves } from '../../stores/repertoireStore';
+import { useDrillStore } from '../../stores/drillStore';
+import { uciPromotion } from '../../utils/uci';
+import './RepertoirePanel.css';
+
+interface RepertoireMoveRowProps {
+  move: RepertoireMove;
+  color: RepertoireColor;
+  fen: string;
+}
+
+function RepertoireMoveRow({ move, color, fen }: RepertoireMoveRowProps) {
+  const makeMove = useConnectionStore((s) => s.makeMove);
+  const markRepertoireMove = useConnectionStore((s) => s.markRepertoireMove);
+  const removeRepertoireMove = useConnectionStore((s) => s.removeRepertoireMove);
+
+  const handlePlay = () => {
+    makeMove(move.uci.slice(0, 2), move.uci.slice(2, 4), uciPromotion(move.uci));
+  };
+
+  return (
+    <div className={`repertoire-move-row ${move.isMain ? 'main' : ''}`}>
+      <button className="repertoire-move-san" onClick={handlePlay} title="Play this move">
+        {move.san}
+      </button>
+      <span className={`repertoire-move-badge ${move.isMain ? 'main' : 'alt'}`}>
+        {move.isMain ? 'main' : 'alt'}
+      </span>
+      <div className="repertoire-move-actions">
+        <button
+          className="repertoire-action-btn"
+          onClick={() => markRepertoireMove(color, fen, move.san, !move.isMain)}
+          title={move.isMain ? 'Mark as alternative' : 'Mark as main move'}
+        >
+          {move.isMain ? '☆' : '★'}
+        </button>
+        <button
+          className="repertoire-action-btn remove"
+          onClick={() => removeRepertoireMove(color, fen, move.san)}
+          title="Remove this move and the lines after it"
+        >
+          ×
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Movetext for a line of SAN moves from the starting position
+ */
+function lineToPgn(moves: string[]): string {
+  return moves
+    .map((san, i) => (i % 2 === 0 ? `${i / 2 + 1}. ${san}` : san))
+    .join(' ');
+}
+
+interface RepertoireGapRowProps {
+  gap: RepertoireGap;
+}
+
+function RepertoireGapRow({ gap }: RepertoireGapRowProps) {
+  const loadGame = useConnectionStore((s) => s.loadGame);
+  const line = [...gap.line, gap.san];
+
+  return (
+    <button
+      className="repertoire-gap-row"
+      onClick={() => loadGame('pgn', lineToPgn(line))}
+      title={`${gap.games.toLocaleString()} games - load this position`}
+    >
+      <span className="repertoire-gap-line">{lineToPgn(line)}</span>
+      <span className="repertoire-gap-rate">{gap.playRate.toFixed(0)}%</span>
+    </button>
+  );
+}
+
+/**
+ * Download exported PGN as a file
+ */
+function downloadPgn(filename: string, pgn: string) {
+  const blob = new Blob([pgn], { type: 'application/x-chess-pgn' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function RepertoirePanel() {
+  const fen = useBoardStore((s) => s.fen);
+  const currentMoveIndex = useBoardStore((s) => s.currentMoveIndex);
+  const setOrientation = useBoardStore((s) => s.setOrientation);
+  const isConnected = useConnectionStore((s) => s.isConnected);
+  const fetchRepertoire = useConnectionStore((s) => s.fetchRepertoire);
+  const addLineToRepertoire = useConnectionStore((s) => s.addLineToRepertoire);
+  const exportRepertoire = useConnectionStore((s) => s.exportRepertoire);
+  const findRepertoireGaps = useConnectionStore((s) => s.findRepertoireGaps);
+  const startDrill = useConnectionStore((s) => s.startDrill);
+  const fetchDueCounts = useConnectionStore((s) => s.fetchDueCounts);
+  const dueCounts = useDrillStore((s) => s.dueCounts);
+  const drillError = useDrillStore((s) => s.error);
+
+  const {
+    activeColor,
+    repertoires,
+    exportedPgn,
+    gapReport,
+    isFindingGaps,
+    error,
+    setActiveColor,
+    setExportedPgn,
+  } = useRepertoireStore();
+
+  const [showGaps, setShowGaps] = useState(false);
+  const hasFetched = useRef(false);
+
+  // Fetch both repertoires once connected (reset on disconnect)
+  useEffect(() => {
+    if (!isConnected) {
+      hasFetched.current = false;
+      return;
+    }
+    if (!hasFetched.current) {
+      hasFetched.current = true;
+      fetchRepertoire('white');
+      fetchRepertoire('black');
+    }
+  }, [isConnected, fetchRepertoire]);
+
+  // Refresh review counts whenever a repertoire changes
+  useEffect(() => {
+    if (isConnected) {
+      fetchDueCounts();
+    }
+  }, [isConnected, repertoires, fetchDueCounts]);
+
+  // Download exported repertoire
+  useEffect(() => {
+    if (exportedPgn) {
+      downloadPgn(`${exportedPgn.color}-repertoire.pgn`, exportedPgn.pgn);
+      setExportedPgn(null);
+    }
+  }, [exportedPgn, setExportedPgn]);
+
+  const repertoire = repertoires[activeColor];
+  const moves = getRepertoireMoves(repertoire, fen);
+  const positionCount = repertoire ? Object.keys(repertoire.positions).length : 0;
+  const isOurTurn = (fen.split(' ')[1] === 'w') === (activeColor === 'white');
+  const counts = dueCounts?.[activeColor];
+  const toReview = counts ? counts.due + counts.new : 0;
+  const gaps = showGaps && gapReport?.color === activeColor ? gapReport : null;
+
+  const handleGaps = () => {
+    if (showGaps) {
+      setShowGaps(false);
+    } else {
+      setShowGaps(true);
+      findRepertoireGaps(activeColor);
+    }
+  };
+
+  return (
+    <div className="repertoire-panel">
+      <div className="repertoire-header">
+        <div className="repertoire-color-toggle">
+          {(['white', 'black'] as RepertoireColor[]).map((color) => (
+            <button
+              key={color}
+              className={`repertoire-color-btn ${activeColor === color ? 'active' : ''}`}
+              onClick={() => {
+                setActiveColor(color);
+                setOrientation(color);
+              }}
+            >
+              <span className={`repertoire-color-dot ${color}`} />
+              {color === 'white' ? 'White' : 'Black'}
+            </button>
+          ))}
+        </div>
+        <span className="repertoire-count" title="Positions in this repertoire">
+          {positionCount} pos
+        </span>
+      </div>
+
+      <div className="repertoire-context">
+        {showGaps ? 'Unprepared opponent replies' : isOurTurn ? 'Your move' : 'Prepared replies'}
+      </div>
+
+      <div className="repertoire-moves">
+        {showGaps ? (
+          isFindingGaps || !gaps ? (
+            <div className="repertoire-empty">Checking opponent replies...</div>
+          ) : gaps.gaps.length > 0 ? (
+            gaps.gaps.map((gap) => <RepertoireGapRow key={`${gap.fen}-${gap.san}`} gap={gap} />)
+          ) : (
+            <div className="repertoire-empty">
+              No replies above {gaps.minPlayRate}% without an answer
+            </div>
+          )
+        ) : moves.length > 0 ? (
+          moves.map((move) => (
+            <RepertoireMoveRow key={move.san} move={move} color={activeColor} fen={fen} />
+          ))
+        ) : (
+          <div className="repertoire-empty">No moves prepared here</div>
+        )}
+      </div>
+
+      {(error || drillError) && <div className="repertoire-error">{error || drillError}</div>}
+
+      <div className="repertoire-actions">
+        <button
+          className="repertoire-btn primary"
+          onClick={() => addLineToRepertoire(activeColor)}
+          disabled={!isConnected || currentMoveIndex === 0}
+          title="Add the moves up to the current position"
+        >
+          Add line
+        </button>
+        <button
+          className="repertoire-btn"
+          onClick={() => exportRepertoire(activeColor)}
+          disabled={!isConnected || positionCount === 0}
+        >
+          Export PGN
+        </button>
+        <button
+          className={`repertoire-btn ${showGaps ? 'active' : ''}`}
+          onClick={handleGaps}
+          disabled={!isConnected || positionCount === 0}
+          title="Find popular opponent replies you have not prepared"
+        >
+          Gaps
+        </button>
+        <button
+          className="repertoire-btn"
+          onClick={() => startDrill(activeColor)}
+          disabled={!isConnected || positionCount === 0}
+          title={counts ? `${counts.due} due, ${counts.new} new of ${counts.total} positions` : undefined}
+        >
+          Drill
+          {toReview > 0 && <span className="repertoire-due-badge">{toReview}</span>}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import type {
+  DatabaseSparringConfig,
+  EngineSparringConfig,
+  LichessRating,
+  LichessSpeed,
+  RepertoireColor,
+  SparringReply,
+  SparringState,
+} from '@chess/shared';
+import { useConnectionStore } from '../../stores/connectionStore';
+import { useBoardStore } from '../../stores/boardStore';
+import { useExplorerStore } from '../../stores/explorerStore';
+import { useSparringStore } from '../../stores/sparringStore';
+import './SparringPanel.css';
+
+// Strength choices - 0 plays at full strength
+const ELO_OPTIONS = [1320, 1600, 1800, 2000, 2200, 2500, 0];
+const MOVE_TIME_OPTIONS = [500, 1000, 2000, 5000];
+
+// Lichess rating bands, as explorer rating buckets
+const RATING_BANDS: Array<{ label: string; ratings: LichessRating[] }> = [
+  { label: 'All ratings', ratings: [] },
+  { label: '1000-1400', ratings: [1000, 1200] },
+  { label: '1400-1800', ratings: [1400, 1600] },
+  { label: '1800-2200', ratings: [1800, 2000] },
+  { label: '2200+', ratings: [2200, 2500] },
+];
+
+const SPEED_OPTIONS: Array<{ label: string; speeds: LichessSpeed[] }> = [
+  { label: 'All speeds', speeds: [] },
+  { label: 'Blitz', speeds: ['blitz'] },
+  { label: 'Rapid', speeds: ['rapid'] },
+  { label: 'Classical', speeds: ['classical'] },
+];
+
+type Opponent = SparringState['opponent'];
+type BookChoice = 'off' | 'masters' | 'lichess';
+
+const DATABASE_NAMES: Record<DatabaseSparringConfig['database'], string> = {
+  masters: 'Masters',
+  lichess: 'Lichess',
+  local: 'Local',
+};
+
+function describeEngine(config: EngineSparringConfig): string {
+  const strength = config.elo ? `${config.elo} Elo` : 'full strength';
+  return `Stockfish · ${strength} · ${config.moveTime / 1000}s`;
+}
+
+function describeDatabase(config: DatabaseSparringConfig): string {
+  const band = RATING_BANDS.find((b) => b.ratings.join() === (config.ratings ?? []).join());
+  const speed = SPEED_OPTIONS.find((s) => s.speeds.join() === (config.speeds ?? []).join());
+  const filters = config.database !== 'masters' ? [band?.label, speed?.label].filter(Boolean) : [];
+  return [`${DATABASE_NAMES[config.database]} games`, ...filters].join(' · ');
+}
+
+function describeReply(reply: SparringReply): string {
+  if (reply.source === 'book') {
+    return `${reply.san} · book ${Math.round(reply.playRate ?? 0)}%`;
+  }
+  return `${reply.san} · engine`;
+}
+
+function getStatus(state: SparringState, turn: RepertoireColor, isGameOver: boolean): string {
+  if (isGameOver) return 'Game over';
+  if (state.opponent === 'database' && state.leftDatabase) {
+    return `Out of the database after ${state.leftDatabase.ply} plies - you're on your own`;
+  }
+  if (state.thinking) return state.opponent === 'engine' ? 'Engine is thinking…' : 'Looking up games…';
+  return turn === state.config.color ? 'Your move' : 'Opponent to move';
+}
+
+export function SparringPanel() {
+  const sparring = useSparringStore((s) => s.sparring);
+  const error = useSparringStore((s) => s.error);
+  const turn = useBoardStore((s) => s.turn);
+  const isGameOver = useBoardStore((s) => s.isGameOver);
+  const localAvailable = useExplorerStore((s) => s.localAvailable);
+  const isConnected = useConnectionStore((s) => s.isConnected);
+  const startSparring = useConnectionStore((s) => s.startSparring);
+  const startDatabaseSparring = useConnectionStore((s) => s.startDatabaseSparring);
+  const stopSparring = useConnectionStore((s) => s.stopSparring);
+
+  const [opponent, setOpponent] = useState<Opponent>('engine');
+  const [color, setColor] = useState<RepertoireColor>('white');
+  const [elo, setElo] = useState(1600);
+  const [moveTime, setMoveTime] = useState(1000);
+  const [book, setBook] = useState<BookChoice>('masters');
+  const [database, setDatabase] = useState<DatabaseSparringConfig['database']>('lichess');
+  const [band, setBand] = useState(2);
+  const [speed, setSpeed] = useState(0);
+
+  const handleStart = () => {
+    if (opponent === 'engine') {
+      startSparring({
+        color,
+        moveTime,
+        elo: elo > 0 ? elo : undefined,
+        book: book === 'off' ? undefined : { database: book },
+      });
+    } else {
+      startDatabaseSparring({
+        color,
+        database,
+        ratings: RATING_BANDS[band].ratings,
+        speeds: SPEED_OPTIONS[speed].speeds,
+      });
+    }
+  };
+
+  if (sparring) {
+    const { lastReply } = sparring;
+    return (
+      <div className="sparring-panel active">
+        <div className="sparring-header">
+          <span className="sparring-title">
+            Sparring · You play {sparring.config.color === 'white' ? 'White' : 'Black'}
+          </span>
+          {sparring.opponent === 'engine' && sparring.config.book && (
+            <span className={`sparring-book ${sparring.inBook ? 'in-book' : ''}`}>
+              {sparring.inBook ? 'In book' : 'Out of book'}
+            </span>
+          )}
+        </div>
+        <div className="sparring-opponent">
+          {sparring.opponent === 'engine' ? describeEngine(sparring.config) : describeDatabase(sparring.config)}
+        </div>
+        <div
+          className={`sparring-status ${sparring.thinking ? 'thinking' : ''} ${
+            sparring.opponent === 'database' && sparring.leftDatabase ? 'left-database' : ''
+          }`}
+        >
+          {getStatus(sparring, turn === 'w' ? 'white' : 'black', isGameOver)}
+        </div>
+        {lastReply && <div className="sparring-last">Opponent played {describeReply(lastReply)}</div>}
+        {error && <div className="sparring-error">{error}</div>}
+        <div className="sparring-actions">
+          <button className="sparring-btn" onClick={stopSparring}>
+            Stop
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sparring-panel">
+      <div className="sparring-header">
+        <span className="sparring-title">Sparring</span>
+        <div className="sparring-toggle">
+          {(['engine', 'database'] as Opponent[]).map((choice) => (
+            <button
+              key={choice}
+              className={`sparring-toggle-btn ${opponent === choice ? 'active' : ''}`}
+              onClick={() => setOpponent(choice)}
+            >
+              {choice === 'engine' ? 'Engine' : 'Database'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="sparring-options">
+        <div className="sparring-toggle">
+          {(['white', 'black'] as RepertoireColor[]).map((side) => (
+            <button
+              key={side}
+              className={`sparring-toggle-btn ${color === side ? 'active' : ''}`}
+              onClick={() => setColor(side)}
+            >
+              {side === 'white' ? 'White' : 'Black'}
+            </button>
+          ))}
+        </div>
+        {opponent === 'engine' ? (
+          <>
+            <select
+              className="sparring-select"
+              value={elo}
+              onChange={(e) => setElo(parseInt(e.target.value, 10))}
+              title="Engine strength"
+            >
+              {ELO_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value > 0 ? `${value} Elo` : 'Full'}
+                </option>
+              ))}
+            </select>
+            <select
+              className="sparring-select"
+              value={moveTime}
+              onChange={(e) => setMoveTime(parseInt(e.target.value, 10))}
+              title="Think time per move"
+            >
+              {MOVE_TIME_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value / 1000}s
+                </option>
+              ))}
+            </select>
+            <select
+              className="sparring-select"
+              value={book}
+              onChange={(e) => setBook(e.target.value as BookChoice)}
+              title="Opening book"
+            >
+              <option value="off">No book</option>
+              <option value="masters">Masters book</option>
+              <option value="lichess">Lichess book</option>
+            </select>
+          </>
+        ) : (
+          <>
+            <select
+              className="sparring-select"
+              value={database}
+              onChange={(e) => setDatabase(e.target.value as DatabaseSparringConfig['database'])}
+              title="Games to sample moves from"
+            >
+              <option value="masters">Masters</option>
+              <option value="lichess">Lichess</option>
+              {localAvailable && <option value="local">Local</option>}
+            </select>
+            <select
+              className="sparring-select"
+              value={band}
+              onChange={(e) => setBand(parseInt(e.target.value, 10))}
+              disabled={database === 'masters'}
+              title="Opponent rating band"
+            >
+              {RATING_BANDS.map((option, i) => (
+                <option key={option.label} value={i}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="sparring-select"
+              value={speed}
+              onChange={(e) => setSpeed(parseInt(e.target.value, 10))}
+              disabled={database === 'masters'}
+              title="Time control"
+            >
+              {SPEED_OPTIONS.map((option, i) => (
+                <option key={option.label} value={i}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+      {error && <div className="sparring-error">{error}</div>}
+      <div className="sparring-actions">
+        <button className="sparring-btn primary" onClick={handleStart} disabled={!isConnected}>
+          Play from this position
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,17 @@
 import { create } from 'zustand';
-import type { AnalysisInfo, AnalysisLine, AnalysisComplete, EngineInfo, AnalysisOptions } from '@chess/shared';
+import type { AnalysisInfo, AnalysisLine, AnalysisComplete, AnalysisResult, EngineInfo, AnalysisOptions, EngineScore } from '@chess/shared';
+
+/** White-side evaluation of a position */
+export interface PositionEval {
+  score: EngineScore;
+  depth: number;
+  /** Live streaming lines, a remembered engine result, or the agent's analyze_position call */
+  source: 'live' | 'engine' | 'agent';
+  updatedAt: number;
+}
+
+// Positions remembered in the eval cache
+const EVAL_CACHE_SIZE = 500;
 
 interface AnalysisState {
   // Engine state
@@ -10,8 +22,9 @@ interface AnalysisState {
   isAnalyzing: boolean;
   currentFen: string | null;
   
-  // Streaming results
+  // Streaming results (linesFen is the position they belong to)
   lines: AnalysisLine[];
+  linesFen: string | null;
   currentDepth: number;
   hashfull: number;
   elapsed: number;
@@ -20,6 +33,9 @@ interface AnalysisState {
   bestMove: string | null;
   ponder: string | null;
   
+  // Latest known evaluation per position (keyed by evalCacheKey)
+  evalCache: Record<string, PositionEval>;
+  
   // Options
   options: AnalysisOptions;
   
@@ -31,6 +47,7 @@ interface AnalysisState {
   handleAnalysisInfo: (info: AnalysisInfo) => void;
   handleAnalysisComplete: (result: AnalysisComplete) => void;
   handleAnalysisError: (error: string) => void;
+  handleAgentAnalysis: (result: AnalysisResult) => void;
   startAnalysis: (fen: string) => void;
   stopAnalysis: () => void;
   setOptions: (options: Partial<AnalysisOptions>) => void;
@@ -51,11 +68,13 @@ export const useAnalysisStore = create<AnalysisState>((set, get) => ({
   isAnalyzing: false,
   currentFen: null,
   lines: [],
+  linesFen: null,
   currentDepth: 0,
   hashfull: 0,
   elapsed: 0,
   bestMove: null,
   ponder: null,
+  evalCache: {},
   options: DEFAULT_OPTIONS,
   error: null,
   
@@ -64,22 +83,26 @@ export const useAnalysisStore = create<AnalysisState>((set, get) => ({
   },
   
   handleAnalysisInfo: (info) => {
-    set({
+    set((state) => ({
       lines: info.lines,
+      linesFen: info.fen,
+      evalCache: cacheTopLine(state.evalCache, info.fen, info.lines),
       currentDepth: info.currentDepth,
       hashfull: info.hashfull,
       elapsed: info.elapsed,
       error: null,
-    });
+    }));
   },
   
   handleAnalysisComplete: (result) => {
-    set({
+    set((state) => ({
       isAnalyzing: false,
       lines: result.lines,
+      linesFen: result.fen,
+      evalCache: cacheTopLine(state.evalCache, result.fen, result.lines),
       bestMove: result.bestMove,
       ponder: result.ponder,
-    });
+    }));
   },
   
   handleAnalysisError: (error) => {
@@ -89,11 +112,28 @@ export const useAnalysisStore = create<AnalysisState>((set, get) => ({
     });
   },
   
+  handleAgentAnalysis: (result) => {
+    // Legacy results are in pawns from the side to move
+    const score: EngineScore =
+      result.mate !== null
+        ? { type: 'mate', value: result.mate }
+        : { type: 'cp', value: Math.round(result.score * 100) };
+    set((state) => ({
+      evalCache: cacheEval(state.evalCache, result.fen, {
+        score: toWhiteScore(score, result.fen),
+        depth: result.depth,
+        source: 'agent',
+        updatedAt: Date.now(),
+      }),
+    }));
+  },
+  
   startAnalysis: (fen) => {
     set({
       isAnalyzing: true,
       currentFen: fen,
       lines: [],
+      linesFen: null,
       currentDepth: 0,
       hashfull: 0,
       elapsed: 0,
@@ -118,6 +158,7 @@ export const useAnalysisStore = create<AnalysisState>((set, get) => ({
       isAnalyzing: false,
       currentFen: null,
       lines: [],
+      linesFen: null,
       currentDepth: 0,
       hashfull: 0,
       elapsed: 0,
@@ -128,4 +169,68 @@ export const useAnalysisStore = create<AnalysisState>((set, get) => ({
   },
 }));
 
+// Expose store for testing
+if (typeof window !== 'undefined') {
+  (window as any).__ZUSTAND_ANALYSIS_STORE__ = useAnalysisStore;
+}
+
+/**
+ * Cache key for a position: FEN without the move counters
+ */
+export function evalCacheKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Engine scores are from the side to move - flip them to White's side
+ */
+export function toWhiteScore(score: EngineScore, fen: string): EngineScore {
+  const isWhiteTurn = fen.split(' ')[1] !== 'b';
+  return isWhiteTurn ? score : { type: score.type, value: -score.value };
+}
+
+function cacheEval(cache: Record<string, PositionEval>, fen: string, entry: PositionEval): Record<string, PositionEval> {
+  const key = evalCacheKey(fen);
+  const next = { ...cache };
+  delete next[key];
+  next[key] = entry;
 
+  // Drop the oldest positions (insertion order) once the cache is full
+  const keys = Object.keys(next);
+  for (let i = 0; i < keys.length - EVAL_CACHE_SIZE; i++) {
+    delete next[keys[i]];
+  }
+  return next;
+}
+
+function topLine(lines: AnalysisLine[]): AnalysisLine | undefined {
+  return lines.find((line) => line.pv === 1) ?? lines[0];
+}
+
+function cacheTopLine(cache: Record<string, PositionEval>, fen: string, lines: AnalysisLine[]): Record<string, PositionEval> {
+  const line = topLine(lines);
+  if (!line) return cache;
+  return cacheEval(cache, fen, {
+    score: toWhiteScore(line.score, fen),
+    depth: line.depth,
+    source: 'engine',
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Freshest evaluation of a position: the live lines when they are for this
+ * position, otherwise the last engine or agent result remembered for it
+ */
+export function selectPositionEval(
+  state: Pick<AnalysisState, 'lines' | 'linesFen' | 'evalCache'>,
+  fen: string
+): PositionEval | null {
+  if (state.linesFen && evalCacheKey(state.linesFen) === evalCacheKey(fen)) {
+    const line = topLine(state.lines);
+    if (line) {
+      return { score: toWhiteScore(line.score, fen), depth: line.depth, source: 'live', updatedAt: Date.now() };
+    }
+  }
+  return state.evalCache[evalCacheKey(fen)] ?? null;
+}
@@ -1,14 +1,18 @@
 import { create } from 'zustand';
 import { Chess, Square, Move as ChessMove } from 'chess.js';
-import type { GameState, Move, Piece, PieceColor, PieceType, BoardArrow, SquareHighlight, BoardAnnotations, ArrowColor, HighlightColor } from '@chess/shared';
+import type { GameState, Move, MoveTreeNode, Piece, PieceColor, PieceType, BoardArrow, SquareHighlight, BoardAnnotations, BoardOrientation, ArrowColor, HighlightColor, VirtualMove } from '@chess/shared';
 import sounds from '../utils/sounds';
+import { useUrlStore } from './urlStore';
 
 interface VirtualState {
   isActive: boolean;
   baseFen: string;
   baseIndex: number;
-  virtualMoves: Move[];
+  title?: string;
+  virtualMoves: VirtualMove[];
   currentVirtualIndex: number;
+  /** Arrows/highlights for the whole line (moves with their own replace them) */
+  annotations?: BoardAnnotations;
 }
 
 interface AnimationState {
@@ -31,6 +35,13 @@ interface BoardState {
   isDraw: boolean;
   isGameOver: boolean;
   
+  // Variation tree
+  moveTree: MoveTreeNode[];
+  currentNodeId: string | null;
+  
+  // Last PGN exported by the server (full tree with comments and variations)
+  exportedPgn: string | null;
+  
   // UI state
   selectedSquare: string | null;
   legalMoves: string[];
@@ -45,6 +56,9 @@ interface BoardState {
   userArrows: BoardArrow[];
   userHighlights: SquareHighlight[];
   
+  // Side shown at the bottom of the board
+  orientation: BoardOrientation;
+  
   // Virtual/Analysis mode
   virtualState: VirtualState;
   
@@ -61,7 +75,14 @@ interface BoardState {
   getPieceAt: (square: string) => Piece | null;
   isLegalMove: (from: string, to: string) => boolean;
   navigateToMove: (index: number) => void;
+  navigateToNode: (nodeId: string) => void;
+  promoteVariation: (nodeId: string) => void;
+  deleteVariation: (nodeId: string) => void;
   setError: (error: string | null) => void;
+  setExportedPgn: (pgn: string | null) => void;
+  
+  // Show a position that is not part of the game (repertoire drill)
+  showDrillPosition: (fen: string, lastMove: Move | null) => void;
   
   // Annotations (from agent)
   setAnnotations: (annotations: BoardAnnotations) => void;
@@ -74,11 +95,16 @@ interface BoardState {
   toggleUserHighlight: (square: string, color?: HighlightColor) => void;
   clearUserAnnotations: () => void;
   
+  // Orientation
+  setOrientation: (orientation: BoardOrientation) => void;
+  flipBoard: () => void;
+  
   // Virtual mode
-  startVirtualMode: (baseFen: string, baseIndex: number) => void;
-  setVirtualMoves: (moves: Move[], annotations?: BoardAnnotations) => void;
+  startVirtualMode: (baseFen: string, baseIndex: number, title?: string) => void;
+  setVirtualMoves: (moves: VirtualMove[], annotations?: BoardAnnotations, baseFen?: string) => void;
   navigateVirtual: (index: number) => void;
-  exitVirtualMode: () => void;
+  /** navigate: false when the server ended the preview (it sends any game change itself) */
+  exitVirtualMode: (options?: { navigate?: boolean }) => void;
   
   // Animation
   startAnimation: (description?: string, totalMoves?: number) => void;
@@ -89,6 +115,42 @@ interface BoardState {
   previewMove: (from: string, to: string) => boolean;
 }
 
+/**
+ * Play the sound matching a move that was just made
+ */
+function playSoundForMove(move: Move, isCheck: boolean, isCheckmate: boolean) {
+  if (isCheckmate) {
+    sounds.gameOver();
+  } else if (isCheck) {
+    sounds.check();
+  } else if (move.san?.includes('O-O')) {
+    // Castling
+    sounds.castle();
+  } else if (move.san?.includes('=')) {
+    // Promotion
+    sounds.promotion();
+  } else if (move.captured) {
+    sounds.capture();
+  } else {
+    sounds.move();
+  }
+}
+
+/** Annotations to show after a number of virtual moves */
+function virtualAnnotationsAt(virtualState: VirtualState, index: number): BoardAnnotations {
+  const move = index > 0 ? virtualState.virtualMoves[index - 1] : undefined;
+  return move?.annotations || virtualState.annotations || { arrows: [], highlights: [] };
+}
+
+function findMoveTreeNode(nodes: MoveTreeNode[], id: string): MoveTreeNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findMoveTreeNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
 export const useBoardStore = create<BoardState>((set, get) => ({
   fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
   pgn: '',
@@ -101,6 +163,10 @@ export const useBoardStore = create<BoardState>((set, get) => ({
   isDraw: false,
   isGameOver: false,
   
+  moveTree: [],
+  currentNodeId: null,
+  exportedPgn: null,
+  
   selectedSquare: null,
   legalMoves: [],
   lastMove: null,
@@ -112,6 +178,8 @@ export const useBoardStore = create<BoardState>((set, get) => ({
   userArrows: [],
   userHighlights: [],
   
+  orientation: useUrlStore.getState().orientation,
+  
   virtualState: {
     isActive: false,
     baseFen: '',
@@ -151,22 +219,7 @@ export const useBoardStore = create<BoardState>((set, get) => ({
     const isForwardMove = state.currentMoveIndex > prevState.currentMoveIndex;
     
     if (isNewMove && isForwardMove && lastMoveData) {
-      // Determine sound to play based on move type
-      if (state.isCheckmate) {
-        sounds.gameOver();
-      } else if (state.isCheck) {
-        sounds.check();
-      } else if (lastMoveData.san?.includes('O-O')) {
-        // Castling
-        sounds.castle();
-      } else if (lastMoveData.san?.includes('=')) {
-        // Promotion
-        sounds.promotion();
-      } else if (lastMoveData.captured) {
-        sounds.capture();
-      } else {
-        sounds.move();
-      }
+      playSoundForMove(lastMoveData, state.isCheck, state.isCheckmate);
     } else if (isNewMove && !isForwardMove) {
       // Navigation backwards - subtle move sound
       sounds.move();
@@ -180,6 +233,12 @@ export const useBoardStore = create<BoardState>((set, get) => ({
     // Don't clear on navigation (ArrowLeft/ArrowRight) - arrows should persist during demos
     const isActualNewMove = state.history.length !== prevState.history.length;
     
+    // Moves loaded from an annotated PGN carry their own arrows/highlights
+    const nodeAnnotations =
+      state.currentNodeId && state.currentNodeId !== prevState.currentNodeId
+        ? findMoveTreeNode(state.moveTree, state.currentNodeId)?.annotations
+        : undefined;
+    
     set({
       fen: state.fen,
       pgn: state.pgn,
@@ -191,6 +250,8 @@ export const useBoardStore = create<BoardState>((set, get) => ({
       isStalemate: state.isStalemate,
       isDraw: state.isDraw,
       isGameOver: state.isGameOver,
+      moveTree: state.moveTree,
+      currentNodeId: state.currentNodeId,
       chess,
       lastMove,
       selectedSquare: null,
@@ -199,8 +260,8 @@ export const useBoardStore = create<BoardState>((set, get) => ({
       virtualState: virtualState.isActive ? { ...virtualState, isActive: false } : virtualState,
       // Clear annotations when a new move is made (by user or agent)
       // Keep them during navigation so agent demos work properly
-      arrows: isActualNewMove ? [] : prevState.arrows,
-      highlights: isActualNewMove ? [] : prevState.highlights,
+      arrows: nodeAnnotations ? nodeAnnotations.arrows : isActualNewMove ? [] : prevState.arrows,
+      highlights: nodeAnnotations ? nodeAnnotations.highlights : isActualNewMove ? [] : prevState.highlights,
       userArrows: isActualNewMove ? [] : prevState.userArrows,
       userHighlights: isActualNewMove ? [] : prevState.userHighlights,
     });
@@ -253,6 +314,54 @@ export const useBoardStore = create<BoardState>((set, get) => ({
     });
   },
   
+  navigateToNode: (nodeId) => {
+    import('./connectionStore').then(({ useConnectionStore }) => {
+      useConnectionStore.getState().navigateToNode(nodeId);
+    });
+  },
+  
+  promoteVariation: (nodeId) => {
+    import('./connectionStore').then(({ useConnectionStore }) => {
+      useConnectionStore.getState().promoteVariation(nodeId);
+    });
+  },
+  
+  deleteVariation: (nodeId) => {
+    import('./connectionStore').then(({ useConnectionStore }) => {
+      useConnectionStore.getState().deleteVariation(nodeId);
+    });
+  },
+  
+  setExportedPgn: (pgn) => {
+    set({ exportedPgn: pgn });
+  },
+  
+  showDrillPosition: (fen, lastMove) => {
+    const chess = new Chess();
+    chess.load(fen);
+    
+    const prevLastMove = get().lastMove;
+    const isNewMove =
+      lastMove !== null && (lastMove.from !== prevLastMove?.from || lastMove.to !== prevLastMove?.to);
+    if (isNewMove) {
+      playSoundForMove(lastMove, chess.isCheck(), chess.isCheckmate());
+    }
+    
+    set({
+      fen,
+      turn: chess.turn() as PieceColor,
+      isCheck: chess.isCheck(),
+      chess,
+      lastMove: lastMove ? { from: lastMove.from, to: lastMove.to } : null,
+      selectedSquare: null,
+      legalMoves: [],
+      arrows: [],
+      highlights: [],
+      userArrows: [],
+      userHighlights: [],
+    });
+  },
+  
   setError: (error) => {
     set({ error });
     // Play error sound and clear error after 3 seconds
@@ -346,25 +455,37 @@ export const useBoardStore = create<BoardState>((set, get) => ({
     set({ userArrows: [], userHighlights: [] });
   },
   
+  setOrientation: (orientation) => {
+    set({ orientation });
+  },
+  
+  flipBoard: () => {
+    set((state) => ({ orientation: state.orientation === 'white' ? 'black' : 'white' }));
+  },
+  
   // Virtual mode methods
-  startVirtualMode: (baseFen, baseIndex) => {
+  startVirtualMode: (baseFen, baseIndex, title) => {
     set({
       virtualState: {
         isActive: true,
         baseFen,
         baseIndex,
+        title,
         virtualMoves: [],
         currentVirtualIndex: 0,
       },
     });
   },
   
-  setVirtualMoves: (moves, annotations) => {
+  setVirtualMoves: (moves, annotations, baseFen) => {
     const { virtualState, fen: currentFen } = get();
     
+    // Moves of a preview that was left, or of one from a position the game has moved on from
+    if (baseFen && (!virtualState.isActive || baseFen !== virtualState.baseFen)) return;
+    
     // Build virtual positions by applying moves
     const chess = new Chess(virtualState.baseFen || currentFen);
-    const validMoves: Move[] = [];
+    const validMoves: VirtualMove[] = [];
     
     for (const move of moves) {
       try {
@@ -376,6 +497,8 @@ export const useBoardStore = create<BoardState>((set, get) => ({
             san: result.san,
             piece: result.piece as PieceType,
             captured: result.captured as PieceType | undefined,
+            comment: move.comment,
+            annotations: move.annotations,
           });
         }
       } catch {
@@ -384,17 +507,26 @@ export const useBoardStore = create<BoardState>((set, get) => ({
       }
     }
     
+    // A line played one move at a time sounds like a game
+    if (validMoves.length === virtualState.virtualMoves.length + 1) {
+      playSoundForMove(validMoves[validMoves.length - 1], chess.isCheck(), chess.isCheckmate());
+    }
+    
+    const nextVirtualState: VirtualState = {
+      ...virtualState,
+      isActive: true,
+      virtualMoves: validMoves,
+      currentVirtualIndex: validMoves.length,
+      annotations,
+    };
+    const shown = virtualAnnotationsAt(nextVirtualState, validMoves.length);
+    
     set({
-      virtualState: {
-        ...virtualState,
-        isActive: true,
-        virtualMoves: validMoves,
-        currentVirtualIndex: validMoves.length,
-      },
+      virtualState: nextVirtualState,
       fen: chess.fen(),
       chess,
-      arrows: annotations?.arrows || [],
-      highlights: annotations?.highlights || [],
+      arrows: shown.arrows,
+      highlights: shown.highlights,
     });
   },
   
@@ -412,6 +544,8 @@ export const useBoardStore = create<BoardState>((set, get) => ({
       chess.move(move.san || { from: move.from, to: move.to });
     }
     
+    const shown = virtualAnnotationsAt(virtualState, clampedIndex);
+    
     set({
       virtualState: {
         ...virtualState,
@@ -419,10 +553,12 @@ export const useBoardStore = create<BoardState>((set, get) => ({
       },
       fen: chess.fen(),
       chess,
+      arrows: shown.arrows,
+      highlights: shown.highlights,
     });
   },
   
-  exitVirtualMode: () => {
+  exitVirtualMode: (options = {}) => {
     const { virtualState } = get();
     if (!virtualState.isActive) return;
     
@@ -443,6 +579,8 @@ export const useBoardStore = create<BoardState>((set, get) => ({
       highlights: [],
     });
     
+    if (options.navigate === false) return;
+    
     // Trigger navigation back to original position
     import('./connectionStore').then(({ useConnectionStore }) => {
       useConnectionStore.getState().navigateToMove(virtualState.baseIndex);
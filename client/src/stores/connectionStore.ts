@@ -1,11 +1,16 @@
 import { create } from 'zustand';
 import { io, Socket } from 'socket.io-client';
-import type { ServerToClientEvents, ClientToServerEvents, GameState, Move, ConversationMessage, StreamChunk, BoardAnnotations, ToolCallEvent, ThinkingEvent, PauseEvent, MultipleChoiceEvent, ReasoningModeEvent, AIModelId, AIModel, PromptStyleId, SessionData, LichessDatabase, ExplorerResult, AgentSettings, ExplorerStatus, AnalysisInfo, AnalysisComplete, EngineInfo, OpeningSearchResult } from '@chess/shared';
+import type { ServerToClientEvents, ClientToServerEvents, GameState, Move, VirtualMove, ConversationMessage, StreamChunk, BoardAnnotations, BoardOrientation, ToolCallEvent, ThinkingEvent, PauseEvent, MultipleChoiceEvent, ReasoningModeEvent, AIModelId, AIModel, PromptStyleId, SessionData, ExplorerDatabaseId, PieceType, LocalDatabaseInfo, LocalPlayerFilter, LocalGameFilter, ExplorerResult, AgentSettings, ExplorerStatus, AnalysisInfo, AnalysisComplete, AnalysisResult, EngineInfo, OpeningSearchResult, OpeningLine, OpeningTreeNode, Repertoire, RepertoireColor, RepertoireGapOptions, RepertoireGapReport, DrillState, DrillDueCounts, GameReviewProgress, GameReviewSummary, EngineSparringConfig, DatabaseSparringConfig, SparringState, StudentProfile, StudentProfileUpdate } from '@chess/shared';
 import { useBoardStore } from './boardStore';
 import { useConversationStore } from './conversationStore';
-import { useExplorerStore } from './explorerStore';
+import { useExplorerStore, getSelectedDatabase } from './explorerStore';
 import { useAnalysisStore } from './analysisStore';
 import { useOpeningStore } from './openingStore';
+import { useRepertoireStore } from './repertoireStore';
+import { useDrillStore } from './drillStore';
+import { useSparringStore } from './sparringStore';
+import { useReviewStore } from './reviewStore';
+import { useProfileStore } from './profileStore';
 
 type ChessSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
@@ -51,6 +56,13 @@ function clearStoredSessionId(): void {
   }
 }
 
+// Filters for local requests - the player filter only when the selected database indexed players
+function localFilter(): LocalPlayerFilter & LocalGameFilter {
+  const explorerStore = useExplorerStore.getState();
+  const playerFilter = getSelectedDatabase(explorerStore)?.players ? explorerStore.playerFilter : {};
+  return { ...explorerStore.gameFilter, ...playerFilter };
+}
+
 interface ConnectionState {
   socket: ChessSocket | null;
   isConnected: boolean;
@@ -74,13 +86,20 @@ interface ConnectionState {
   loadGame: (type: 'fen' | 'pgn', data: string) => void;
   loadOpening: (openingId: string) => void;
   loadOpeningByPgn: (pgn: string) => void;
-  makeMove: (from: string, to: string, promotion?: string) => void;
+  makeMove: (from: string, to: string, promotion?: PieceType) => void;
   navigateToMove: (index: number) => void;
+  navigateToNode: (nodeId: string) => void;
+  promoteVariation: (nodeId: string) => void;
+  deleteVariation: (nodeId: string) => void;
+  exportPgn: () => void;
   resetGame: () => void;
   resetSession: () => void;
   
   // Opening search actions
   searchOpenings: (query: string) => void;
+  // Curated opening library
+  listOpenings: () => void;
+  getOpeningTree: (openingId: string, database?: ExplorerDatabaseId) => void;
   
   // Virtual mode actions
   exitVirtualMode: () => void;
@@ -96,8 +115,38 @@ interface ConnectionState {
   fetchModels: () => void;
   
   // Explorer actions
-  requestExplorer: (fen?: string, database?: LichessDatabase) => void;
+  requestExplorer: (fen?: string, database?: ExplorerDatabaseId) => void;
   fetchExplorerStatus: () => void;
+  selectLocalDatabase: (id: string) => void;
+  loadExplorerGame: (id: string, database: ExplorerDatabaseId) => void;
+  
+  // Repertoire actions
+  fetchRepertoire: (color: RepertoireColor) => void;
+  addLineToRepertoire: (color: RepertoireColor) => void;
+  markRepertoireMove: (color: RepertoireColor, fen: string, san: string, isMain: boolean) => void;
+  removeRepertoireMove: (color: RepertoireColor, fen: string, san: string) => void;
+  exportRepertoire: (color: RepertoireColor) => void;
+  findRepertoireGaps: (color: RepertoireColor, options?: RepertoireGapOptions) => void;
+  
+  // Drill actions
+  startDrill: (color: RepertoireColor) => void;
+  nextDrillLine: () => void;
+  stopDrill: () => void;
+  fetchDueCounts: () => void;
+  
+  // Sparring actions
+  startSparring: (config: EngineSparringConfig) => void;
+  startDatabaseSparring: (config: DatabaseSparringConfig) => void;
+  stopSparring: () => void;
+  
+  // Student profile actions
+  fetchProfile: () => void;
+  updateProfile: (update: StudentProfileUpdate) => void;
+  resetProfile: () => void;
+  
+  // Game review actions
+  startGameReview: (depth?: number) => void;
+  cancelGameReview: () => void;
   
   // Agent settings actions
   setThinkingEnabled: (enabled: boolean) => void;
@@ -166,6 +215,10 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       console.log('Session restored:', data.sessionId);
       set({ sessionId: data.sessionId, isConnected: true, isConnecting: false });
       storeSessionId(data.sessionId);
+      // A drill, game review or sparring game does not survive reconnecting
+      useDrillStore.getState().endDrill();
+      useReviewStore.getState().reset();
+      useSparringStore.getState().setSparringState(null);
       useBoardStore.getState().setGameState(data.gameState);
     });
     
@@ -173,6 +226,9 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       console.log('Session created:', sessionId);
       set({ sessionId, isConnected: true, isConnecting: false });
       storeSessionId(sessionId);
+      useDrillStore.getState().endDrill();
+      useReviewStore.getState().reset();
+      useSparringStore.getState().setSparringState(null);
     });
     
     newSocket.on('disconnect', () => {
@@ -186,11 +242,14 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
     });
     
     // Game state handlers
+    // (the board shows the drill while one is running; the game is restored when it stops)
     newSocket.on('game:state', (state: GameState) => {
+      if (useDrillStore.getState().isActive) return;
       useBoardStore.getState().setGameState(state);
     });
     
     newSocket.on('game:move', (move: Move, state: GameState) => {
+      if (useDrillStore.getState().isActive) return;
       useBoardStore.getState().setGameState(state);
     });
     
@@ -198,6 +257,10 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       useBoardStore.getState().setError(error);
     });
     
+    newSocket.on('game:pgn', (pgn: string) => {
+      useBoardStore.getState().setExportedPgn(pgn);
+    });
+    
     // Opening handlers
     newSocket.on('opening:searchResults', (results: OpeningSearchResult[]) => {
       useOpeningStore.getState().setSearchResults(results);
@@ -207,6 +270,14 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       useOpeningStore.getState().setCurrentOpening(opening);
     });
     
+    newSocket.on('opening:library', (openings: OpeningLine[]) => {
+      useOpeningStore.getState().setLibrary(openings);
+    });
+    
+    newSocket.on('opening:tree', (tree: OpeningTreeNode, openingId: string) => {
+      useOpeningStore.getState().setTree(tree, openingId);
+    });
+    
     // Conversation handlers
     newSocket.on('conversation:message', (message: ConversationMessage) => {
       useConversationStore.getState().addMessage(message);
@@ -280,21 +351,25 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       useBoardStore.getState().setAnnotations(annotations);
     });
     
+    newSocket.on('board:orientation', (orientation: BoardOrientation) => {
+      useBoardStore.getState().setOrientation(orientation);
+    });
+    
     newSocket.on('board:clearAnnotations', () => {
       useBoardStore.getState().clearAnnotations();
     });
     
     // Virtual mode handlers
-    newSocket.on('virtual:start', (baseFen: string, baseIndex: number) => {
-      useBoardStore.getState().startVirtualMode(baseFen, baseIndex);
+    newSocket.on('virtual:start', (baseFen: string, baseIndex: number, title?: string) => {
+      useBoardStore.getState().startVirtualMode(baseFen, baseIndex, title);
     });
     
-    newSocket.on('virtual:moves', (moves: Move[], annotations?: BoardAnnotations) => {
-      useBoardStore.getState().setVirtualMoves(moves, annotations);
+    newSocket.on('virtual:moves', (moves: VirtualMove[], annotations?: BoardAnnotations, baseFen?: string) => {
+      useBoardStore.getState().setVirtualMoves(moves, annotations, baseFen);
     });
     
     newSocket.on('virtual:end', () => {
-      useBoardStore.getState().exitVirtualMode();
+      useBoardStore.getState().exitVirtualMode({ navigate: false });
     });
     
     // Animation handlers
@@ -312,25 +387,27 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
     });
     
     // Explorer handlers
-    newSocket.on('explorer:result', ({ result, database }: { result: ExplorerResult; database: LichessDatabase }) => {
+    // Local results come back as 'local' or as a database id (e.g. from agent tools);
+    // only the selected database is shown
+    newSocket.on('explorer:result', ({ result, database }: { result: ExplorerResult; database: ExplorerDatabaseId }) => {
       const explorerStore = useExplorerStore.getState();
       if (database === 'masters') {
         explorerStore.setMastersResult(result);
-      } else if (database === 'local') {
-        explorerStore.setLocalResult(result);
-      } else {
+      } else if (database === 'lichess') {
         explorerStore.setLichessResult(result);
+      } else if (database === 'local' || database === explorerStore.selectedDatabase) {
+        explorerStore.setLocalResult(result);
       }
     });
     
-    newSocket.on('explorer:error', ({ error, database }: { error: string; database: LichessDatabase }) => {
+    newSocket.on('explorer:error', ({ error, database }: { error: string; database: ExplorerDatabaseId }) => {
       const explorerStore = useExplorerStore.getState();
       if (database === 'masters') {
         explorerStore.setMastersError(error);
-      } else if (database === 'local') {
-        explorerStore.setLocalError(error);
-      } else {
+      } else if (database === 'lichess') {
         explorerStore.setLichessError(error);
+      } else {
+        explorerStore.setLocalError(error);
       }
     });
     
@@ -338,6 +415,54 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       useExplorerStore.getState().setExplorerStatus(status);
     });
     
+    newSocket.on('explorer:databases', ({ databases, selected }: { databases: LocalDatabaseInfo[]; selected: string | null }) => {
+      useExplorerStore.getState().setLocalDatabases(databases, selected);
+    });
+    
+    // Repertoire handlers
+    newSocket.on('repertoire:data', (repertoire: Repertoire) => {
+      useRepertoireStore.getState().setRepertoire(repertoire);
+    });
+    
+    newSocket.on('repertoire:pgn', (data: { color: RepertoireColor; pgn: string }) => {
+      useRepertoireStore.getState().setExportedPgn(data);
+    });
+    
+    newSocket.on('repertoire:gaps', (report: RepertoireGapReport) => {
+      useRepertoireStore.getState().setGapReport(report);
+    });
+    
+    newSocket.on('repertoire:error', (error: string) => {
+      useRepertoireStore.getState().setError(error);
+    });
+    
+    // Drill handlers
+    newSocket.on('drill:state', (state: DrillState) => {
+      useDrillStore.getState().setDrillState(state);
+    });
+    
+    newSocket.on('drill:dueCounts', (counts: Record<RepertoireColor, DrillDueCounts>) => {
+      useDrillStore.getState().setDueCounts(counts);
+    });
+    
+    newSocket.on('drill:error', (error: string) => {
+      useDrillStore.getState().setError(error);
+    });
+    
+    // Sparring handlers
+    newSocket.on('sparring:state', (state: SparringState | null) => {
+      useSparringStore.getState().setSparringState(state);
+    });
+    
+    newSocket.on('sparring:error', (error: string) => {
+      useSparringStore.getState().setError(error);
+    });
+    
+    // Student profile handlers
+    newSocket.on('profile:data', (profile: StudentProfile) => {
+      useProfileStore.getState().setProfile(profile);
+    });
+    
     // Analysis handlers
     newSocket.on('engine:ready', (info: EngineInfo) => {
       useAnalysisStore.getState().setEngineReady(info);
@@ -355,6 +480,24 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       useAnalysisStore.getState().handleAnalysisError(error);
     });
     
+    // One-shot results (the agent's analyze_position tool)
+    newSocket.on('analysis:result', (result: AnalysisResult) => {
+      useAnalysisStore.getState().handleAgentAnalysis(result);
+    });
+    
+    // Game review handlers
+    newSocket.on('review:progress', (progress: GameReviewProgress) => {
+      useReviewStore.getState().handleProgress(progress);
+    });
+    
+    newSocket.on('review:complete', (summary: GameReviewSummary) => {
+      useReviewStore.getState().handleComplete(summary);
+    });
+    
+    newSocket.on('review:error', (error: string) => {
+      useReviewStore.getState().setError(error);
+    });
+    
     set({ socket: newSocket });
   },
   
@@ -369,6 +512,7 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
   loadGame: (type, data) => {
     const { socket } = get();
     if (socket?.connected) {
+      useReviewStore.getState().reset();
       socket.emit('game:load', { type, data });
     }
   },
@@ -415,10 +559,39 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
     }
   },
   
+  listOpenings: () => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('opening:list');
+    }
+  },
+  
+  getOpeningTree: (openingId, database) => {
+    const { socket } = get();
+    useOpeningStore.getState().browseOpening(openingId);
+    if (socket?.connected) {
+      socket.emit('opening:getTree', openingId, database);
+    }
+  },
+  
   makeMove: (from, to, promotion) => {
     const { socket } = get();
     if (socket?.connected) {
-      socket.emit('game:move', { from, to, promotion: promotion as any });
+      // During a drill, board moves are answers to the drill, not game moves
+      const { isActive, drillState } = useDrillStore.getState();
+      if (isActive) {
+        if (drillState?.status === 'awaitingUser') {
+          socket.emit('drill:move', { from, to, promotion });
+        }
+        return;
+      }
+      // While sparring, the engine makes the moves for its side
+      const { sparring } = useSparringStore.getState();
+      const turn = useBoardStore.getState().turn === 'w' ? 'white' : 'black';
+      if (sparring && turn !== sparring.config.color) {
+        return;
+      }
+      socket.emit('game:move', { from, to, promotion });
     }
   },
   
@@ -429,9 +602,38 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
     }
   },
   
+  navigateToNode: (nodeId) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('game:navigate', nodeId);
+    }
+  },
+  
+  promoteVariation: (nodeId) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('game:promoteVariation', nodeId);
+    }
+  },
+  
+  deleteVariation: (nodeId) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('game:deleteVariation', nodeId);
+    }
+  },
+  
+  exportPgn: () => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('game:exportPgn');
+    }
+  },
+  
   resetGame: () => {
     const { socket } = get();
     if (socket?.connected) {
+      useReviewStore.getState().reset();
       socket.emit('game:reset');
     }
   },
@@ -524,18 +726,20 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
         // Request specific database
         if (database === 'masters') {
           explorerStore.setMastersLoading(true);
-        } else if (database === 'local') {
-          explorerStore.setLocalLoading(true);
-        } else {
+          socket.emit('explorer:request', { fen, database });
+        } else if (database === 'lichess') {
           explorerStore.setLichessLoading(true);
+          socket.emit('explorer:request', { fen, database });
+        } else {
+          explorerStore.setLocalLoading(true);
+          socket.emit('explorer:request', { fen, database, ...localFilter() });
         }
-        socket.emit('explorer:request', { fen, database });
       } else {
         // Request databases based on active source
         const activeSource = explorerStore.activeSource;
         if (activeSource === 'local' && explorerStore.localAvailable) {
           explorerStore.setLocalLoading(true);
-          socket.emit('explorer:request', { fen, database: 'local' });
+          socket.emit('explorer:request', { fen, database: 'local', ...localFilter() });
         } else {
           // Default: request both remote databases
           explorerStore.setMastersLoading(true);
@@ -553,6 +757,158 @@ const connectionStoreApi = create<ConnectionState>((set, get) => ({
       socket.emit('explorer:getStatus');
     }
   },
+
+  selectLocalDatabase: (id) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('explorer:selectDatabase', id);
+    }
+  },
+
+  loadExplorerGame: (id, database) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('explorer:loadGame', { id, database });
+    }
+  },
+  
+  fetchRepertoire: (color) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('repertoire:get', color);
+    }
+  },
+  
+  addLineToRepertoire: (color) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('repertoire:addLine', color);
+    }
+  },
+  
+  markRepertoireMove: (color, fen, san, isMain) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('repertoire:markMove', { color, fen, san, isMain });
+    }
+  },
+  
+  removeRepertoireMove: (color, fen, san) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('repertoire:removeMove', { color, fen, san });
+    }
+  },
+  
+  exportRepertoire: (color) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('repertoire:exportPgn', color);
+    }
+  },
+  
+  findRepertoireGaps: (color, options) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      useRepertoireStore.getState().setFindingGaps(true);
+      socket.emit('repertoire:findGaps', { color, options });
+    }
+  },
+  
+  startDrill: (color) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('drill:start', color);
+      // Drill from the repertoire owner's side
+      useBoardStore.getState().setOrientation(color);
+    }
+  },
+  
+  nextDrillLine: () => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('drill:next');
+    }
+  },
+  
+  stopDrill: () => {
+    const { socket } = get();
+    useDrillStore.getState().endDrill();
+    if (socket?.connected) {
+      // Server answers with the game state to put the real board back
+      socket.emit('drill:stop');
+      socket.emit('drill:getDueCounts');
+    }
+  },
+  
+  fetchDueCounts: () => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('drill:getDueCounts');
+    }
+  },
+  
+  startSparring: (config) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      // Play from our own side of the board
+      useBoardStore.getState().setOrientation(config.color);
+      socket.emit('sparring:start', config);
+    }
+  },
+  
+  startDatabaseSparring: (config) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      useBoardStore.getState().setOrientation(config.color);
+      socket.emit('sparring:startDatabase', config);
+    }
+  },
+  
+  stopSparring: () => {
+    const { socket } = get();
+    useSparringStore.getState().setSparringState(null);
+    if (socket?.connected) {
+      socket.emit('sparring:stop');
+    }
+  },
+  
+  fetchProfile: () => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('profile:get');
+    }
+  },
+  
+  updateProfile: (update) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('profile:update', update);
+    }
+  },
+  
+  resetProfile: () => {
+    const { socket } = get();
+    if (socket?.connected) {
+      socket.emit('profile:reset');
+    }
+  },
+  
+  startGameReview: (depth) => {
+    const { socket } = get();
+    if (socket?.connected) {
+      useReviewStore.getState().startReview();
+      socket.emit('review:start', depth ? { depth } : {});
+    }
+  },
+  
+  cancelGameReview: () => {
+    const { socket } = get();
+    useReviewStore.getState().reset();
+    if (socket?.connected) {
+      socket.emit('review:cancel');
+    }
+  },
   
   setThinkingEnabled: (enabled) => {
     const { socket } = get();
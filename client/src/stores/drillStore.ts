@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import type { DrillDueCounts, DrillState, RepertoireColor } from '@chess/shared';
+import sounds from '../utils/sounds';
+import { useBoardStore } from './boardStore';
+
+interface DrillStoreState {
+  // Whether a drill is running (the board shows the drill instead of the game)
+  isActive: boolean;
+  
+  // Latest drill state from the server
+  drillState: DrillState | null;
+  
+  // Review counts per repertoire
+  dueCounts: Record<RepertoireColor, DrillDueCounts> | null;
+  
+  error: string | null;
+  
+  // Actions
+  setDrillState: (state: DrillState) => void;
+  setDueCounts: (counts: Record<RepertoireColor, DrillDueCounts>) => void;
+  setError: (error: string | null) => void;
+  endDrill: () => void;
+}
+
+export const useDrillStore = create<DrillStoreState>((set, get) => ({
+  isActive: false,
+  drillState: null,
+  dueCounts: null,
+  error: null,
+  
+  setDrillState: (state) => {
+    const prev = get().drillState;
+    
+    // A wrong move is taken back by the server - flag it like an illegal move
+    const isNewFeedback = state.feedback !== null && state.moves.length === (prev?.moves.length ?? 0);
+    if (isNewFeedback && state.feedback?.result !== 'correct') {
+      sounds.illegal();
+    }
+    
+    useBoardStore.getState().showDrillPosition(state.fen, state.lastMove);
+    
+    if (state.status === 'complete' && prev?.status !== 'complete') {
+      sounds.notify();
+    }
+    
+    set({ isActive: true, drillState: state, error: null });
+  },
+  
+  setDueCounts: (counts) => set({ dueCounts: counts }),
+  
+  setError: (error) => set({ error }),
+  
+  endDrill: () => set({ isActive: false, drillState: null, error: null }),
+}));
+
+// Expose store for testing
+if (typeof window !== 'undefined') {
+  (window as any).__ZUSTAND_DRILL_STORE__ = useDrillStore;
+}
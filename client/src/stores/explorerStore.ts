@@ -1,5 +1,12 @@
 import { create } from 'zustand';
-import type { ExplorerResult, LichessDatabase, ExplorerMoveStats, ExplorerStatus } from '@chess/shared';
+import type {
+  ExplorerResult,
+  ExplorerMoveStats,
+  ExplorerStatus,
+  LocalDatabaseInfo,
+  LocalPlayerFilter,
+  LocalGameFilter,
+} from '@chess/shared';
 
 export type ExplorerSource = 'remote' | 'local';
 
@@ -10,6 +17,14 @@ interface ExplorerState {
   // Local database availability
   localAvailable: boolean;
   localPositionCount: number | undefined;
+
+  // Registered local databases and the one this session queries
+  localDatabases: LocalDatabaseInfo[];
+  selectedDatabase: string | null;
+  // Player/color filter (for local databases indexed with players)
+  playerFilter: LocalPlayerFilter;
+  // Rating/speed/month filter for local databases
+  gameFilter: LocalGameFilter;
   
   // Data for all databases
   mastersResult: ExplorerResult | null;
@@ -32,6 +47,9 @@ interface ExplorerState {
   // Actions
   setActiveSource: (source: ExplorerSource) => void;
   setExplorerStatus: (status: ExplorerStatus) => void;
+  setLocalDatabases: (databases: LocalDatabaseInfo[], selected: string | null) => void;
+  setPlayerFilter: (filter: Partial<LocalPlayerFilter>) => void;
+  setGameFilter: (filter: Partial<LocalGameFilter>) => void;
   setMastersResult: (result: ExplorerResult) => void;
   setLichessResult: (result: ExplorerResult) => void;
   setLocalResult: (result: ExplorerResult) => void;
@@ -45,10 +63,34 @@ interface ExplorerState {
   clear: () => void;
 }
 
+/**
+ * Availability fields for the selected local database
+ */
+function localSelection(databases: LocalDatabaseInfo[], selected: string | null) {
+  const database = databases.find((db) => db.id === selected);
+  return {
+    localDatabases: databases,
+    selectedDatabase: database?.id ?? null,
+    localAvailable: Boolean(database),
+    localPositionCount: database?.positionCount,
+  };
+}
+
+/**
+ * The selected local database's info (null if none is selected)
+ */
+export function getSelectedDatabase(state: Pick<ExplorerState, 'localDatabases' | 'selectedDatabase'>): LocalDatabaseInfo | null {
+  return state.localDatabases.find((db) => db.id === state.selectedDatabase) ?? null;
+}
+
 export const useExplorerStore = create<ExplorerState>((set) => ({
   activeSource: 'remote',
   localAvailable: false,
   localPositionCount: undefined,
+  localDatabases: [],
+  selectedDatabase: null,
+  playerFilter: {},
+  gameFilter: {},
   
   mastersResult: null,
   lichessResult: null,
@@ -65,9 +107,25 @@ export const useExplorerStore = create<ExplorerState>((set) => ({
   lastQueriedFen: null,
   
   setActiveSource: (source) => set({ activeSource: source }),
-  setExplorerStatus: (status) => set({ 
-    localAvailable: status.localAvailable,
-    localPositionCount: status.localPositionCount,
+  setExplorerStatus: (status) => set(
+    status.databases
+      ? localSelection(status.databases, status.selectedDatabase ?? null)
+      : { localAvailable: status.localAvailable, localPositionCount: status.localPositionCount }
+  ),
+  setLocalDatabases: (databases, selected) => set(localSelection(databases, selected)),
+  setPlayerFilter: (filter) => set((state) => {
+    const playerFilter = { ...state.playerFilter, ...filter };
+    // A color only makes sense with a player
+    return { playerFilter: playerFilter.player ? playerFilter : {} };
+  }),
+  setGameFilter: (filter) => set((state) => {
+    const gameFilter = { ...state.gameFilter, ...filter };
+    // Unset fields are left out of requests
+    for (const key of Object.keys(gameFilter) as Array<keyof LocalGameFilter>) {
+      const value = gameFilter[key];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) delete gameFilter[key];
+    }
+    return { gameFilter };
   }),
   setMastersResult: (result) => set({ mastersResult: result, mastersLoading: false, mastersError: null }),
   setLichessResult: (result) => set({ lichessResult: result, lichessLoading: false, lichessError: null }),
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { OpeningSearchResult } from '@chess/shared';
+import type { BoardOrientation, OpeningLine, OpeningSearchResult, OpeningTreeNode } from '@chess/shared';
 
 interface CurrentOpening {
   eco: string;
@@ -16,12 +16,28 @@ interface OpeningState {
   searchResults: OpeningSearchResult[];
   isSearching: boolean;
   
+  // Curated library and the tree of the opening being browsed
+  library: OpeningLine[];
+  treeOpeningId: string | null;
+  tree: OpeningTreeNode | null;
+  
   // Actions
   setCurrentOpening: (opening: CurrentOpening | null) => void;
   setSearchQuery: (query: string) => void;
   setSearchResults: (results: OpeningSearchResult[]) => void;
   setIsSearching: (isSearching: boolean) => void;
   clearSearch: () => void;
+  setLibrary: (library: OpeningLine[]) => void;
+  browseOpening: (openingId: string | null) => void;
+  setTree: (tree: OpeningTreeNode, openingId: string) => void;
+}
+
+/**
+ * Side that chooses an opening, judged from its name: defenses and
+ * countergambits are Black's, everything else is White's.
+ */
+export function getOpeningSide(name: string): BoardOrientation {
+  return /\b(defen[cs]e|counter-?gambit)\b/i.test(name) ? 'black' : 'white';
 }
 
 export const useOpeningStore = create<OpeningState>((set) => ({
@@ -29,12 +45,20 @@ export const useOpeningStore = create<OpeningState>((set) => ({
   searchQuery: '',
   searchResults: [],
   isSearching: false,
+  library: [],
+  treeOpeningId: null,
+  tree: null,
   
   setCurrentOpening: (opening) => set({ currentOpening: opening }),
   setSearchQuery: (query) => set({ searchQuery: query }),
   setSearchResults: (results) => set({ searchResults: results, isSearching: false }),
   setIsSearching: (isSearching) => set({ isSearching }),
   clearSearch: () => set({ searchQuery: '', searchResults: [], isSearching: false }),
+  setLibrary: (library) => set({ library }),
+  browseOpening: (openingId) => set({ treeOpeningId: openingId, tree: null }),
+  // Trees arrive twice (then with stats) - drop one for an opening no longer browsed
+  setTree: (tree, openingId) =>
+    set((state) => (state.treeOpeningId === openingId ? { tree } : {})),
 }));
 
 
@@ -0,0 +1,29 @@
+import { create } from 'zustand';
+import type { StudentProfile } from '@chess/shared';
+
+interface ProfileState {
+  // What the agent remembers about the student (null until fetched)
+  profile: StudentProfile | null;
+
+  // Actions
+  setProfile: (profile: StudentProfile) => void;
+}
+
+export const useProfileStore = create<ProfileState>((set) => ({
+  profile: null,
+
+  setProfile: (profile) => set({ profile }),
+}));
+
+// Expose store for testing
+if (typeof window !== 'undefined') {
+  (window as any).__ZUSTAND_PROFILE_STORE__ = useProfileStore;
+}
+
+/**
+ * Correct answers among the most recent quiz answers
+ */
+export function getQuizScore(profile: StudentProfile, recent = 10): { correct: number; total: number } {
+  const answers = profile.quizAnswers.slice(-recent);
+  return { correct: answers.filter((a) => a.correct).length, total: answers.length };
+}
@@ -0,0 +1,67 @@
+import { create } from 'zustand';
+import type { Repertoire, RepertoireColor, RepertoireGapReport, RepertoireMove } from '@chess/shared';
+
+interface RepertoireState {
+  // Repertoire shown in the panel
+  activeColor: RepertoireColor;
+
+  // Latest data received from the server for each color
+  repertoires: Record<RepertoireColor, Repertoire | null>;
+
+  // Exported PGN waiting to be downloaded
+  exportedPgn: { color: RepertoireColor; pgn: string } | null;
+
+  // Latest gap report and whether one is being computed
+  gapReport: RepertoireGapReport | null;
+  isFindingGaps: boolean;
+
+  error: string | null;
+
+  // Actions
+  setActiveColor: (color: RepertoireColor) => void;
+  setRepertoire: (repertoire: Repertoire) => void;
+  setExportedPgn: (data: { color: RepertoireColor; pgn: string } | null) => void;
+  setGapReport: (report: RepertoireGapReport | null) => void;
+  setFindingGaps: (isFindingGaps: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+export const useRepertoireStore = create<RepertoireState>((set) => ({
+  activeColor: 'white',
+  repertoires: { white: null, black: null },
+  exportedPgn: null,
+  gapReport: null,
+  isFindingGaps: false,
+  error: null,
+
+  setActiveColor: (color) => set({ activeColor: color }),
+  setRepertoire: (repertoire) =>
+    set((state) => ({
+      repertoires: { ...state.repertoires, [repertoire.color]: repertoire },
+      error: null,
+    })),
+  setExportedPgn: (data) => set({ exportedPgn: data }),
+  setGapReport: (report) => set({ gapReport: report, isFindingGaps: false }),
+  setFindingGaps: (isFindingGaps) => set({ isFindingGaps }),
+  setError: (error) => set({ error, isFindingGaps: false }),
+}));
+
+// Expose store for testing
+if (typeof window !== 'undefined') {
+  (window as any).__ZUSTAND_REPERTOIRE_STORE__ = useRepertoireStore;
+}
+
+/**
+ * Position key used by the server: FEN without the move counters
+ */
+export function repertoirePositionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Moves stored in a repertoire at a position (main move first)
+ */
+export function getRepertoireMoves(repertoire: Repertoire | null, fen: string): RepertoireMove[] {
+  if (!repertoire) return [];
+  return repertoire.positions[repertoirePositionKey(fen)]?.moves ?? [];
+}
@@ -0,0 +1,63 @@
+import { create } from 'zustand';
+import type { GameReviewProgress, GameReviewSummary, MoveReview, MoveTreeNode } from '@chess/shared';
+
+interface ReviewStoreState {
+  // Whether the server is reviewing the current line
+  isReviewing: boolean;
+  
+  // Positions evaluated so far
+  progress: { completed: number; total: number } | null;
+  
+  // Reviews streamed during the run, by move tree node id
+  // (the move tree carries them once the review completes)
+  reviews: Record<string, MoveReview>;
+  
+  // Per-side totals of the last completed review
+  summary: GameReviewSummary | null;
+  
+  error: string | null;
+  
+  // Actions
+  startReview: () => void;
+  handleProgress: (progress: GameReviewProgress) => void;
+  handleComplete: (summary: GameReviewSummary) => void;
+  setError: (error: string | null) => void;
+  reset: () => void;
+}
+
+export const useReviewStore = create<ReviewStoreState>((set) => ({
+  isReviewing: false,
+  progress: null,
+  reviews: {},
+  summary: null,
+  error: null,
+  
+  startReview: () => set({ isReviewing: true, progress: null, summary: null, error: null }),
+  
+  handleProgress: ({ completed, total, nodeId, review }) =>
+    set((state) => ({
+      progress: { completed, total },
+      reviews: nodeId && review ? { ...state.reviews, [nodeId]: review } : state.reviews,
+    })),
+  
+  handleComplete: (summary) => set({ isReviewing: false, summary }),
+  
+  setError: (error) => set({ isReviewing: false, error }),
+  
+  reset: () => set({ isReviewing: false, progress: null, reviews: {}, summary: null, error: null }),
+}));
+
+// Expose store for testing
+if (typeof window !== 'undefined') {
+  (window as any).__ZUSTAND_REVIEW_STORE__ = useReviewStore;
+}
+
+/**
+ * Review of a move: from the move tree, or streamed by a running review
+ */
+export function getMoveReview(
+  node: MoveTreeNode,
+  reviews: Record<string, MoveReview>
+): MoveReview | undefined {
+  return reviews[node.id] ?? node.review;
+}
@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import type { SparringState } from '@chess/shared';
+import sounds from '../utils/sounds';
+
+interface SparringStoreState {
+  // Latest sparring state from the server (null when not sparring)
+  sparring: SparringState | null;
+
+  error: string | null;
+
+  // Actions
+  setSparringState: (state: SparringState | null) => void;
+  setError: (error: string | null) => void;
+}
+
+export const useSparringStore = create<SparringStoreState>((set, get) => ({
+  sparring: null,
+  error: null,
+
+  setSparringState: (state) => {
+    const prev = get().sparring;
+
+    // Announce the database bot running out of games
+    const leftDatabase = state?.opponent === 'database' && state.leftDatabase !== null;
+    const hadLeft = prev?.opponent === 'database' && prev.leftDatabase !== null;
+    if (leftDatabase && !hadLeft) {
+      sounds.notify();
+    }
+
+    set({ sparring: state, error: null });
+  },
+
+  setError: (error) => set({ error }),
+}));
+
+// Expose store for testing
+if (typeof window !== 'undefined') {
+  (window as any).__ZUSTAND_SPARRING_STORE__ = useSparringStore;
+}
@@ -15,11 +15,12 @@
  * - model=<modelId>      - Selected AI model
  * - thinking=on|off      - Extended thinking enabled
  * - websearch=on|off     - Web search enabled
+ * - orientation=black    - Board shown from Black's side
  */
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { AIModelId } from '@chess/shared';
+import type { AIModelId, BoardOrientation } from '@chess/shared';
 
 export interface UrlState {
   // Parsed from URL
@@ -35,6 +36,9 @@ export interface UrlState {
   thinking: boolean | null;
   webSearch: boolean | null;
   
+  // Board orientation from URL
+  orientation: BoardOrientation;
+  
   // Actions
   setRoute: (route: UrlState['route'], params?: { conversationId?: string; openingId?: string }) => void;
   setMoveIndex: (index: number | null) => void;
@@ -46,6 +50,7 @@ export interface UrlState {
   setModelId: (modelId: AIModelId | null) => void;
   setThinking: (enabled: boolean | null) => void;
   setWebSearch: (enabled: boolean | null) => void;
+  setOrientation: (orientation: BoardOrientation) => void;
   
   // URL sync
   syncFromUrl: () => void;
@@ -70,6 +75,7 @@ function parseUrl(): Partial<UrlState> {
   const modelParam = params.get('model');
   const thinkingParam = params.get('thinking');
   const webSearchParam = params.get('websearch');
+  const orientationParam = params.get('orientation');
   
   // Parse path
   const segments = path.split('/').filter(Boolean);
@@ -96,6 +102,7 @@ function parseUrl(): Partial<UrlState> {
   const modelId = isValidModelId(modelParam) ? modelParam : null;
   const thinking = thinkingParam === 'on' ? true : thinkingParam === 'off' ? false : null;
   const webSearch = webSearchParam === 'on' ? true : webSearchParam === 'off' ? false : null;
+  const orientation: BoardOrientation = orientationParam === 'black' ? 'black' : 'white';
   
   return {
     route,
@@ -107,6 +114,7 @@ function parseUrl(): Partial<UrlState> {
     modelId,
     thinking,
     webSearch,
+    orientation,
   };
 }
 
@@ -153,6 +161,11 @@ function buildUrl(state: UrlState): string {
     params.set('websearch', state.webSearch ? 'on' : 'off');
   }
   
+  // White is the default, so only a flipped board shows up in the URL
+  if (state.orientation === 'black') {
+    params.set('orientation', 'black');
+  }
+  
   const query = params.toString();
   return query ? `${path}?${query}` : path;
 }
@@ -200,6 +213,7 @@ export const useUrlStore = create<UrlState>()(
       modelId: urlState.modelId || null,
       thinking: urlState.thinking ?? null,
       webSearch: urlState.webSearch ?? null,
+      orientation: urlState.orientation || 'white',
       
       setRoute: (route, params) => {
         set({
@@ -257,6 +271,11 @@ export const useUrlStore = create<UrlState>()(
         get().pushState();
       },
       
+      setOrientation: (orientation) => {
+        set({ orientation });
+        get().pushState();
+      },
+      
       syncFromUrl: () => {
         const urlState = parseUrl();
         set({
@@ -268,6 +287,7 @@ export const useUrlStore = create<UrlState>()(
           modelId: urlState.modelId || null,
           thinking: urlState.thinking ?? null,
           webSearch: urlState.webSearch ?? null,
+          orientation: urlState.orientation || 'white',
         });
       },
       
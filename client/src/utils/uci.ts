@@ -0,0 +1,13 @@
+// Helpers for moves in UCI notation ("e2e4", "e7e8q")
+
+import type { PieceType } from '@chess/shared';
+
+function isPromotionPiece(piece: string | undefined): piece is PieceType {
+  return piece === 'q' || piece === 'r' || piece === 'b' || piece === 'n';
+}
+
+// Piece a UCI move promotes to, if any
+export function uciPromotion(uci: string): PieceType | undefined {
+  const piece = uci[4];
+  return isPromotionPiece(piece) ? piece : undefined;
+}
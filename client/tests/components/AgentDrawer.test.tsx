@@ -4,6 +4,7 @@ import { AgentDrawer } from '../../src/components/AgentDrawer/AgentDrawer';
 import { useConversationStore } from '../../src/stores/conversationStore';
 import { useConnectionStore } from '../../src/stores/connectionStore';
 import { useUrlStore } from '../../src/stores/urlStore';
+import { useBoardStore } from '../../src/stores/boardStore';
 
 // Mock react-markdown to avoid complex rendering
 vi.mock('react-markdown', () => ({
@@ -33,6 +34,7 @@ describe('AgentDrawer', () => {
       streamingMessage: null,
       isStreaming: false,
       error: null,
+      pause: { isPaused: false, pauseId: null, message: null },
     });
 
     useConnectionStore.setState({
@@ -504,5 +506,62 @@ describe('AgentDrawer', () => {
       expect(badge).not.toBeInTheDocument();
     });
   });
-});
 
+  describe('Pause', () => {
+    const pausedState = {
+      isStreaming: true,
+      pause: { isPaused: true, pauseId: 'pause-1', message: 'Can you find the best move?' },
+    };
+
+    it('should continue when the continue button is clicked', () => {
+      const mockContinue = vi.fn();
+      useConnectionStore.setState({ continueExplanation: mockContinue } as any);
+      useConversationStore.setState(pausedState);
+
+      render(<AgentDrawer />);
+      fireEvent.click(screen.getByTitle('Chat with AI coach'));
+
+      expect(screen.getByText('Can you find the best move?')).toBeInTheDocument();
+      fireEvent.click(screen.getByTestId('continue-button'));
+      expect(mockContinue).toHaveBeenCalledWith('pause-1');
+    });
+
+    it('should continue with Space and stop with Escape', () => {
+      const mockContinue = vi.fn();
+      const mockDismiss = vi.fn();
+      useConnectionStore.setState({ continueExplanation: mockContinue, dismissPrompt: mockDismiss } as any);
+      useConversationStore.setState(pausedState);
+
+      render(<AgentDrawer />);
+
+      fireEvent.keyDown(window, { code: 'Space', key: ' ' });
+      expect(mockContinue).toHaveBeenCalledWith('pause-1');
+
+      fireEvent.keyDown(window, { code: 'Escape', key: 'Escape' });
+      expect(mockDismiss).toHaveBeenCalledWith('pause-1');
+    });
+
+    it('should leave Escape to a previewed variation', () => {
+      const mockDismiss = vi.fn();
+      useConnectionStore.setState({ dismissPrompt: mockDismiss } as any);
+      useConversationStore.setState(pausedState);
+      useBoardStore.getState().startVirtualMode('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1', 1);
+
+      render(<AgentDrawer />);
+      fireEvent.keyDown(window, { code: 'Escape', key: 'Escape' });
+
+      expect(mockDismiss).not.toHaveBeenCalled();
+      useBoardStore.getState().exitVirtualMode({ navigate: false });
+    });
+
+    it('should let the user type a new question while paused', () => {
+      useConversationStore.setState(pausedState);
+
+      render(<AgentDrawer />);
+      fireEvent.click(screen.getByTitle('Chat with AI coach'));
+
+      expect(screen.getByPlaceholderText('Type to ask something else...')).not.toBeDisabled();
+      expect(screen.queryByTestId('stop-btn')).not.toBeInTheDocument();
+    });
+  });
+});
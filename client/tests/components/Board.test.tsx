@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent, act } from '@testing-library/react';
+import { Board } from '../../src/components/Board/Board';
+import { useBoardStore } from '../../src/stores/boardStore';
+import { getOpeningSide } from '../../src/stores/openingStore';
+
+function squareOrder(container: HTMLElement): string[] {
+  return Array.from(container.querySelectorAll('.board [data-square]')).map(
+    (el) => el.getAttribute('data-square')!
+  );
+}
+
+function labels(container: HTMLElement, selector: string): string[] {
+  return Array.from(container.querySelectorAll(selector)).map((el) => el.textContent!);
+}
+
+describe('Board orientation', () => {
+  beforeEach(() => {
+    useBoardStore.setState({ orientation: 'white', userArrows: [], userHighlights: [], arrows: [], highlights: [] });
+  });
+
+  it('should render from White side by default', () => {
+    const { container } = render(<Board />);
+    const squares = squareOrder(container);
+    expect(squares[0]).toBe('a8');
+    expect(squares[63]).toBe('h1');
+    expect(labels(container, '.file-label').join('')).toBe('abcdefgh');
+  });
+
+  it('should flip squares and coordinates for Black', () => {
+    const { container } = render(<Board />);
+    act(() => useBoardStore.getState().flipBoard());
+
+    const squares = squareOrder(container);
+    expect(squares[0]).toBe('h1');
+    expect(squares[63]).toBe('a8');
+    expect(labels(container, '.file-label').join('')).toBe('hgfedcba');
+    expect(labels(container, '.rank-label').join('')).toBe('12345678');
+  });
+
+  it('should map right-clicks to flipped squares', () => {
+    useBoardStore.setState({ orientation: 'black' });
+    const { container } = render(<Board />);
+    const boardContainer = container.querySelector('.board-container')!;
+    const board = container.querySelector('.board') as HTMLElement;
+    board.getBoundingClientRect = () => ({ left: 0, top: 0, width: 800, height: 800 }) as DOMRect;
+
+    // Top-left corner is h1 when viewed from Black
+    fireEvent.mouseDown(boardContainer, { button: 2, clientX: 50, clientY: 50 });
+    fireEvent.mouseUp(boardContainer, { button: 2, clientX: 50, clientY: 50 });
+
+    expect(useBoardStore.getState().userHighlights.map((h) => h.square)).toEqual(['h1']);
+  });
+});
+
+describe('getOpeningSide', () => {
+  it('should give defenses and countergambits to Black', () => {
+    expect(getOpeningSide('Sicilian Defense')).toBe('black');
+    expect(getOpeningSide("King's Indian Defence")).toBe('black');
+    expect(getOpeningSide('Albin Countergambit')).toBe('black');
+    expect(getOpeningSide('Italian Game')).toBe('white');
+    expect(getOpeningSide('London System')).toBe('white');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import type { Move, MoveReview, MoveTreeNode } from '@chess/shared';
+import {
+  EvalGraph,
+  buildEvalPoints,
+  getLineNodes,
+  scoreToGraphCp,
+} from '../../src/components/EvalGraph/EvalGraph';
+import { useBoardStore } from '../../src/stores/boardStore';
+import { useReviewStore } from '../../src/stores/reviewStore';
+
+// 1. e4 e5 2. Qh5 (with 1... c5 as a side line)
+const MOVES: Move[] = [
+  { from: 'e2', to: 'e4', san: 'e4' },
+  { from: 'e7', to: 'e5', san: 'e5' },
+  { from: 'd1', to: 'h5', san: 'Qh5' },
+];
+
+function buildTree(): MoveTreeNode[] {
+  const qh5: MoveTreeNode = {
+    id: 'n3',
+    move: MOVES[2],
+    fen: 'rnbqkbnr/pppp1ppp/8/4p2Q/4P3/8/PPPP1PPP/RNB1KBNR b KQkq - 1 2',
+    children: [],
+    parent: 'n2',
+  };
+  const e5: MoveTreeNode = {
+    id: 'n2',
+    move: MOVES[1],
+    fen: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    children: [qh5],
+    parent: 'n1',
+  };
+  const c5: MoveTreeNode = {
+    id: 'n4',
+    move: { from: 'c7', to: 'c5', san: 'c5' },
+    fen: 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    children: [],
+    parent: 'n1',
+  };
+  return [
+    {
+      id: 'n1',
+      move: MOVES[0],
+      fen: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
+      children: [e5, c5],
+    },
+  ];
+}
+
+function review(before: number, after: number, classification: MoveReview['classification'] = 'good'): MoveReview {
+  return {
+    classification,
+    cpLoss: Math.abs(before - after),
+    winChanceLoss: 0,
+    accuracy: 90,
+    evalBefore: { type: 'cp', value: before },
+    evalAfter: { type: 'cp', value: after },
+    bestMove: 'g1f3',
+    depth: 12,
+  };
+}
+
+describe('EvalGraph helpers', () => {
+  it('should clamp centipawns and put mates at the extremes', () => {
+    expect(scoreToGraphCp({ type: 'cp', value: 2400 }, 'w')).toBe(1000);
+    expect(scoreToGraphCp({ type: 'mate', value: -2 }, 'w')).toBe(-1000);
+    expect(scoreToGraphCp({ type: 'mate', value: 0 }, 'w')).toBe(-1000);
+  });
+
+  it('should follow the played line through the tree', () => {
+    const nodes = getLineNodes(buildTree(), MOVES);
+    expect(nodes.map((n) => n.id)).toEqual(['n1', 'n2', 'n3']);
+  });
+
+  it('should plot the start position and every reviewed move', () => {
+    const nodes = getLineNodes(buildTree(), MOVES);
+    const points = buildEvalPoints(nodes, { n1: review(20, 30), n2: review(30, 25) });
+    expect(points.map((p) => [p.ply, p.cp])).toEqual([
+      [0, 20],
+      [1, 30],
+      [2, 25],
+    ]);
+  });
+});
+
+describe('EvalGraph', () => {
+  const navigateToMove = vi.fn();
+
+  beforeEach(() => {
+    navigateToMove.mockClear();
+    useBoardStore.setState({
+      history: MOVES,
+      moveTree: buildTree(),
+      currentMoveIndex: 3,
+      navigateToMove,
+    });
+    useReviewStore.setState({ reviews: {}, isReviewing: false, progress: null, summary: null, error: null });
+  });
+
+  it('should render nothing before any review results', () => {
+    const { container } = render(<EvalGraph />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should update as review results stream in', () => {
+    const { container } = render(<EvalGraph />);
+
+    act(() => {
+      useReviewStore.getState().handleProgress({ completed: 2, total: 4, nodeId: 'n1', review: review(20, 30) });
+    });
+    const polyline = () => container.querySelector('polyline')!.getAttribute('points')!.split(' ');
+    expect(polyline()).toHaveLength(2);
+
+    act(() => {
+      useReviewStore.getState().handleProgress({ completed: 3, total: 4, nodeId: 'n2', review: review(30, 25) });
+    });
+    expect(polyline()).toHaveLength(3);
+  });
+
+  it('should mark blunders and navigate to them on click', () => {
+    useReviewStore.setState({
+      reviews: { n1: review(20, 30), n2: review(30, 25), n3: review(25, -300, 'blunder') },
+    });
+    render(<EvalGraph />);
+
+    const marker = screen.getByTitle(/Qh5 blunder/);
+    fireEvent.click(marker);
+    expect(navigateToMove).toHaveBeenCalledWith(3);
+  });
+
+  it('should navigate to the clicked ply', () => {
+    useReviewStore.setState({ reviews: { n1: review(20, 30) } });
+    render(<EvalGraph />);
+
+    const plot = screen.getByTestId('eval-graph-plot');
+    plot.getBoundingClientRect = () => ({ left: 0, width: 300, top: 0, height: 72 }) as DOMRect;
+    fireEvent.click(plot, { clientX: 100 });
+
+    expect(navigateToMove).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import type { OpeningLine, OpeningTreeNode } from '@chess/shared';
+import { OpeningTree } from '../../src/components/OpeningTree/OpeningTree';
+import { useOpeningStore } from '../../src/stores/openingStore';
+import { useConnectionStore } from '../../src/stores/connectionStore';
+import { useBoardStore } from '../../src/stores/boardStore';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+const AFTER_C6 = 'rnbqkbnr/pp1ppppp/2p5/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+const AFTER_C5 = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+
+const CARO_KANN: OpeningLine = {
+  id: 'caro-kann',
+  name: 'Caro-Kann Defense',
+  eco: 'B10',
+  moves: '1. e4 c6',
+  fen: AFTER_C6,
+  themes: ['solid'],
+};
+
+const TREE: OpeningTreeNode = {
+  san: 'Start',
+  fen: START_FEN,
+  isMainLine: true,
+  stats: { white: 50, draws: 20, black: 30, games: 100 },
+  children: [
+    {
+      san: 'e4',
+      fen: AFTER_E4,
+      isMainLine: true,
+      stats: { white: 40, draws: 10, black: 30, games: 80 },
+      children: [
+        {
+          san: 'c6',
+          fen: AFTER_C6,
+          isMainLine: true,
+          comment: 'A solid defense',
+          stats: { white: 10, draws: 10, black: 10, games: 30 },
+          children: [],
+        },
+        {
+          san: 'c5',
+          fen: AFTER_C5,
+          isMainLine: false,
+          stats: { white: 0, draws: 0, black: 0, games: 0 },
+          children: [],
+        },
+      ],
+    },
+  ],
+};
+
+describe('OpeningTree', () => {
+  let getOpeningTree: ReturnType<typeof vi.fn>;
+  let loadOpeningByPgn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    getOpeningTree = vi.fn((openingId: string) => useOpeningStore.getState().browseOpening(openingId));
+    loadOpeningByPgn = vi.fn();
+
+    useConnectionStore.setState({
+      isConnected: true,
+      listOpenings: vi.fn(),
+      getOpeningTree,
+      loadOpeningByPgn,
+    } as any);
+    useOpeningStore.setState({ library: [CARO_KANN], treeOpeningId: null, tree: null });
+    useBoardStore.setState({ fen: START_FEN });
+  });
+
+  const openTree = () => {
+    render(<OpeningTree />);
+    fireEvent.click(screen.getByText('Opening Courses'));
+    fireEvent.click(screen.getByText('Caro-Kann Defense'));
+  };
+
+  it('should request the tree of the chosen opening', () => {
+    openTree();
+    expect(getOpeningTree).toHaveBeenCalledWith('caro-kann', 'lichess');
+    expect(screen.getByText('Loading tree...')).toBeInTheDocument();
+  });
+
+  it('should render the main line, side lines, comments and stats', () => {
+    openTree();
+    act(() => useOpeningStore.getState().setTree(TREE, 'caro-kann'));
+
+    const rows = screen.getAllByTestId('tree-move');
+    expect(rows.map((row) => row.querySelector('.tree-san')?.textContent)).toEqual(['1.e4', 'c6', '1...c5']);
+    expect(rows[1]).toHaveClass('main-line');
+    expect(rows[2]).not.toHaveClass('main-line');
+    expect(screen.getByText('A solid defense')).toBeInTheDocument();
+    expect(screen.getByText('no games')).toBeInTheDocument();
+  });
+
+  it('should ignore a tree for another opening', () => {
+    openTree();
+    act(() => useOpeningStore.getState().setTree(TREE, 'london-system'));
+    expect(screen.getByText('Loading tree...')).toBeInTheDocument();
+  });
+
+  it('should load a node onto the board and mark the current position', () => {
+    openTree();
+    act(() => useOpeningStore.getState().setTree(TREE, 'caro-kann'));
+
+    fireEvent.click(screen.getAllByTestId('tree-move')[1]);
+    expect(loadOpeningByPgn).toHaveBeenCalledWith('1. e4 c6');
+
+    act(() => useBoardStore.setState({ fen: AFTER_C6 }));
+    expect(screen.getAllByTestId('tree-move')[1]).toHaveClass('current');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import type { StudentProfile } from '@chess/shared';
+import { ProfilePanel } from '../../src/components/ProfilePanel/ProfilePanel';
+import { useProfileStore } from '../../src/stores/profileStore';
+import { useConnectionStore } from '../../src/stores/connectionStore';
+
+const PROFILE: StudentProfile = {
+  openings: [
+    { name: 'Caro-Kann Defense', color: 'black', notes: 'Knows the main line', lastStudiedAt: 2 },
+    { name: 'London System', color: 'white', lastStudiedAt: 1 },
+  ],
+  quizAnswers: [
+    { question: 'Best reply to 3. e5?', answer: 'c5', correctAnswer: 'Bf5', correct: false, answeredAt: 1 },
+    { question: 'Main move?', answer: 'd5', correctAnswer: 'd5', correct: true, answeredAt: 2 },
+  ],
+  mistakes: [{ description: 'Moves the queen out early', count: 3, lastSeenAt: 3 }],
+  style: 'Solid',
+  notes: '',
+  updatedAt: 3,
+};
+
+describe('ProfilePanel', () => {
+  let fetchProfile: ReturnType<typeof vi.fn>;
+  let updateProfile: ReturnType<typeof vi.fn>;
+  let resetProfile: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchProfile = vi.fn();
+    updateProfile = vi.fn();
+    resetProfile = vi.fn();
+    useConnectionStore.setState({ isConnected: true, fetchProfile, updateProfile, resetProfile } as any);
+    useProfileStore.setState({ profile: null });
+  });
+
+  const openPanel = () => {
+    render(<ProfilePanel />);
+    fireEvent.click(screen.getByText('Student Profile'));
+  };
+
+  it('should fetch the profile when opened', () => {
+    openPanel();
+    expect(fetchProfile).toHaveBeenCalled();
+    expect(screen.getByText('Loading profile...')).toBeInTheDocument();
+  });
+
+  it('should show openings, mistakes and quiz answers', () => {
+    openPanel();
+    act(() => useProfileStore.getState().setProfile(PROFILE));
+
+    expect(screen.getAllByTestId('profile-opening')).toHaveLength(2);
+    expect(screen.getByText('Knows the main line')).toBeInTheDocument();
+    expect(screen.getByText('×3')).toBeInTheDocument();
+    // Newest answer first
+    const answers = screen.getAllByTestId('profile-quiz');
+    expect(answers[0]).toHaveTextContent('Main move?');
+    expect(answers[1]).toHaveTextContent('c5 - answer: Bf5');
+    expect(screen.getByText('1/2 quiz')).toBeInTheDocument();
+  });
+
+  it('should send edits to the server', () => {
+    openPanel();
+    act(() => useProfileStore.getState().setProfile(PROFILE));
+
+    fireEvent.click(screen.getAllByTestId('profile-mistake')[0].querySelector('button')!);
+    expect(updateProfile).toHaveBeenCalledWith({ mistakes: [] });
+
+    fireEvent.click(screen.getAllByTestId('profile-opening')[1].querySelector('button')!);
+    expect(updateProfile).toHaveBeenCalledWith({ openings: [PROFILE.openings[0]] });
+
+    const style = screen.getByDisplayValue('Solid');
+    fireEvent.change(style, { target: { value: 'Aggressive ' } });
+    fireEvent.blur(style);
+    expect(updateProfile).toHaveBeenCalledWith({ style: 'Aggressive' });
+  });
+
+  it('should reset the profile after confirming', () => {
+    openPanel();
+    act(() => useProfileStore.getState().setProfile(PROFILE));
+
+    fireEvent.click(screen.getByText('Forget everything'));
+    expect(resetProfile).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByText('Reset'));
+    expect(resetProfile).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { AnalysisLine } from '@chess/shared';
+import { useAnalysisStore, selectPositionEval } from '../../src/stores/analysisStore';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function line(value: number, depth = 12, type: 'cp' | 'mate' = 'cp'): AnalysisLine {
+  return { pv: 1, depth, seldepth: depth, score: { type, value }, nodes: 0, nps: 0, time: 0, moves: ['e2e4'] };
+}
+
+function evalFor(fen: string) {
+  return selectPositionEval(useAnalysisStore.getState(), fen);
+}
+
+describe('analysisStore position evals', () => {
+  beforeEach(() => {
+    useAnalysisStore.getState().reset();
+    useAnalysisStore.setState({ evalCache: {} });
+  });
+
+  it('should use live lines for the analyzed position, from White side', () => {
+    useAnalysisStore.getState().handleAnalysisInfo({
+      fen: AFTER_E4,
+      lines: [line(-35)],
+      currentDepth: 12,
+      hashfull: 0,
+      elapsed: 100,
+    });
+
+    expect(evalFor(AFTER_E4)).toMatchObject({ score: { type: 'cp', value: 35 }, source: 'live' });
+    expect(evalFor(START)).toBeNull();
+  });
+
+  it('should remember evaluations after moving to another position', () => {
+    const store = useAnalysisStore.getState();
+    store.handleAnalysisComplete({ fen: START, bestMove: 'e2e4', lines: [line(25, 20)], totalTime: 1000 });
+    store.startAnalysis(AFTER_E4);
+
+    expect(evalFor(START)).toMatchObject({ score: { type: 'cp', value: 25 }, depth: 20, source: 'engine' });
+  });
+
+  it('should cache the agent analysis result for its position', () => {
+    useAnalysisStore.getState().handleAgentAnalysis({
+      fen: AFTER_E4,
+      depth: 18,
+      score: 0,
+      mate: -3,
+      bestMove: 'd7d5',
+      pv: [],
+      time: 500,
+    });
+
+    // Black to move is being mated
+    expect(evalFor(AFTER_E4)).toMatchObject({ score: { type: 'mate', value: 3 }, source: 'agent' });
+  });
+
+  it('should prefer live lines over a cached result', () => {
+    const store = useAnalysisStore.getState();
+    store.handleAgentAnalysis({ fen: START, depth: 20, score: 0.3, mate: null, bestMove: 'e2e4', pv: [], time: 1 });
+    store.handleAnalysisInfo({ fen: START, lines: [line(18, 8)], currentDepth: 8, hashfull: 0, elapsed: 10 });
+
+    expect(evalFor(START)).toMatchObject({ score: { type: 'cp', value: 18 }, source: 'live' });
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Conversation Context
+ *
+ * Keeps what is sent to the model each turn within a token budget, so long
+ * study sessions neither hit the provider's context limit nor resend
+ * everything on every request:
+ * - the most recent turns are sent in full, older turns are summarized
+ *   into the system prompt
+ * - bulky tool results (e.g. analyze_line with stats for every ply) are
+ *   shortened before they are sent
+ * - during a turn, results of earlier steps are reduced to a stub once the
+ *   request grows past the budget, and board snapshots superseded by later
+ *   ones are dropped - the current position is always in the system prompt,
+ *   which is rebuilt for every request
+ *
+ * Token counts are estimates from the text length, per provider.
+ */
+
+import type { ConversationMessage, Tool } from '@chess/shared';
+import type { Message } from './providers/index.js';
+
+export interface ContextBudget {
+  /** Whole request: system prompt, tools, history and the current turn */
+  maxTokens: number;
+  /** Earlier turns of the conversation */
+  historyTokens: number;
+  /** Summary of the turns that did not fit into the history */
+  summaryTokens: number;
+  /** A single tool result */
+  toolResultTokens: number;
+  /** Latest turns that are always sent in full */
+  recentTurns: number;
+}
+
+export interface ContextHistory {
+  /** Messages of the turns sent in full, oldest first */
+  messages: Message[];
+  /** Summary of the older turns (null if every turn was sent in full) */
+  summary: string | null;
+  summarizedTurns: number;
+  estimatedTokens: number;
+}
+
+// Characters per token for English text and JSON, by provider
+const CHARS_PER_TOKEN: Record<string, number> = {
+  anthropic: 3.5,
+  openai: 4,
+  google: 4,
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+
+// Role markers and message framing
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Well below each model's context window - room is left for thinking and the reply
+const CONTEXT_BUDGETS: Record<string, ContextBudget> = {
+  anthropic: {
+    maxTokens: 100_000,
+    historyTokens: 24_000,
+    summaryTokens: 2_000,
+    toolResultTokens: 2_500,
+    recentTurns: 3,
+  },
+  openai: {
+    maxTokens: 120_000,
+    historyTokens: 24_000,
+    summaryTokens: 2_000,
+    toolResultTokens: 2_500,
+    recentTurns: 3,
+  },
+  google: {
+    maxTokens: 150_000,
+    historyTokens: 32_000,
+    summaryTokens: 2_000,
+    toolResultTokens: 3_000,
+    recentTurns: 3,
+  },
+};
+
+// How shortened tool results are cut down, tried in order until one fits
+const SHRINK_STEPS = [
+  { maxItems: 12, maxString: 400 },
+  { maxItems: 6, maxString: 200 },
+  { maxItems: 3, maxString: 120 },
+  { maxItems: 1, maxString: 80 },
+];
+const MAX_DEPTH = 5;
+
+// Tools whose results describe the board at the time they were called
+const BOARD_STATE_TOOLS = new Set([
+  'get_current_position',
+  'reset_board',
+  'make_move',
+  'make_moves',
+  'undo_moves',
+  'goto_move',
+  'set_position',
+]);
+
+const STALE_BOARD_NOTE = 'Superseded by a later board state - the current position is in the system prompt';
+const COMPACTED_NOTE = 'Result of an earlier step removed to save context';
+const TRIMMED_NOTE = 'Result shortened to save context - ask for less (e.g. fewer moves) to see the details';
+
+// Lengths of the lines summarizing an earlier turn
+const SUMMARY_USER_CHARS = 160;
+const SUMMARY_ASSISTANT_CHARS = 240;
+
+export function getContextBudget(provider: string): ContextBudget {
+  return CONTEXT_BUDGETS[provider] ?? CONTEXT_BUDGETS.anthropic;
+}
+
+/**
+ * Shorten text to a length, preferring to cut at the end of a sentence
+ */
+function truncate(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= maxChars) return flat;
+  const cut = flat.slice(0, maxChars);
+  const sentenceEnd = cut.search(/[.!?][^.!?]*$/);
+  return sentenceEnd > maxChars / 2 ? cut.slice(0, sentenceEnd + 1) : `${cut.trimEnd()}…`;
+}
+
+/**
+ * Copy of a value with long arrays and strings cut and deep nesting collapsed
+ */
+function shrink(value: unknown, maxItems: number, maxString: number, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxString ? `${value.slice(0, maxString)}…` : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : '{…}';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, maxItems).map((item) => shrink(item, maxItems, maxString, depth + 1));
+    return value.length > maxItems ? [...items, `… ${value.length - maxItems} more`] : items;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, shrink(item, maxItems, maxString, depth + 1)])
+  );
+}
+
+/**
+ * A line for the summary of an earlier turn
+ */
+function summarizeTurn(turn: ConversationMessage[]): string {
+  const [question, ...replies] = turn;
+  const answer = replies.map((m) => m.content).filter(Boolean).join(' ');
+  const tools = [...new Set(replies.flatMap((m) => m.toolCalls ?? []).map((tc) => tc.name))];
+
+  let line = `- User: ${truncate(question.content, SUMMARY_USER_CHARS)}`;
+  if (answer) line += `\n  You: ${truncate(answer, SUMMARY_ASSISTANT_CHARS)}`;
+  if (tools.length > 0) line += `\n  Tools used: ${tools.join(', ')}`;
+  return line;
+}
+
+/**
+ * Split a conversation into turns, each starting with a user message
+ */
+function splitTurns(messages: ConversationMessage[]): ConversationMessage[][] {
+  const turns: ConversationMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  // Without the user's question an assistant reply has nothing to answer
+  return turns.filter((turn) => turn[0].role === 'user');
+}
+
+function parseResult(content: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(content);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export class ConversationContext {
+  private charsPerToken: number;
+  private budget: ContextBudget;
+
+  constructor(provider: string, budget: ContextBudget = getContextBudget(provider)) {
+    this.charsPerToken = CHARS_PER_TOKEN[provider] ?? DEFAULT_CHARS_PER_TOKEN;
+    this.budget = budget;
+  }
+
+  getBudget(): ContextBudget {
+    return this.budget;
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+
+  estimateMessages(messages: Message[]): number {
+    return messages.reduce((total, m) => {
+      const args = m.toolArguments ? JSON.stringify(m.toolArguments) : '';
+      const thinking = m.thinking ?? '';
+      return total + MESSAGE_OVERHEAD_TOKENS + this.estimateTokens(m.content + args + thinking);
+    }, 0);
+  }
+
+  estimateTools(tools: Tool[]): number {
+    return this.estimateTokens(JSON.stringify(tools));
+  }
+
+  /**
+   * Earlier messages of a conversation to send with its latest user message
+   *
+   * The latest turns are sent in full, then older turns while they fit into
+   * the history budget; the turns before are summarized. Tool-only replies
+   * have no text and are left out as before.
+   *
+   * @param reservedTokens - tokens already taken by the system prompt and tools
+   */
+  buildHistory(messages: ConversationMessage[], reservedTokens = 0): ContextHistory {
+    const turns = splitTurns(messages);
+    const available = Math.min(this.budget.historyTokens, this.budget.maxTokens - reservedTokens);
+
+    const toMessages = (turn: ConversationMessage[]): Message[] =>
+      turn.filter((m) => m.content).map((m) => ({ role: m.role, content: m.content }));
+
+    let firstFull = turns.length;
+    let estimatedTokens = 0;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const tokens = this.estimateMessages(toMessages(turns[i]));
+      const isRecent = turns.length - i <= this.budget.recentTurns;
+      if (!isRecent && estimatedTokens + tokens > available) break;
+      estimatedTokens += tokens;
+      firstFull = i;
+    }
+
+    const summarized = turns.slice(0, firstFull);
+    const summary = summarized.length > 0 ? this.summarize(summarized) : null;
+
+    return {
+      messages: turns.slice(firstFull).flatMap(toMessages),
+      summary,
+      summarizedTurns: summarized.length,
+      estimatedTokens: estimatedTokens + (summary ? this.estimateTokens(summary) : 0),
+    };
+  }
+
+  /**
+   * Tool result as sent to the model, shortened if it is over the tool result budget
+   */
+  formatToolResult(result: unknown): string {
+    const content = JSON.stringify(result) ?? 'null';
+    if (this.estimateTokens(content) <= this.budget.toolResultTokens) {
+      return content;
+    }
+
+    for (const { maxItems, maxString } of SHRINK_STEPS) {
+      const shrunk = shrink(result, maxItems, maxString);
+      const trimmed = JSON.stringify(
+        shrunk && typeof shrunk === 'object' && !Array.isArray(shrunk)
+          ? { trimmed: TRIMMED_NOTE, ...shrunk }
+          : { trimmed: TRIMMED_NOTE, result: shrunk }
+      );
+      if (this.estimateTokens(trimmed) <= this.budget.toolResultTokens) {
+        return trimmed;
+      }
+    }
+
+    // Escaped quotes make the preview longer than the text it shows
+    let previewChars = Math.floor(this.budget.toolResultTokens * this.charsPerToken) - TRIMMED_NOTE.length;
+    let trimmed = '';
+    do {
+      trimmed = JSON.stringify({ trimmed: TRIMMED_NOTE, preview: content.slice(0, Math.max(0, previewChars)) });
+      previewChars = Math.floor(previewChars * 0.8);
+    } while (this.estimateTokens(trimmed) > this.budget.toolResultTokens && previewChars > 0);
+    return trimmed;
+  }
+
+  /**
+   * Shrink the messages of the turn in progress before the next request
+   *
+   * Board snapshots followed by a later one are always dropped.
+   * While the request is over budget, the oldest tool results are then
+   * replaced by a stub - the results of the latest step are kept.
+   *
+   * @param reservedTokens - tokens taken by the system prompt and tools
+   * @returns number of tool results that were changed
+   */
+  compact(messages: Message[], reservedTokens = 0): number {
+    let changed = 0;
+
+    // Board snapshots superseded by a later one
+    let laterSnapshot = false;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.role !== 'tool' || !message.name || !BOARD_STATE_TOOLS.has(message.name)) continue;
+      if (laterSnapshot) {
+        const result = parseResult(message.content);
+        if (result && 'fen' in result) {
+          const { fen: _fen, ...rest } = result;
+          message.content = JSON.stringify({ ...rest, board: STALE_BOARD_NOTE });
+          changed++;
+        }
+      }
+      laterSnapshot = true;
+    }
+
+    // Results of the latest step are what the model is about to act on
+    let latestStep = messages.length;
+    while (latestStep > 0 && messages[latestStep - 1].role === 'tool') latestStep--;
+
+    let total = reservedTokens + this.estimateMessages(messages);
+    for (let i = 0; i < latestStep && total > this.budget.maxTokens; i++) {
+      const message = messages[i];
+      if (message.role !== 'tool' || message.content.includes(COMPACTED_NOTE)) continue;
+
+      const result = parseResult(message.content);
+      const gist = result?.summary ?? result?.message ?? result?.error;
+      const stub = JSON.stringify({
+        compacted: COMPACTED_NOTE,
+        ...(typeof gist === 'string' && { summary: truncate(gist, SUMMARY_ASSISTANT_CHARS) }),
+      });
+      total -= this.estimateTokens(message.content) - this.estimateTokens(stub);
+      message.content = stub;
+      changed++;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Summary lines of earlier turns, the most recent kept if they do not all fit
+   */
+  private summarize(turns: ConversationMessage[][]): string {
+    const lines: string[] = [];
+    let tokens = 0;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const line = summarizeTurn(turns[i]);
+      tokens += this.estimateTokens(line);
+      if (tokens > this.budget.summaryTokens && lines.length > 0) {
+        lines.unshift(`(${i + 1} earlier ${i === 0 ? 'turn' : 'turns'} not shown)`);
+        break;
+      }
+      lines.unshift(line);
+    }
+    return lines.join('\n');
+  }
+}
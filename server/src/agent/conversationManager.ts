@@ -4,8 +4,8 @@ import type { Conversation, ConversationMessage } from '@chess/shared';
 export class ConversationManager {
   private conversations: Map<string, Conversation>;
 
-  constructor() {
-    this.conversations = new Map();
+  constructor(conversations: Conversation[] = []) {
+    this.conversations = new Map(conversations.map((c) => [c.id, c]));
   }
 
   createConversation(providedId?: string): Conversation {
@@ -4,6 +4,7 @@ import type {
   ServerToClientEvents,
   ClientToServerEvents,
   ConversationMessage,
+  ToolCall,
   AIModelId,
   PromptStyleId,
   PromptStyle,
@@ -11,6 +12,8 @@ import type {
 } from '@chess/shared';
 import { ChessManager } from '../chess/manager.js';
 import { ConversationManager } from './conversationManager.js';
+import type { RepertoireManager } from '../repertoire/manager.js';
+import type { StudentProfileManager } from './student-profile.js';
 import {
   createAIProvider,
   type AIProvider,
@@ -22,6 +25,8 @@ import {
   GoogleProvider,
 } from './providers/index.js';
 import { createTools, executeToolCall, type ToolContext } from './tools/index.js';
+import { VirtualBoard } from './virtual-board.js';
+import { ConversationContext } from './conversation-context.js';
 import { agentLog } from '../utils/logger.js';
 import { conversationLogger } from '../utils/conversationLogger.js';
 
@@ -52,6 +57,8 @@ export const AVAILABLE_PROMPT_STYLES: PromptStyle[] = [
 export class AgentHarness {
   private gameManager: ChessManager;
   private conversationManager: ConversationManager;
+  private repertoireManager: RepertoireManager | null;
+  private studentProfile: StudentProfileManager | null;
   private socket: ClientSocket;
   private aiProvider: AIProvider;
   private anthropicProvider: AnthropicProvider;
@@ -63,20 +70,29 @@ export class AgentHarness {
   // Track settings at harness level to sync across provider switches
   private thinkingEnabled: boolean = true;
   private webSearchEnabled: boolean = true;
-  // Track pending multiple choice for cancellation support
-  private pendingMultipleChoiceCancel: (() => void) | null = null;
+  // Cancels a tool waiting on the user (multiple choice question or pause)
+  private pendingUserWaitCancel: (() => void) | null = null;
   // Abort controller for interrupting conversations
   private abortController: AbortController | null = null;
   private currentConversationId: string | null = null;
+  // Local explorer database selected in this session (for database "local")
+  private localDatabaseId: string | null = null;
+  // Side line previewed in the client's virtual mode (show_variation)
+  private virtualBoard: VirtualBoard;
 
   constructor(
     gameManager: ChessManager,
     conversationManager: ConversationManager,
-    socket: ClientSocket
+    socket: ClientSocket,
+    repertoireManager: RepertoireManager | null = null,
+    studentProfile: StudentProfileManager | null = null
   ) {
     this.gameManager = gameManager;
     this.conversationManager = conversationManager;
+    this.repertoireManager = repertoireManager;
+    this.studentProfile = studentProfile;
     this.socket = socket;
+    this.virtualBoard = new VirtualBoard(socket);
     this.anthropicProvider = new AnthropicProvider();
     this.aiProvider = this.anthropicProvider;
     this.isProcessing = false;
@@ -169,6 +185,24 @@ export class AgentHarness {
     agentLog.ai('harness', 'PROMPT STYLE CHANGED', { styleId });
   }
 
+  setLocalDatabase(id: string | null): void {
+    this.localDatabaseId = id;
+  }
+
+  /**
+   * Forget the previewed side line after the user left virtual mode
+   */
+  exitVirtualBoard(): void {
+    this.virtualBoard.exit();
+  }
+
+  /**
+   * End the previewed side line before the real game changes
+   */
+  endVirtualBoard(): void {
+    this.virtualBoard.end();
+  }
+
   getAgentSettings(): { thinking: boolean; webSearch: boolean; promptStyle: PromptStyleId } {
     const baseSettings = this.aiProvider.getSettings
       ? this.aiProvider.getSettings()
@@ -177,30 +211,30 @@ export class AgentHarness {
   }
 
   /**
-   * Cancel any pending multiple choice question.
+   * Cancel a tool waiting on the user (multiple choice question or pause).
    * Called when a new message arrives to interrupt the waiting state.
    */
-  cancelPendingMultipleChoice(): void {
-    if (this.pendingMultipleChoiceCancel) {
-      agentLog.ai('harness', 'CANCELLING PENDING MULTIPLE CHOICE');
-      this.pendingMultipleChoiceCancel();
-      this.pendingMultipleChoiceCancel = null;
+  cancelPendingUserWait(): void {
+    if (this.pendingUserWaitCancel) {
+      agentLog.ai('harness', 'CANCELLING PENDING USER WAIT');
+      this.pendingUserWaitCancel();
+      this.pendingUserWaitCancel = null;
     }
   }
 
   /**
-   * Register a cancel callback for a pending multiple choice.
+   * Register a cancel callback for a tool waiting on the user.
    * Used by the tool to allow external cancellation.
    */
-  registerMultipleChoiceCancel(cancel: () => void): void {
-    this.pendingMultipleChoiceCancel = cancel;
+  registerPendingUserWait(cancel: () => void): void {
+    this.pendingUserWaitCancel = cancel;
   }
 
   /**
-   * Clear the multiple choice cancel callback (called when MC completes normally)
+   * Clear the cancel callback (called when the wait ends normally)
    */
-  clearMultipleChoiceCancel(): void {
-    this.pendingMultipleChoiceCancel = null;
+  clearPendingUserWait(): void {
+    this.pendingUserWaitCancel = null;
   }
 
   /**
@@ -215,8 +249,11 @@ export class AgentHarness {
 
     agentLog.conversation(conversationId, 'ABORTING');
 
-    // Cancel any pending multiple choice
-    this.cancelPendingMultipleChoice();
+    // Cancel a pending question or pause
+    this.cancelPendingUserWait();
+
+    // Stop a side line that is still being played move by move
+    this.virtualBoard.stop();
 
     // Signal abort to the processing loop
     if (this.abortController) {
@@ -234,10 +271,10 @@ export class AgentHarness {
       message: userMessage.slice(0, 100) + (userMessage.length > 100 ? '...' : ''),
     });
 
-    // If there's a pending multiple choice, cancel it and allow the new message
-    if (this.isProcessing && this.pendingMultipleChoiceCancel) {
-      agentLog.conversation(conversationId, 'INTERRUPTING PENDING MULTIPLE CHOICE');
-      this.cancelPendingMultipleChoice();
+    // If a question or pause is waiting on the user, cancel it and allow the new message
+    if (this.isProcessing && this.pendingUserWaitCancel) {
+      agentLog.conversation(conversationId, 'INTERRUPTING PENDING USER WAIT');
+      this.cancelPendingUserWait();
       // Give a moment for the cancellation to propagate
       await new Promise((resolve) => setTimeout(resolve, 10));
       this.isProcessing = false;
@@ -286,19 +323,6 @@ export class AgentHarness {
         content: userMessage,
       });
 
-      // Prepare messages for AI (will be updated in the agentic loop)
-      let aiMessages: Message[] = conversation.messages.map(
-        (m: { role: string; content: string }) => ({
-          role: m.role as 'user' | 'assistant',
-          content: m.content,
-        })
-      );
-
-      agentLog.conversation(conversationId, 'CONTEXT PREPARED', {
-        messageCount: aiMessages.length,
-        roles: aiMessages.map((m) => m.role),
-      });
-
       // Create tools
       const tools = createTools();
       agentLog.conversation(
@@ -307,6 +331,23 @@ export class AgentHarness {
         tools.map((t) => t.name)
       );
 
+      // Prepare messages for AI (will be updated in the agentic loop)
+      // Older turns that don't fit the provider's token budget are summarized into the system prompt
+      const context = new ConversationContext(this.aiProvider.name);
+      const toolTokens = context.estimateTools(tools);
+      const history = context.buildHistory(
+        conversation.messages,
+        context.estimateTokens(this.buildSystemPrompt(this.gameManager.getState())) + toolTokens
+      );
+      const aiMessages: Message[] = history.messages;
+
+      agentLog.conversation(conversationId, 'CONTEXT PREPARED', {
+        messageCount: aiMessages.length,
+        roles: aiMessages.map((m) => m.role),
+        summarizedTurns: history.summarizedTurns,
+        estimatedTokens: history.estimatedTokens,
+      });
+
       // Emit thinking indicator (start)
       agentLog.thinking(conversationId, 'Emitting thinking indicator to client');
       agentLog.socket('conversation:thinking', 'emit', {
@@ -323,6 +364,8 @@ export class AgentHarness {
       let hasStartedStreaming = false;
       let chunkCount = 0;
       let toolCallCount = 0;
+      // Every tool call of this turn, saved with the assistant message
+      const messageToolCalls: ToolCall[] = [];
       const apiStartTime = Date.now();
       let thinkingEndLogged = false;
       let iteration = 0;
@@ -365,7 +408,16 @@ export class AgentHarness {
 
         // Get fresh game state for each iteration (tools may have modified it)
         const gameState = this.gameManager.getState();
-        const systemPrompt = this.buildSystemPrompt(gameState);
+        const systemPrompt = this.buildSystemPrompt(gameState) + this.buildHistorySection(history.summary);
+
+        // Keep this turn's tool results within the budget
+        const compacted = context.compact(aiMessages, context.estimateTokens(systemPrompt) + toolTokens);
+        if (compacted > 0) {
+          agentLog.conversation(conversationId, 'CONTEXT COMPACTED', {
+            toolResults: compacted,
+            estimatedTokens: context.estimateMessages(aiMessages),
+          });
+        }
 
         if (iteration === 1) {
           // File logging: game state (only first iteration)
@@ -500,8 +552,12 @@ export class AgentHarness {
             try {
               // Create tool context for coordination (multiple choice cancellation)
               const toolContext: ToolContext = {
-                registerMultipleChoiceCancel: (cancel) => this.registerMultipleChoiceCancel(cancel),
-                clearMultipleChoiceCancel: () => this.clearMultipleChoiceCancel(),
+                registerPendingUserWait: (cancel) => this.registerPendingUserWait(cancel),
+                clearPendingUserWait: () => this.clearPendingUserWait(),
+                repertoireManager: this.repertoireManager,
+                localDatabaseId: this.localDatabaseId,
+                virtualBoard: this.virtualBoard,
+                studentProfile: this.studentProfile,
               };
 
               result = await executeToolCall(
@@ -552,6 +608,12 @@ export class AgentHarness {
               result,
               rawPart: chunk.rawPart, // Preserve Gemini raw part with thought_signature
             });
+            messageToolCalls.push({
+              id: chunk.toolCallId,
+              name: chunk.name,
+              arguments: chunk.arguments,
+              result,
+            });
           } else if (chunk.type === 'done') {
             agentLog.stream(conversationId, 'STREAM DONE SIGNAL');
           }
@@ -625,7 +687,7 @@ export class AgentHarness {
           for (const tc of pendingToolCalls) {
             aiMessages.push({
               role: 'tool',
-              content: JSON.stringify(tc.result),
+              content: context.formatToolResult(tc.result),
               toolCallId: tc.toolCallId,
               name: tc.name,
               toolArguments: tc.arguments, // Store original arguments for Anthropic message reconstruction
@@ -681,11 +743,12 @@ export class AgentHarness {
       });
 
       // Save assistant message
-      if (fullContent) {
+      if (fullContent || messageToolCalls.length > 0) {
         this.conversationManager.addMessage(conversationId, {
           conversationId,
           role: 'assistant',
           content: fullContent,
+          toolCalls: messageToolCalls.length > 0 ? messageToolCalls : undefined,
         });
         agentLog.conversation(conversationId, 'ASSISTANT MESSAGE SAVED', {
           length: fullContent.length,
@@ -734,10 +797,34 @@ export class AgentHarness {
     isDraw?: boolean;
     isGameOver?: boolean;
   }): string {
-    if (this.currentPromptStyleId === 'terse') {
-      return this.buildTersePrompt(gameState);
-    }
-    return this.buildDetailedPrompt(gameState);
+    const prompt =
+      this.currentPromptStyleId === 'terse' ? this.buildTersePrompt(gameState) : this.buildDetailedPrompt(gameState);
+    return prompt + this.buildStudentProfileSection();
+  }
+
+  /**
+   * Summary of the turns of this conversation that are no longer sent in full
+   */
+  private buildHistorySection(summary: string | null): string {
+    if (!summary) return '';
+    return `
+
+=== EARLIER IN THIS CONVERSATION ===
+Summary of the first part of this conversation (only the latest messages follow in full). The board may have changed since - the current position is above.
+${summary}`;
+  }
+
+  /**
+   * What is known about the student from earlier conversations
+   */
+  private buildStudentProfileSection(): string {
+    const summary = this.studentProfile?.summarize();
+    if (!summary) return '';
+    return `
+
+=== STUDENT PROFILE ===
+From earlier lessons with this student. Build on what they know, revisit their repeated mistakes when they come up, and match their style. Keep it current with update_student_profile.
+${summary}`;
   }
 
   private buildTersePrompt(gameState: {
@@ -781,11 +868,18 @@ APPROACH:
 
 TOOLS:
 - reset_board, make_moves, undo_moves: demonstrate lines
+- show_variation, end_variation: preview a side line without changing the game
 - draw_arrows, highlight_squares: show key ideas (max 3-4 arrows)
+- set_board_orientation: show the board from the side the user plays
 - explore_continuations, get_position_stats: database lines (masters/lichess)
+- get_position_stats with database "local" and a player: what the user has played and faced in their own games
+- get_move_orders: move orders (transpositions) reaching the position in the local database
 - analyze_line: validate sequences before showing
 - analyze_position: Stockfish engine evaluation and best moves
+- find_repertoire_gaps: popular opponent replies missing from the user's saved repertoire
 - ask_multiple_choice: stop frequently to let user choose direction
+- pause_for_user: wait for the user to click Continue between steps of a demo
+- update_student_profile: remember openings studied, repeated mistakes and style for later lessons
 
 Keep explanations short. Prefer showing over telling. One concept at a time.
 After each concept, use ask_multiple_choice to let user pick what to explore next.`;
@@ -844,8 +938,10 @@ ${moveList ? `- Moves played: ${moveList}` : '- Starting position'}${gameStatus}
 3. **RESEARCH COMMON LINES** - Use the database to find the most common lines for this opening.
 - **explore_continuations**: Compare candidate moves to see which paths exist (masters/lichess database)
 - **analyze_line**: Validate that the sequences you plan to show are correct
-- **get_position_stats**: Check database frequencies to understand practical play
+- **get_position_stats**: Check database frequencies to understand practical play (database "local" with player/color shows the user's own games)
+- **get_move_orders**: See which move orders reach the position and how it is usually reached - explain transpositional tricks
 - **analyze_position**: Get Stockfish engine evaluation, best moves, and principal variation
+- **find_repertoire_gaps**: When the user asks what to prepare next, list the popular replies their saved repertoire has no answer for
 
 ### PHASE 2: CREATE A TEACHING PLAN AND SEND IT TO THE USER
 
@@ -853,13 +949,17 @@ ${moveList ? `- Moves played: ${moveList}` : '- Starting position'}${gameStatus}
 2. **Key Themes** (2-3 points) - What strategic/tactical principles does this illustrate?
 3. **Demo Sequence** - What specific lines will you show, and in what order?
 4. **Annotate Your Demo** - Use draw_arrows and highlight_squares to illustrate key ideas as you explain them
+   - Show side lines (alternatives, refutations, "what if" moves) with **show_variation** - it previews the line with per-move comments and arrows without changing the game; call **end_variation** before continuing the main line
 5. **Plan Your Next Steps** - Use ask_multiple_choice to let the user pick what they want to explore next.
 
 ### PHASE 4: EXECUTE THE TEACHING PLAN
 
 - Follow your plan systematically
+- If the lesson is from Black's point of view, call set_board_orientation with "black" before the demo
 - Explain the WHY before showing the HOW
-- Use pauses between major concepts
+- Use pauses between major concepts - call **pause_for_user** when the user should study the board before you go on
+- Test understanding with quiz questions - ask_multiple_choice with **correct_option** records the answer in the student profile
+- Call **update_student_profile** when the user studies an opening, makes a mistake worth remembering, or shows how they like to play
 - Limit visual clutter (3-4 arrows max)
 
 The goal is UNDERSTANDING, not just showing moves. A student who understands WHY the Italian Game leads to certain pawn structures is better than one who memorized 15 moves.
@@ -504,20 +504,26 @@ export class GoogleProvider implements AIProvider {
       lookup_opening: 'opening lookup',
       list_openings: 'opening list',
       get_position_stats: 'position statistics',
+      get_move_orders: 'move orders',
       get_current_position: 'current position',
       reset_board: 'board reset',
       make_move: 'making a move',
       make_moves: 'move sequence',
       undo_moves: 'undoing moves',
+      show_variation: 'side line preview',
+      end_variation: 'ending preview',
       goto_move: 'move navigation',
       set_position: 'position setup',
       draw_arrows: 'visual annotations',
       highlight_squares: 'square highlights',
       clear_annotations: 'clearing annotations',
+      set_board_orientation: 'board orientation',
       analyze_position: 'engine analysis',
       analyze_line: 'line analysis',
       explore_continuations: 'exploring continuations',
       ask_multiple_choice: 'asking a question',
+      pause_for_user: 'pausing',
+      update_student_profile: 'updating student profile',
       google_search: 'searching the web',
     };
     return toolLabels[name] || name.replace(/_/g, ' ');
@@ -0,0 +1,248 @@
+/**
+ * Student Profile
+ *
+ * What the agent remembers about the student between conversations: the
+ * openings they studied, their quiz answers, the mistakes they keep making
+ * and the way they like to play. The agent updates it with the
+ * update_student_profile tool, quiz answers are recorded as they come in,
+ * and a summary goes into every system prompt so a new conversation does
+ * not start cold. It is stored with the session.
+ */
+
+import type {
+  QuizAnswer,
+  RepertoireColor,
+  StudentMistake,
+  StudentProfile,
+  StudentProfileUpdate,
+  StudiedOpening,
+} from '@chess/shared';
+
+// Only recent answers say much about what the student knows now
+const MAX_QUIZ_ANSWERS = 50;
+const MAX_OPENINGS = 30;
+const MAX_MISTAKES = 30;
+const MAX_TEXT_LENGTH = 500;
+
+// How much of the profile goes into the system prompt
+const SUMMARY_OPENINGS = 8;
+const SUMMARY_MISTAKES = 5;
+const SUMMARY_QUIZ_ANSWERS = 10;
+const SUMMARY_MISSED_QUESTIONS = 3;
+
+export function emptyStudentProfile(): StudentProfile {
+  return { openings: [], quizAnswers: [], mistakes: [], style: '', notes: '', updatedAt: Date.now() };
+}
+
+function cleanText(value: unknown): string {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '';
+}
+
+function cleanColor(value: unknown): RepertoireColor | undefined {
+  return value === 'white' || value === 'black' ? value : undefined;
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Most frequent first, most recent first among equals */
+function sortMistakes(mistakes: StudentMistake[]): void {
+  mistakes.sort((a, b) => b.count - a.count || b.lastSeenAt - a.lastSeenAt);
+}
+
+export class StudentProfileManager {
+  private profile: StudentProfile;
+
+  constructor(profile?: StudentProfile) {
+    this.profile = profile ? { ...emptyStudentProfile(), ...profile } : emptyStudentProfile();
+  }
+
+  getProfile(): StudentProfile {
+    return this.profile;
+  }
+
+  isEmpty(): boolean {
+    const { openings, quizAnswers, mistakes, style, notes } = this.profile;
+    return openings.length === 0 && quizAnswers.length === 0 && mistakes.length === 0 && !style && !notes;
+  }
+
+  /**
+   * Record an opening as studied now, merging with an earlier entry of the same name
+   */
+  recordOpening(name: string, color?: RepertoireColor, notes?: string): StudiedOpening | null {
+    name = cleanText(name);
+    if (!name) return null;
+
+    const openings = this.profile.openings;
+    const index = openings.findIndex((o) => sameText(o.name, name));
+    const previous = index >= 0 ? openings.splice(index, 1)[0] : undefined;
+    const opening: StudiedOpening = {
+      name,
+      color: cleanColor(color) ?? previous?.color,
+      notes: cleanText(notes) || previous?.notes,
+      lastStudiedAt: Date.now(),
+    };
+
+    openings.unshift(opening);
+    openings.splice(MAX_OPENINGS);
+    this.touch();
+    return opening;
+  }
+
+  /**
+   * Record a mistake, counting it again if the same mistake was made before
+   */
+  recordMistake(description: string, example?: string): StudentMistake | null {
+    description = cleanText(description);
+    if (!description) return null;
+
+    const mistakes = this.profile.mistakes;
+    let mistake = mistakes.find((m) => sameText(m.description, description));
+    if (mistake) {
+      mistake.count++;
+      mistake.lastSeenAt = Date.now();
+      mistake.example = cleanText(example) || mistake.example;
+    } else {
+      mistake = { description, example: cleanText(example) || undefined, count: 1, lastSeenAt: Date.now() };
+      mistakes.push(mistake);
+    }
+
+    sortMistakes(mistakes);
+    // Drop the least frequent once the list is full (but never the one just recorded)
+    while (mistakes.length > MAX_MISTAKES) {
+      const last = mistakes[mistakes.length - 1] === mistake ? mistakes.length - 2 : mistakes.length - 1;
+      mistakes.splice(last, 1);
+    }
+    this.touch();
+    return mistake;
+  }
+
+  /**
+   * Forget a mistake the student no longer makes
+   * @returns false if there was no such mistake
+   */
+  resolveMistake(description: string): boolean {
+    const index = this.profile.mistakes.findIndex((m) => sameText(m.description, description.trim()));
+    if (index < 0) return false;
+    this.profile.mistakes.splice(index, 1);
+    this.touch();
+    return true;
+  }
+
+  recordQuizAnswer(answer: Omit<QuizAnswer, 'answeredAt'>): QuizAnswer {
+    const recorded: QuizAnswer = {
+      question: cleanText(answer.question),
+      answer: cleanText(answer.answer),
+      correctAnswer: cleanText(answer.correctAnswer),
+      correct: answer.correct,
+      ...(cleanText(answer.topic) && { topic: cleanText(answer.topic) }),
+      answeredAt: Date.now(),
+    };
+    const answers = this.profile.quizAnswers;
+    answers.push(recorded);
+    answers.splice(0, Math.max(0, answers.length - MAX_QUIZ_ANSWERS));
+    this.touch();
+    return recorded;
+  }
+
+  setStyle(style: string): void {
+    this.profile.style = cleanText(style);
+    this.touch();
+  }
+
+  setNotes(notes: string): void {
+    this.profile.notes = cleanText(notes);
+    this.touch();
+  }
+
+  /**
+   * Apply changes made by the student in the UI
+   */
+  update(update: StudentProfileUpdate): StudentProfile {
+    if (typeof update.style === 'string') this.profile.style = cleanText(update.style);
+    if (typeof update.notes === 'string') this.profile.notes = cleanText(update.notes);
+
+    if (Array.isArray(update.openings)) {
+      this.profile.openings = update.openings
+        .filter((o) => cleanText(o?.name))
+        .slice(0, MAX_OPENINGS)
+        .map((o) => ({
+          name: cleanText(o.name),
+          color: cleanColor(o.color),
+          notes: cleanText(o.notes) || undefined,
+          lastStudiedAt: typeof o.lastStudiedAt === 'number' ? o.lastStudiedAt : Date.now(),
+        }));
+    }
+
+    if (Array.isArray(update.mistakes)) {
+      this.profile.mistakes = update.mistakes
+        .filter((m) => cleanText(m?.description))
+        .slice(0, MAX_MISTAKES)
+        .map((m) => ({
+          description: cleanText(m.description),
+          example: cleanText(m.example) || undefined,
+          count: Math.max(1, Math.floor(Number(m.count)) || 1),
+          lastSeenAt: typeof m.lastSeenAt === 'number' ? m.lastSeenAt : Date.now(),
+        }));
+      sortMistakes(this.profile.mistakes);
+    }
+
+    // Answers can only be removed from the UI, not made up
+    if (Array.isArray(update.quizAnswers)) {
+      const kept = new Set(update.quizAnswers.map((a) => a?.answeredAt));
+      this.profile.quizAnswers = this.profile.quizAnswers.filter((a) => kept.has(a.answeredAt));
+    }
+
+    this.touch();
+    return this.profile;
+  }
+
+  reset(): StudentProfile {
+    this.profile = emptyStudentProfile();
+    return this.profile;
+  }
+
+  /**
+   * Summary for the system prompt, or an empty string if nothing is known yet
+   */
+  summarize(): string {
+    if (this.isEmpty()) return '';
+    const { openings, quizAnswers, mistakes, style, notes } = this.profile;
+    const lines: string[] = [];
+
+    if (style) {
+      lines.push(`- Preferred style: ${style}`);
+    }
+    if (openings.length > 0) {
+      const studied = openings
+        .slice(0, SUMMARY_OPENINGS)
+        .map((o) => `${o.name}${o.color ? ` (as ${o.color})` : ''}${o.notes ? ` - ${o.notes}` : ''}`);
+      lines.push(`- Openings studied (most recent first): ${studied.join('; ')}`);
+    }
+    if (mistakes.length > 0) {
+      lines.push('- Repeated mistakes:');
+      for (const m of mistakes.slice(0, SUMMARY_MISTAKES)) {
+        lines.push(`  - ${m.description}${m.count > 1 ? ` (${m.count} times)` : ''}${m.example ? ` e.g. ${m.example}` : ''}`);
+      }
+    }
+    if (quizAnswers.length > 0) {
+      const recent = quizAnswers.slice(-SUMMARY_QUIZ_ANSWERS);
+      const correct = recent.filter((a) => a.correct).length;
+      lines.push(`- Quiz results: ${correct} of the last ${recent.length} answered correctly`);
+      const missed = recent.filter((a) => !a.correct).slice(-SUMMARY_MISSED_QUESTIONS);
+      for (const a of missed) {
+        lines.push(`  - Missed "${a.question}": answered "${a.answer}", correct was "${a.correctAnswer}"`);
+      }
+    }
+    if (notes) {
+      lines.push(`- Notes: ${notes}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private touch(): void {
+    this.profile.updatedAt = Date.now();
+  }
+}
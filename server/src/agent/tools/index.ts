@@ -1,16 +1,25 @@
 import { Socket } from 'socket.io';
 import type {
   Tool,
+  RepertoireColor,
   ServerToClientEvents,
   ClientToServerEvents,
   BoardArrow,
   SquareHighlight,
   LichessDatabase,
+  ExplorerResult,
+  LocalPlayerFilter,
+  LocalGameFilter,
 } from '@chess/shared';
 import { ChessManager } from '../../chess/manager.js';
 import { OpeningDatabase } from '../../database/openings.js';
 import { getExplorer } from '../../database/lichess/index.js';
-import { getStockfishService } from '../../engine/stockfish.js';
+import { getLocalDatabaseRegistry, normalizeFilter, type LocalExplorer } from '../../database/local-explorer/index.js';
+import { getEnginePool, type EngineLease } from '../../engine/pool.js';
+import type { RepertoireManager } from '../../repertoire/manager.js';
+import { buildGapReport } from '../../repertoire/gaps.js';
+import { VirtualBoard, playVariation, formatLine, type VariationStep } from '../virtual-board.js';
+import type { StudentProfileManager } from '../student-profile.js';
 
 type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
 
@@ -29,13 +38,63 @@ export function createTools(): Tool[] {
           database: {
             type: 'string',
             description:
-              'Database to query: "masters" (OTB titled player games since 1952, default) or "lichess" (online games, can filter by rating/speed)',
-            enum: ['masters', 'lichess'],
+              'Database to query: "masters" (OTB titled player games since 1952, default), "lichess" (online games, can filter by rating/speed), "local" (an offline local database, e.g. a Lichess dump or the user\'s own imported games) or "personal" (the user\'s own imported games)',
+            enum: ['masters', 'lichess', 'local', 'personal'],
           },
           limit: {
             type: 'number',
             description: 'Maximum number of top moves to return (default: 5)',
           },
+          localDatabase: {
+            type: 'string',
+            description: 'Local database id, e.g. "my-games" (database "local" or "personal" only; default: the one selected in the explorer)',
+          },
+          player: {
+            type: 'string',
+            description: 'Only games played by this player, e.g. the user\'s username (database "local" or "personal" only, for databases indexed with players)',
+          },
+          color: {
+            type: 'string',
+            description: 'With a player, only games where they had this color (database "local" or "personal" only)',
+            enum: ['white', 'black'],
+          },
+          ratings: {
+            type: 'array',
+            items: { type: 'number' },
+            description: 'Rating buckets to include, from 400, 1000, 1200, 1400, 1600, 1800, 2000, 2200, 2500 - each covers up to the next, e.g. [1800, 2000] for 1800-2199 (database "local" or "personal" only)',
+          },
+          speeds: {
+            type: 'array',
+            items: { type: 'string', enum: ['ultraBullet', 'bullet', 'blitz', 'rapid', 'classical', 'correspondence'] },
+            description: 'Time controls to include, e.g. ["blitz"] (database "local" or "personal" only)',
+          },
+          since: {
+            type: 'string',
+            description: 'Only games from this month on, YYYY-MM (database "local" or "personal" only)',
+          },
+          until: {
+            type: 'string',
+            description: 'Only games up to this month, YYYY-MM (database "local" or "personal" only)',
+          },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'get_move_orders',
+      description:
+        'Find the main move orders (transpositions) reaching the current board position in a local database, with estimated game counts, and whether it is usually reached via one of them. Does NOT change the board. Use this to explain transpositional tricks - e.g. which move order avoids an opponent option, or how the user\'s line can arise from a different opening.',
+      parameters: {
+        type: 'object',
+        properties: {
+          localDatabase: {
+            type: 'string',
+            description: 'Local database id (default: the one selected in the explorer)',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of move orders to return (default: 5)',
+          },
         },
         required: [],
       },
@@ -95,6 +154,44 @@ export function createTools(): Tool[] {
         required: [],
       },
     },
+    {
+      name: 'find_repertoire_gaps',
+      description:
+        "Find holes in the user's saved opening repertoire: popular opponent replies that have no prepared answer, sorted by how often the user will meet them. Does NOT change the board. Use this to walk the user through what to prepare next - load a gap's line with make_moves to discuss it.",
+      parameters: {
+        type: 'object',
+        properties: {
+          color: {
+            type: 'string',
+            description: 'Which repertoire to check: "white" or "black"',
+            enum: ['white', 'black'],
+          },
+          min_play_rate: {
+            type: 'number',
+            description: 'Only report replies played in at least this percentage of games (default: 5)',
+          },
+          rating: {
+            type: 'number',
+            description: "The user's rating - lichess and local statistics are filtered to this rating band",
+          },
+          database: {
+            type: 'string',
+            description:
+              'Database to take play rates from: "lichess" (default), "masters" or "local" (an offline local database)',
+            enum: ['lichess', 'masters', 'local'],
+          },
+          localDatabase: {
+            type: 'string',
+            description: 'Local database id (database "local" only; default: the one selected in the explorer)',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of gaps to return (default: 10)',
+          },
+        },
+        required: ['color'],
+      },
+    },
 
     // =============================================================================
     // BOARD PRIMITIVE TOOLS (manipulate the board like a player/coach)
@@ -171,6 +268,78 @@ export function createTools(): Tool[] {
         required: [],
       },
     },
+    {
+      name: 'show_variation',
+      description:
+        'Preview a side line in analysis mode WITHOUT changing the game. The line is played from the current position on a virtual board, with an optional comment and arrows/highlights after each move; the user can step through it and returns to the real position with Escape. Prefer this over make_moves/undo_moves for alternatives, refutations and "what if" lines. Call end_variation when you are done with it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          moves: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                move: { type: 'string', description: 'Move in SAN (e.g., "Nf3") or UCI (e.g., "g1f3")' },
+                comment: { type: 'string', description: 'Short comment shown next to the move' },
+                arrows: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      from: { type: 'string', description: 'Starting square (e.g., "g5")' },
+                      to: { type: 'string', description: 'Ending square (e.g., "f7")' },
+                      color: { type: 'string', description: 'Arrow color: green, red, blue, yellow' },
+                    },
+                    required: ['from', 'to'],
+                  },
+                  description: 'Arrows for the position after the move',
+                },
+                highlights: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      square: { type: 'string', description: 'Square to highlight (e.g., "f7")' },
+                      color: { type: 'string', description: 'Highlight color: yellow, green, red, blue' },
+                      type: { type: 'string', description: 'Highlight type: attack, defend, key, weak, theme' },
+                    },
+                    required: ['square'],
+                  },
+                  description: 'Highlighted squares for the position after the move',
+                },
+              },
+              required: ['move'],
+            },
+            description:
+              'The line from the current position: [{move: "Ng5", comment: "Eyeing f7", arrows: [{from: "g5", to: "f7", color: "red"}]}, {move: "d5"}]',
+          },
+          title: {
+            type: 'string',
+            description: 'What the line shows (e.g., "The Fried Liver Attack")',
+          },
+          animate: {
+            type: 'boolean',
+            description: 'Whether to play the moves one at a time (default: true)',
+          },
+          delayMs: {
+            type: 'number',
+            description: 'Delay between animated moves in ms (default: 1000, range: 500-2500)',
+          },
+        },
+        required: ['moves'],
+      },
+    },
+    {
+      name: 'end_variation',
+      description:
+        'End the side line shown with show_variation and return the board to the real game position.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
     {
       name: 'goto_move',
       description:
@@ -276,6 +445,22 @@ export function createTools(): Tool[] {
         required: [],
       },
     },
+    {
+      name: 'set_board_orientation',
+      description:
+        "Show the board from White's or Black's side. Turn it to the side the user is studying, e.g. black when teaching a defense or a Black repertoire.",
+      parameters: {
+        type: 'object',
+        properties: {
+          orientation: {
+            type: 'string',
+            description: 'Side to show at the bottom of the board: white or black',
+            enum: ['white', 'black'],
+          },
+        },
+        required: ['orientation'],
+      },
+    },
 
     // =============================================================================
     // ANALYSIS TOOLS
@@ -317,19 +502,217 @@ export function createTools(): Tool[] {
             description:
               'Array of 2-3 plain English options. Format: "Description of the idea (Nf6)" - e.g., ["See the main defensive line (Be7)", "Explore the aggressive counter (d5)", "Show me a common trap here", "Go back and try a different move"]',
           },
+          correct_option: {
+            type: 'number',
+            description:
+              'Only for quiz questions that test the user (e.g., "What is White\'s best move here?"): number of the correct option, starting at 1. The answer is recorded in the student profile and the result tells you whether it was right.',
+          },
+          topic: {
+            type: 'string',
+            description: 'Opening or theme a quiz question is about (e.g., "Caro-Kann: Advance Variation")',
+          },
         },
         required: ['question', 'options'],
       },
     },
+    {
+      name: 'pause_for_user',
+      description:
+        'Pause and wait until the user clicks "Continue". Use this between the steps of a demonstration when the user should take in the position before you go on (e.g., after showing a key move, before revealing the answer). Unlike ask_multiple_choice there is no choice - the lesson simply continues where you left off. The user can also type a new question instead.',
+      parameters: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+            description:
+              'Short hint shown with the Continue button (e.g., "Take a moment to find White\'s best move - ready for the answer?")',
+          },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'update_student_profile',
+      description:
+        'Remember something about the student for future conversations. The profile is summarized at the top of every conversation, so record what will help you teach them later: openings they studied, mistakes they made (a mistake recorded again is counted again), mistakes they no longer make, and how they like to play. Quiz answers from ask_multiple_choice are recorded automatically. Only record what the student showed or told you.',
+      parameters: {
+        type: 'object',
+        properties: {
+          openings: {
+            type: 'array',
+            description: 'Openings studied in this conversation',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'Opening name (e.g., "Caro-Kann Defense")' },
+                color: {
+                  type: 'string',
+                  enum: ['white', 'black'],
+                  description: 'Side the student plays it from',
+                },
+                notes: {
+                  type: 'string',
+                  description: 'Where they are with it (e.g., "Knows the main line, not the Advance Variation")',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          mistakes: {
+            type: 'array',
+            description: 'Mistakes the student made',
+            items: {
+              type: 'object',
+              properties: {
+                description: {
+                  type: 'string',
+                  description:
+                    'The mistake in general terms, worded the same way each time (e.g., "Plays ...Bg4 before ...e6 and loses the b7 pawn")',
+                },
+                example: { type: 'string', description: 'Line or position where it happened' },
+              },
+              required: ['description'],
+            },
+          },
+          resolved_mistakes: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Descriptions of recorded mistakes the student no longer makes',
+          },
+          style: {
+            type: 'string',
+            description: 'Preferred playing style, replacing the recorded one (e.g., "Aggressive, likes gambits and open positions")',
+          },
+          notes: {
+            type: 'string',
+            description:
+              'Other things worth remembering, replacing the recorded notes (e.g., "Club player around 1400, wants to build a repertoire for weekend tournaments")',
+          },
+        },
+        required: [],
+      },
+    },
   ];
 }
 
 const openingDatabase = new OpeningDatabase();
 
+/**
+ * Local database a tool call asks for: the one given, else the session's,
+ * else the registry's default ("personal": the given or first personal one)
+ */
+function resolveLocalDatabase(
+  args: Record<string, unknown>,
+  context: ToolContext | undefined
+): { id: string } | { error: string } {
+  const registry = getLocalDatabaseRegistry();
+  const id =
+    args.database === 'personal'
+      ? registry.personalId((args.localDatabase ?? args.personalDatabase) as string | undefined)
+      : (args.localDatabase as string) || context?.localDatabaseId || registry.defaultId();
+  if (!id) {
+    return { error: 'No local database found - the user can build one or import their games with the local explorer CLI' };
+  }
+  if (!registry.has(id)) {
+    return { error: `Unknown local database "${id}". Available: ${registry.ids().join(', ')}` };
+  }
+  return { id };
+}
+
+// How long a prompt waits for the user before the tool gives up
+const USER_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+type UserWait =
+  | { outcome: 'answered'; answerIndex: number }
+  | { outcome: 'continued' | 'dismissed' | 'cancelled' | 'timeout' };
+
+/**
+ * Wait for the user to respond to a prompt - answer a question
+ * ('conversation:answer') or continue after a pause ('conversation:continue') -
+ * dismiss it, have it cancelled by the harness (new message or interrupt),
+ * or let it time out
+ */
+function waitForUser(
+  socket: ClientSocket,
+  context: ToolContext | undefined,
+  event: 'conversation:answer' | 'conversation:continue',
+  promptId: string,
+  timeoutMs: number = USER_WAIT_TIMEOUT_MS
+): Promise<UserWait> {
+  return new Promise((resolve) => {
+    let isResolved = false;
+
+    const finish = (result: UserWait) => {
+      if (isResolved) return;
+      isResolved = true;
+      clearTimeout(timeout);
+      socket.off('conversation:answer', answerHandler);
+      socket.off('conversation:continue', continueHandler);
+      socket.off('conversation:dismissPrompt', dismissHandler);
+      context?.clearPendingUserWait?.();
+      resolve(result);
+    };
+
+    const timeout = setTimeout(() => finish({ outcome: 'timeout' }), timeoutMs);
+
+    const answerHandler = (payload: { questionId: string; answerIndex: number }) => {
+      if (payload.questionId === promptId) finish({ outcome: 'answered', answerIndex: payload.answerIndex });
+    };
+    const continueHandler = (receivedId: string) => {
+      if (receivedId === promptId) finish({ outcome: 'continued' });
+    };
+    const dismissHandler = (receivedId: string) => {
+      if (receivedId === promptId) finish({ outcome: 'dismissed' });
+    };
+
+    context?.registerPendingUserWait?.(() => finish({ outcome: 'cancelled' }));
+    if (event === 'conversation:answer') {
+      socket.on('conversation:answer', answerHandler);
+    } else {
+      socket.on('conversation:continue', continueHandler);
+    }
+    socket.on('conversation:dismissPrompt', dismissHandler);
+  });
+}
+
+/**
+ * How a quiz answer is reported back to the agent (nothing for a plain question)
+ */
+function quizVerdict(quiz: { correct: boolean; correctOption: string } | null): string {
+  if (!quiz) return '';
+  return quiz.correct ? ' (correct)' : ` (wrong - the answer was: ${quiz.correctOption})`;
+}
+
+/**
+ * Format SAN moves played from the starting position as "1. e4 e5 2. Nf3"
+ */
+function formatMoveList(moves: string[]): string {
+  return moves.map((san, i) => (i % 2 === 0 ? `${i / 2 + 1}. ${san}` : san)).join(' ');
+}
+
+// Tools that change the game - an open side-line preview is ended first
+const GAME_CHANGING_TOOLS = new Set([
+  'reset_board',
+  'make_move',
+  'make_moves',
+  'undo_moves',
+  'goto_move',
+  'set_position',
+]);
+
 // Context for tools that need harness-level coordination
 export interface ToolContext {
-  registerMultipleChoiceCancel?: (cancel: () => void) => void;
-  clearMultipleChoiceCancel?: () => void;
+  // Cancellation of a tool waiting on the user (ask_multiple_choice, pause_for_user)
+  registerPendingUserWait?: (cancel: () => void) => void;
+  clearPendingUserWait?: () => void;
+  // Session repertoires (for repertoire tools)
+  repertoireManager?: RepertoireManager | null;
+  // Local database selected in the session (for database "local")
+  localDatabaseId?: string | null;
+  // Harness-side board for previewing side lines (show_variation)
+  virtualBoard?: VirtualBoard;
+  // What the agent remembers about the student (update_student_profile, quiz answers)
+  studentProfile?: StudentProfileManager | null;
 }
 
 export async function executeToolCall(
@@ -339,6 +722,10 @@ export async function executeToolCall(
   socket: ClientSocket,
   context?: ToolContext
 ): Promise<unknown> {
+  if (GAME_CHANGING_TOOLS.has(toolName)) {
+    context?.virtualBoard?.end();
+  }
+
   switch (toolName) {
     // =============================================================================
     // PURE INFORMATION TOOLS
@@ -352,17 +739,40 @@ export async function executeToolCall(
         // Get opening info from local database
         const info = await openingDatabase.getOpeningInfo(fen);
 
-        // Get stats from Lichess API
-        const explorer = getExplorer();
-        const explorerResult =
-          database === 'masters' ? await explorer.masters(fen) : await explorer.lichess(fen);
+        let explorerResult: ExplorerResult;
+        let localDatabase: string | undefined;
+        let playerFilter: LocalPlayerFilter | undefined;
+        let gameFilter: LocalGameFilter | undefined;
+
+        if (database === 'local' || database === 'personal') {
+          // Get stats from a local database (offline)
+          const resolved = resolveLocalDatabase(args, context);
+          if ('error' in resolved) {
+            return { error: resolved.error, fen };
+          }
+          localDatabase = resolved.id;
+          playerFilter = args.player
+            ? { player: args.player as string, color: args.color as 'white' | 'black' | undefined }
+            : undefined;
+          const filter = normalizeFilter(args as LocalGameFilter);
+          gameFilter = Object.keys(filter).length > 0 ? filter : undefined;
+          explorerResult = await getLocalDatabaseRegistry().query(localDatabase, fen, { ...gameFilter, ...playerFilter });
+        } else {
+          // Get stats from Lichess API
+          const explorer = getExplorer();
+          explorerResult =
+            database === 'masters' ? await explorer.masters(fen) : await explorer.lichess(fen);
+        }
 
         // Emit explorer result to UI so it stays in sync with agent queries
-        socket.emit('explorer:result', { result: explorerResult, database });
+        socket.emit('explorer:result', { result: explorerResult, database: localDatabase ?? database });
 
         const result: Record<string, unknown> = {
           database,
           fen,
+          ...(localDatabase && { localDatabase }),
+          ...(playerFilter && { player: playerFilter }),
+          ...(gameFilter && { filter: gameFilter }),
         };
 
         // Add opening info if we have it locally or from API
@@ -418,6 +828,42 @@ export async function executeToolCall(
       }
     }
 
+    case 'get_move_orders': {
+      const fen = gameManager.getFEN();
+      const resolved = resolveLocalDatabase(args, context);
+      if ('error' in resolved) {
+        return { error: resolved.error, fen };
+      }
+
+      try {
+        const report = await getLocalDatabaseRegistry().moveOrders(resolved.id, fen, {
+          limit: (args.limit as number) || 5,
+        });
+
+        return {
+          fen,
+          localDatabase: resolved.id,
+          totalGames: report.totalGames,
+          summary: report.summary,
+          ...(report.usual && { usuallyReachedVia: formatMoveList(report.usual.moves) }),
+          moveOrders: report.moveOrders.map((order) => ({
+            moves: formatMoveList(order.moves),
+            games: order.games,
+            share: `${order.share.toFixed(1)}%`,
+          })),
+          ...(report.moveOrders.length > 0 && {
+            note: 'Game counts per move order are estimates - the database counts games per position, not per move order',
+          }),
+          ...(report.truncated && { truncated: true }),
+        };
+      } catch (error) {
+        return {
+          error: error instanceof Error ? error.message : 'Failed to find move orders',
+          fen,
+        };
+      }
+    }
+
     case 'get_current_position': {
       const state = gameManager.getState();
       const moveList = state.history
@@ -441,6 +887,70 @@ export async function executeToolCall(
       };
     }
 
+    case 'find_repertoire_gaps': {
+      const repertoireManager = context?.repertoireManager;
+      if (!repertoireManager) {
+        return { error: 'No repertoire available in this session' };
+      }
+
+      const color = args.color as RepertoireColor;
+      if (color !== 'white' && color !== 'black') {
+        return { error: 'color must be "white" or "black"' };
+      }
+      const limit = (args.limit as number) || 10;
+      const database = (args.database as LichessDatabase) || 'lichess';
+
+      try {
+        let localExplorer: LocalExplorer | null = null;
+        if (database === 'local') {
+          const resolved = resolveLocalDatabase(args, context);
+          if ('error' in resolved) {
+            return { error: resolved.error };
+          }
+          localExplorer = await getLocalDatabaseRegistry().get(resolved.id);
+        }
+
+        const report = await buildGapReport(
+          repertoireManager,
+          color,
+          {
+            minPlayRate: args.min_play_rate as number | undefined,
+            rating: args.rating as number | undefined,
+            database,
+          },
+          localExplorer
+        );
+
+        if (report.positionsChecked === 0) {
+          return {
+            color,
+            message: `The ${color} repertoire has no lines yet - add some before looking for gaps`,
+          };
+        }
+
+        return {
+          color,
+          database: report.database,
+          ratingBand: report.ratings?.[0],
+          minPlayRate: `${report.minPlayRate}%`,
+          positionsChecked: report.positionsChecked,
+          truncated: report.truncated,
+          totalGaps: report.gaps.length,
+          gaps: report.gaps.slice(0, limit).map((gap) => ({
+            line: formatMoveList(gap.line) || 'Starting position',
+            unpreparedReply: gap.san,
+            playRate: `${gap.playRate.toFixed(1)}%`,
+            games: gap.games,
+            frequency: `${gap.frequency.toFixed(2)}%`,
+          })),
+        };
+      } catch (error) {
+        return {
+          error: error instanceof Error ? error.message : 'Failed to find repertoire gaps',
+        };
+      }
+    }
+
     case 'explore_continuations': {
       const candidateMoves = args.moves as string[];
       const database = (args.database as LichessDatabase) || 'lichess';
@@ -881,6 +1391,73 @@ export async function executeToolCall(
       }
     }
 
+    case 'show_variation': {
+      const virtualBoard = context?.virtualBoard;
+      if (!virtualBoard) {
+        return { error: 'Variation previews are not available in this session' };
+      }
+
+      const steps = args.moves as Array<VariationStep | string>;
+      if (!Array.isArray(steps) || steps.length === 0) {
+        return { error: 'No moves provided' };
+      }
+
+      const baseFen = gameManager.getFEN();
+      const line = playVariation(baseFen, steps);
+      if ('error' in line) {
+        return { error: line.error };
+      }
+
+      const animate = args.animate !== false;
+      const delayMs = Math.min(2500, Math.max(500, (args.delayMs as number) || 1000));
+      const title = args.title as string | undefined;
+      const shown = await virtualBoard.show(baseFen, gameManager.getState().currentMoveIndex, line.moves, {
+        title,
+        delayMs: animate ? delayMs : undefined,
+      });
+
+      const sans = line.moves.map((m) => m.san!);
+      if (shown < line.moves.length && virtualBoard.isActive()) {
+        return {
+          success: true,
+          stopped: true,
+          movesShown: shown,
+          line: formatLine(baseFen, sans.slice(0, shown)),
+          message: `Stopped after ${shown} of ${line.moves.length} moves; the preview is still open`,
+        };
+      }
+      if (shown < line.moves.length) {
+        return {
+          success: true,
+          closedByUser: true,
+          movesShown: shown,
+          line: formatLine(baseFen, sans.slice(0, shown)),
+          message: `The user left the preview after ${shown} of ${line.moves.length} moves; the board is back at the game position`,
+        };
+      }
+      return {
+        success: true,
+        line: formatLine(baseFen, sans),
+        movesShown: shown,
+        finalFen: line.finalFen,
+        title,
+        message:
+          'Previewing the line in analysis mode - the game is unchanged. Call end_variation to return to the game position (the user can also press Escape).',
+      };
+    }
+
+    case 'end_variation': {
+      const preview = context?.virtualBoard?.end();
+      if (!preview) {
+        return { success: true, message: 'No variation was being shown' };
+      }
+      return {
+        success: true,
+        message: 'Returned to the game position',
+        fen: preview.baseFen,
+      };
+    }
+
     case 'goto_move': {
       const index = args.moveIndex as number;
       try {
@@ -987,24 +1564,31 @@ export async function executeToolCall(
       return { success: true, message: 'Cleared all annotations from the board' };
     }
 
+    case 'set_board_orientation': {
+      const orientation = args.orientation as string;
+      if (orientation !== 'white' && orientation !== 'black') {
+        return { error: 'orientation must be "white" or "black"' };
+      }
+      socket.emit('board:orientation', orientation);
+      return { success: true, message: `Board is now shown from ${orientation === 'white' ? "White's" : "Black's"} side` };
+    }
+
     // =============================================================================
     // ANALYSIS TOOLS
     // =============================================================================
     case 'analyze_position': {
       const depth = (args.depth as number) || 20;
-      const stockfish = getStockfishService();
 
-      // Initialize if not ready
-      if (!stockfish.isReady()) {
-        try {
-          await stockfish.init();
-        } catch (initError) {
-          return { error: 'Engine initialization failed - Stockfish may not be installed' };
-        }
+      // Agent requests are served before UI and batch analysis
+      let lease: EngineLease;
+      try {
+        lease = await getEnginePool().acquire(socket.id, 'agent');
+      } catch (initError) {
+        return { error: 'Engine initialization failed - Stockfish may not be installed' };
       }
 
       try {
-        const result = await stockfish.analyze(gameManager.getFEN(), { depth });
+        const result = await lease.engine.analyze(gameManager.getFEN(), { depth });
         const line = result.lines[0];
 
         // Convert to legacy format for client
@@ -1030,6 +1614,8 @@ export async function executeToolCall(
         };
       } catch (error) {
         return { error: 'Analysis failed' };
+      } finally {
+        await lease.release();
       }
     }
 
@@ -1064,6 +1650,12 @@ export async function executeToolCall(
         return { error: 'Options must be an array of 2-5 choices' };
       }
 
+      // Quiz questions have a correct option (1-based)
+      const correctIndex = typeof args.correct_option === 'number' ? args.correct_option - 1 : null;
+      if (correctIndex !== null && (correctIndex < 0 || correctIndex >= options.length)) {
+        return { error: `correct_option must be between 1 and ${options.length}` };
+      }
+
       // Emit multiple choice event to client
       socket.emit('conversation:multipleChoice', {
         conversationId: '',
@@ -1073,82 +1665,165 @@ export async function executeToolCall(
       });
 
       // Wait for user answer, dismiss, cancellation, or timeout (max 5 minutes)
-      return new Promise((resolve) => {
-        let isResolved = false;
-
-        const timeout = setTimeout(() => {
-          if (isResolved) return;
-          cleanup();
-          resolve({
-            success: true,
-            answered: false,
-            reason: 'timeout',
-            message: 'User did not answer within timeout period',
-          });
-        }, 5 * 60 * 1000);
-
-        const cleanup = () => {
-          if (isResolved) return;
-          isResolved = true;
-          clearTimeout(timeout);
-          socket.off('conversation:answer', answerHandler);
-          socket.off('conversation:dismissPrompt', dismissHandler);
-          // Clear the cancel callback from harness
-          context?.clearMultipleChoiceCancel?.();
-        };
+      const wait = await waitForUser(socket, context, 'conversation:answer', questionId);
 
-        const answerHandler = (payload: { questionId: string; answerIndex: number }) => {
-          if (payload.questionId === questionId && !isResolved) {
-            cleanup();
-            const selectedOption = options[payload.answerIndex];
-            resolve({
-              success: true,
-              answered: true,
-              answerIndex: payload.answerIndex,
-              selectedOption,
-              message: `User selected option ${payload.answerIndex + 1}: ${selectedOption}`,
-              // Flag to signal that user interaction occurred - harness should reset reasoning mode
-              userInteracted: true,
-            });
-          }
+      if (wait.outcome === 'timeout') {
+        return {
+          success: true,
+          answered: false,
+          reason: 'timeout',
+          message: 'User did not answer within timeout period',
         };
-
-        const dismissHandler = (receivedQuestionId: string) => {
-          if (receivedQuestionId === questionId && !isResolved) {
-            cleanup();
-            // Fire and forget - resolve with a flag that tells harness to stop the loop
-            resolve({
-              success: true,
-              answered: false,
-              reason: 'dismissed',
-              message: 'User dismissed the question',
-              // Signal to harness: don't continue the agent loop, just stop
-              stopLoop: true,
-            });
-          }
+      }
+      if (wait.outcome === 'dismissed') {
+        return {
+          success: true,
+          answered: false,
+          reason: 'dismissed',
+          message: 'User dismissed the question',
+          // Signal to harness: don't continue the agent loop, just stop
+          stopLoop: true,
         };
-
-        // External cancellation handler (when user sends a new message)
-        const cancelHandler = () => {
-          if (isResolved) return;
-          cleanup();
-          // When cancelled by new message, resolve with cancelled flag
-          // The harness will ignore this result and process the new message
-          resolve({
-            success: false,
-            answered: false,
-            reason: 'cancelled',
-            message: 'Question cancelled by new user message',
-            cancelled: true,
-          });
+      }
+      if (wait.outcome !== 'answered') {
+        // Cancelled - the harness ignores this result and processes the new message
+        return {
+          success: false,
+          answered: false,
+          reason: 'cancelled',
+          message: 'Question cancelled by new user message',
+          cancelled: true,
         };
+      }
 
-        // Register the cancel callback with the harness
-        context?.registerMultipleChoiceCancel?.(cancelHandler);
+      const { answerIndex } = wait;
+      const selectedOption = options[answerIndex];
+      const quiz =
+        correctIndex !== null
+          ? { correct: answerIndex === correctIndex, correctOption: options[correctIndex] }
+          : null;
+      if (quiz && context?.studentProfile) {
+        context.studentProfile.recordQuizAnswer({
+          question,
+          answer: selectedOption,
+          correctAnswer: quiz.correctOption,
+          correct: quiz.correct,
+          topic: typeof args.topic === 'string' ? args.topic : undefined,
+        });
+        socket.emit('profile:data', context.studentProfile.getProfile());
+      }
+      return {
+        success: true,
+        answered: true,
+        answerIndex,
+        selectedOption,
+        ...quiz,
+        message: `User selected option ${answerIndex + 1}: ${selectedOption}${quizVerdict(quiz)}`,
+        // Flag to signal that user interaction occurred - harness should reset reasoning mode
+        userInteracted: true,
+      };
+    }
+
+    case 'pause_for_user': {
+      const message = typeof args.message === 'string' && args.message ? args.message : undefined;
+      const pauseId = `pause-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 
-        socket.on('conversation:answer', answerHandler);
-        socket.on('conversation:dismissPrompt', dismissHandler);
+      socket.emit('conversation:pause', {
+        conversationId: '',
+        pauseId,
+        message,
       });
+
+      // Wait for continue, dismiss, cancellation, or timeout (max 5 minutes)
+      const wait = await waitForUser(socket, context, 'conversation:continue', pauseId);
+
+      if (wait.outcome === 'timeout') {
+        // Nobody is there to see the rest of the lesson
+        return {
+          success: true,
+          continued: false,
+          reason: 'timeout',
+          message: 'User did not continue within timeout period',
+          stopLoop: true,
+        };
+      }
+      if (wait.outcome === 'dismissed') {
+        return {
+          success: true,
+          continued: false,
+          reason: 'dismissed',
+          message: 'User dismissed the pause',
+          stopLoop: true,
+        };
+      }
+      if (wait.outcome === 'cancelled') {
+        return {
+          success: false,
+          continued: false,
+          reason: 'cancelled',
+          message: 'Pause cancelled by new user message',
+          cancelled: true,
+        };
+      }
+      return {
+        success: true,
+        continued: true,
+        message: 'User is ready to continue',
+        userInteracted: true,
+      };
+    }
+
+    case 'update_student_profile': {
+      const studentProfile = context?.studentProfile;
+      if (!studentProfile) {
+        return { error: 'No student profile available in this session' };
+      }
+
+      const recorded: string[] = [];
+      const list = (value: unknown) => (Array.isArray(value) ? value : []);
+
+      for (const opening of list(args.openings)) {
+        const name = typeof opening === 'string' ? opening : opening?.name;
+        const entry = studentProfile.recordOpening(name, opening?.color, opening?.notes);
+        if (entry) recorded.push(`Opening: ${entry.name}`);
+      }
+      for (const mistake of list(args.mistakes)) {
+        const description = typeof mistake === 'string' ? mistake : mistake?.description;
+        const entry = studentProfile.recordMistake(description, mistake?.example);
+        if (entry) recorded.push(`Mistake: ${entry.description} (${entry.count}x)`);
+      }
+      const unknownMistakes: string[] = [];
+      for (const description of list(args.resolved_mistakes)) {
+        if (typeof description !== 'string') continue;
+        if (studentProfile.resolveMistake(description)) {
+          recorded.push(`Resolved: ${description}`);
+        } else {
+          unknownMistakes.push(description);
+        }
+      }
+      if (typeof args.style === 'string') {
+        studentProfile.setStyle(args.style);
+        recorded.push(`Style: ${args.style}`);
+      }
+      if (typeof args.notes === 'string') {
+        studentProfile.setNotes(args.notes);
+        recorded.push('Notes updated');
+      }
+
+      if (recorded.length === 0 && unknownMistakes.length === 0) {
+        return { error: 'Nothing to record - give openings, mistakes, resolved_mistakes, style or notes' };
+      }
+
+      socket.emit('profile:data', studentProfile.getProfile());
+
+      return {
+        success: true,
+        recorded,
+        ...(unknownMistakes.length > 0 && {
+          unknownMistakes,
+          recordedMistakes: studentProfile.getProfile().mistakes.map((m) => m.description),
+        }),
+      };
     }
 
     default:
@@ -0,0 +1,229 @@
+/**
+ * Virtual Board
+ *
+ * Previews a side line without touching the game: the line is played on a
+ * copy of the current position and streamed to the client's virtual
+ * (analysis) mode. The preview ends when the agent ends it, the user
+ * presses Escape or the real game changes, and the board returns to the
+ * real position.
+ *
+ * @example
+ * const line = playVariation(gameManager.getFEN(), [{ move: 'Ng5', comment: 'Attacking f7' }]);
+ * if (!('error' in line)) await virtualBoard.show(gameManager.getFEN(), 4, line.moves);
+ */
+
+import { Chess } from 'chess.js';
+import { Socket } from 'socket.io';
+import type {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  BoardArrow,
+  SquareHighlight,
+  PieceType,
+  VirtualMove,
+} from '@chess/shared';
+
+type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+/**
+ * A move of a line to preview, as given by the agent
+ */
+export interface VariationStep {
+  /** SAN (e.g. "Nf3") or UCI (e.g. "g1f3") */
+  move: string;
+  /** Shown next to the move */
+  comment?: string;
+  arrows?: Array<{ from: string; to: string; color?: string }>;
+  highlights?: Array<{ square: string; color?: string; type?: string; label?: string }>;
+}
+
+/**
+ * A line being previewed
+ */
+export interface VariationPreview {
+  baseFen: string;
+  /** Move index of the real position the line starts from */
+  baseIndex: number;
+  title?: string;
+  moves: VirtualMove[];
+  /** Moves sent to the client so far */
+  shown: number;
+}
+
+export interface ShowVariationOptions {
+  title?: string;
+  /** Play the moves one at a time with this delay (instantly if not set) */
+  delayMs?: number;
+}
+
+/**
+ * Play a line on a copy of a position
+ *
+ * Returns the moves with their comments and annotations, or the first
+ * illegal move. Steps may also be plain move strings.
+ */
+export function playVariation(
+  fen: string,
+  steps: Array<VariationStep | string>
+): { moves: VirtualMove[]; finalFen: string } | { error: string } {
+  const chess = new Chess(fen);
+  const moves: VirtualMove[] = [];
+
+  for (const [i, input] of steps.entries()) {
+    const step = typeof input === 'string' ? { move: input } : input;
+    const played = step?.move ? playMove(chess, step.move) : null;
+    if (!played) {
+      const after = moves.length > 0 ? ` after ${formatLine(fen, moves.map((m) => m.san!))}` : '';
+      return { error: `Illegal move "${step?.move ?? ''}" at move ${i + 1} of the variation${after}` };
+    }
+
+    const arrows = toArrows(step.arrows);
+    const highlights = toHighlights(step.highlights);
+    moves.push({
+      from: played.from,
+      to: played.to,
+      san: played.san,
+      piece: played.piece as PieceType,
+      captured: played.captured as PieceType | undefined,
+      ...(played.promotion && { promotion: played.promotion as PieceType }),
+      ...(step.comment && { comment: step.comment }),
+      ...((arrows.length > 0 || highlights.length > 0) && { annotations: { arrows, highlights } }),
+    });
+  }
+
+  return { moves, finalFen: chess.fen() };
+}
+
+/**
+ * Format SAN moves played from a position with move numbers, e.g. "3... Nf6 4. Ng5"
+ */
+export function formatLine(fen: string, sans: string[]): string {
+  const [, turn = 'w', , , , fullmove = '1'] = fen.split(' ');
+  const startPly = turn === 'b' ? 1 : 0;
+  const firstMove = Math.max(1, parseInt(fullmove) || 1);
+
+  return sans
+    .map((san, i) => {
+      const ply = startPly + i;
+      const number = firstMove + Math.floor(ply / 2);
+      if (ply % 2 === 0) return `${number}. ${san}`;
+      return i === 0 ? `${number}... ${san}` : san;
+    })
+    .join(' ');
+}
+
+/**
+ * The line a harness is previewing for its client
+ */
+export class VirtualBoard {
+  private socket: ClientSocket;
+  private preview: VariationPreview | null = null;
+  // Preview whose moves are still being played one at a time
+  private playing: VariationPreview | null = null;
+
+  constructor(socket: ClientSocket) {
+    this.socket = socket;
+  }
+
+  isActive(): boolean {
+    return this.preview !== null;
+  }
+
+  getPreview(): VariationPreview | null {
+    return this.preview;
+  }
+
+  /**
+   * Show a line in the client's virtual mode, replacing any open preview
+   *
+   * Resolves with the number of moves shown - fewer than the line if the
+   * preview was left or stopped while it was being played.
+   */
+  async show(baseFen: string, baseIndex: number, moves: VirtualMove[], options: ShowVariationOptions = {}): Promise<number> {
+    const preview: VariationPreview = { baseFen, baseIndex, title: options.title, moves, shown: 0 };
+    this.preview = preview;
+    this.socket.emit('virtual:start', baseFen, baseIndex, options.title);
+
+    if (!options.delayMs) {
+      preview.shown = moves.length;
+      this.socket.emit('virtual:moves', moves, undefined, baseFen);
+      return preview.shown;
+    }
+
+    this.playing = preview;
+    for (let i = 0; i < moves.length; i++) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+      }
+      // Closed, replaced or stopped while waiting
+      if (this.playing !== preview) break;
+      preview.shown = i + 1;
+      this.socket.emit('virtual:moves', moves.slice(0, i + 1), undefined, baseFen);
+    }
+    if (this.playing === preview) {
+      this.playing = null;
+    }
+    return preview.shown;
+  }
+
+  /**
+   * End the preview and return the client to the real position
+   *
+   * Returns the preview that was open, if any.
+   */
+  end(): VariationPreview | null {
+    const preview = this.preview;
+    if (preview) {
+      this.preview = null;
+      this.playing = null;
+      this.socket.emit('virtual:end');
+    }
+    return preview;
+  }
+
+  /**
+   * Stop playing a line move by move, leaving the moves shown so far open
+   */
+  stop(): void {
+    this.playing = null;
+  }
+
+  /**
+   * Forget the preview after the user left it (the client has already returned)
+   */
+  exit(): void {
+    this.preview = null;
+    this.playing = null;
+  }
+}
+
+/**
+ * Play a move in SAN or UCI notation, returning it (null if illegal)
+ */
+function playMove(chess: Chess, move: string) {
+  try {
+    if (/^[a-h][1-8][a-h][1-8][qrbn]?$/.test(move)) {
+      return chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+    }
+    return chess.move(move);
+  } catch {
+    return null;
+  }
+}
+
+function toArrows(input: VariationStep['arrows']): BoardArrow[] {
+  return (Array.isArray(input) ? input : [])
+    .filter((a) => a && typeof a.from === 'string' && typeof a.to === 'string')
+    .map((a) => ({ from: a.from, to: a.to, color: (a.color as BoardArrow['color']) || 'green' }));
+}
+
+function toHighlights(input: VariationStep['highlights']): SquareHighlight[] {
+  return (Array.isArray(input) ? input : [])
+    .filter((h) => h && typeof h.square === 'string')
+    .map((h) => ({
+      square: h.square,
+      color: (h.color as SquareHighlight['color']) || 'yellow',
+      type: (h.type as SquareHighlight['type']) || 'key',
+      label: h.label,
+    }));
+}
@@ -1,5 +1,6 @@
 import { Chess, Move as ChessMove, Square } from 'chess.js';
-import type { GameState, Move, PieceType, PieceColor } from '@chess/shared';
+import type { GameState, Move, MoveTreeNode, MoveReview, BoardAnnotations, PieceType, PieceColor } from '@chess/shared';
+import { parsePgn, writePgn, type PgnNode } from './pgn.js';
 
 // Tactical analysis types
 export interface SquareTacticalInfo {
@@ -20,104 +21,314 @@ export interface TacticalAnalysis {
   summary: string;
 }
 
+/** A node in the game tree. The root node holds the starting position and has no move. */
+export interface GameTreeNode {
+  id: string;
+  move: Move | null;
+  fen: string;
+  parentId: string | null;
+  /** Child node ids - index 0 is the main continuation, the rest are side lines */
+  children: string[];
+  comment?: string;
+  commentBefore?: string;
+  nags?: number[];
+  annotations?: BoardAnnotations;
+  review?: MoveReview;
+}
+
+/** Serializable copy of the game tree, used to persist a session's board */
+export interface ChessManagerSnapshot {
+  nodes: GameTreeNode[];
+  currentNodeId: string;
+  lineTipId: string;
+  nodeCounter: number;
+  headers: Record<string, string>;
+  result: string;
+}
+
+const ROOT_NODE_ID = 'root';
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
 export class ChessManager {
   private chess: Chess;
-  private moveHistory: Move[];
-  private positionHistory: string[];
-  private currentIndex: number;
+  private nodes: Map<string, GameTreeNode>;
+  private currentNodeId: string;
+  // Deepest node of the line being viewed. Navigating back along the line keeps it,
+  // so stepping forward again follows the same variation instead of the main line.
+  private lineTipId: string;
+  private nodeCounter: number;
+  // PGN headers and result from the last loaded game, written back on export
+  private headers: Record<string, string>;
+  private result: string;
 
   constructor() {
     this.chess = new Chess();
-    this.moveHistory = [];
-    this.positionHistory = [this.chess.fen()];
-    this.currentIndex = 0;
+    this.nodes = new Map();
+    this.headers = {};
+    this.result = '*';
+    this.nodeCounter = 0;
+    this.currentNodeId = ROOT_NODE_ID;
+    this.lineTipId = ROOT_NODE_ID;
+    this.resetTree(this.chess.fen());
   }
 
   loadFEN(fen: string): void {
     this.chess.load(fen);
-    this.moveHistory = [];
-    this.positionHistory = [fen];
-    this.currentIndex = 0;
+    this.resetTree(this.chess.fen());
+    this.headers = {};
+    this.result = '*';
   }
 
+  /**
+   * Load a PGN including comments, NAGs, nested variations and
+   * [%cal]/[%csl] annotations. The board ends at the last main line move.
+   */
   loadPGN(pgn: string): void {
-    this.chess.loadPgn(pgn);
-    
-    // Get the move history from the loaded PGN
-    const history = this.chess.history({ verbose: true });
-    
-    // Rebuild position history
-    this.chess.reset();
-    this.positionHistory = [this.chess.fen()];
-    this.moveHistory = [];
+    const game = parsePgn(pgn);
+    const startFen = game.headers.FEN || STARTING_FEN;
+
+    // Keep the previous game so a bad PGN leaves the board untouched
+    const previous = {
+      nodes: new Map(this.nodes),
+      currentNodeId: this.currentNodeId,
+      lineTipId: this.lineTipId,
+      headers: this.headers,
+      result: this.result,
+      fen: this.chess.fen(),
+    };
 
-    for (const move of history) {
-      this.chess.move(move.san);
-      this.moveHistory.push(this.convertMove(move));
-      this.positionHistory.push(this.chess.fen());
+    try {
+      this.chess.load(startFen);
+      this.resetTree(this.chess.fen());
+      this.headers = game.headers;
+      this.result = game.result;
+
+      const root = this.nodes.get(ROOT_NODE_ID)!;
+      root.comment = game.comment || undefined;
+      root.annotations = game.annotations;
+
+      this.importPgnNodes(ROOT_NODE_ID, game.moves);
+    } catch (error) {
+      this.nodes = previous.nodes;
+      this.currentNodeId = previous.currentNodeId;
+      this.lineTipId = previous.lineTipId;
+      this.headers = previous.headers;
+      this.result = previous.result;
+      this.chess.load(previous.fen);
+      throw error;
     }
 
-    this.currentIndex = this.moveHistory.length;
+    // Land at the end of the main line, like a freshly played game
+    let lastId = ROOT_NODE_ID;
+    while (this.nodes.get(lastId)!.children.length > 0) {
+      lastId = this.nodes.get(lastId)!.children[0];
+    }
+    this.lineTipId = lastId;
+    this.setCurrentNode(lastId);
   }
 
-  makeMove(from: string, to: string, promotion?: PieceType): Move | null {
-    // If we're not at the end of history, truncate
-    if (this.currentIndex < this.moveHistory.length) {
-      this.moveHistory = this.moveHistory.slice(0, this.currentIndex);
-      this.positionHistory = this.positionHistory.slice(0, this.currentIndex + 1);
-      // Reload position at current index
-      this.chess.load(this.positionHistory[this.currentIndex]);
+  /**
+   * Export the whole game tree as PGN, including side lines, comments, NAGs and annotations.
+   */
+  exportPGN(): string {
+    const root = this.nodes.get(ROOT_NODE_ID)!;
+    const headers = { ...this.headers };
+    if (root.fen !== STARTING_FEN && !headers.FEN) {
+      headers.SetUp = '1';
+      headers.FEN = root.fen;
     }
 
+    const toPgnNode = (id: string): PgnNode => {
+      const node = this.nodes.get(id)!;
+      return {
+        san: node.move!.san!,
+        nags: node.nags ?? [],
+        comment: node.comment,
+        commentBefore: node.commentBefore,
+        annotations: node.annotations,
+        children: node.children.map(toPgnNode),
+      };
+    };
+
+    return writePgn(
+      {
+        headers,
+        comment: root.comment,
+        annotations: root.annotations,
+        moves: root.children.map(toPgnNode),
+        result: this.result,
+      },
+      root.fen
+    );
+  }
+
+  makeMove(from: string, to: string, promotion?: PieceType): Move | null {
+    let result: ChessMove;
     try {
-      const result = this.chess.move({
+      result = this.chess.move({
         from,
         to,
         promotion: promotion || undefined,
       });
-
-      if (result) {
-        const move = this.convertMove(result);
-        this.moveHistory.push(move);
-        this.positionHistory.push(this.chess.fen());
-        this.currentIndex = this.moveHistory.length;
-        return move;
-      }
     } catch {
       return null;
     }
 
-    return null;
+    if (!result) {
+      return null;
+    }
+
+    const move = this.convertMove(result);
+
+    // Re-entering an existing continuation just follows it; anything else becomes a new variation
+    const existing = this.findChildByMove(this.currentNodeId, move);
+    if (existing) {
+      this.currentNodeId = existing.id;
+      this.lineTipId = existing.id;
+    } else {
+      this.addChild(this.currentNodeId, move, this.chess.fen());
+    }
+
+    return move;
   }
 
   navigateToMove(index: number): void {
-    if (index < 0 || index > this.moveHistory.length) {
+    const line = this.getLineNodes();
+    if (index < 0 || index >= line.length) {
       throw new Error('Invalid move index');
     }
 
-    this.currentIndex = index;
-    this.chess.load(this.positionHistory[index]);
+    this.setCurrentNode(line[index].id);
+  }
+
+  /**
+   * Navigate to any node in the game tree. Moving to a node outside the
+   * current line switches the viewed line to the variation containing it.
+   */
+  navigateToNode(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`Move not found: ${nodeId}`);
+    }
+
+    const isOnLine = this.getLineNodes().some((n) => n.id === nodeId);
+    if (!isOnLine) {
+      this.lineTipId = nodeId;
+    }
+    this.setCurrentNode(nodeId);
+  }
+
+  /**
+   * Promote the variation containing a node so it becomes the main continuation
+   * at its branch point. Returns false if the node is already on the main line.
+   */
+  promoteVariation(nodeId: string): boolean {
+    const node = this.nodes.get(nodeId);
+    if (!node) {
+      throw new Error(`Move not found: ${nodeId}`);
+    }
+
+    // Walk up to the first node that is not its parent's main continuation
+    let branch: GameTreeNode | undefined = node;
+    while (branch && branch.parentId) {
+      const parent: GameTreeNode = this.nodes.get(branch.parentId)!;
+      const position = parent.children.indexOf(branch.id);
+      if (position > 0) {
+        parent.children.splice(position, 1);
+        parent.children.unshift(branch.id);
+        return true;
+      }
+      branch = parent;
+    }
+
+    return false;
+  }
+
+  /**
+   * Delete a node and everything after it. If the board is inside the deleted
+   * subtree it moves back to the branch point.
+   */
+  deleteVariation(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    if (!node || !node.parentId) {
+      throw new Error(`Cannot delete move: ${nodeId}`);
+    }
+
+    const parent = this.nodes.get(node.parentId)!;
+    parent.children = parent.children.filter((id) => id !== nodeId);
+
+    const removed = new Set<string>();
+    const stack = [nodeId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      removed.add(id);
+      stack.push(...this.nodes.get(id)!.children);
+      this.nodes.delete(id);
+    }
+
+    if (removed.has(this.lineTipId)) {
+      this.lineTipId = parent.id;
+    }
+    if (removed.has(this.currentNodeId)) {
+      this.setCurrentNode(parent.id);
+    }
   }
 
   reset(): void {
     this.chess.reset();
-    this.moveHistory = [];
-    this.positionHistory = [this.chess.fen()];
-    this.currentIndex = 0;
+    this.resetTree(this.chess.fen());
+    this.headers = {};
+    this.result = '*';
+  }
+
+  /**
+   * Copy the whole game tree, including the viewed line and current node
+   */
+  snapshot(): ChessManagerSnapshot {
+    return structuredClone({
+      nodes: Array.from(this.nodes.values()),
+      currentNodeId: this.currentNodeId,
+      lineTipId: this.lineTipId,
+      nodeCounter: this.nodeCounter,
+      headers: this.headers,
+      result: this.result,
+    });
+  }
+
+  /**
+   * Replace the game tree with a snapshot taken by snapshot()
+   */
+  restore(snapshot: ChessManagerSnapshot): void {
+    const nodes = new Map(structuredClone(snapshot.nodes).map((node) => [node.id, node]));
+    if (!nodes.has(ROOT_NODE_ID) || !nodes.has(snapshot.currentNodeId) || !nodes.has(snapshot.lineTipId)) {
+      throw new Error('Invalid board snapshot');
+    }
+
+    this.nodes = nodes;
+    this.lineTipId = snapshot.lineTipId;
+    this.nodeCounter = snapshot.nodeCounter;
+    this.headers = { ...snapshot.headers };
+    this.result = snapshot.result;
+    this.setCurrentNode(snapshot.currentNodeId);
   }
 
   getState(): GameState {
+    const line = this.getLineNodes();
+    const currentIndex = line.findIndex((n) => n.id === this.currentNodeId);
+
     return {
       fen: this.chess.fen(),
-      pgn: this.chess.pgn(),
-      history: this.moveHistory,
-      currentMoveIndex: this.currentIndex,
+      pgn: this.getPGN(),
+      history: line.slice(1).map((n) => n.move!),
+      currentMoveIndex: currentIndex,
       turn: this.chess.turn() as PieceColor,
       isCheck: this.chess.isCheck(),
       isCheckmate: this.chess.isCheckmate(),
       isStalemate: this.chess.isStalemate(),
       isDraw: this.chess.isDraw(),
       isGameOver: this.chess.isGameOver(),
+      moveTree: this.getMoveTree(),
+      currentNodeId: this.currentNodeId === ROOT_NODE_ID ? null : this.currentNodeId,
     };
   }
 
@@ -133,8 +344,22 @@ export class ChessManager {
     return this.chess.fen();
   }
 
+  /**
+   * PGN of the current line, from the starting position up to the board position.
+   */
   getPGN(): string {
-    return this.chess.pgn();
+    const line = this.getLineNodes();
+    const currentIndex = line.findIndex((n) => n.id === this.currentNodeId);
+    const root = line[0];
+
+    const game = new Chess(root.fen);
+    if (root.fen !== new Chess().fen()) {
+      game.header('SetUp', '1', 'FEN', root.fen);
+    }
+    for (const node of line.slice(1, currentIndex + 1)) {
+      game.move(node.move!.san!);
+    }
+    return game.pgn();
   }
 
   getTurn(): PieceColor {
@@ -142,24 +367,181 @@ export class ChessManager {
   }
 
   getPositionAtIndex(index: number): string {
-    if (index < 0 || index >= this.positionHistory.length) {
+    const line = this.getLineNodes();
+    if (index < 0 || index >= line.length) {
       throw new Error('Invalid position index');
     }
-    return this.positionHistory[index];
+    return line[index].fen;
   }
 
   getMoveAtIndex(index: number): Move | null {
-    if (index < 0 || index >= this.moveHistory.length) {
+    const line = this.getLineNodes();
+    if (index < 0 || index >= line.length - 1) {
       return null;
     }
-    return this.moveHistory[index];
+    return line[index + 1].move;
   }
 
-  getFullHistory(): { moves: Move[]; positions: string[] } {
+  getFullHistory(): { moves: Move[]; positions: string[]; nodeIds: string[] } {
+    const line = this.getLineNodes();
     return {
-      moves: [...this.moveHistory],
-      positions: [...this.positionHistory],
+      moves: line.slice(1).map((n) => n.move!),
+      positions: line.map((n) => n.fen),
+      nodeIds: line.slice(1).map((n) => n.id),
+    };
+  }
+
+  /**
+   * Store the engine review of a move. Returns false if the node no longer exists.
+   */
+  setMoveReview(nodeId: string, review: MoveReview): boolean {
+    const node = this.nodes.get(nodeId);
+    if (!node || !node.move) {
+      return false;
+    }
+    node.review = review;
+    return true;
+  }
+
+  /**
+   * Id of the node the board is showing (null at the starting position)
+   */
+  getCurrentNodeId(): string | null {
+    return this.currentNodeId === ROOT_NODE_ID ? null : this.currentNodeId;
+  }
+
+  /**
+   * The full game tree as shared MoveTreeNodes, starting with the moves from the start position.
+   */
+  getMoveTree(): MoveTreeNode[] {
+    return this.nodes.get(ROOT_NODE_ID)!.children.map((id) => this.toMoveTreeNode(id));
+  }
+
+  private toMoveTreeNode(id: string): MoveTreeNode {
+    const node = this.nodes.get(id)!;
+    const treeNode: MoveTreeNode = {
+      id: node.id,
+      move: node.move!,
+      fen: node.fen,
+      children: node.children.map((childId) => this.toMoveTreeNode(childId)),
+    };
+    if (node.parentId && node.parentId !== ROOT_NODE_ID) {
+      treeNode.parent = node.parentId;
+    }
+    if (node.comment) {
+      treeNode.comment = node.comment;
+    }
+    if (node.commentBefore) {
+      treeNode.commentBefore = node.commentBefore;
+    }
+    if (node.nags && node.nags.length > 0) {
+      treeNode.nags = node.nags;
+    }
+    if (node.annotations) {
+      treeNode.annotations = node.annotations;
+    }
+    if (node.review) {
+      treeNode.review = node.review;
+    }
+    return treeNode;
+  }
+
+  /**
+   * Nodes of the viewed line: root to the line tip, then along the main
+   * continuation until the line ends.
+   */
+  private getLineNodes(): GameTreeNode[] {
+    const path: GameTreeNode[] = [];
+    let node: GameTreeNode | undefined = this.nodes.get(this.lineTipId);
+    while (node) {
+      path.unshift(node);
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined;
+    }
+
+    let tail = path[path.length - 1];
+    while (tail.children.length > 0) {
+      tail = this.nodes.get(tail.children[0])!;
+      path.push(tail);
+    }
+    return path;
+  }
+
+  private resetTree(startFen: string): void {
+    this.nodes.clear();
+    this.nodes.set(ROOT_NODE_ID, {
+      id: ROOT_NODE_ID,
+      move: null,
+      fen: startFen,
+      parentId: null,
+      children: [],
+    });
+    this.currentNodeId = ROOT_NODE_ID;
+    this.lineTipId = ROOT_NODE_ID;
+  }
+
+  /**
+   * Append a move below a node and make it the current node.
+   */
+  private addChild(parentId: string, move: Move, fen: string): GameTreeNode {
+    const parent = this.nodes.get(parentId)!;
+    const node: GameTreeNode = {
+      id: `m${++this.nodeCounter}`,
+      move,
+      fen,
+      parentId,
+      children: [],
     };
+    this.nodes.set(node.id, node);
+    parent.children.push(node.id);
+    this.currentNodeId = node.id;
+    this.lineTipId = node.id;
+    return node;
+  }
+
+  /**
+   * Replay parsed PGN moves below a node, validating each against the board
+   */
+  private importPgnNodes(parentId: string, pgnNodes: PgnNode[]): void {
+    const board = new Chess();
+    for (const pgnNode of pgnNodes) {
+      const parent = this.nodes.get(parentId)!;
+      board.load(parent.fen);
+
+      let result: ChessMove;
+      try {
+        result = board.move(pgnNode.san);
+      } catch {
+        throw new Error(`Invalid move in PGN: ${pgnNode.san}`);
+      }
+
+      const node: GameTreeNode = {
+        id: `m${++this.nodeCounter}`,
+        move: this.convertMove(result),
+        fen: board.fen(),
+        parentId,
+        children: [],
+        comment: pgnNode.comment || undefined,
+        commentBefore: pgnNode.commentBefore,
+        nags: pgnNode.nags.length > 0 ? pgnNode.nags : undefined,
+        annotations: pgnNode.annotations,
+      };
+      this.nodes.set(node.id, node);
+      parent.children.push(node.id);
+
+      this.importPgnNodes(node.id, pgnNode.children);
+    }
+  }
+
+  private findChildByMove(parentId: string, move: Move): GameTreeNode | undefined {
+    const parent = this.nodes.get(parentId)!;
+    return parent.children
+      .map((id) => this.nodes.get(id)!)
+      .find((child) => child.move!.san === move.san);
+  }
+
+  private setCurrentNode(nodeId: string): void {
+    this.currentNodeId = nodeId;
+    this.chess.load(this.nodes.get(nodeId)!.fen);
   }
 
   private convertMove(move: ChessMove): Move {
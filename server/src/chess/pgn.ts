@@ -0,0 +1,395 @@
+/**
+ * Annotated PGN import/export
+ *
+ * Parses and writes a single PGN game keeping everything a study file carries:
+ * - Headers in [Name "Value"] format (order preserved)
+ * - Comments in {braces} and ; line comments
+ * - NAGs ($1, $14, ...) and suffix glyphs (!, ?, !!, ??, !?, ?!)
+ * - Nested ( ... ) variations
+ * - [%cal ...] arrows and [%csl ...] square highlights embedded in comments,
+ *   mapped to BoardAnnotations. Other [%...] commands (clk, eval) stay in the comment text.
+ */
+
+import type { ArrowColor, BoardAnnotations, BoardArrow, SquareHighlight } from '@chess/shared';
+
+/** A move in a parsed PGN, with its continuation and side lines as children */
+export interface PgnNode {
+  san: string;
+  nags: number[];
+  /** Comment following the move */
+  comment?: string;
+  /** Comment placed before the move (e.g. at the start of a variation) */
+  commentBefore?: string;
+  annotations?: BoardAnnotations;
+  /** children[0] continues the line, the rest are side lines */
+  children: PgnNode[];
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  /** Comment before the first move */
+  comment?: string;
+  annotations?: BoardAnnotations;
+  /** First moves: moves[0] is the main line, the rest are side lines */
+  moves: PgnNode[];
+  result: string;
+}
+
+const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+};
+
+const RESULTS = new Set(['1-0', '0-1', '1/2-1/2', '*']);
+
+const COLOR_CODES: Record<string, ArrowColor> = {
+  G: 'green',
+  R: 'red',
+  B: 'blue',
+  Y: 'yellow',
+  O: 'orange',
+  P: 'purple',
+};
+
+const COLOR_LETTERS: Record<ArrowColor, string> = {
+  green: 'G',
+  red: 'R',
+  blue: 'B',
+  yellow: 'Y',
+  orange: 'O',
+  purple: 'P',
+};
+
+const DEFAULT_LINE_WIDTH = 80;
+
+type Token =
+  | { type: 'header'; name: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'nag'; value: number }
+  | { type: 'result'; value: string }
+  | { type: 'move'; san: string };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '[') {
+      const end = text.indexOf(']', i);
+      const match = text.slice(i, end + 1).match(/^\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]$/);
+      if (end < 0 || !match) {
+        throw new Error('Malformed PGN header');
+      }
+      tokens.push({ type: 'header', name: match[1], value: match[2].replace(/\\(["\\])/g, '$1') });
+      i = end + 1;
+    } else if (ch === '{') {
+      const end = text.indexOf('}', i);
+      if (end < 0) {
+        throw new Error('Unterminated PGN comment');
+      }
+      tokens.push({ type: 'comment', text: text.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === ';') {
+      const end = text.indexOf('\n', i);
+      const stop = end < 0 ? text.length : end;
+      tokens.push({ type: 'comment', text: text.slice(i + 1, stop) });
+      i = stop;
+    } else if (ch === '%' && (i === 0 || text[i - 1] === '\n')) {
+      // Escape line - ignored per the PGN spec
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end;
+    } else if (ch === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (ch === '$') {
+      const match = text.slice(i).match(/^\$(\d+)/);
+      if (!match) {
+        throw new Error('Malformed NAG');
+      }
+      tokens.push({ type: 'nag', value: parseInt(match[1], 10) });
+      i += match[0].length;
+    } else {
+      const match = text.slice(i).match(/^[^\s{}();[\]$]+/);
+      if (!match) {
+        throw new Error(`Unexpected character "${ch}" at ${i}`);
+      }
+      const word = match[0];
+      i += word.length;
+
+      if (RESULTS.has(word)) {
+        tokens.push({ type: 'result', value: word });
+        continue;
+      }
+
+      // Strip move numbers ("12." / "12..." / "12...Nf6")
+      const san = word.replace(/^\d+\.*/, '');
+      if (!san) continue;
+
+      const suffix = san.match(/[!?]+$/);
+      if (suffix) {
+        tokens.push({ type: 'move', san: san.slice(0, -suffix[0].length) });
+        const nag = SUFFIX_NAGS[suffix[0]];
+        if (nag) {
+          tokens.push({ type: 'nag', value: nag });
+        }
+      } else {
+        tokens.push({ type: 'move', san });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Pull [%cal] and [%csl] commands out of a comment
+ */
+export function extractCommentAnnotations(text: string): {
+  comment: string;
+  annotations?: BoardAnnotations;
+} {
+  const arrows: BoardArrow[] = [];
+  const highlights: SquareHighlight[] = [];
+
+  const comment = text
+    .replace(/\[%(cal|csl)\s+([^\]]*)\]/g, (_, command: string, args: string) => {
+      for (const item of args.split(',').map((a) => a.trim())) {
+        const color = COLOR_CODES[item[0]];
+        if (!color) continue;
+        if (command === 'cal' && /^[A-Z][a-h][1-8][a-h][1-8]$/.test(item)) {
+          arrows.push({ from: item.slice(1, 3), to: item.slice(3, 5), color });
+        } else if (command === 'csl' && /^[A-Z][a-h][1-8]$/.test(item)) {
+          highlights.push({ square: item.slice(1, 3), color, type: 'custom' });
+        }
+      }
+      return '';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (arrows.length === 0 && highlights.length === 0) {
+    return { comment };
+  }
+  return { comment, annotations: { arrows, highlights } };
+}
+
+function mergeAnnotations(
+  existing: BoardAnnotations | undefined,
+  added: BoardAnnotations | undefined
+): BoardAnnotations | undefined {
+  if (!added) return existing;
+  if (!existing) return added;
+  return {
+    arrows: [...existing.arrows, ...added.arrows],
+    highlights: [...existing.highlights, ...added.highlights],
+  };
+}
+
+function joinComments(existing: string | undefined, added: string): string | undefined {
+  if (!added) return existing;
+  return existing ? `${existing} ${added}` : added;
+}
+
+/**
+ * Parse the first game of a PGN text. Moves are not validated here -
+ * the caller replays them against a board.
+ */
+export function parsePgn(text: string): PgnGame {
+  const game: PgnGame = { headers: {}, moves: [], result: '*' };
+  const root: PgnNode = { san: '', nags: [], children: [] };
+
+  interface Context {
+    parent: PgnNode;
+    last: PgnNode | null;
+    lastParent: PgnNode | null;
+    pendingComment?: string;
+  }
+
+  let ctx: Context = { parent: root, last: null, lastParent: null };
+  const stack: Context[] = [];
+  let seenMove = false;
+
+  for (const token of tokenize(text)) {
+    if (token.type === 'header') {
+      // A header after the movetext starts the next game
+      if (seenMove) break;
+      game.headers[token.name] = token.value;
+    } else if (token.type === 'comment') {
+      const { comment, annotations } = extractCommentAnnotations(token.text);
+      if (ctx.last) {
+        ctx.last.comment = joinComments(ctx.last.comment, comment);
+        ctx.last.annotations = mergeAnnotations(ctx.last.annotations, annotations);
+      } else if (stack.length === 0 && !seenMove) {
+        game.comment = joinComments(game.comment, comment);
+        game.annotations = mergeAnnotations(game.annotations, annotations);
+      } else {
+        ctx.pendingComment = joinComments(ctx.pendingComment, comment);
+      }
+    } else if (token.type === 'move') {
+      const node: PgnNode = { san: token.san, nags: [], children: [] };
+      if (ctx.pendingComment) {
+        node.commentBefore = ctx.pendingComment;
+        ctx.pendingComment = undefined;
+      }
+      ctx.parent.children.push(node);
+      ctx.lastParent = ctx.parent;
+      ctx.last = node;
+      ctx.parent = node;
+      seenMove = true;
+    } else if (token.type === 'nag') {
+      if (ctx.last) {
+        ctx.last.nags.push(token.value);
+      }
+    } else if (token.type === 'open') {
+      if (!ctx.lastParent) {
+        throw new Error('Variation without a preceding move');
+      }
+      stack.push(ctx);
+      ctx = { parent: ctx.lastParent, last: null, lastParent: null };
+    } else if (token.type === 'close') {
+      const outer = stack.pop();
+      if (!outer) {
+        throw new Error('Unbalanced ")" in PGN');
+      }
+      ctx = outer;
+    } else if (token.type === 'result') {
+      if (stack.length === 0) {
+        game.result = token.value;
+        break;
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error('Unterminated variation in PGN');
+  }
+
+  game.moves = root.children;
+  if (game.headers.Result && game.result === '*') {
+    game.result = game.headers.Result;
+  }
+  return game;
+}
+
+function formatComment(comment: string | undefined, annotations: BoardAnnotations | undefined): string | null {
+  const parts: string[] = [];
+
+  if (annotations?.highlights.length) {
+    const squares = annotations.highlights.map((h) => `${COLOR_LETTERS[h.color]}${h.square}`);
+    parts.push(`[%csl ${squares.join(',')}]`);
+  }
+  if (annotations?.arrows.length) {
+    const arrows = annotations.arrows.map((a) => `${COLOR_LETTERS[a.color]}${a.from}${a.to}`);
+    parts.push(`[%cal ${arrows.join(',')}]`);
+  }
+  if (comment) {
+    parts.push(comment);
+  }
+
+  return parts.length > 0 ? `{ ${parts.join(' ')} }` : null;
+}
+
+/**
+ * Ply (half-move count) at a FEN, where White's first move is ply 0
+ */
+function plyFromFen(fen: string): number {
+  const [, turn, , , , fullMove] = fen.split(' ');
+  return ((parseInt(fullMove, 10) || 1) - 1) * 2 + (turn === 'b' ? 1 : 0);
+}
+
+function writeLine(nodes: PgnNode[], ply: number, forceNumber: boolean, out: string[]): void {
+  let siblings = nodes;
+  let needsNumber = forceNumber;
+
+  while (siblings.length > 0) {
+    const [node, ...alternatives] = siblings;
+    const isWhite = ply % 2 === 0;
+    const moveNumber = Math.floor(ply / 2) + 1;
+
+    const before = formatComment(node.commentBefore, undefined);
+    if (before) {
+      out.push(before);
+      needsNumber = true;
+    }
+
+    if (isWhite) {
+      out.push(`${moveNumber}. ${node.san}`);
+    } else if (needsNumber) {
+      out.push(`${moveNumber}... ${node.san}`);
+    } else {
+      out.push(node.san);
+    }
+    needsNumber = false;
+
+    for (const nag of node.nags) {
+      out.push(`$${nag}`);
+    }
+
+    const comment = formatComment(node.comment, node.annotations);
+    if (comment) {
+      out.push(comment);
+      needsNumber = true;
+    }
+
+    for (const alternative of alternatives) {
+      const variation: string[] = [];
+      writeLine([alternative], ply, true, variation);
+      out.push(`(${variation.join(' ')})`);
+      needsNumber = true;
+    }
+
+    siblings = node.children;
+    ply++;
+  }
+}
+
+/**
+ * Wrap tokens into lines of at most `width` characters, breaking only between tokens
+ */
+function wrapTokens(tokens: string[], width: number): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens.join(' ').split(' ')) {
+    if (line && line.length + 1 + token.length > width) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+/**
+ * Write a game back to PGN text
+ */
+export function writePgn(game: PgnGame, startFen: string, lineWidth = DEFAULT_LINE_WIDTH): string {
+  const headerLines = Object.entries(game.headers).map(
+    ([name, value]) => `[${name} "${value.replace(/[\\"]/g, '\\$&')}"]`
+  );
+
+  const tokens: string[] = [];
+  const gameComment = formatComment(game.comment, game.annotations);
+  if (gameComment) {
+    tokens.push(gameComment);
+  }
+  writeLine(game.moves, plyFromFen(startFen), true, tokens);
+  tokens.push(game.result);
+
+  const movetext = wrapTokens(tokens, lineWidth);
+  return headerLines.length > 0 ? `${headerLines.join('\n')}\n\n${movetext}\n` : `${movetext}\n`;
+}
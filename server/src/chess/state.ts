@@ -23,6 +23,8 @@ export class GameStateManager {
       isStalemate: false,
       isDraw: false,
       isGameOver: false,
+      moveTree: [],
+      currentNodeId: null,
       ...initialState,
     };
     this.subscribers = new Set();
@@ -172,9 +172,13 @@ export async function queryPlayer(
 
 /**
  * Get the PGN of a specific game from Lichess
+ *
+ * Masters games live on the explorer host rather than lichess.org.
  */
-export async function getGamePgn(gameId: string): Promise<string> {
-  const response = await fetch(`https://lichess.org/game/export/${gameId}`, {
+export async function getGamePgn(gameId: string, database: 'masters' | 'lichess' = 'lichess'): Promise<string> {
+  const url =
+    database === 'masters' ? `${MASTERS_API_URL}/pgn/${gameId}` : `https://lichess.org/game/export/${gameId}`;
+  const response = await fetch(url, {
     headers: {
       Accept: 'application/x-chess-pgn',
     },
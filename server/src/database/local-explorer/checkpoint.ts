@@ -0,0 +1,55 @@
+/**
+ * Indexing Checkpoints
+ *
+ * Indexing a monthly Lichess dump takes hours, so runs record how far they
+ * got: the byte offset in the PGN after the last indexed game, the games
+ * processed and the batches flushed. A restarted run skips to the offset
+ * and carries on counting from there.
+ *
+ * The checkpoint is a metadata entry ("x:checkpoint") committed in the
+ * same RocksDB write batch as the stats it describes - the store must hold
+ * writes until flush() (RocksStore with autoFlush: false). After a crash
+ * the database holds exactly the batches up to the last checkpoint, so a
+ * resumed run never counts a game twice.
+ *
+ * @example
+ * const store = await openRocksStore({ path, autoFlush: false });
+ * const checkpoint = await readCheckpoint(store, pgnPath);
+ * // ...index from checkpoint?.byteOffset ?? 0, and after each batch:
+ * await store.batchWrite(updates);
+ * await commitCheckpoint(store, { source: sourceName(pgnPath), byteOffset, ... });
+ */
+
+import type { IndexingCheckpoint, MetaStore, WriteStore } from './types.js';
+import { sourceName } from './manifest.js';
+
+/** Metadata entry holding the checkpoint */
+export const CHECKPOINT_KEY = 'checkpoint';
+
+/**
+ * The store's last checkpoint - only if it is for the given source file
+ * when one is given
+ */
+export async function readCheckpoint(store: MetaStore, sourcePath?: string): Promise<IndexingCheckpoint | null> {
+  const value = await store.getMeta(CHECKPOINT_KEY);
+  if (!value) return null;
+
+  const checkpoint = JSON.parse(value.toString('utf8')) as IndexingCheckpoint;
+  if (sourcePath !== undefined && checkpoint.source !== sourceName(sourcePath)) {
+    return null;
+  }
+  return checkpoint;
+}
+
+/**
+ * Write a checkpoint and flush it together with the pending writes
+ */
+export async function commitCheckpoint(
+  store: MetaStore & WriteStore,
+  checkpoint: Omit<IndexingCheckpoint, 'updatedAt'>
+): Promise<IndexingCheckpoint> {
+  const committed = { ...checkpoint, updatedAt: new Date().toISOString() };
+  await store.putMeta(CHECKPOINT_KEY, Buffer.from(JSON.stringify(committed), 'utf8'));
+  await store.flush();
+  return committed;
+}
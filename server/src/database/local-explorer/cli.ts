@@ -10,30 +10,70 @@
  *   npx tsx src/database/local-explorer/cli.ts compact
  *   npx tsx src/database/local-explorer/cli.ts status
  *
+ * Personal games (your own Lichess/Chess.com/OTB PGN exports):
+ *   npx tsx src/database/local-explorer/cli.ts import --name me --input ./lichess_me.pgn --input ./chesscom_me.pgn
+ *
  * Full pipeline:
  *   npx tsx src/database/local-explorer/cli.ts build --year 2025 --month 12
+ *
+ * Named databases (data/databases/<name>.lmdb, listed in the server's registry):
+ *   npx tsx src/database/local-explorer/cli.ts build --year 2025 --month 12 --name lichess-2025-12
+ *
+ * Adding months without reindexing (each database's manifest records the
+ * source files it includes, so the same month is never counted twice):
+ *   npx tsx src/database/local-explorer/cli.ts build --year 2026 --month 01 --name lichess
+ *   npx tsx src/database/local-explorer/cli.ts merge --from lichess-2026-02 --name lichess
+ *
+ * Indexing commits a checkpoint (byte offset, games, batches) with every
+ * batch; rerunning an interrupted index/build resumes from it.
  */
 
 import { createWriteStream, createReadStream, existsSync, mkdirSync, statSync } from 'node:fs';
 import { pipeline, Readable, Transform } from 'node:stream';
 import { promisify } from 'node:util';
-import { createInterface } from 'node:readline';
 import { spawn } from 'node:child_process';
-import { join, dirname } from 'node:path';
+import { join, dirname, basename, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { openRocksStore } from './storage/rocks-store.js';
 import { compact } from './storage/compactor.js';
+import { merge } from './storage/merger.js';
+import { openLmdbStore } from './storage/lmdb-store.js';
+import { addToManifest, findIncludedSources, readManifest, sourceName } from './manifest.js';
+import { commitCheckpoint, readCheckpoint } from './checkpoint.js';
+import { readPgnLines, skipBytes } from './indexer/pgn-parser.js';
 import { processGame } from './indexer/game-processor.js';
+import { monthFromDate, speedFromTimeControl } from './segments.js';
+import { gameIdFromHeaders, toStoredGame } from './games.js';
+import {
+  LOCAL_DB_DIR,
+  LEGACY_DATABASE,
+  LocalDatabaseRegistry,
+  importPersonalGames,
+  localDatabasePath,
+  readDatabaseMetadata,
+  recordDatabaseBuild,
+  writeDatabaseMetadata,
+} from './registry.js';
 import type { RocksStore } from './storage/rocks-store.js';
-import type { ParsedGame, GameResult, PositionUpdate } from './types.js';
+import type { ParsedGame, GameResult, PositionUpdate, StoredGame } from './types.js';
 
 const pipelineAsync = promisify(pipeline);
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 // Default paths - relative to server/data folder
 const DATA_DIR = join(__dirname, '..', '..', '..', 'data');
-const ROCKS_PATH = join(DATA_DIR, 'opening-explorer.rocks');
-const LMDB_PATH = join(DATA_DIR, 'opening-explorer.lmdb');
+
+/**
+ * RocksDB and LMDB paths of a named database, or of the unnamed default
+ * database (data/opening-explorer.*) without a name
+ */
+function databasePaths(name: string | undefined): { rocksPath: string; lmdbPath: string } {
+  if (!name) {
+    return { rocksPath: join(DATA_DIR, 'opening-explorer.rocks'), lmdbPath: LEGACY_DATABASE.path };
+  }
+  const lmdbPath = localDatabasePath(name);
+  return { rocksPath: lmdbPath.replace(/\.lmdb$/, '.rocks'), lmdbPath };
+}
 
 // Lichess database URL pattern
 const LICHESS_DB_URL = (year: number, month: string) =>
@@ -166,11 +206,29 @@ function parsePgnGame(headers: Record<string, string>, movesText: string): Parse
     ? Math.round((whiteElo + blackElo) / 2)
     : undefined;
 
-  return { moves, result, averageRating };
+  return {
+    id: gameIdFromHeaders(headers, moves),
+    moves,
+    result,
+    averageRating,
+    white: headers['White'],
+    black: headers['Black'],
+    whiteRating: isNaN(whiteElo) ? undefined : whiteElo,
+    blackRating: isNaN(blackElo) ? undefined : blackElo,
+    date: headers['UTCDate'] ?? headers['Date'],
+    speed: speedFromTimeControl(headers['TimeControl']),
+    month: monthFromDate(headers['UTCDate'] ?? headers['Date']),
+  };
 }
 
 /**
- * Stream and index a .zst compressed PGN file using system zstd
+ * Stream and index a .zst compressed PGN file using system zstd (plain
+ * .pgn files are read directly)
+ *
+ * Every batch is committed with a checkpoint, and a run on a store holding
+ * a checkpoint for the file resumes after its last committed game. The
+ * store must hold writes until flush (autoFlush: false) for the checkpoint
+ * to match the stats on disk.
  */
 async function indexZstFile(
   zstPath: string,
@@ -179,30 +237,51 @@ async function indexZstFile(
     minRating?: number;
     maxGames?: number;
     batchSize?: number;
+    storeGames?: boolean;
   } = {}
 ): Promise<{ gamesIndexed: number; positionsIndexed: number; duration: number }> {
   const minRating = options.minRating ?? 0;
   const maxGames = options.maxGames ?? Infinity;
   const batchSize = options.batchSize ?? 5000;
+  // A monthly dump is tens of millions of games - too many to keep by default
+  const storeGames = options.storeGames ?? false;
 
   console.log(`\n📚 Indexing: ${zstPath}`);
   console.log(`   Min rating: ${minRating || 'none'}`);
   console.log(`   Max games: ${maxGames === Infinity ? 'unlimited' : maxGames.toLocaleString()}`);
-  console.log(`   Batch size: ${batchSize.toLocaleString()}\n`);
+  console.log(`   Batch size: ${batchSize.toLocaleString()}`);
+  console.log(`   Game store: ${storeGames ? 'on' : 'off'}\n`);
+
+  const checkpoint = await readCheckpoint(store, zstPath);
+  const startOffset = checkpoint?.byteOffset ?? 0;
+  if (checkpoint) {
+    console.log(
+      `   ⏩ Resuming from checkpoint: ${formatBytes(startOffset)} read, ` +
+      `${checkpoint.gamesProcessed.toLocaleString()} games, ${checkpoint.batchesFlushed} batches ` +
+      `(${checkpoint.updatedAt})\n`
+    );
+  }
 
   const startTime = Date.now();
 
   // Use system zstd to decompress (much more reliable)
-  console.log('   🔄 Starting decompression with zstd...\n');
-  const zstdProcess = spawn('zstd', ['-d', '-c', zstPath], {
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
+  const zstdProcess = zstPath.endsWith('.zst')
+    ? spawn('zstd', ['-d', '-c', zstPath], { stdio: ['pipe', 'pipe', 'pipe'] })
+    : null;
+  if (zstdProcess) {
+    console.log('   🔄 Starting decompression with zstd...\n');
+  }
 
-  let gamesIndexed = 0;
-  let gamesSkipped = 0;
-  let linesRead = 0;
-  let positionsIndexed = 0;
+  let gamesIndexed = checkpoint?.gamesProcessed ?? 0;
+  let gamesSkipped = checkpoint?.gamesSkipped ?? 0;
+  let positionsIndexed = checkpoint?.positionsIndexed ?? 0;
+  let batchesFlushed = checkpoint?.batchesFlushed ?? 0;
+  const resumedGames = gamesIndexed + gamesSkipped;
+  // Offset after the line that ended the last game
+  let bytesRead = startOffset;
+  let gameEndOffset = startOffset;
   let updateBatch: PositionUpdate[] = [];
+  let gameBatch: StoredGame[] = [];
   let lastLogTime = startTime;
   let stopped = false;
 
@@ -211,12 +290,26 @@ async function indexZstFile(
   let moveLines: string[] = [];
   let inHeaders = true;
 
+  // Write the batch and commit it with a checkpoint after the last game
   const flushBatch = async () => {
     if (updateBatch.length > 0) {
       await store.batchWrite(updateBatch);
       positionsIndexed += updateBatch.length;
       updateBatch = [];
     }
+    if (gameBatch.length > 0) {
+      await store.putGames(gameBatch);
+      gameBatch = [];
+    }
+    batchesFlushed++;
+    await commitCheckpoint(store, {
+      source: sourceName(zstPath),
+      byteOffset: gameEndOffset,
+      gamesProcessed: gamesIndexed,
+      gamesSkipped,
+      positionsIndexed,
+      batchesFlushed,
+    });
   };
 
   const processCompletedGame = async (): Promise<boolean> => {
@@ -247,6 +340,8 @@ async function indexZstFile(
     // Process game into position updates
     const updates = processGame(game);
     updateBatch.push(...updates);
+    const record = storeGames ? toStoredGame(game) : null;
+    if (record) gameBatch.push(record);
 
     gamesIndexed++;
 
@@ -264,22 +359,22 @@ async function indexZstFile(
     return true;
   };
 
-  // Create readline interface from zstd stdout
-  const rl = createInterface({
-    input: zstdProcess.stdout,
-    crlfDelay: Infinity,
-  });
+  // Read lines from zstd stdout (decompressing up to the checkpoint again,
+  // as a compressed file can't be read from the middle)
+  const input = zstdProcess
+    ? skipBytes(zstdProcess.stdout, startOffset)
+    : createReadStream(zstPath, { start: startOffset });
 
   // Process lines
-  for await (const line of rl) {
+  for await (const line of readPgnLines(input, startOffset)) {
     if (stopped) break;
-    linesRead++;
+    bytesRead = line.offset;
 
     // Progress every 2 seconds
     const now = Date.now();
     if (now - lastLogTime > 2000) {
       const elapsed = (now - startTime) / 1000;
-      const totalProcessed = gamesIndexed + gamesSkipped;
+      const totalProcessed = gamesIndexed + gamesSkipped - resumedGames;
       const gamesPerSec = totalProcessed > 0 ? totalProcessed / elapsed : 0;
       
       // ETA calculation
@@ -294,17 +389,18 @@ async function indexZstFile(
       }
       
       process.stdout.write(
-        `\r\x1b[K   📊 Lines: ${linesRead.toLocaleString()} | Indexed: ${gamesIndexed.toLocaleString()} | Skipped: ${gamesSkipped.toLocaleString()} | ${gamesPerSec.toFixed(0)}/s${etaStr}`
+        `\r\x1b[K   📊 Read: ${formatBytes(bytesRead)} | Indexed: ${gamesIndexed.toLocaleString()} | Skipped: ${gamesSkipped.toLocaleString()} | ${gamesPerSec.toFixed(0)}/s${etaStr}`
       );
       lastLogTime = now;
     }
 
-    const trimmed = line.trim();
+    const trimmed = line.text.trim();
 
     if (trimmed.length === 0) {
       // Blank line - end of section
       if (moveLines.length > 0) {
         // Game complete - process and reset
+        gameEndOffset = line.offset;
         const shouldContinue = await processCompletedGame();
         headerLines = [];
         moveLines = [];
@@ -330,15 +426,16 @@ async function indexZstFile(
 
   // Process final game if any
   if (!stopped && moveLines.length > 0 && gamesIndexed < maxGames) {
+    gameEndOffset = bytesRead;
     await processCompletedGame();
   }
 
   // Kill zstd if still running (in case we stopped early)
-  if (!zstdProcess.killed) {
+  if (zstdProcess && !zstdProcess.killed) {
     zstdProcess.kill();
   }
 
-  // Final batch
+  // Final batch and checkpoint
   await flushBatch();
 
   const duration = (Date.now() - startTime) / 1000;
@@ -349,11 +446,55 @@ async function indexZstFile(
   console.log(`   Games skipped: ${gamesSkipped.toLocaleString()}`);
   console.log(`   Positions: ${positionsIndexed.toLocaleString()}`);
   console.log(`   Duration: ${formatDuration(duration)}`);
-  console.log(`   Speed: ${(gamesIndexed / duration).toFixed(0)} games/sec\n`);
+  console.log(`   Batches: ${batchesFlushed.toLocaleString()}`);
+  console.log(`   Speed: ${((gamesIndexed + gamesSkipped - resumedGames) / duration).toFixed(0)} games/sec\n`);
 
   return { gamesIndexed, positionsIndexed, duration };
 }
 
+/**
+ * Append a source file to a RocksDB database and record it in the
+ * database's manifest, resuming an interrupted run of the same file
+ *
+ * @returns null if the manifest already includes the source
+ */
+async function appendSource(
+  sourcePath: string,
+  rocksPath: string,
+  options: Parameters<typeof indexZstFile>[2]
+): Promise<{ gamesIndexed: number } | null> {
+  mkdirSync(dirname(rocksPath), { recursive: true });
+  const store = await openRocksStore({ path: rocksPath, autoFlush: false });
+
+  try {
+    const [included] = await findIncludedSources(store, [sourcePath]);
+    if (included) {
+      console.log(`\n⏭️  ${included} is already included in ${rocksPath}\n`);
+      return null;
+    }
+
+    const { gamesIndexed } = await indexZstFile(sourcePath, store, options);
+    await addToManifest(store, [{
+      source: sourceName(sourcePath),
+      bytes: statSync(sourcePath).size,
+      games: gamesIndexed,
+      addedAt: new Date().toISOString(),
+    }]);
+    await store.flush();
+    return { gamesIndexed };
+  } finally {
+    await store.close();
+  }
+}
+
+/**
+ * Store the compacted position count and build date in a database's metadata
+ */
+function recordCompaction(lmdbPath: string, positionCount: number): void {
+  const metadata = readDatabaseMetadata(lmdbPath) ?? { kind: 'lichess', sources: [], filters: {}, players: false };
+  writeDatabaseMetadata(lmdbPath, { ...metadata, positionCount, builtAt: new Date().toISOString() });
+}
+
 /**
  * Main CLI
  */
@@ -373,19 +514,37 @@ async function main() {
 ║             --year <YYYY> --month <MM>                                        ║
 ║             Example: --year 2025 --month 12                                   ║
 ║                                                                               ║
-║  index      Index a downloaded .pgn.zst file                                  ║
-║             --input <path>  Path to .pgn.zst file                             ║
+║  index      Index a downloaded .pgn.zst (or .pgn) file, appending to the      ║
+║             database's RocksDB (sources already included are refused;         ║
+║             an interrupted run resumes from its last checkpoint)              ║
+║             --input <path>  Path to .pgn.zst or .pgn file                     ║
 ║             --min-rating <N>  Filter by minimum average rating                ║
 ║             --max-games <N>   Limit number of games to index                  ║
+║             --games           Keep a game store for top games (large)         ║
+║             --name <name>     Named database (default: opening-explorer)      ║
 ║                                                                               ║
 ║  compact    Compact RocksDB to LMDB for fast queries                          ║
+║             --name <name>     Named database (default: opening-explorer)      ║
+║                                                                               ║
+║  merge      Merge compacted databases into another, summing their stats       ║
+║             --from <name>   Database name or .lmdb path (repeatable)          ║
+║             --name <name>   Target database (default: opening-explorer)       ║
+║                                                                               ║
+║  import     Import your own games into a personal database                    ║
+║             --name <name>   Personal database name                            ║
+║             --input <path>  .pgn file (repeat for several files)              ║
+║             --no-games      Skip the game store (no top games)                ║
 ║                                                                               ║
 ║  status     Show database status and statistics                               ║
 ║                                                                               ║
-║  build      Full pipeline: download + index + compact                         ║
+║  build      Full pipeline: download + index + compact (appends to an          ║
+║             existing database; skips indexing a month already included        ║
+║             and resumes an interrupted one)                                   ║
 ║             --year <YYYY> --month <MM>                                        ║
 ║             --min-rating <N>  (optional)                                      ║
 ║             --max-games <N>   (optional)                                      ║
+║             --games           (optional)                                      ║
+║             --name <name>     (optional, e.g. lichess-2025-12)                ║
 ║                                                                               ║
 ║  Data Directory: ${DATA_DIR}
 ║                                                                               ║
@@ -399,12 +558,18 @@ async function main() {
     const idx = args.indexOf(`--${name}`);
     return idx !== -1 ? args[idx + 1] : undefined;
   };
+  const getArgs = (name: string): string[] =>
+    args.flatMap((arg, idx) => (arg === `--${name}` && args[idx + 1] ? [args[idx + 1]] : []));
 
   const year = getArg('year');
   const month = getArg('month')?.padStart(2, '0');
   const input = getArg('input');
   const minRating = getArg('min-rating') ? parseInt(getArg('min-rating')!) : undefined;
   const maxGames = getArg('max-games') ? parseInt(getArg('max-games')!) : undefined;
+  // Top games need the game store: opt-in for Lichess dumps, on for your own games
+  const storeGames = args.includes('--games');
+  const storePersonalGames = !args.includes('--no-games');
+  const { rocksPath, lmdbPath } = databasePaths(getArg('name'));
 
   // Ensure data directory exists
   if (!existsSync(DATA_DIR)) {
@@ -440,23 +605,31 @@ async function main() {
           process.exit(1);
         }
 
-        const store = await openRocksStore({ path: ROCKS_PATH });
-        await indexZstFile(zstPath, store, { minRating, maxGames });
-        await store.flush();
-        await store.close();
+        const indexed = await appendSource(zstPath, rocksPath, { minRating, maxGames, storeGames });
+        if (!indexed) {
+          console.error('Error: Source already indexed - the same games would be counted twice');
+          process.exit(1);
+        }
+
+        recordDatabaseBuild(lmdbPath, {
+          kind: 'lichess',
+          sources: [basename(zstPath)],
+          gameCount: indexed.gamesIndexed,
+          filters: { minRating, maxGames, storeGames },
+        });
         break;
       }
 
       case 'compact': {
-        if (!existsSync(ROCKS_PATH)) {
+        if (!existsSync(rocksPath)) {
           console.error('Error: RocksDB not found. Run index first.');
           process.exit(1);
         }
 
         console.log('\n🗜️  Compacting RocksDB → LMDB...\n');
         const result = await compact({
-          sourcePath: ROCKS_PATH,
-          targetPath: LMDB_PATH,
+          sourcePath: rocksPath,
+          targetPath: lmdbPath,
           onProgress: (progress) => {
             process.stdout.write(
               `\r   Entries: ${progress.entriesProcessed.toLocaleString()} | ` +
@@ -469,6 +642,84 @@ async function main() {
         console.log(`   Positions: ${result.positionsCopied.toLocaleString()}`);
         console.log(`   Moves: ${result.movesCopied.toLocaleString()}`);
         console.log(`   Duration: ${formatDuration(result.elapsedMs / 1000)}\n`);
+        recordCompaction(lmdbPath, result.positionsCopied);
+        break;
+      }
+
+      case 'merge': {
+        const sources = getArgs('from');
+        if (sources.length === 0) {
+          console.error('Error: at least one --from required');
+          process.exit(1);
+        }
+
+        if (existsSync(rocksPath)) {
+          console.warn(`\n   ⚠️  ${rocksPath} exists - compacting it again would overwrite the merged stats`);
+        }
+
+        for (const from of sources) {
+          const sourcePath = existsSync(from) ? from : databasePaths(from).lmdbPath;
+          if (!existsSync(sourcePath)) {
+            console.error(`Error: Database not found: ${from}`);
+            process.exit(1);
+          }
+          if (resolve(sourcePath) === resolve(lmdbPath)) {
+            console.error('Error: Cannot merge a database into itself');
+            process.exit(1);
+          }
+
+          console.log(`\n🔀 Merging ${sourcePath} → ${lmdbPath}...\n`);
+          const result = await merge({
+            sourcePath,
+            targetPath: lmdbPath,
+            onProgress: (progress) => {
+              process.stdout.write(`\r   Entries: ${progress.entriesProcessed.toLocaleString()}    `);
+            },
+          });
+          if (!result.success) {
+            console.error(`\nError: ${result.error}`);
+            process.exit(1);
+          }
+
+          console.log(`\n\n   ✅ Merge complete!`);
+          console.log(`   Positions: ${result.positionsMerged.toLocaleString()} (${result.positionsAdded.toLocaleString()} new)`);
+          console.log(`   Duration: ${formatDuration(result.elapsedMs / 1000)}\n`);
+
+          const merged = readDatabaseMetadata(sourcePath);
+          recordDatabaseBuild(lmdbPath, {
+            kind: merged?.kind ?? 'lichess',
+            sources: merged?.sources ?? [basename(sourcePath)],
+            gameCount: merged?.gameCount ?? 0,
+            filters: merged?.filters,
+            players: merged?.players,
+          });
+        }
+        break;
+      }
+
+      case 'import': {
+        const name = getArg('name');
+        const inputs = getArgs('input');
+
+        if (!name || inputs.length === 0) {
+          console.error('Error: --name and at least one --input required');
+          process.exit(1);
+        }
+
+        const missing = inputs.find((path) => !existsSync(path));
+        if (missing) {
+          console.error(`Error: File not found: ${missing}`);
+          process.exit(1);
+        }
+
+        const dbPath = localDatabasePath(name);
+        console.log(`\n📚 Importing ${inputs.length} file(s) into personal database "${name}"...`);
+        console.log(`   Output: ${dbPath}\n`);
+
+        const stats = await importPersonalGames(dbPath, inputs, { storeGames: storePersonalGames });
+        console.log(`   ✅ Games: ${stats.gamesProcessed.toLocaleString()} (skipped ${stats.gamesSkipped})`);
+        console.log(`   Positions indexed: ${stats.positionsIndexed.toLocaleString()}`);
+        console.log(`   Duration: ${formatDuration(stats.elapsedMs / 1000)}\n`);
         break;
       }
 
@@ -490,19 +741,54 @@ async function main() {
         }
 
         // Check RocksDB
-        if (existsSync(ROCKS_PATH)) {
-          console.log(`\n   RocksDB: ✅ ${ROCKS_PATH}`);
+        if (existsSync(rocksPath)) {
+          console.log(`\n   RocksDB: ✅ ${rocksPath}`);
+          try {
+            const rocks = await openRocksStore({ path: rocksPath, createIfMissing: false });
+            const checkpoint = await readCheckpoint(rocks);
+            const finished = checkpoint && (await findIncludedSources(rocks, [checkpoint.source])).length > 0;
+            await rocks.close();
+            if (checkpoint && !finished) {
+              console.log(
+                `      ⏸️  Interrupted: ${checkpoint.source} at ${formatBytes(checkpoint.byteOffset)} ` +
+                `(${checkpoint.gamesProcessed.toLocaleString()} games, ${checkpoint.batchesFlushed} batches) - run index again to resume`
+              );
+            }
+          } catch {
+            console.log('      (in use by another process)');
+          }
         } else {
           console.log(`\n   RocksDB: ❌ Not found`);
         }
 
         // Check LMDB
-        if (existsSync(LMDB_PATH)) {
-          console.log(`   LMDB: ✅ ${LMDB_PATH}`);
+        if (existsSync(lmdbPath)) {
+          console.log(`   LMDB: ✅ ${lmdbPath}`);
+          const lmdb = openLmdbStore({ path: lmdbPath, readOnly: true });
+          const manifest = await readManifest(lmdb);
+          await lmdb.close();
+          for (const entry of manifest) {
+            const interrupted = entry.mergeInProgress ? ' - merge interrupted, rebuild needed' : '';
+            console.log(`      + ${entry.source}: ${entry.games.toLocaleString()} games (${entry.addedAt.slice(0, 10)})${interrupted}`);
+          }
         } else {
           console.log(`   LMDB: ❌ Not found`);
         }
 
+        // Registered databases
+        const registry = new LocalDatabaseRegistry();
+        const databases = await registry.list();
+        await registry.close();
+        console.log(`\n   Databases (${LOCAL_DB_DIR}):`);
+        if (databases.length === 0) {
+          console.log('   —');
+        }
+        for (const db of databases) {
+          const games = db.gameCount !== undefined ? `${db.gameCount.toLocaleString()} games, ` : '';
+          const built = db.builtAt ? `, built ${db.builtAt.slice(0, 10)}` : '';
+          console.log(`   ${db.id} [${db.kind}]: ${games}${(db.positionCount ?? 0).toLocaleString()} positions${built}`);
+        }
+
         console.log();
         break;
       }
@@ -524,17 +810,22 @@ async function main() {
           console.log(`\n📥 Using existing file: ${zstPath}\n`);
         }
 
-        // Step 2: Index
-        const store = await openRocksStore({ path: ROCKS_PATH });
-        await indexZstFile(zstPath, store, { minRating, maxGames });
-        await store.flush();
-        await store.close();
+        // Step 2: Index (appending to the database's RocksDB)
+        const indexed = await appendSource(zstPath, rocksPath, { minRating, maxGames, storeGames });
+        if (indexed) {
+          recordDatabaseBuild(lmdbPath, {
+            kind: 'lichess',
+            sources: [url],
+            gameCount: indexed.gamesIndexed,
+            filters: { minRating, maxGames, storeGames },
+          });
+        }
 
         // Step 3: Compact
         console.log('\n🗜️  Compacting RocksDB → LMDB...\n');
         const result = await compact({
-          sourcePath: ROCKS_PATH,
-          targetPath: LMDB_PATH,
+          sourcePath: rocksPath,
+          targetPath: lmdbPath,
           onProgress: (progress) => {
             process.stdout.write(
               `\r   Entries: ${progress.entriesProcessed.toLocaleString()}    `
@@ -543,6 +834,7 @@ async function main() {
         });
         console.log(`\n\n   ✅ Compaction complete!`);
         console.log(`   Duration: ${formatDuration(result.elapsedMs / 1000)}\n`);
+        recordCompaction(lmdbPath, result.positionsCopied);
 
         console.log('🎉 Build complete! Local explorer ready.\n');
         break;
@@ -0,0 +1,172 @@
+/**
+ * Game Store Helpers
+ *
+ * Indexed games are kept in a compact game store (headers plus SAN moves)
+ * so the local explorer can list notable games for a position and export
+ * them as PGN without asking lichess.org.
+ *
+ * Each position keeps a bounded list of its highest-rated games:
+ * - Game: "g:" + game id → JSON StoredGame
+ * - Top games: "k:" + 8-byte hash → packed list of (rating, id)
+ *
+ * Top game list format (packed binary, highest rating first):
+ * - Per entry: rating (2) + id length (1) + id (UTF-8)
+ */
+
+import { createHash } from 'node:crypto';
+import type { LichessExplorerGame } from '@chess/shared';
+import type { ParsedGame, StoredGame, TopGameRef } from './types.js';
+import { monthFromDate } from './segments.js';
+
+/** Games kept per position */
+export const MAX_TOP_GAMES = 8;
+
+// =============================================================================
+// Game Ids & Records
+// =============================================================================
+
+/**
+ * Id for a game: the Lichess id from its Site header, otherwise a hash of
+ * its players, date and moves (so re-indexing the same file yields the same ids)
+ */
+export function gameIdFromHeaders(headers: Record<string, string>, moves: string[]): string {
+  const lichessId = headers['Site']?.match(/lichess\.org\/([A-Za-z0-9]{8})/);
+  if (lichessId) return lichessId[1];
+
+  return createHash('sha1')
+    .update([headers['White'], headers['Black'], headers['Date'], headers['Round'], moves.join(' ')].join('|'))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Game store record for a parsed game (null if it has no id)
+ */
+export function toStoredGame(game: ParsedGame): StoredGame | null {
+  if (!game.id) return null;
+
+  return {
+    id: game.id,
+    white: game.white ?? '?',
+    black: game.black ?? '?',
+    whiteRating: game.whiteRating,
+    blackRating: game.blackRating,
+    result: game.result,
+    date: game.date,
+    event: game.event,
+    speed: game.speed,
+    moves: game.moves,
+  };
+}
+
+export function packGame(game: StoredGame): Buffer {
+  return Buffer.from(JSON.stringify(game), 'utf8');
+}
+
+export function unpackGame(buf: Buffer): StoredGame {
+  return JSON.parse(buf.toString('utf8')) as StoredGame;
+}
+
+// =============================================================================
+// Top Game Lists
+// =============================================================================
+
+/**
+ * Insert a game into a position's top list, keeping it sorted and bounded
+ *
+ * @returns The updated list, or null if the game didn't make the list
+ * (or is already on it)
+ */
+export function insertTopGame(
+  list: TopGameRef[],
+  ref: TopGameRef,
+  max: number = MAX_TOP_GAMES
+): TopGameRef[] | null {
+  if (list.some((entry) => entry.id === ref.id)) return null;
+  if (list.length >= max && ref.rating <= list[list.length - 1].rating) return null;
+
+  const updated = [...list, ref].sort((a, b) => b.rating - a.rating);
+  return updated.slice(0, max);
+}
+
+export function packTopGames(list: TopGameRef[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const { id, rating } of list) {
+    const idBuf = Buffer.from(id, 'utf8');
+    const header = Buffer.alloc(3);
+    header.writeUInt16LE(Math.max(0, Math.min(0xffff, Math.round(rating))), 0);
+    header.writeUInt8(idBuf.length, 2);
+    parts.push(header, idBuf);
+  }
+  return Buffer.concat(parts);
+}
+
+export function unpackTopGames(buf: Buffer): TopGameRef[] {
+  const list: TopGameRef[] = [];
+  let offset = 0;
+  while (offset + 3 <= buf.length) {
+    const rating = buf.readUInt16LE(offset);
+    const length = buf.readUInt8(offset + 2);
+    const id = buf.subarray(offset + 3, offset + 3 + length).toString('utf8');
+    list.push({ id, rating });
+    offset += 3 + length;
+  }
+  return list;
+}
+
+// =============================================================================
+// Conversions
+// =============================================================================
+
+/**
+ * Average rating of a stored game (undefined unless both players are rated)
+ */
+export function storedGameRating(game: StoredGame): number | undefined {
+  if (game.whiteRating === undefined || game.blackRating === undefined) return undefined;
+  return Math.round((game.whiteRating + game.blackRating) / 2);
+}
+
+/**
+ * Stored game in the Lichess explorer topGames format
+ */
+export function toExplorerGame(game: StoredGame): LichessExplorerGame {
+  const month = monthFromDate(game.date);
+  const year = parseInt(game.date?.split('.')[0] ?? '', 10);
+
+  return {
+    id: game.id,
+    white: { name: game.white, rating: game.whiteRating ?? 0 },
+    black: { name: game.black, rating: game.blackRating ?? 0 },
+    winner: game.result === 'draw' ? null : game.result,
+    year: isNaN(year) ? 0 : year,
+    month: month ? parseInt(month.split('-')[1], 10) : undefined,
+    speed: game.speed,
+  };
+}
+
+/**
+ * Export a stored game as PGN
+ */
+export function storedGameToPgn(game: StoredGame): string {
+  const result = game.result === 'white' ? '1-0' : game.result === 'black' ? '0-1' : '1/2-1/2';
+  const headers: Array<[string, string | number | undefined]> = [
+    ['Event', game.event ?? '?'],
+    ['Date', game.date ?? '????.??.??'],
+    ['White', game.white],
+    ['Black', game.black],
+    ['Result', result],
+    ['WhiteElo', game.whiteRating],
+    ['BlackElo', game.blackRating],
+  ];
+
+  const headerText = headers
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `[${name} "${String(value).replace(/"/g, "'")}"]`)
+    .join('\n');
+
+  const moveText = game.moves
+    .map((move, i) => (i % 2 === 0 ? `${i / 2 + 1}. ${move}` : move))
+    .join(' ');
+
+  return `${headerText}\n\n${moveText} ${result}\n`;
+}
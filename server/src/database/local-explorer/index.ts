@@ -30,8 +30,46 @@ export type {
   OpeningInfo,
   LocalExplorerResult,
   LocalExplorerMove,
+  ExplorerFilter,
+  StoredGame,
+  TopGameRef,
+  PlayerColor,
+  MetaStore,
+  ManifestEntry,
+  IndexingCheckpoint,
 } from './types.js';
 
+// Rating/speed/month segments for filtered queries
+export {
+  RATING_BUCKETS,
+  SPEEDS,
+  ratingBucket,
+  speedFromTimeControl,
+  monthFromDate,
+  encodeSegment,
+  decodeSegment,
+  matchesFilter,
+  normalizeFilter,
+} from './segments.js';
+export type { GameSegment } from './segments.js';
+
+// Per-player entries for personal databases
+export {
+  normalizePlayerName,
+  encodePlayerTag,
+  matchesPlayer,
+} from './players.js';
+
+// Game store and per-position top games
+export {
+  MAX_TOP_GAMES,
+  gameIdFromHeaders,
+  toStoredGame,
+  insertTopGame,
+  toExplorerGame,
+  storedGameToPgn,
+} from './games.js';
+
 // Zobrist hashing
 export {
   hashFen,
@@ -73,6 +111,22 @@ export type {
   CompactionResult,
 } from './storage/compactor.js';
 
+// Merging (LMDB + LMDB, stats summed)
+export { merge } from './storage/merger.js';
+export type { MergeConfig, MergeProgress, MergeResult } from './storage/merger.js';
+
+// Source manifest (which dumps a database already includes)
+export {
+  MANIFEST_KEY,
+  sourceName,
+  readManifest,
+  addToManifest,
+  findIncludedSources,
+} from './manifest.js';
+
+// Checkpoints (resumable indexing runs)
+export { CHECKPOINT_KEY, readCheckpoint, commitCheckpoint } from './checkpoint.js';
+
 // Indexer components
 export {
   processGame,
@@ -85,6 +139,9 @@ export {
 
 export {
   streamPgnFile,
+  streamPgnFileWithOffsets,
+  readPgnLines,
+  skipBytes,
   countGamesInFile,
   parseGamesFromString,
 } from './indexer/pgn-parser.js';
@@ -112,6 +169,27 @@ export type {
 // Query layer (Lichess API compatible)
 export { LocalExplorer, createLocalExplorer } from './query.js';
 export type { LocalExplorerConfig } from './query.js';
+
+// Move orders (transpositions merged in the index)
+export { findMoveOrders, formatMoveOrder } from './move-orders.js';
+export type { MoveOrder, MoveOrderOptions, MoveOrderReport } from './move-orders.js';
+
+// Registry of named local databases (Lichess dumps, PGN collections, your own games)
+export {
+  LOCAL_DB_DIR,
+  LEGACY_DATABASE,
+  LEGACY_PERSONAL_DIR,
+  LocalDatabaseRegistry,
+  getLocalDatabaseRegistry,
+  importPersonalGames,
+  localDatabasePath,
+  metadataPath,
+  normalizeDatabaseId,
+  readDatabaseMetadata,
+  writeDatabaseMetadata,
+  recordDatabaseBuild,
+} from './registry.js';
+export type { RegisteredDatabase, LocalDatabaseMetadata, DatabaseBuild } from './registry.js';
 export type { GameProcessorConfig, ProcessingResult } from './indexer/game-processor.js';
-export type { PgnParserConfig } from './indexer/pgn-parser.js';
+export type { PgnParserConfig, PgnLine, PgnGameAt } from './indexer/pgn-parser.js';
 
@@ -9,6 +9,8 @@
 
 import { Chess } from 'chess.js';
 import { hashFen } from '../zobrist.js';
+import { monthFromDate, speedFromTimeControl } from '../segments.js';
+import { gameIdFromHeaders } from '../games.js';
 import type { ParsedGame, PositionUpdate, GameResult } from '../types.js';
 
 /**
@@ -19,6 +21,8 @@ export interface GameProcessorConfig {
   maxMoves?: number;
   /** Whether to use simple hashing (ignores castling/en passant) */
   useSimpleHash?: boolean;
+  /** Carry player names on updates for per-player entries (default: false) */
+  indexPlayers?: boolean;
 }
 
 /**
@@ -42,6 +46,7 @@ export function processGame(
   config: GameProcessorConfig = {}
 ): PositionUpdate[] {
   const maxMoves = config.maxMoves ?? 40;
+  const players = config.indexPlayers ? { white: game.white, black: game.black } : {};
   const updates: PositionUpdate[] = [];
 
   const chess = new Chess();
@@ -70,6 +75,10 @@ export function processGame(
         move: move.from + move.to + (move.promotion || ''),
         result: game.result,
         rating: game.averageRating,
+        speed: game.speed,
+        month: game.month,
+        gameId: game.id,
+        ...players,
       });
     } catch {
       // Invalid move (illegal in position) - stop processing this game
@@ -212,11 +221,19 @@ export function parseFullPgn(pgn: string): ParsedGame | null {
   }
 
   return {
+    id: gameIdFromHeaders(headers, moves),
     moves,
     result,
     averageRating,
+    white: headers['White'],
+    black: headers['Black'],
+    whiteRating: isNaN(whiteElo) ? undefined : whiteElo,
+    blackRating: isNaN(blackElo) ? undefined : blackElo,
+    date: headers['UTCDate'] ?? headers['Date'],
     event: headers['Event'],
     year: parseInt(headers['Date']?.split('.')[0]),
+    speed: speedFromTimeControl(headers['TimeControl']),
+    month: monthFromDate(headers['UTCDate'] ?? headers['Date']),
   };
 }
 
@@ -13,8 +13,10 @@ import type {
   IndexingProgress,
   ParsedGame,
   PositionUpdate,
+  StoredGame,
 } from '../types.js';
 import { processGame } from './game-processor.js';
+import { toStoredGame } from '../games.js';
 import { streamPgnFile, parseGamesFromString } from './pgn-parser.js';
 
 /**
@@ -49,23 +51,27 @@ export async function indexPgnFile(
 
   const startTime = Date.now();
   let batch: PositionUpdate[] = [];
+  let gameBatch: StoredGame[] = [];
 
   // Stream and process games
   for await (const game of streamPgnFile(pgnPath, {
     minRating: config.minRating,
   })) {
     try {
-      const updates = processGame(game, { maxMoves: maxMovesPerGame });
+      const updates = processGame(game, { maxMoves: maxMovesPerGame, indexPlayers: config.indexPlayers });
 
       // Add to batch
       batch.push(...updates);
       stats.positionsIndexed += updates.length;
       stats.gamesProcessed++;
+      collectGame(game, gameBatch, config);
 
       // Flush batch when full
       if (batch.length >= batchSize) {
         await store.batchWrite(batch);
+        await store.putGames(gameBatch);
         batch = [];
+        gameBatch = [];
 
         // Report progress
         if (config.onProgress) {
@@ -88,6 +94,9 @@ export async function indexPgnFile(
   if (batch.length > 0) {
     await store.batchWrite(batch);
   }
+  if (gameBatch.length > 0) {
+    await store.putGames(gameBatch);
+  }
 
   // Final flush
   await store.flush();
@@ -128,6 +137,7 @@ export async function indexPgnString(
 
   const startTime = Date.now();
   let batch: PositionUpdate[] = [];
+  let gameBatch: StoredGame[] = [];
 
   // Parse games from string
   const games = parseGamesFromString(pgnContent, {
@@ -136,15 +146,18 @@ export async function indexPgnString(
 
   for (const game of games) {
     try {
-      const updates = processGame(game, { maxMoves: maxMovesPerGame });
+      const updates = processGame(game, { maxMoves: maxMovesPerGame, indexPlayers: config.indexPlayers });
 
       batch.push(...updates);
       stats.positionsIndexed += updates.length;
       stats.gamesProcessed++;
+      collectGame(game, gameBatch, config);
 
       if (batch.length >= batchSize) {
         await store.batchWrite(batch);
+        await store.putGames(gameBatch);
         batch = [];
+        gameBatch = [];
       }
     } catch {
       stats.gamesSkipped++;
@@ -155,6 +168,9 @@ export async function indexPgnString(
   if (batch.length > 0) {
     await store.batchWrite(batch);
   }
+  if (gameBatch.length > 0) {
+    await store.putGames(gameBatch);
+  }
 
   await store.flush();
   stats.elapsedMs = Date.now() - startTime;
@@ -182,18 +198,22 @@ export async function indexGames(
 
   const startTime = Date.now();
   let batch: PositionUpdate[] = [];
+  let gameBatch: StoredGame[] = [];
 
   for (const game of games) {
     try {
-      const updates = processGame(game, { maxMoves: maxMovesPerGame });
+      const updates = processGame(game, { maxMoves: maxMovesPerGame, indexPlayers: config.indexPlayers });
 
       batch.push(...updates);
       stats.positionsIndexed += updates.length;
       stats.gamesProcessed++;
+      collectGame(game, gameBatch, config);
 
       if (batch.length >= batchSize) {
         await store.batchWrite(batch);
+        await store.putGames(gameBatch);
         batch = [];
+        gameBatch = [];
 
         if (config.onProgress) {
           stats.elapsedMs = Date.now() - startTime;
@@ -215,6 +235,9 @@ export async function indexGames(
   if (batch.length > 0) {
     await store.batchWrite(batch);
   }
+  if (gameBatch.length > 0) {
+    await store.putGames(gameBatch);
+  }
 
   await store.flush();
   stats.elapsedMs = Date.now() - startTime;
@@ -222,6 +245,15 @@ export async function indexGames(
   return stats;
 }
 
+/**
+ * Queue a game for the game store unless game storage is turned off
+ */
+function collectGame(game: ParsedGame, gameBatch: StoredGame[], config: Partial<IndexerConfig>): void {
+  if (config.storeGames === false) return;
+  const record = toStoredGame(game);
+  if (record) gameBatch.push(record);
+}
+
 /**
  * Statistics from indexing
  */
@@ -11,6 +11,9 @@
  *
  * This achieves parallelism on the CPU-bound game processing
  * while keeping disk I/O serialized (RocksDB handles this well).
+ *
+ * With checkpoints on, each write is committed together with the byte
+ * offset it covers, and a restarted run resumes from there (see checkpoint.ts).
  */
 
 import { Worker } from 'node:worker_threads';
@@ -20,13 +23,17 @@ import { dirname, join } from 'node:path';
 import { existsSync } from 'node:fs';
 import type {
   WriteStore,
+  MetaStore,
   IndexerConfig,
   IndexingProgress,
   ParsedGame,
   PositionUpdate,
 } from '../types.js';
-import { streamPgnFile, parseGamesFromString } from './pgn-parser.js';
+import { streamPgnFileWithOffsets, parseGamesFromString } from './pgn-parser.js';
 import { processGame } from './game-processor.js';
+import { toStoredGame } from '../games.js';
+import { commitCheckpoint, readCheckpoint } from '../checkpoint.js';
+import { sourceName } from '../manifest.js';
 import type { WorkerResult, ProcessorConfig } from './worker.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -59,6 +66,10 @@ export interface ParallelIndexingStats {
   elapsedMs: number;
   gamesPerSecond: number;
   workersUsed: number;
+  /** Byte offset the run resumed from (checkpointed runs) */
+  resumedFrom?: number;
+  /** Batches committed with a checkpoint (checkpointed runs, including earlier runs) */
+  batchesFlushed?: number;
 }
 
 /**
@@ -69,6 +80,17 @@ export interface ParallelIndexerConfig extends IndexerConfig {
   workerCount?: number;
   /** Games per batch sent to workers (default: 500) */
   gamesPerBatch?: number;
+  /**
+   * Keep games with an id in the game store for top games (default: false -
+   * the large files this indexer is for would fill the store with every game)
+   */
+  storeGames?: boolean;
+  /**
+   * Commit a checkpoint with each write and resume from the store's last
+   * checkpoint for the file (default: false). The store must keep writes
+   * pending until flush - a RocksStore opened with autoFlush: false
+   */
+  checkpoints?: boolean;
 }
 
 /**
@@ -212,6 +234,32 @@ class WorkerPool {
   }
 }
 
+/**
+ * Add games to the game store when game storage is turned on
+ * (game records need no replay, so they are built on the main thread)
+ */
+async function storeGameRecords(
+  store: WriteStore,
+  games: ParsedGame[],
+  config: Partial<IndexerConfig>
+): Promise<void> {
+  if (!config.storeGames) return;
+  const records = games.map(toStoredGame).filter((record) => record !== null);
+  if (records.length > 0) {
+    await store.putGames(records);
+  }
+}
+
+/**
+ * The store as a checkpoint store, for checkpointed runs
+ */
+function checkpointStoreOf(store: WriteStore): WriteStore & MetaStore {
+  if (!('getMeta' in store) || !('putMeta' in store)) {
+    throw new Error('Checkpoints require a store with metadata (RocksStore)');
+  }
+  return store as WriteStore & MetaStore;
+}
+
 /**
  * Index games from a PGN file using multiple worker threads
  */
@@ -234,6 +282,17 @@ export async function parallelIndexPgnFile(
     workersUsed: workerCount,
   };
 
+  // Pick up where an interrupted run left off
+  const checkpointStore = config.checkpoints ? checkpointStoreOf(store) : null;
+  const checkpoint = checkpointStore ? await readCheckpoint(checkpointStore, pgnPath) : null;
+  let batchesFlushed = checkpoint?.batchesFlushed ?? 0;
+  if (checkpoint) {
+    stats.gamesProcessed = checkpoint.gamesProcessed;
+    stats.gamesSkipped = checkpoint.gamesSkipped;
+    stats.positionsIndexed = checkpoint.positionsIndexed;
+    stats.resumedFrom = checkpoint.byteOffset;
+  }
+
   const startTime = Date.now();
   const pool = new WorkerPool(workerCount, { maxMovesPerGame });
 
@@ -241,6 +300,31 @@ export async function parallelIndexPgnFile(
   const pendingResults: Promise<WorkerResult>[] = [];
   let gameBatch: ParsedGame[] = [];
   let updateBuffer: PositionUpdate[] = [];
+  // Offset after the last game read, and after the last game sent to workers
+  let readOffset = checkpoint?.byteOffset ?? 0;
+  let dispatchedOffset = readOffset;
+
+  // Write buffered updates, committed with a checkpoint covering every
+  // dispatched game (all their results are in by then)
+  const writeUpdates = async () => {
+    if (updateBuffer.length > 0) {
+      await store.batchWrite(updateBuffer);
+      stats.positionsIndexed += updateBuffer.length;
+      updateBuffer = [];
+    }
+
+    if (checkpointStore) {
+      batchesFlushed++;
+      await commitCheckpoint(checkpointStore, {
+        source: sourceName(pgnPath),
+        byteOffset: dispatchedOffset,
+        gamesProcessed: stats.gamesProcessed,
+        gamesSkipped: stats.gamesSkipped,
+        positionsIndexed: stats.positionsIndexed,
+        batchesFlushed,
+      });
+    }
+  };
 
   // Process results and write to store
   const flushResults = async () => {
@@ -259,9 +343,7 @@ export async function parallelIndexPgnFile(
 
     // Flush to store if buffer is large enough
     if (updateBuffer.length >= batchSize) {
-      await store.batchWrite(updateBuffer);
-      stats.positionsIndexed += updateBuffer.length;
-      updateBuffer = [];
+      await writeUpdates();
 
       // Report progress
       if (config.onProgress) {
@@ -278,40 +360,52 @@ export async function parallelIndexPgnFile(
     }
   };
 
-  // Stream games and distribute to workers
-  for await (const game of streamPgnFile(pgnPath, {
-    minRating: config.minRating,
-  })) {
-    gameBatch.push(game);
-
-    if (gameBatch.length >= gamesPerBatch) {
-      pendingResults.push(pool.process([...gameBatch]));
-      gameBatch = [];
-
-      // Periodically flush results
-      if (pendingResults.length >= workerCount * 2) {
-        await flushResults();
+  try {
+    // Stream games and distribute to workers
+    for await (const { game, offset } of streamPgnFileWithOffsets(pgnPath, {
+      minRating: config.minRating,
+      startOffset: readOffset,
+    })) {
+      gameBatch.push(game);
+      readOffset = offset;
+
+      if (gameBatch.length >= gamesPerBatch) {
+        pendingResults.push(pool.process([...gameBatch]));
+        await storeGameRecords(store, gameBatch, config);
+        gameBatch = [];
+        dispatchedOffset = readOffset;
+
+        // Periodically flush results
+        if (pendingResults.length >= workerCount * 2) {
+          await flushResults();
+        }
       }
     }
-  }
 
-  // Process remaining games
-  if (gameBatch.length > 0) {
-    pendingResults.push(pool.process(gameBatch));
-  }
+    // Process remaining games
+    if (gameBatch.length > 0) {
+      pendingResults.push(pool.process(gameBatch));
+      await storeGameRecords(store, gameBatch, config);
+      dispatchedOffset = readOffset;
+    }
 
-  // Wait for all workers and flush final results
-  await pool.drain();
-  await flushResults();
+    // Wait for all workers and flush final results
+    await pool.drain();
+    await flushResults();
 
-  // Write remaining updates
-  if (updateBuffer.length > 0) {
-    await store.batchWrite(updateBuffer);
-    stats.positionsIndexed += updateBuffer.length;
+    // Write remaining updates (and the final checkpoint)
+    if (updateBuffer.length > 0 || checkpointStore) {
+      await writeUpdates();
+    }
+
+    await store.flush();
+  } finally {
+    await pool.terminate();
   }
 
-  await store.flush();
-  await pool.terminate();
+  if (checkpointStore) {
+    stats.batchesFlushed = batchesFlushed;
+  }
 
   stats.elapsedMs = Date.now() - startTime;
   stats.gamesPerSecond = stats.gamesProcessed / (stats.elapsedMs / 1000);
@@ -383,6 +477,7 @@ export async function parallelIndexGames(
     stats.positionsIndexed += batch.length;
   }
 
+  await storeGameRecords(store, games, config);
   await store.flush();
   
   stats.elapsedMs = Date.now() - startTime;
@@ -13,6 +13,8 @@
 import { createReadStream } from 'node:fs';
 import { createInterface } from 'node:readline';
 import type { ParsedGame, GameResult } from '../types.js';
+import { monthFromDate, speedFromTimeControl } from '../segments.js';
+import { gameIdFromHeaders } from '../games.js';
 
 /**
  * Configuration for PGN parsing
@@ -30,6 +32,27 @@ export interface PgnParserConfig {
   onProgress?: (parsed: number, skipped: number) => void;
   /** Progress report interval in games (default: 10000) */
   progressInterval?: number;
+  /** Byte offset to start reading from, at a game boundary (default: 0) */
+  startOffset?: number;
+}
+
+/**
+ * A line of PGN and where it ends
+ */
+export interface PgnLine {
+  /** Line text without the line ending */
+  text: string;
+  /** Byte offset just past the line ending */
+  offset: number;
+}
+
+/**
+ * A parsed game and where it ends
+ */
+export interface PgnGameAt {
+  game: ParsedGame;
+  /** Byte offset just past the game - a resumed run starts here */
+  offset: number;
 }
 
 /**
@@ -118,11 +141,19 @@ function parseGame(
   }
 
   return {
+    id: gameIdFromHeaders(headers, moves),
     moves,
     result,
     averageRating,
+    white: headers['White'],
+    black: headers['Black'],
+    whiteRating: isNaN(whiteElo) ? undefined : whiteElo,
+    blackRating: isNaN(blackElo) ? undefined : blackElo,
+    date: headers['UTCDate'] ?? headers['Date'],
     event: headers['Event'],
     year: parseInt(headers['Date']?.split('.')[0]),
+    speed: speedFromTimeControl(headers['TimeControl']),
+    month: monthFromDate(headers['UTCDate'] ?? headers['Date']),
   };
 }
 
@@ -148,8 +179,8 @@ function parsePgnMovesFromText(text: string): string[] {
   }
   cleaned = result;
 
-  // Remove NAGs ($1, $2, etc.)
-  cleaned = cleaned.replace(/\$\d+/g, '');
+  // Remove NAGs ($1, $2, etc.) and move annotations (!, ?, !?, ...)
+  cleaned = cleaned.replace(/\$\d+/g, '').replace(/[!?]+/g, '');
 
   // Remove move numbers and result
   cleaned = cleaned
@@ -167,7 +198,7 @@ function parsePgnMovesFromText(text: string): string[] {
       // Basic SAN validation: starts with piece or file
       if (move.match(/^[KQRBN]?[a-h]?[1-8]?x?[a-h][1-8](=[QRBN])?[+#]?$/)) return true;
       // Castling
-      if (move === 'O-O' || move === 'O-O-O') return true;
+      if (move.match(/^O-O(-O)?[+#]?$/)) return true;
       return false;
     });
 }
@@ -188,46 +219,62 @@ export async function* streamPgnFile(
   filePath: string,
   config: PgnParserConfig = {}
 ): AsyncGenerator<ParsedGame> {
+  for await (const { game } of streamPgnFileWithOffsets(filePath, config)) {
+    yield game;
+  }
+}
+
+/**
+ * Stream games from a PGN file with the byte offset after each game, so an
+ * interrupted run can restart from the last game it indexed
+ *
+ * @example
+ * for await (const { game, offset } of streamPgnFileWithOffsets('games.pgn', { startOffset })) {
+ *   // ...index game, checkpoint offset...
+ * }
+ */
+export async function* streamPgnFileWithOffsets(
+  filePath: string,
+  config: PgnParserConfig = {}
+): AsyncGenerator<PgnGameAt> {
   const maxGames = config.maxGames ?? Infinity;
   const progressInterval = config.progressInterval ?? 10000;
+  const startOffset = config.startOffset ?? 0;
 
-  const fileStream = createReadStream(filePath, { encoding: 'utf8' });
-  const rl = createInterface({
-    input: fileStream,
-    crlfDelay: Infinity,
-  });
+  const fileStream = createReadStream(filePath, { start: startOffset });
 
   let headerLines: string[] = [];
   let moveLines: string[] = [];
   let inHeaders = true;
   let gamesParsed = 0;
   let gamesSkipped = 0;
+  let offset = startOffset;
 
-  for await (const line of rl) {
-    const trimmed = line.trim();
+  for await (const line of readPgnLines(fileStream, startOffset)) {
+    const trimmed = line.text.trim();
+    offset = line.offset;
 
     if (trimmed.length === 0) {
-      // Blank line - might be end of game
-      if (moveLines.length > 0 || headerLines.length > 0) {
+      // Blank line - end of game once moves were seen (the blank line
+      // between headers and moves keeps the headers)
+      if (moveLines.length > 0) {
         // Try to parse the completed game
-        if (moveLines.length > 0) {
-          const game = parseGame(headerLines, moveLines, config);
-
-          if (game) {
-            gamesParsed++;
-            yield game;
-
-            if (gamesParsed >= maxGames) {
-              break;
-            }
-          } else {
-            gamesSkipped++;
-          }
+        const game = parseGame(headerLines, moveLines, config);
+
+        if (game) {
+          gamesParsed++;
+          yield { game, offset };
 
-          // Report progress
-          if (config.onProgress && (gamesParsed + gamesSkipped) % progressInterval === 0) {
-            config.onProgress(gamesParsed, gamesSkipped);
+          if (gamesParsed >= maxGames) {
+            break;
           }
+        } else {
+          gamesSkipped++;
+        }
+
+        // Report progress
+        if (config.onProgress && (gamesParsed + gamesSkipped) % progressInterval === 0) {
+          config.onProgress(gamesParsed, gamesSkipped);
         }
 
         // Reset for next game
@@ -256,7 +303,7 @@ export async function* streamPgnFile(
     const game = parseGame(headerLines, moveLines, config);
     if (game) {
       gamesParsed++;
-      yield game;
+      yield { game, offset };
     } else {
       gamesSkipped++;
     }
@@ -268,6 +315,70 @@ export async function* streamPgnFile(
   }
 }
 
+/**
+ * Split a byte stream into lines, tracking the byte offset after each line
+ * (readline only counts characters). LF and CRLF endings are accepted.
+ *
+ * @param input - Byte stream, e.g. a file stream or zstd's stdout
+ * @param startOffset - Offset of the stream's first byte in the whole file
+ */
+export async function* readPgnLines(
+  input: AsyncIterable<Buffer | string>,
+  startOffset = 0
+): AsyncGenerator<PgnLine> {
+  let offset = startOffset;
+  let rest: Buffer = Buffer.alloc(0);
+
+  for await (const chunk of input) {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+    const data = rest.length > 0 ? Buffer.concat([rest, bytes]) : bytes;
+
+    let start = 0;
+    let newline: number;
+    while ((newline = data.indexOf(0x0a, start)) !== -1) {
+      offset += newline + 1 - start;
+      yield { text: lineText(data, start, newline), offset };
+      start = newline + 1;
+    }
+    rest = data.subarray(start);
+  }
+
+  // Last line without a line ending
+  if (rest.length > 0) {
+    offset += rest.length;
+    yield { text: lineText(rest, 0, rest.length), offset };
+  }
+}
+
+/**
+ * Skip the first bytes of a stream - for resuming inside a compressed
+ * file, which can only be read from the start
+ */
+export async function* skipBytes(
+  input: AsyncIterable<Buffer | string>,
+  count: number
+): AsyncGenerator<Buffer> {
+  let remaining = count;
+
+  for await (const chunk of input) {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+    if (remaining >= bytes.length) {
+      remaining -= bytes.length;
+      continue;
+    }
+    yield remaining > 0 ? bytes.subarray(remaining) : bytes;
+    remaining = 0;
+  }
+}
+
+/**
+ * Decode a line, dropping a trailing carriage return
+ */
+function lineText(data: Buffer, start: number, end: number): string {
+  const last = end > start && data[end - 1] === 0x0d ? end - 1 : end;
+  return data.toString('utf8', start, last);
+}
+
 /**
  * Count games in a PGN file without fully parsing them
  * Useful for progress estimation
@@ -0,0 +1,72 @@
+/**
+ * Source Manifest
+ *
+ * Which source files (monthly Lichess dumps, PGN collections) a database
+ * already includes, so appending or merging never counts the same month
+ * twice. Sources are identified by file name.
+ *
+ * The manifest is a metadata entry in the store itself ("x:manifest"), so
+ * a RocksDB append writes it in the same batch as the stats and compaction
+ * carries it over to LMDB.
+ *
+ * @example
+ * const included = await findIncludedSources(store, [zstPath]);
+ * if (included.length === 0) {
+ *   // ...index zstPath...
+ *   await addToManifest(store, [{ source: sourceName(zstPath), games, addedAt: new Date().toISOString() }]);
+ *   await store.flush();
+ * }
+ */
+
+import { basename } from 'node:path';
+import type { ManifestEntry, MetaStore } from './types.js';
+
+/** Metadata entry holding the manifest */
+export const MANIFEST_KEY = 'manifest';
+
+/**
+ * Name a source file is recorded under (its file name, without the directory)
+ */
+export function sourceName(path: string): string {
+  return basename(path);
+}
+
+/**
+ * The sources included in a store (empty for stores built before manifests)
+ */
+export async function readManifest(store: MetaStore): Promise<ManifestEntry[]> {
+  const value = await store.getMeta(MANIFEST_KEY);
+  return value ? (JSON.parse(value.toString('utf8')) as ManifestEntry[]) : [];
+}
+
+/**
+ * Record sources as included in a store
+ *
+ * @throws If a source is already included
+ */
+export async function addToManifest(store: MetaStore, entries: ManifestEntry[]): Promise<ManifestEntry[]> {
+  const manifest = await readManifest(store);
+  const duplicate = entries.find((entry) => manifest.some((included) => included.source === entry.source));
+  if (duplicate) {
+    throw new Error(`Source already included: ${duplicate.source}`);
+  }
+
+  const updated = [...manifest, ...entries];
+  await store.putMeta(MANIFEST_KEY, encodeManifest(updated));
+  return updated;
+}
+
+/**
+ * Stored form of a manifest, for writing it inside a store transaction
+ */
+export function encodeManifest(entries: ManifestEntry[]): Buffer {
+  return Buffer.from(JSON.stringify(entries), 'utf8');
+}
+
+/**
+ * Which of the given source paths a store already includes
+ */
+export async function findIncludedSources(store: MetaStore, paths: string[]): Promise<string[]> {
+  const included = new Set((await readManifest(store)).map((entry) => entry.source));
+  return paths.map(sourceName).filter((source) => included.has(source));
+}
@@ -0,0 +1,307 @@
+/**
+ * Move Orders
+ *
+ * The index is keyed by Zobrist hash, so games that reach a position by
+ * different move orders are already merged into one entry. This finds the
+ * move orders behind an entry: a search from the starting position along
+ * indexed moves, keeping the lines that arrive at the position.
+ *
+ * Games are counted per position, not per line, so the games of each move
+ * order are estimated: a line's share is the product of the move
+ * frequencies along it (the chance of a game following the line), and the
+ * position's games are split in proportion to the shares.
+ *
+ * The search is pruned by:
+ * - Popularity: a move played in fewer games than the smallest move order
+ *   worth reporting can't be on one
+ * - Reachability: pieces that still have to reach their squares need at
+ *   least one move each, and pawns and captured pieces never come back
+ *
+ * @example
+ * // 1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 or 1. c4 e6 2. Nc3 Nf6 3. d4 Bb4?
+ * const report = await findMoveOrders(store, nimzoFen);
+ * report.summary; // "Usually reached via 1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 (87%)"
+ */
+
+import { Chess, type Color } from 'chess.js';
+import { hashFen } from './zobrist.js';
+import type { ExplorerFilter, MoveStats, ReadStore } from './types.js';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Deepest position searched, in plies (default for maxPlies) */
+const DEFAULT_MAX_PLIES = 24;
+const DEFAULT_MAX_POSITIONS = 3000;
+const DEFAULT_MIN_SHARE = 1;
+const DEFAULT_LIMIT = 5;
+
+/** A move order takes most games if it has at least this share */
+const USUAL_SHARE = 50;
+
+/** Lines kept per searched position (the rest are too rare to report) */
+const MAX_LINES_PER_POSITION = 20;
+
+/**
+ * Options for finding move orders
+ */
+export interface MoveOrderOptions extends ExplorerFilter {
+  /** Move orders to return (default: 5) */
+  limit?: number;
+  /** Only follow moves played in at least this percentage of the position's games (default: 1) */
+  minShare?: number;
+  /** Positions to search before giving up (default: 3000) */
+  maxPositions?: number;
+  /** Deepest position to search, in plies (default: 24) */
+  maxPlies?: number;
+}
+
+/**
+ * A move order reaching the position
+ */
+export interface MoveOrder {
+  /** SAN moves from the starting position */
+  moves: string[];
+  /** Estimated games that followed this move order */
+  games: number;
+  /** Estimated percentage of the position's games */
+  share: number;
+}
+
+/**
+ * The move orders reaching a position
+ */
+export interface MoveOrderReport {
+  fen: string;
+  /** Games that reached the position (all move orders) */
+  totalGames: number;
+  /** Move orders found, most common first */
+  moveOrders: MoveOrder[];
+  /** The most common move order, if there are several and it takes most games */
+  usual?: MoveOrder;
+  /** One-line description, e.g. "Usually reached via 1. d4 Nf6 2. c4 e6 (62%)" */
+  summary: string;
+  /** Positions searched */
+  positionsSearched: number;
+  /** Whether the search hit maxPositions (rare move orders may be missing) */
+  truncated: boolean;
+}
+
+/** A line from a searched position to the target, with its chance */
+interface Line {
+  moves: string[];
+  reach: number;
+}
+
+/**
+ * Find the main move orders reaching a position
+ *
+ * The position's ply comes from the FEN's move number, so the FEN must be
+ * from a game (as on the board), not a set-up position.
+ */
+export async function findMoveOrders(
+  store: ReadStore,
+  fen: string,
+  options: MoveOrderOptions = {}
+): Promise<MoveOrderReport> {
+  const {
+    limit = DEFAULT_LIMIT,
+    minShare = DEFAULT_MIN_SHARE,
+    maxPositions = DEFAULT_MAX_POSITIONS,
+    maxPlies = DEFAULT_MAX_PLIES,
+    ...filter
+  } = options;
+
+  const targetHash = hashFen(fen);
+  const target = new Chess(fen);
+  const plies = plyOf(fen);
+
+  const stats = await store.getPosition(targetHash, filter);
+  const totalGames = stats ? stats.white + stats.draws + stats.black : 0;
+
+  const report = (moveOrders: MoveOrder[], summary: string, positionsSearched = 0, truncated = false): MoveOrderReport => ({
+    fen,
+    totalGames,
+    moveOrders,
+    ...(moveOrders.length > 1 && moveOrders[0].share >= USUAL_SHARE && { usual: moveOrders[0] }),
+    summary,
+    positionsSearched,
+    truncated,
+  });
+
+  if (plies === 0) {
+    return report([], 'Starting position');
+  }
+  if (totalGames === 0) {
+    return report([], 'Position not found in database');
+  }
+  if (plies > maxPlies) {
+    return report([], `Position is too deep to search (${plies} plies, at most ${maxPlies})`);
+  }
+
+  const minGames = Math.max(1, Math.ceil((totalGames * minShare) / 100));
+  const targetCounts = pieceCounts(target);
+  // Lines from a position reached after a number of plies (transpositions on the way are searched once)
+  const searched = new Map<string, Line[]>();
+  let positionsSearched = 0;
+  let truncated = false;
+
+  const chess = new Chess(STARTING_FEN);
+
+  const linesFrom = async (hash: bigint, ply: number): Promise<Line[]> => {
+    if (ply === plies) {
+      return hash === targetHash ? [{ moves: [], reach: 1 }] : [];
+    }
+
+    const key = `${hash}:${ply}`;
+    const known = searched.get(key);
+    if (known) return known;
+
+    if (!canReach(chess, target, targetCounts, plies - ply)) {
+      searched.set(key, []);
+      return [];
+    }
+
+    if (positionsSearched >= maxPositions) {
+      truncated = true;
+      return [];
+    }
+    positionsSearched++;
+
+    const moves = await store.getMoves(hash, filter);
+    const positionGames = moves.reduce((sum, move) => sum + gamesOf(move), 0);
+    const lines: Line[] = [];
+
+    for (const move of [...moves].sort((a, b) => gamesOf(b) - gamesOf(a))) {
+      if (gamesOf(move) < minGames) break;
+
+      const played = playUci(chess, move.uci);
+      if (!played) continue;
+      const next = await linesFrom(hashFen(chess.fen()), ply + 1);
+      chess.undo();
+
+      const share = gamesOf(move) / positionGames;
+      for (const line of next) {
+        lines.push({ moves: [played, ...line.moves], reach: share * line.reach });
+      }
+    }
+
+    lines.sort((a, b) => b.reach - a.reach);
+    const kept = lines.slice(0, MAX_LINES_PER_POSITION);
+    searched.set(key, kept);
+    return kept;
+  };
+
+  const lines = await linesFrom(hashFen(chess.fen()), 0);
+  const totalReach = lines.reduce((sum, line) => sum + line.reach, 0);
+
+  const moveOrders = lines.slice(0, limit).map((line): MoveOrder => {
+    const share = (line.reach / totalReach) * 100;
+    return { moves: line.moves, games: Math.round((totalGames * share) / 100), share };
+  });
+
+  return report(moveOrders, summarize(moveOrders, truncated), positionsSearched, truncated);
+}
+
+/**
+ * Format SAN moves from the starting position as "1. d4 Nf6 2. c4"
+ */
+export function formatMoveOrder(moves: string[]): string {
+  return moves.map((san, i) => (i % 2 === 0 ? `${i / 2 + 1}. ${san}` : san)).join(' ');
+}
+
+/**
+ * Describe how a position is reached
+ */
+function summarize(moveOrders: MoveOrder[], truncated: boolean): string {
+  if (moveOrders.length === 0) {
+    return truncated
+      ? 'No common move order found before the search limit'
+      : 'No common move order found';
+  }
+
+  const [first, ...others] = moveOrders;
+  const describe = (order: MoveOrder) => `${formatMoveOrder(order.moves)} (${Math.round(order.share)}%)`;
+
+  if (others.length === 0) {
+    return `Reached via ${describe(first)}`;
+  }
+  const lead = first.share >= USUAL_SHARE ? 'Usually' : 'Most often';
+  return `${lead} reached via ${describe(first)}, also via ${others.map(describe).join('; ')}`;
+}
+
+/**
+ * Plies played before a position, from the FEN's move number and side to move
+ */
+function plyOf(fen: string): number {
+  const [, turn = 'w', , , , fullmove = '1'] = fen.split(' ');
+  return (Math.max(1, parseInt(fullmove) || 1) - 1) * 2 + (turn === 'b' ? 1 : 0);
+}
+
+function gamesOf(move: MoveStats): number {
+  return move.white + move.draws + move.black;
+}
+
+/**
+ * Play a UCI move, returning its SAN (null if illegal)
+ */
+function playUci(chess: Chess, uci: string): string | null {
+  try {
+    return chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san;
+  } catch {
+    return null;
+  }
+}
+
+type PieceCounts = Record<Color, { pawns: number; pieces: number }>;
+
+function pieceCounts(chess: Chess): PieceCounts {
+  const counts: PieceCounts = { w: { pawns: 0, pieces: 0 }, b: { pawns: 0, pieces: 0 } };
+  for (const row of chess.board()) {
+    for (const square of row) {
+      if (!square) continue;
+      counts[square.color].pieces++;
+      if (square.type === 'p') counts[square.color].pawns++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Whether the target could still be reached in the remaining plies
+ *
+ * Every move puts one piece on one square (castling two), so each side
+ * needs at least as many moves as it has squares to fill. Pawns and
+ * captured pieces can't be replaced.
+ */
+function canReach(chess: Chess, target: Chess, targetCounts: PieceCounts, plies: number): boolean {
+  const counts = pieceCounts(chess);
+  const board = chess.board();
+  const targetBoard = target.board();
+  const toFill: Record<Color, number> = { w: 0, b: 0 };
+
+  for (let rank = 0; rank < 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const wanted = targetBoard[rank][file];
+      const current = board[rank][file];
+      if (wanted && (current?.color !== wanted.color || current.type !== wanted.type)) {
+        toFill[wanted.color]++;
+      }
+    }
+  }
+
+  const toMove = chess.turn();
+  for (const color of ['w', 'b'] as const) {
+    if (counts[color].pawns < targetCounts[color].pawns || counts[color].pieces < targetCounts[color].pieces) {
+      return false;
+    }
+
+    const movesLeft = color === toMove ? Math.ceil(plies / 2) : Math.floor(plies / 2);
+    const rights = chess.getCastlingRights(color);
+    const castlingBonus = rights.k || rights.q ? 1 : 0;
+    if (toFill[color] > movesLeft + castlingBonus) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,72 @@
+/**
+ * Player Entries
+ *
+ * Personal databases (your own Lichess, Chess.com or OTB games) also keep
+ * stats per player and color, so they can be queried like the Lichess
+ * `player` explorer: "what did I play here as Black?".
+ *
+ * Player entries are only written when indexing with `indexPlayers`, and
+ * are segmented like the aggregate filter entries (see segments.ts):
+ * - Player position stats: "u:" + 8-byte hash + player tag + 4-byte segment
+ * - Player move stats: "v:" + 8-byte hash + player tag + 4-byte segment + move UCI
+ *
+ * Player tag: color (1, "w" or "b") + name length (1) + normalized name (UTF-8)
+ */
+
+import type { ExplorerFilter, PlayerColor, PositionUpdate } from './types.js';
+
+/** Longest name kept in a player tag, in bytes */
+const MAX_NAME_BYTES = 255;
+
+/**
+ * Normalize a player name for matching (usernames are case-insensitive)
+ */
+export function normalizePlayerName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Pack a player and color into its key tag
+ */
+export function encodePlayerTag(color: PlayerColor, name: string): Buffer {
+  const nameBuf = Buffer.from(normalizePlayerName(name), 'utf8').subarray(0, MAX_NAME_BYTES);
+  return Buffer.concat([Buffer.from(color === 'white' ? 'w' : 'b'), Buffer.from([nameBuf.length]), nameBuf]);
+}
+
+/**
+ * Player tags an indexed position update is written under (none unless
+ * the update carries player names)
+ */
+export function playerTagsOf(update: PositionUpdate): Buffer[] {
+  const tags: Buffer[] = [];
+  if (update.white) tags.push(encodePlayerTag('white', update.white));
+  if (update.black) tags.push(encodePlayerTag('black', update.black));
+  return tags;
+}
+
+/**
+ * Player tags to read for a filter (null when the filter isn't by player)
+ *
+ * Without a color, both of the player's colors are summed.
+ */
+export function filterPlayerTags(filter: ExplorerFilter | undefined): Buffer[] | null {
+  if (!filter?.player) return null;
+
+  const colors: PlayerColor[] = filter.color ? [filter.color] : ['white', 'black'];
+  return colors.map((color) => encodePlayerTag(color, filter.player!));
+}
+
+/**
+ * Whether a game's players match a filter's player and color
+ */
+export function matchesPlayer(game: { white: string; black: string }, filter: ExplorerFilter): boolean {
+  if (!filter.player) return true;
+
+  const player = normalizePlayerName(filter.player);
+  const asWhite = normalizePlayerName(game.white) === player;
+  const asBlack = normalizePlayerName(game.black) === player;
+
+  if (filter.color === 'white') return asWhite;
+  if (filter.color === 'black') return asBlack;
+  return asWhite || asBlack;
+}
@@ -21,11 +21,16 @@ import type {
   LichessExplorerMove,
   LichessOpeningInfo,
   LichessDatabase,
+  LichessExplorerGame,
 } from '@chess/shared';
 import { LmdbStore, openLmdbStore } from './storage/lmdb-store.js';
 import type { LmdbStoreConfig } from './storage/lmdb-store.js';
 import { hashFen } from './zobrist.js';
-import type { ReadStore, MoveStats } from './types.js';
+import { hasFilter, matchesFilter, monthFromDate, ratingBucket } from './segments.js';
+import { MAX_TOP_GAMES, storedGameRating, storedGameToPgn, toExplorerGame } from './games.js';
+import { matchesPlayer } from './players.js';
+import { findMoveOrders, type MoveOrderOptions, type MoveOrderReport } from './move-orders.js';
+import type { ReadStore, MoveStats, ExplorerFilter } from './types.js';
 
 // Import the Lichess opening library for name lookups
 import { getLichessOpeningLibrary } from '../lichess-openings/index.js';
@@ -87,21 +92,29 @@ export class LocalExplorer {
    * Query a position and return results in Lichess API format
    *
    * @param fen - FEN string of the position to query
-   * @param options - Query options (limit, etc.)
+   * @param options - Query options (limit, topGames, plus Lichess-style rating/speed/month
+   * and player/color filters)
    * @returns ExplorerResult matching Lichess API format
+   *
+   * @example
+   * // What do 1800-2000 blitz players play here?
+   * await explorer.query(fen, { ratings: [1800, 2000], speeds: ['blitz'] });
+   *
+   * // What have I played here as Black? (database indexed with players)
+   * await explorer.query(fen, { player: 'me', color: 'black' });
    */
   async query(
     fen: string,
-    options: { limit?: number } = {}
+    options: { limit?: number; topGames?: number } & ExplorerFilter = {}
   ): Promise<ExplorerResult> {
     await this.ensureOpen();
 
-    const limit = options.limit ?? 12;
+    const { limit = 12, topGames: topGameLimit = MAX_TOP_GAMES, ...filter } = options;
     const hash = hashFen(fen);
 
     // Get position stats
-    const posStats = await this.store!.getPosition(hash);
-    const moves = await this.store!.getMoves(hash);
+    const posStats = await this.store!.getPosition(hash, filter);
+    const moves = await this.store!.getMoves(hash, filter);
 
     // If no data, return empty result
     if (!posStats || (posStats.white + posStats.draws + posStats.black) === 0) {
@@ -123,6 +136,8 @@ export class LocalExplorer {
     // Look up opening name
     const opening = this.lookupOpening(fen);
 
+    const { games: topGames, unfiltered } = await this.loadTopGames(hash, filter, topGameLimit);
+
     // Build raw response (simulated Lichess format)
     const raw: LichessExplorerResponse = {
       white: posStats.white,
@@ -137,7 +152,7 @@ export class LocalExplorer {
         averageRating: m.averageRating,
         opening: m.opening,
       })),
-      topGames: [],
+      topGames,
       opening,
     };
 
@@ -147,9 +162,34 @@ export class LocalExplorer {
       moves: explorerMoves,
       opening,
       database: 'local' as LichessDatabase,
+      ...(unfiltered && { topGamesUnfiltered: true }),
     };
   }
 
+  /**
+   * Get a game from the local game store as PGN (null if it isn't stored)
+   *
+   * Use this for local top games instead of fetching from lichess.org.
+   */
+  async getGamePgn(id: string): Promise<string | null> {
+    await this.ensureOpen();
+    const game = await this.store!.getGame(id);
+    return game ? storedGameToPgn(game) : null;
+  }
+
+  /**
+   * The main move orders reaching a position, with estimated games each
+   * (transpositions share an entry in the index - see move-orders.ts)
+   *
+   * @example
+   * const { summary } = await explorer.moveOrders(fen);
+   * // "Usually reached via 1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 (87%), also via ..."
+   */
+  async moveOrders(fen: string, options: MoveOrderOptions = {}): Promise<MoveOrderReport> {
+    await this.ensureOpen();
+    return findMoveOrders(this.store!, fen, options);
+  }
+
   /**
    * Check if a position exists in the database
    */
@@ -201,6 +241,46 @@ export class LocalExplorer {
     };
   }
 
+  /**
+   * Load a position's notable games that match the query filter
+   *
+   * Only the MAX_TOP_GAMES best-rated games are stored per position, so a
+   * filter often matches none of them. The list then falls back to those
+   * games, flagged as unfiltered.
+   */
+  private async loadTopGames(
+    hash: bigint,
+    filter: ExplorerFilter,
+    limit: number
+  ): Promise<{ games: LichessExplorerGame[]; unfiltered: boolean }> {
+    const matching: LichessExplorerGame[] = [];
+    const all: LichessExplorerGame[] = [];
+
+    for (const ref of await this.store!.getTopGames(hash)) {
+      if (matching.length >= limit) break;
+
+      const game = await this.store!.getGame(ref.id);
+      if (!game) continue; // Indexed without the game store
+
+      const rating = storedGameRating(game);
+      const segment = {
+        rating: rating !== undefined ? ratingBucket(rating) : undefined,
+        speed: game.speed,
+        month: monthFromDate(game.date),
+      };
+      const explorerGame = toExplorerGame(game);
+      if (matchesFilter(segment, filter) && matchesPlayer(game, filter)) {
+        matching.push(explorerGame);
+      }
+      all.push(explorerGame);
+    }
+
+    if (matching.length === 0 && all.length > 0 && hasFilter(filter)) {
+      return { games: all.slice(0, limit), unfiltered: true };
+    }
+    return { games: matching, unfiltered: false };
+  }
+
   /**
    * Convert internal move stats to Lichess API format with SAN notation
    */
@@ -0,0 +1,398 @@
+/**
+ * Local Database Registry
+ *
+ * Several named local explorer databases side by side: monthly Lichess
+ * dumps ("lichess-2025-12"), other PGN collections ("twic") and your own
+ * games ("my-games", indexed with per-player entries so they can be queried
+ * like the Lichess `player` explorer).
+ *
+ * Layout: <data dir>/databases/<id>.lmdb, with a <id>.json metadata sidecar
+ * describing how it was built (kind, sources, game count, filters, date).
+ * The single database built before the registry existed
+ * (<data dir>/opening-explorer.lmdb) is registered as "opening-explorer",
+ * and personal databases imported into <data dir>/personal/ are listed too.
+ * The 'personal' database id is kept as an alias for your own games (see
+ * personalId).
+ *
+ * @example
+ * await importPersonalGames(localDatabasePath('my-games'), ['./lichess_me.pgn', './chesscom_me.pgn']);
+ * const registry = getLocalDatabaseRegistry();
+ * await registry.list(); // [{ id: 'my-games', kind: 'personal', gameCount: 812, ... }]
+ * await registry.query('my-games', fen, { player: 'me', color: 'black' });
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { ExplorerResult, LocalDatabaseFilters, LocalDatabaseInfo, LocalDatabaseKind } from '@chess/shared';
+import { openLmdbStore } from './storage/lmdb-store.js';
+import { indexPgnFile, type IndexingStats } from './indexer/indexer.js';
+import { LocalExplorer } from './query.js';
+import type { MoveOrderOptions, MoveOrderReport } from './move-orders.js';
+import type { ExplorerFilter, IndexerConfig } from './types.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DATA_DIR = join(__dirname, '..', '..', '..', 'data');
+
+/** Default directory for named local databases (server/data/databases) */
+export const LOCAL_DB_DIR = join(DATA_DIR, 'databases');
+
+/** A database registered by path instead of living in the registry directory */
+export interface RegisteredDatabase {
+  id: string;
+  path: string;
+}
+
+/** The database built before the registry existed (server/data/opening-explorer.lmdb) */
+export const LEGACY_DATABASE: RegisteredDatabase = {
+  id: 'opening-explorer',
+  path: join(DATA_DIR, 'opening-explorer.lmdb'),
+};
+
+/** Where personal databases were imported before the registry existed (server/data/personal) */
+export const LEGACY_PERSONAL_DIR = join(DATA_DIR, 'personal');
+
+/** What a database's metadata sidecar records */
+export type LocalDatabaseMetadata = Omit<LocalDatabaseInfo, 'id'>;
+
+/** One indexing run to record in a database's metadata */
+export interface DatabaseBuild {
+  kind: LocalDatabaseKind;
+  /** Source files or URLs indexed in this run */
+  sources: string[];
+  /** Games indexed in this run */
+  gameCount: number;
+  filters?: LocalDatabaseFilters;
+  players?: boolean;
+  positionCount?: number;
+}
+
+const DB_EXTENSION = '.lmdb';
+
+/**
+ * Normalize a database name into a safe id and file name ("My Games" → "my-games")
+ *
+ * @throws If nothing usable is left
+ */
+export function normalizeDatabaseId(name: string): string {
+  const normalized = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (!normalized) {
+    throw new Error(`Invalid database name: "${name}"`);
+  }
+  return normalized;
+}
+
+/**
+ * Path of a named local database
+ */
+export function localDatabasePath(name: string, dir: string = LOCAL_DB_DIR): string {
+  return join(dir, normalizeDatabaseId(name) + DB_EXTENSION);
+}
+
+/**
+ * Path of a database's metadata sidecar (<id>.lmdb → <id>.json)
+ */
+export function metadataPath(dbPath: string): string {
+  return (dbPath.endsWith(DB_EXTENSION) ? dbPath.slice(0, -DB_EXTENSION.length) : dbPath) + '.json';
+}
+
+/**
+ * Read a database's metadata (null if it has no readable sidecar)
+ */
+export function readDatabaseMetadata(dbPath: string): LocalDatabaseMetadata | null {
+  const path = metadataPath(dbPath);
+  if (!existsSync(path)) return null;
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as LocalDatabaseMetadata;
+  } catch (error) {
+    console.warn(`Failed to read database metadata at ${path}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write a database's metadata sidecar
+ */
+export function writeDatabaseMetadata(dbPath: string, metadata: LocalDatabaseMetadata): void {
+  mkdirSync(dirname(dbPath), { recursive: true });
+  writeFileSync(metadataPath(dbPath), JSON.stringify(metadata, null, 2) + '\n');
+}
+
+/**
+ * Record an indexing run in a database's metadata
+ *
+ * Runs into the same database add up: sources are merged and game counts
+ * summed. The position count is dropped unless given, since appended games
+ * add positions (the registry recounts it).
+ */
+export function recordDatabaseBuild(dbPath: string, build: DatabaseBuild): LocalDatabaseMetadata {
+  const existing = readDatabaseMetadata(dbPath);
+
+  const metadata: LocalDatabaseMetadata = {
+    kind: build.kind,
+    sources: [...new Set([...(existing?.sources ?? []), ...build.sources])],
+    gameCount: (existing?.gameCount ?? 0) + build.gameCount,
+    positionCount: build.positionCount,
+    filters: { ...existing?.filters, ...build.filters },
+    players: Boolean(existing?.players || build.players),
+    builtAt: new Date().toISOString(),
+  };
+
+  writeDatabaseMetadata(dbPath, metadata);
+  return metadata;
+}
+
+/**
+ * Index PGN files into a personal database (created if missing), with
+ * per-player entries for player/color queries
+ *
+ * Games are summed into the existing stats, so re-importing the same file
+ * counts its games twice.
+ */
+export async function importPersonalGames(
+  dbPath: string,
+  pgnPaths: string[],
+  config: Partial<IndexerConfig> = {}
+): Promise<IndexingStats> {
+  mkdirSync(dirname(dbPath), { recursive: true });
+
+  const store = openLmdbStore({ path: dbPath });
+  const total: IndexingStats = { gamesProcessed: 0, gamesSkipped: 0, positionsIndexed: 0, elapsedMs: 0 };
+  let positionCount: number | undefined;
+
+  try {
+    for (const pgnPath of pgnPaths) {
+      const stats = await indexPgnFile(pgnPath, store, {
+        storePath: dbPath,
+        ...config,
+        indexPlayers: true,
+      });
+      total.gamesProcessed += stats.gamesProcessed;
+      total.gamesSkipped += stats.gamesSkipped;
+      total.positionsIndexed += stats.positionsIndexed;
+      total.elapsedMs += stats.elapsedMs;
+    }
+    await store.flush();
+    positionCount = (await store.getStats()).positionCount;
+  } finally {
+    await store.close();
+  }
+
+  recordDatabaseBuild(dbPath, {
+    kind: 'personal',
+    sources: pgnPaths.map((path) => basename(path)),
+    gameCount: total.gamesProcessed,
+    filters: {
+      minRating: config.minRating,
+      maxMovesPerGame: config.maxMovesPerGame,
+      storeGames: config.storeGames ?? true,
+    },
+    players: true,
+    positionCount,
+  });
+
+  return total;
+}
+
+/**
+ * The local databases in a directory (plus any registered by path),
+ * opened on first use
+ */
+export class LocalDatabaseRegistry {
+  private explorers: Map<string, LocalExplorer> = new Map();
+  /** Position counts computed for databases whose metadata lacks one */
+  private positionCounts: Map<string, { builtAt?: string; count: number }> = new Map();
+
+  constructor(
+    private dir: string = LOCAL_DB_DIR,
+    private registered: RegisteredDatabase[] = [LEGACY_DATABASE],
+    private personalDir: string | null = LEGACY_PERSONAL_DIR
+  ) {}
+
+  /**
+   * Ids of the databases on disk (re-read each call, so new builds show up)
+   *
+   * Databases registered by path come first, then the directory in name order.
+   */
+  ids(): string[] {
+    return [...this.paths().keys()];
+  }
+
+  /**
+   * The first database, used when a session hasn't selected one (null if none)
+   */
+  defaultId(): string | null {
+    return this.ids()[0] ?? null;
+  }
+
+  /**
+   * Database the 'personal' alias stands for: the named one, else the first
+   * database of your own games (null if there is none)
+   */
+  personalId(name?: string): string | null {
+    if (name) return normalizeDatabaseId(name);
+    for (const [id, path] of this.paths()) {
+      const metadata = readDatabaseMetadata(path) ?? this.inferMetadata(id, path);
+      if (metadata.kind === 'personal') return id;
+    }
+    return null;
+  }
+
+  /**
+   * Whether a database exists
+   */
+  has(id: string): boolean {
+    return this.paths().has(id);
+  }
+
+  /**
+   * Metadata of the databases on disk (unreadable ones are skipped)
+   *
+   * Databases without a sidecar (or built before it recorded positions) are
+   * opened once to count their positions.
+   */
+  async list(): Promise<LocalDatabaseInfo[]> {
+    const databases: LocalDatabaseInfo[] = [];
+
+    for (const [id, path] of this.paths()) {
+      const metadata = readDatabaseMetadata(path) ?? this.inferMetadata(id, path);
+      try {
+        const positionCount = metadata.positionCount ?? (await this.countPositions(id, metadata.builtAt));
+        databases.push({ ...metadata, id, positionCount });
+      } catch (error) {
+        console.warn(`Failed to open local database "${id}":`, error);
+      }
+    }
+
+    return databases;
+  }
+
+  /**
+   * Explorer for a database (null if it doesn't exist)
+   */
+  async get(id: string): Promise<LocalExplorer | null> {
+    const cached = this.explorers.get(id);
+    if (cached) return cached;
+
+    const path = this.paths().get(id);
+    if (!path) return null;
+
+    const explorer = new LocalExplorer(path);
+    await explorer.open();
+    this.explorers.set(id, explorer);
+    return explorer;
+  }
+
+  /**
+   * Query a database, optionally filtered by rating, speed, month or player
+   *
+   * @throws If the database doesn't exist
+   */
+  async query(
+    id: string,
+    fen: string,
+    options: { limit?: number; topGames?: number } & ExplorerFilter = {}
+  ): Promise<ExplorerResult> {
+    const explorer = await this.require(id);
+    return explorer.query(fen, { ...options, player: options.player || undefined });
+  }
+
+  /**
+   * The main move orders reaching a position in a database
+   *
+   * @throws If the database doesn't exist
+   */
+  async moveOrders(id: string, fen: string, options: MoveOrderOptions = {}): Promise<MoveOrderReport> {
+    const explorer = await this.require(id);
+    return explorer.moveOrders(fen, { ...options, player: options.player || undefined });
+  }
+
+  /**
+   * Get a game from a database's game store as PGN
+   *
+   * @throws If the database or game doesn't exist
+   */
+  async getGamePgn(id: string, gameId: string): Promise<string> {
+    const pgn = await (await this.require(id)).getGamePgn(gameId);
+    if (!pgn) {
+      throw new Error(`Game not found in local database "${id}": ${gameId}`);
+    }
+    return pgn;
+  }
+
+  /**
+   * Close every opened database
+   */
+  async close(): Promise<void> {
+    for (const explorer of this.explorers.values()) {
+      await explorer.close();
+    }
+    this.explorers.clear();
+  }
+
+  private paths(): Map<string, string> {
+    const paths = new Map<string, string>();
+
+    for (const { id, path } of this.registered) {
+      if (existsSync(path)) paths.set(id, path);
+    }
+
+    for (const dir of this.personalDir ? [this.dir, this.personalDir] : [this.dir]) {
+      if (!existsSync(dir)) continue;
+      const entries = readdirSync(dir)
+        .filter((entry) => entry.endsWith(DB_EXTENSION))
+        .sort();
+      for (const entry of entries) {
+        const id = entry.slice(0, -DB_EXTENSION.length);
+        if (!paths.has(id)) paths.set(id, join(dir, entry));
+      }
+    }
+
+    return paths;
+  }
+
+  /** Metadata for a database built without a sidecar */
+  private inferMetadata(id: string, path: string): LocalDatabaseMetadata {
+    if (this.personalDir && dirname(path) === this.personalDir) {
+      return { kind: 'personal', sources: [], filters: {}, players: true };
+    }
+    const legacy = this.registered.some((db) => db.id === id);
+    return { kind: legacy ? 'lichess' : 'pgn', sources: [], filters: {}, players: false };
+  }
+
+  private async countPositions(id: string, builtAt: string | undefined): Promise<number> {
+    const cached = this.positionCounts.get(id);
+    if (cached && cached.builtAt === builtAt) return cached.count;
+
+    const { positionCount } = await (await this.require(id)).getStats();
+    this.positionCounts.set(id, { builtAt, count: positionCount });
+    return positionCount;
+  }
+
+  private async require(id: string): Promise<LocalExplorer> {
+    const explorer = await this.get(id);
+    if (!explorer) {
+      throw new Error(`Local database not found: ${id}`);
+    }
+    return explorer;
+  }
+}
+
+let registry: LocalDatabaseRegistry | null = null;
+
+/**
+ * Shared registry for the default data directory
+ */
+export function getLocalDatabaseRegistry(): LocalDatabaseRegistry {
+  if (!registry) {
+    registry = new LocalDatabaseRegistry();
+  }
+  return registry;
+}
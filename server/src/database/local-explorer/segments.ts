@@ -0,0 +1,201 @@
+/**
+ * Game Segments
+ *
+ * Every indexed game falls into one segment: its rating bucket, speed
+ * category and month. Stats are stored per segment next to the aggregate
+ * entries, so filtered queries sum the segments that match instead of
+ * re-reading games.
+ *
+ * Segment encoding (4 bytes):
+ * - Rating bucket index (1) - position in RATING_BUCKETS, 0xff if unrated
+ * - Speed index (1) - position in SPEEDS, 0xff if unknown
+ * - Month (2, big-endian) - year * 12 + (month - 1), 0 if undated
+ *
+ * Buckets and speeds follow the Lichess explorer so filters carry over
+ * unchanged from LichessLichessOptions.
+ */
+
+import type { LichessRating, LichessSpeed } from '@chess/shared';
+import type { ExplorerFilter } from './types.js';
+
+// =============================================================================
+// Categories
+// =============================================================================
+
+/** Lichess rating buckets, lowest first (a bucket covers up to the next one) */
+export const RATING_BUCKETS: LichessRating[] = [400, 1000, 1200, 1400, 1600, 1800, 2000, 2200, 2500];
+
+/** Lichess speed categories */
+export const SPEEDS: LichessSpeed[] = ['ultraBullet', 'bullet', 'blitz', 'rapid', 'classical', 'correspondence'];
+
+/** Encoded segment size in bytes */
+export const SEGMENT_SIZE = 4;
+
+const UNKNOWN = 0xff;
+
+/**
+ * A game's place in the filter space
+ */
+export interface GameSegment {
+  rating?: LichessRating;
+  speed?: LichessSpeed;
+  /** YYYY-MM */
+  month?: string;
+}
+
+/**
+ * Rating bucket for an average rating (the highest bucket not above it)
+ */
+export function ratingBucket(rating: number): LichessRating {
+  let bucket = RATING_BUCKETS[0];
+  for (const candidate of RATING_BUCKETS) {
+    if (rating >= candidate) bucket = candidate;
+  }
+  return bucket;
+}
+
+/**
+ * Speed category of a PGN TimeControl header, using the Lichess estimate of
+ * base time + 40 × increment
+ *
+ * @example
+ * speedFromTimeControl('180+2') // 'blitz'
+ * speedFromTimeControl('-')     // 'correspondence'
+ */
+export function speedFromTimeControl(timeControl: string | undefined): LichessSpeed | undefined {
+  if (!timeControl || timeControl === '?') return undefined;
+  if (timeControl === '-') return 'correspondence';
+
+  const match = timeControl.match(/^(\d+)(?:\+(\d+))?$/);
+  if (!match) return undefined;
+
+  const estimate = parseInt(match[1], 10) + 40 * parseInt(match[2] ?? '0', 10);
+  if (estimate < 30) return 'ultraBullet';
+  if (estimate < 180) return 'bullet';
+  if (estimate < 480) return 'blitz';
+  if (estimate < 1500) return 'rapid';
+  return 'classical';
+}
+
+/**
+ * Month of a PGN date header ("2024.03.15") or filter date ("2024-03"), as YYYY-MM
+ */
+export function monthFromDate(date: string | undefined): string | undefined {
+  const match = date?.match(/^(\d{4})[.-](\d{2})/);
+  if (!match) return undefined;
+
+  const month = parseInt(match[2], 10);
+  if (month < 1 || month > 12) return undefined;
+  return `${match[1]}-${match[2]}`;
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function monthIndex(month: string | undefined): number {
+  if (!month) return 0;
+  const [year, mm] = month.split('-').map((part) => parseInt(part, 10));
+  return year * 12 + (mm - 1);
+}
+
+function indexMonth(index: number): string | undefined {
+  if (index === 0) return undefined;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Pack a segment into its 4-byte key form
+ */
+export function encodeSegment(segment: GameSegment): Buffer {
+  const buf = Buffer.alloc(SEGMENT_SIZE);
+  const rating = segment.rating !== undefined ? RATING_BUCKETS.indexOf(segment.rating) : -1;
+  const speed = segment.speed !== undefined ? SPEEDS.indexOf(segment.speed) : -1;
+  buf.writeUInt8(rating === -1 ? UNKNOWN : rating, 0);
+  buf.writeUInt8(speed === -1 ? UNKNOWN : speed, 1);
+  buf.writeUInt16BE(monthIndex(segment.month), 2);
+  return buf;
+}
+
+/**
+ * Unpack a segment from its 4-byte key form
+ */
+export function decodeSegment(buf: Buffer): GameSegment {
+  const segment: GameSegment = {};
+  const rating = buf.readUInt8(0);
+  const speed = buf.readUInt8(1);
+  const month = indexMonth(buf.readUInt16BE(2));
+  if (rating !== UNKNOWN) segment.rating = RATING_BUCKETS[rating];
+  if (speed !== UNKNOWN) segment.speed = SPEEDS[speed];
+  if (month) segment.month = month;
+  return segment;
+}
+
+/**
+ * Segment of an indexed position update
+ */
+export function segmentOf(update: { rating?: number; speed?: LichessSpeed; month?: string }): GameSegment {
+  return {
+    rating: update.rating !== undefined ? ratingBucket(update.rating) : undefined,
+    speed: update.speed,
+    month: update.month,
+  };
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+/**
+ * Whether a filter restricts anything (an empty filter reads the aggregate entries)
+ */
+export function hasFilter(filter: ExplorerFilter | undefined): filter is ExplorerFilter {
+  if (!filter) return false;
+  return (
+    (filter.ratings?.length ?? 0) > 0 ||
+    (filter.speeds?.length ?? 0) > 0 ||
+    filter.since !== undefined ||
+    filter.until !== undefined ||
+    !!filter.player
+  );
+}
+
+/**
+ * The rating/speed/month part of a requested filter, without unknown
+ * buckets, speeds or malformed months
+ */
+export function normalizeFilter(filter: ExplorerFilter): ExplorerFilter {
+  const normalized: ExplorerFilter = {};
+  const ratings = filter.ratings?.filter((rating) => RATING_BUCKETS.includes(rating));
+  if (ratings && ratings.length > 0) normalized.ratings = ratings;
+  const speeds = filter.speeds?.filter((speed) => SPEEDS.includes(speed));
+  if (speeds && speeds.length > 0) normalized.speeds = speeds;
+  const since = monthFromDate(filter.since);
+  if (since) normalized.since = since;
+  const until = monthFromDate(filter.until);
+  if (until) normalized.until = until;
+  return normalized;
+}
+
+/**
+ * Whether a segment's games are included by a filter
+ */
+export function matchesFilter(segment: GameSegment, filter: ExplorerFilter): boolean {
+  if (filter.ratings && filter.ratings.length > 0) {
+    if (!segment.rating || !filter.ratings.includes(segment.rating)) return false;
+  }
+  if (filter.speeds && filter.speeds.length > 0) {
+    if (!segment.speed || !filter.speeds.includes(segment.speed)) return false;
+  }
+  const since = monthFromDate(filter.since);
+  const until = monthFromDate(filter.until);
+  if (since || until) {
+    // YYYY-MM strings compare in date order
+    if (!segment.month) return false;
+    if (since && segment.month < since) return false;
+    if (until && segment.month > until) return false;
+  }
+  return true;
+}
@@ -308,7 +308,14 @@ export async function verifyCompaction(
   });
 
   const lmdbStats = await lmdbStore.getStats();
-  const lmdbCount = lmdbStats.positionCount + lmdbStats.moveCount;
+  const lmdbCount =
+    lmdbStats.positionCount +
+    lmdbStats.moveCount +
+    (lmdbStats.segmentCount ?? 0) +
+    (lmdbStats.gameCount ?? 0) +
+    (lmdbStats.topGameListCount ?? 0) +
+    (lmdbStats.playerEntryCount ?? 0) +
+    (lmdbStats.metaCount ?? 0);
 
   if (rocksCount !== lmdbCount) {
     differences.push(`Entry count mismatch: RocksDB=${rocksCount}, LMDB=${lmdbCount}`);
@@ -15,6 +15,11 @@
  * Key format (same as RocksDB for compatibility):
  * - Position stats: "p:" + 8-byte hash
  * - Move stats: "m:" + 8-byte hash + ":" + move UCI
+ * - Segment position stats: "s:" + 8-byte hash + 4-byte segment
+ * - Segment move stats: "n:" + 8-byte hash + 4-byte segment + move UCI
+ * - Player stats: "u:" / "v:" + 8-byte hash + player tag + segment (see players.ts)
+ * - Games and top game lists: "g:" + game id, "k:" + 8-byte hash (see games.ts)
+ * - Metadata: "x:" + name (source manifest, see manifest.ts)
  */
 
 import { open, Database, RootDatabase } from 'lmdb';
@@ -26,12 +31,34 @@ import type {
   PositionUpdate,
   StoreStats,
   GameResult,
+  ExplorerFilter,
+  StoredGame,
+  TopGameRef,
+  MetaStore,
 } from '../types.js';
 import { hashToBuffer } from '../zobrist.js';
+import {
+  SEGMENT_SIZE,
+  decodeSegment,
+  encodeSegment,
+  hasFilter,
+  matchesFilter,
+  segmentOf,
+  type GameSegment,
+} from '../segments.js';
+import { insertTopGame, packGame, packTopGames, unpackGame, unpackTopGames } from '../games.js';
+import { filterPlayerTags, playerTagsOf } from '../players.js';
 
 // Key prefixes (same as RocksDB)
 const POSITION_PREFIX = Buffer.from('p:');
 const MOVE_PREFIX = Buffer.from('m:');
+const SEGMENT_POSITION_PREFIX = Buffer.from('s:');
+const SEGMENT_MOVE_PREFIX = Buffer.from('n:');
+const PLAYER_POSITION_PREFIX = Buffer.from('u:');
+const PLAYER_MOVE_PREFIX = Buffer.from('v:');
+const GAME_PREFIX = Buffer.from('g:');
+const TOP_GAMES_PREFIX = Buffer.from('k:');
+const META_PREFIX = Buffer.from('x:');
 
 /**
  * Configuration for LMDB store
@@ -49,7 +76,7 @@ export interface LmdbStoreConfig {
  * LMDB-backed store for position and move statistics
  * Optimized for fast reads in the serving phase
  */
-export class LmdbStore implements ReadStore, WriteStore {
+export class LmdbStore implements ReadStore, WriteStore, MetaStore {
   private db: RootDatabase<Buffer, Buffer>;
   private path: string;
   private readOnly: boolean;
@@ -72,7 +99,11 @@ export class LmdbStore implements ReadStore, WriteStore {
   // ReadStore Implementation
   // ===========================================================================
 
-  async getPosition(hash: bigint): Promise<PositionStats | null> {
+  async getPosition(hash: bigint, filter?: ExplorerFilter): Promise<PositionStats | null> {
+    if (hasFilter(filter)) {
+      return this.getFilteredPosition(hash, filter);
+    }
+
     const key = this.makePositionKey(hash);
     const value = this.db.get(key);
 
@@ -83,24 +114,47 @@ export class LmdbStore implements ReadStore, WriteStore {
     return this.unpackPositionStats(value);
   }
 
-  async getMoves(hash: bigint): Promise<MoveStats[]> {
-    const moves: MoveStats[] = [];
-    const prefix = Buffer.concat([MOVE_PREFIX, hashToBuffer(hash), Buffer.from(':')]);
+  async getMoves(hash: bigint, filter?: ExplorerFilter): Promise<MoveStats[]> {
+    const filtered = hasFilter(filter);
+    const prefixes = filtered
+      ? this.makeFilterPrefixes(hash, filter, SEGMENT_MOVE_PREFIX, PLAYER_MOVE_PREFIX)
+      : [Buffer.concat([MOVE_PREFIX, hashToBuffer(hash), Buffer.from(':')])];
+    const byUci = new Map<string, MoveStats>();
+
+    for (const prefix of prefixes) {
+      // Segment keys carry the segment between the hash (or player tag) and the move
+      const uciOffset = prefix.length + (filtered ? SEGMENT_SIZE : 0);
+
+      // LMDB range query
+      for (const { key, value } of this.db.getRange({
+        start: prefix,
+        end: Buffer.concat([prefix, Buffer.alloc(256, 0xff)]),
+      })) {
+        if (!key.subarray(0, prefix.length).equals(prefix)) {
+          break;
+        }
+        if (filtered && !matchesFilter(decodeSegment(key.subarray(prefix.length, uciOffset)), filter)) {
+          continue;
+        }
 
-    // LMDB range query
-    for (const { key, value } of this.db.getRange({
-      start: prefix,
-      end: Buffer.concat([prefix, Buffer.alloc(256, 0xff)]),
-    })) {
-      if (!key.subarray(0, prefix.length).equals(prefix)) {
-        break;
-      }
+        const stats = this.unpackMoveStats(value);
+        stats.uci = key.subarray(uciOffset).toString('utf8');
 
-      const stats = this.unpackMoveStats(value);
-      stats.uci = key.subarray(prefix.length).toString('utf8');
-      moves.push(stats);
+        const existing = byUci.get(stats.uci);
+        if (existing) {
+          existing.white += stats.white;
+          existing.draws += stats.draws;
+          existing.black += stats.black;
+          existing.ratingSum += stats.ratingSum;
+          existing.games += stats.games;
+        } else {
+          byUci.set(stats.uci, stats);
+        }
+      }
     }
 
+    const moves = Array.from(byUci.values());
+
     // Sort by total games
     moves.sort((a, b) => {
       const totalA = a.white + a.draws + a.black;
@@ -111,6 +165,16 @@ export class LmdbStore implements ReadStore, WriteStore {
     return moves;
   }
 
+  async getTopGames(hash: bigint): Promise<TopGameRef[]> {
+    const value = this.db.get(this.makeTopGamesKey(hash));
+    return value ? unpackTopGames(value) : [];
+  }
+
+  async getGame(id: string): Promise<StoredGame | null> {
+    const value = this.db.get(this.makeGameKey(id));
+    return value ? unpackGame(value) : null;
+  }
+
   async hasPosition(hash: bigint): Promise<boolean> {
     const key = this.makePositionKey(hash);
     return this.db.doesExist(key);
@@ -123,18 +187,48 @@ export class LmdbStore implements ReadStore, WriteStore {
   async getStats(): Promise<StoreStats> {
     let positionCount = 0;
     let moveCount = 0;
+    let segmentCount = 0;
+    let gameCount = 0;
+    let topGameListCount = 0;
+    let playerEntryCount = 0;
+    let metaCount = 0;
 
     for (const { key } of this.db.getRange({})) {
       if (key[0] === POSITION_PREFIX[0] && key[1] === POSITION_PREFIX[1]) {
         positionCount++;
       } else if (key[0] === MOVE_PREFIX[0] && key[1] === MOVE_PREFIX[1]) {
         moveCount++;
+      } else if (
+        key[1] === 0x3a &&
+        (key[0] === SEGMENT_POSITION_PREFIX[0] || key[0] === SEGMENT_MOVE_PREFIX[0])
+      ) {
+        segmentCount++;
+      } else if (key[0] === GAME_PREFIX[0] && key[1] === GAME_PREFIX[1]) {
+        gameCount++;
+      } else if (key[0] === TOP_GAMES_PREFIX[0] && key[1] === TOP_GAMES_PREFIX[1]) {
+        topGameListCount++;
+      } else if (
+        key[1] === 0x3a &&
+        (key[0] === PLAYER_POSITION_PREFIX[0] || key[0] === PLAYER_MOVE_PREFIX[0])
+      ) {
+        playerEntryCount++;
+      } else if (key[0] === META_PREFIX[0] && key[1] === META_PREFIX[1]) {
+        metaCount++;
       }
     }
 
     const sizeBytes = positionCount * 12 + moveCount * 24;
 
-    return { positionCount, moveCount, sizeBytes };
+    return {
+      positionCount,
+      moveCount,
+      segmentCount,
+      gameCount,
+      topGameListCount,
+      playerEntryCount,
+      metaCount,
+      sizeBytes,
+    };
   }
 
   // ===========================================================================
@@ -190,6 +284,7 @@ export class LmdbStore implements ReadStore, WriteStore {
     // Accumulate updates
     const positionUpdates = new Map<string, PositionStats>();
     const moveUpdates = new Map<string, MoveStats>();
+    const topGameUpdates = new Map<string, TopGameRef[]>();
 
     for (const update of updates) {
       // Position update
@@ -228,6 +323,64 @@ export class LmdbStore implements ReadStore, WriteStore {
       }
 
       this.applyResultToMove(moveStats, update.result, update.rating);
+
+      // Segment updates (same stats, keyed by rating bucket/speed/month, and
+      // again per player when the update carries player names)
+      const segment = segmentOf(update);
+      const segmentKeys: Array<[Buffer, Buffer]> = [
+        [
+          this.makeSegmentPositionKey(update.hash, segment),
+          this.makeSegmentMoveKey(update.hash, segment, update.move),
+        ],
+        ...playerTagsOf(update).map((tag): [Buffer, Buffer] => [
+          this.makePlayerPositionKey(update.hash, tag, segment),
+          this.makePlayerMoveKey(update.hash, tag, segment, update.move),
+        ]),
+      ];
+
+      for (const [segPosKey, segMoveKey] of segmentKeys) {
+        const segPosKeyStr = segPosKey.toString('hex');
+        let segPosStats = positionUpdates.get(segPosKeyStr);
+
+        if (!segPosStats) {
+          const existing = this.db.get(segPosKey);
+          segPosStats = existing ? this.unpackPositionStats(existing) : { white: 0, draws: 0, black: 0 };
+          positionUpdates.set(segPosKeyStr, segPosStats);
+        }
+
+        this.applyResult(segPosStats, update.result);
+
+        const segMoveKeyStr = segMoveKey.toString('hex');
+        let segMoveStats = moveUpdates.get(segMoveKeyStr);
+
+        if (!segMoveStats) {
+          const existing = this.db.get(segMoveKey);
+          if (existing) {
+            segMoveStats = this.unpackMoveStats(existing);
+            segMoveStats.uci = update.move;
+          } else {
+            segMoveStats = {
+              uci: update.move,
+              white: 0,
+              draws: 0,
+              black: 0,
+              ratingSum: 0,
+              games: 0,
+            };
+          }
+          moveUpdates.set(segMoveKeyStr, segMoveStats);
+        }
+
+        this.applyResultToMove(segMoveStats, update.result, update.rating);
+      }
+
+      // Top games update
+      if (update.gameId) {
+        const topKeyStr = this.makeTopGamesKey(update.hash).toString('hex');
+        const list = topGameUpdates.get(topKeyStr) ?? (await this.getTopGames(update.hash));
+        const updated = insertTopGame(list, { id: update.gameId, rating: update.rating ?? 0 });
+        topGameUpdates.set(topKeyStr, updated ?? list);
+      }
     }
 
     // Write all updates in a transaction
@@ -241,6 +394,22 @@ export class LmdbStore implements ReadStore, WriteStore {
         const key = Buffer.from(keyHex, 'hex');
         this.db.put(key, this.packMoveStats(stats));
       }
+
+      for (const [keyHex, list] of topGameUpdates) {
+        this.db.put(Buffer.from(keyHex, 'hex'), packTopGames(list));
+      }
+    });
+  }
+
+  async putGames(games: StoredGame[]): Promise<void> {
+    if (this.readOnly) {
+      throw new Error('Cannot write to read-only store');
+    }
+
+    await this.db.transaction(() => {
+      for (const game of games) {
+        this.db.put(this.makeGameKey(game.id), packGame(game));
+      }
     });
   }
 
@@ -249,6 +418,21 @@ export class LmdbStore implements ReadStore, WriteStore {
     await this.db.flushed;
   }
 
+  // ===========================================================================
+  // MetaStore Implementation
+  // ===========================================================================
+
+  async getMeta(name: string): Promise<Buffer | null> {
+    return this.db.get(this.makeMetaKey(name)) ?? null;
+  }
+
+  async putMeta(name: string, value: Buffer): Promise<void> {
+    if (this.readOnly) {
+      throw new Error('Cannot write to read-only store');
+    }
+    await this.db.put(this.makeMetaKey(name), value);
+  }
+
   // ===========================================================================
   // Direct Write Methods (for compaction)
   // ===========================================================================
@@ -276,6 +460,22 @@ export class LmdbStore implements ReadStore, WriteStore {
     await this.db.put(key, value);
   }
 
+  /**
+   * Get a raw value (null if missing)
+   */
+  async getRaw(key: Buffer): Promise<Buffer | null> {
+    return this.db.get(key) ?? null;
+  }
+
+  /**
+   * Iterate all raw key-value pairs in key order (used when merging databases)
+   */
+  *entries(): Iterable<{ key: Buffer; value: Buffer }> {
+    for (const { key, value } of this.db.getRange({})) {
+      yield { key, value };
+    }
+  }
+
   /**
    * Begin a write transaction for bulk operations
    */
@@ -300,6 +500,91 @@ export class LmdbStore implements ReadStore, WriteStore {
     ]);
   }
 
+  private makeSegmentPositionKey(hash: bigint, segment: GameSegment): Buffer {
+    return Buffer.concat([SEGMENT_POSITION_PREFIX, hashToBuffer(hash), encodeSegment(segment)]);
+  }
+
+  private makeSegmentMoveKey(hash: bigint, segment: GameSegment, move: string): Buffer {
+    return Buffer.concat([
+      SEGMENT_MOVE_PREFIX,
+      hashToBuffer(hash),
+      encodeSegment(segment),
+      Buffer.from(move, 'utf8'),
+    ]);
+  }
+
+  private makePlayerPositionKey(hash: bigint, tag: Buffer, segment: GameSegment): Buffer {
+    return Buffer.concat([PLAYER_POSITION_PREFIX, hashToBuffer(hash), tag, encodeSegment(segment)]);
+  }
+
+  private makePlayerMoveKey(hash: bigint, tag: Buffer, segment: GameSegment, move: string): Buffer {
+    return Buffer.concat([
+      PLAYER_MOVE_PREFIX,
+      hashToBuffer(hash),
+      tag,
+      encodeSegment(segment),
+      Buffer.from(move, 'utf8'),
+    ]);
+  }
+
+  /**
+   * Key prefixes holding a position's filtered entries: its segments, or
+   * its segments for the filtered player (one prefix per color)
+   */
+  private makeFilterPrefixes(
+    hash: bigint,
+    filter: ExplorerFilter,
+    segmentPrefix: Buffer,
+    playerPrefix: Buffer
+  ): Buffer[] {
+    const playerTags = filterPlayerTags(filter);
+    if (!playerTags) {
+      return [Buffer.concat([segmentPrefix, hashToBuffer(hash)])];
+    }
+    return playerTags.map((tag) => Buffer.concat([playerPrefix, hashToBuffer(hash), tag]));
+  }
+
+  private makeGameKey(id: string): Buffer {
+    return Buffer.concat([GAME_PREFIX, Buffer.from(id, 'utf8')]);
+  }
+
+  private makeMetaKey(name: string): Buffer {
+    return Buffer.concat([META_PREFIX, Buffer.from(name, 'utf8')]);
+  }
+
+  private makeTopGamesKey(hash: bigint): Buffer {
+    return Buffer.concat([TOP_GAMES_PREFIX, hashToBuffer(hash)]);
+  }
+
+  /**
+   * Sum the segment (or player) entries of a position that match a filter
+   */
+  private getFilteredPosition(hash: bigint, filter: ExplorerFilter): PositionStats | null {
+    let stats: PositionStats | null = null;
+
+    for (const prefix of this.makeFilterPrefixes(hash, filter, SEGMENT_POSITION_PREFIX, PLAYER_POSITION_PREFIX)) {
+      for (const { key, value } of this.db.getRange({
+        start: prefix,
+        end: Buffer.concat([prefix, Buffer.alloc(256, 0xff)]),
+      })) {
+        if (!key.subarray(0, prefix.length).equals(prefix)) {
+          break;
+        }
+        if (!matchesFilter(decodeSegment(key.subarray(prefix.length)), filter)) {
+          continue;
+        }
+
+        const segment = this.unpackPositionStats(value);
+        stats ??= { white: 0, draws: 0, black: 0 };
+        stats.white += segment.white;
+        stats.draws += segment.draws;
+        stats.black += segment.black;
+      }
+    }
+
+    return stats;
+  }
+
   private packPositionStats(stats: PositionStats): Buffer {
     const buf = Buffer.alloc(12);
     buf.writeUInt32LE(stats.white, 0);
@@ -20,7 +20,13 @@ import type {
   PositionUpdate,
   StoreStats,
   GameResult,
+  ExplorerFilter,
+  StoredGame,
+  TopGameRef,
 } from '../types.js';
+import { decodeSegment, encodeSegment, hasFilter, matchesFilter, segmentOf } from '../segments.js';
+import { insertTopGame } from '../games.js';
+import { filterPlayerTags, playerTagsOf } from '../players.js';
 
 /**
  * Internal representation of move statistics
@@ -48,7 +54,14 @@ interface InternalPositionData {
  */
 export class MemoryStore implements WriteStore, ReadStore {
   private positions: Map<bigint, InternalPositionData> = new Map();
+  // Per-segment data for filtered queries, keyed by hash then "player tag hex/segment hex"
+  // (an empty player tag for the entries covering all games)
+  private segments: Map<bigint, Map<string, InternalPositionData>> = new Map();
+  private topGames: Map<bigint, TopGameRef[]> = new Map();
+  private games: Map<string, StoredGame> = new Map();
   private moveCount = 0;
+  private segmentCount = 0;
+  private playerEntryCount = 0;
 
   // ===========================================================================
   // WriteStore Implementation
@@ -81,6 +94,24 @@ export class MemoryStore implements WriteStore, ReadStore {
     for (const update of updates) {
       await this.incrementPosition(update.hash, update.result);
       await this.incrementMove(update.hash, update.move, update.result, update.rating);
+      this.incrementSegment(update, '');
+      for (const tag of playerTagsOf(update)) {
+        this.incrementSegment(update, tag.toString('hex'));
+      }
+
+      if (update.gameId) {
+        const list = insertTopGame(this.topGames.get(update.hash) ?? [], {
+          id: update.gameId,
+          rating: update.rating ?? 0,
+        });
+        if (list) this.topGames.set(update.hash, list);
+      }
+    }
+  }
+
+  async putGames(games: StoredGame[]): Promise<void> {
+    for (const game of games) {
+      this.games.set(game.id, game);
     }
   }
 
@@ -92,7 +123,20 @@ export class MemoryStore implements WriteStore, ReadStore {
   // ReadStore Implementation
   // ===========================================================================
 
-  async getPosition(hash: bigint): Promise<PositionStats | null> {
+  async getPosition(hash: bigint, filter?: ExplorerFilter): Promise<PositionStats | null> {
+    if (hasFilter(filter)) {
+      const matching = this.getMatchingSegments(hash, filter);
+      if (matching.length === 0) return null;
+
+      const stats: PositionStats = { white: 0, draws: 0, black: 0 };
+      for (const segment of matching) {
+        stats.white += segment.white;
+        stats.draws += segment.draws;
+        stats.black += segment.black;
+      }
+      return stats;
+    }
+
     const pos = this.positions.get(hash);
     if (!pos) return null;
 
@@ -103,23 +147,27 @@ export class MemoryStore implements WriteStore, ReadStore {
     };
   }
 
-  async getMoves(hash: bigint): Promise<MoveStats[]> {
-    const pos = this.positions.get(hash);
-    if (!pos) return [];
-
-    const moves: MoveStats[] = [];
-
-    for (const [uci, stats] of pos.moves) {
-      moves.push({
-        uci,
-        white: stats.white,
-        draws: stats.draws,
-        black: stats.black,
-        ratingSum: stats.ratingSum,
-        games: stats.games,
-      });
+  async getMoves(hash: bigint, filter?: ExplorerFilter): Promise<MoveStats[]> {
+    const sources = hasFilter(filter)
+      ? this.getMatchingSegments(hash, filter)
+      : [this.positions.get(hash)].filter((pos): pos is InternalPositionData => pos !== undefined);
+
+    const byUci = new Map<string, MoveStats>();
+
+    for (const pos of sources) {
+      for (const [uci, stats] of pos.moves) {
+        const move = byUci.get(uci) ?? { uci, white: 0, draws: 0, black: 0, ratingSum: 0, games: 0 };
+        move.white += stats.white;
+        move.draws += stats.draws;
+        move.black += stats.black;
+        move.ratingSum += stats.ratingSum;
+        move.games += stats.games;
+        byUci.set(uci, move);
+      }
     }
 
+    const moves = Array.from(byUci.values());
+
     // Sort by total games (most popular first)
     moves.sort((a, b) => {
       const totalA = a.white + a.draws + a.black;
@@ -130,6 +178,14 @@ export class MemoryStore implements WriteStore, ReadStore {
     return moves;
   }
 
+  async getTopGames(hash: bigint): Promise<TopGameRef[]> {
+    return [...(this.topGames.get(hash) ?? [])];
+  }
+
+  async getGame(id: string): Promise<StoredGame | null> {
+    return this.games.get(id) ?? null;
+  }
+
   async hasPosition(hash: bigint): Promise<boolean> {
     return this.positions.has(hash);
   }
@@ -142,6 +198,10 @@ export class MemoryStore implements WriteStore, ReadStore {
     return {
       positionCount: this.positions.size,
       moveCount: this.moveCount,
+      segmentCount: this.segmentCount,
+      gameCount: this.games.size,
+      topGameListCount: this.topGames.size,
+      playerEntryCount: this.playerEntryCount,
       sizeBytes: this.estimateMemoryUsage(),
     };
   }
@@ -155,7 +215,12 @@ export class MemoryStore implements WriteStore, ReadStore {
    */
   clear(): void {
     this.positions.clear();
+    this.segments.clear();
+    this.topGames.clear();
+    this.games.clear();
     this.moveCount = 0;
+    this.segmentCount = 0;
+    this.playerEntryCount = 0;
   }
 
   /**
@@ -192,6 +257,50 @@ export class MemoryStore implements WriteStore, ReadStore {
     return pos;
   }
 
+  private incrementSegment(update: PositionUpdate, playerTag: string): void {
+    let bySegment = this.segments.get(update.hash);
+    if (!bySegment) {
+      bySegment = new Map();
+      this.segments.set(update.hash, bySegment);
+    }
+
+    const key = `${playerTag}/${encodeSegment(segmentOf(update)).toString('hex')}`;
+    let segment = bySegment.get(key);
+    if (!segment) {
+      segment = { white: 0, draws: 0, black: 0, moves: new Map() };
+      bySegment.set(key, segment);
+      this.countEntry(playerTag);
+    }
+    this.applyResult(segment, update.result);
+
+    let moveStats = segment.moves.get(update.move);
+    if (!moveStats) {
+      moveStats = { white: 0, draws: 0, black: 0, ratingSum: 0, games: 0 };
+      segment.moves.set(update.move, moveStats);
+      this.countEntry(playerTag);
+    }
+    this.applyResultToMove(moveStats, update.result, update.rating);
+  }
+
+  private countEntry(playerTag: string): void {
+    if (playerTag) this.playerEntryCount++;
+    else this.segmentCount++;
+  }
+
+  private getMatchingSegments(hash: bigint, filter: ExplorerFilter): InternalPositionData[] {
+    const bySegment = this.segments.get(hash);
+    if (!bySegment) return [];
+
+    const playerTags = filterPlayerTags(filter)?.map((tag) => tag.toString('hex')) ?? [''];
+
+    return Array.from(bySegment)
+      .filter(([key]) => {
+        const [playerTag, segment] = key.split('/');
+        return playerTags.includes(playerTag) && matchesFilter(decodeSegment(Buffer.from(segment, 'hex')), filter);
+      })
+      .map(([, segment]) => segment);
+  }
+
   private applyResult(pos: InternalPositionData, result: GameResult): void {
     switch (result) {
       case 'white':
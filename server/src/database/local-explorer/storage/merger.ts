@@ -0,0 +1,244 @@
+/**
+ * Merger
+ *
+ * Merges one compacted LMDB database into another, e.g. adding the next
+ * monthly Lichess dump to a database without reindexing earlier months.
+ *
+ * Entries are combined by key family:
+ * - Position stats ("p:", "s:", "u:"): white/draws/black summed
+ * - Move stats ("m:", "n:", "v:"): results, rating sum and games summed
+ * - Games ("g:"): copied unless already present
+ * - Top game lists ("k:"): merged by rating, bounded (see games.ts)
+ * - Source manifests ("x:manifest"): combined; merging a source that is
+ *   already included fails before anything is written (see manifest.ts)
+ *
+ * Stats are written in several transactions, so the first one also records
+ * the source's manifest entries as in progress, and they are only marked
+ * complete after the last. A merge that fails partway leaves them marked,
+ * and merging the same source into that target again is refused - its
+ * stats would be counted twice.
+ */
+
+import { LmdbStore, openLmdbStore } from './lmdb-store.js';
+import { insertTopGame, packTopGames, unpackTopGames } from '../games.js';
+import { readManifest, encodeManifest, MANIFEST_KEY } from '../manifest.js';
+
+/**
+ * Configuration for merging
+ */
+export interface MergeConfig {
+  /** Path to the LMDB database to merge in (read only) */
+  sourcePath: string;
+  /** Path to the LMDB database to merge into (created if missing) */
+  targetPath: string;
+  /** Entries per write transaction (default: 10000) */
+  batchSize?: number;
+  /** Progress callback, called after each batch */
+  onProgress?: (progress: MergeProgress) => void;
+  /** Target LMDB map size (default: 10GB) */
+  mapSize?: number;
+}
+
+/**
+ * Progress information during merging
+ */
+export interface MergeProgress {
+  /** Entries processed so far */
+  entriesProcessed: number;
+  /** Elapsed time in milliseconds */
+  elapsedMs: number;
+}
+
+/**
+ * Result of merging
+ */
+export interface MergeResult {
+  /** Whether merging was successful */
+  success: boolean;
+  /** Source entries merged */
+  entriesMerged: number;
+  /** Source positions ("p:" entries) merged */
+  positionsMerged: number;
+  /** Positions that were new to the target */
+  positionsAdded: number;
+  /** Time taken in milliseconds */
+  elapsedMs: number;
+  /** Error message if failed */
+  error?: string;
+}
+
+const COLON = 0x3a;
+const POSITION_FAMILIES = new Set(['p', 's', 'u']);
+const MOVE_FAMILIES = new Set(['m', 'n', 'v']);
+const META_PREFIX = 'x:';
+
+/**
+ * Merge an LMDB database into another, summing their stats
+ *
+ * @example
+ * const result = await merge({
+ *   sourcePath: './data/databases/lichess-2026-01.lmdb',
+ *   targetPath: './data/databases/lichess.lmdb',
+ * });
+ */
+export async function merge(config: MergeConfig): Promise<MergeResult> {
+  const batchSize = config.batchSize ?? 10000;
+  const startTime = Date.now();
+
+  let entriesMerged = 0;
+  let positionsMerged = 0;
+  let positionsAdded = 0;
+
+  const result = (error?: string): MergeResult => ({
+    success: !error,
+    entriesMerged,
+    positionsMerged,
+    positionsAdded,
+    elapsedMs: Date.now() - startTime,
+    ...(error && { error }),
+  });
+
+  let source: LmdbStore;
+  let target: LmdbStore;
+  try {
+    source = openLmdbStore({ path: config.sourcePath, readOnly: true });
+  } catch (err) {
+    return result(`Failed to open source LMDB: ${err}`);
+  }
+  try {
+    target = openLmdbStore({ path: config.targetPath, mapSize: config.mapSize });
+  } catch (err) {
+    await source.close();
+    return result(`Failed to open target LMDB: ${err}`);
+  }
+
+  try {
+    // Refuse before writing anything if a source would be counted twice
+    const sourceManifest = await readManifest(source);
+    const targetManifest = await readManifest(target);
+    const duplicates = targetManifest.filter((entry) => sourceManifest.some((s) => s.source === entry.source));
+    const interrupted = duplicates.filter((entry) => entry.mergeInProgress);
+    if (interrupted.length > 0) {
+      return result(
+        `An earlier merge of ${interrupted.map((entry) => entry.source).join(', ')} into target failed partway - ` +
+        'rebuild the target before merging it again'
+      );
+    }
+    if (duplicates.length > 0) {
+      return result(`Already included in target: ${duplicates.map((entry) => entry.source).join(', ')}`);
+    }
+
+    const inProgress = sourceManifest.map((entry) => ({ ...entry, mergeInProgress: true }));
+    let started = false;
+    let batch: Array<{ key: Buffer; value: Buffer }> = [];
+
+    const flushBatch = async () => {
+      if (batch.length === 0) return;
+
+      const merged: Array<{ key: Buffer; value: Buffer }> = [];
+      for (const { key, value } of batch) {
+        const existing = await target.getRaw(key);
+        const combined = combineValues(key, value, existing);
+        if (combined) merged.push({ key, value: combined });
+        if (isPositionKey(key) && !existing) positionsAdded++;
+      }
+
+      await target.transaction(() => {
+        if (!started && inProgress.length > 0) {
+          target.putMeta(MANIFEST_KEY, encodeManifest([...targetManifest, ...inProgress]));
+        }
+        for (const { key, value } of merged) {
+          target.putRaw(key, value);
+        }
+      });
+      started = true;
+
+      batch = [];
+      config.onProgress?.({ entriesProcessed: entriesMerged, elapsedMs: Date.now() - startTime });
+    };
+
+    for (const { key, value } of source.entries()) {
+      // Metadata isn't summed - the manifest is combined below
+      if (key.subarray(0, 2).toString() === META_PREFIX) continue;
+
+      // Copy out of the read transaction before the next write
+      batch.push({ key: Buffer.from(key), value: Buffer.from(value) });
+      entriesMerged++;
+      if (isPositionKey(key)) positionsMerged++;
+
+      if (batch.length >= batchSize) {
+        await flushBatch();
+      }
+    }
+    await flushBatch();
+
+    if (sourceManifest.length > 0) {
+      await target.transaction(() => {
+        target.putMeta(MANIFEST_KEY, encodeManifest([...targetManifest, ...sourceManifest]));
+      });
+    }
+    await target.flush();
+
+    return result();
+  } catch (err) {
+    return result(`Merge failed: ${err}`);
+  } finally {
+    await source.close();
+    await target.close();
+  }
+}
+
+function isPositionKey(key: Buffer): boolean {
+  return key[0] === 0x70 && key[1] === COLON; // 'p:'
+}
+
+/**
+ * Value to write for a source entry given the target's value (null to keep
+ * the target's)
+ */
+function combineValues(key: Buffer, value: Buffer, existing: Buffer | null): Buffer | null {
+  if (!existing) return value;
+  if (key[1] !== COLON) return null;
+
+  const family = String.fromCharCode(key[0]);
+  if (POSITION_FAMILIES.has(family)) return sumPositionStats(existing, value);
+  if (MOVE_FAMILIES.has(family)) return sumMoveStats(existing, value);
+  if (family === 'k') return mergeTopGames(existing, value);
+
+  // Games and anything else: the target's copy wins
+  return null;
+}
+
+/**
+ * Sum packed position stats: white (4) + draws (4) + black (4)
+ */
+function sumPositionStats(a: Buffer, b: Buffer): Buffer {
+  const buf = Buffer.alloc(12);
+  for (const offset of [0, 4, 8]) {
+    buf.writeUInt32LE(a.readUInt32LE(offset) + b.readUInt32LE(offset), offset);
+  }
+  return buf;
+}
+
+/**
+ * Sum packed move stats: white (4) + draws (4) + black (4) + ratingSum (8) + games (4)
+ */
+function sumMoveStats(a: Buffer, b: Buffer): Buffer {
+  const buf = Buffer.alloc(24);
+  for (const offset of [0, 4, 8, 20]) {
+    buf.writeUInt32LE(a.readUInt32LE(offset) + b.readUInt32LE(offset), offset);
+  }
+  buf.writeBigUInt64LE(a.readBigUInt64LE(12) + b.readBigUInt64LE(12), 12);
+  return buf;
+}
+
+/**
+ * Merge two top game lists, keeping the highest rated games
+ */
+function mergeTopGames(a: Buffer, b: Buffer): Buffer {
+  let list = unpackTopGames(a);
+  for (const ref of unpackTopGames(b)) {
+    list = insertTopGame(list, ref) ?? list;
+  }
+  return packTopGames(list);
+}
@@ -7,6 +7,14 @@
  * Key format:
  * - Position stats: "p:" + 8-byte hash
  * - Move stats: "m:" + 8-byte hash + ":" + move UCI
+ * - Segment position stats: "s:" + 8-byte hash + 4-byte segment
+ * - Segment move stats: "n:" + 8-byte hash + 4-byte segment + move UCI
+ * - Player stats: "u:" / "v:" + 8-byte hash + player tag + segment (see players.ts)
+ * - Games and top game lists: "g:" + game id, "k:" + 8-byte hash (see games.ts)
+ * - Metadata: "x:" + name (source manifest, see manifest.ts)
+ *
+ * Segments (rating bucket, speed, month - see segments.ts) carry the same
+ * values as the aggregate entries and are summed for filtered queries.
  *
  * Value format (packed binary):
  * - Position: white (4) + draws (4) + black (4) = 12 bytes
@@ -23,12 +31,34 @@ import type {
   PositionUpdate,
   StoreStats,
   GameResult,
+  ExplorerFilter,
+  StoredGame,
+  TopGameRef,
+  MetaStore,
 } from '../types.js';
 import { hashToBuffer } from '../zobrist.js';
+import {
+  SEGMENT_SIZE,
+  decodeSegment,
+  encodeSegment,
+  hasFilter,
+  matchesFilter,
+  segmentOf,
+  type GameSegment,
+} from '../segments.js';
+import { insertTopGame, packGame, packTopGames, unpackGame, unpackTopGames } from '../games.js';
+import { filterPlayerTags, playerTagsOf } from '../players.js';
 
 // Key prefixes
 const POSITION_PREFIX = Buffer.from('p:');
 const MOVE_PREFIX = Buffer.from('m:');
+const SEGMENT_POSITION_PREFIX = Buffer.from('s:');
+const SEGMENT_MOVE_PREFIX = Buffer.from('n:');
+const PLAYER_POSITION_PREFIX = Buffer.from('u:');
+const PLAYER_MOVE_PREFIX = Buffer.from('v:');
+const GAME_PREFIX = Buffer.from('g:');
+const TOP_GAMES_PREFIX = Buffer.from('k:');
+const META_PREFIX = Buffer.from('x:');
 
 /**
  * Configuration for RocksDB store
@@ -46,12 +76,18 @@ export interface RocksStoreConfig {
   maxWriteBufferNumber?: number;
   /** Enable compression (default: true) */
   compression?: boolean;
+  /**
+   * Flush automatically once enough writes are pending (default: true).
+   * Off, writes stay pending until flush() so a checkpoint is committed in
+   * the same batch as the stats it describes (see checkpoint.ts)
+   */
+  autoFlush?: boolean;
 }
 
 /**
  * RocksDB-backed store for position and move statistics
  */
-export class RocksStore implements WriteStore, ReadStore {
+export class RocksStore implements WriteStore, ReadStore, MetaStore {
   private db: RocksDB;
   private isOpen = false;
   private path: string;
@@ -60,9 +96,11 @@ export class RocksStore implements WriteStore, ReadStore {
   private pendingWrites: Map<string, Buffer> = new Map();
   private pendingBatchSize = 0;
   private readonly maxPendingBatchSize = 1000;
+  private readonly autoFlush: boolean;
 
   constructor(config: RocksStoreConfig) {
     this.path = config.path;
+    this.autoFlush = config.autoFlush ?? true;
     this.db = new RocksDB(config.path);
   }
 
@@ -142,7 +180,7 @@ export class RocksStore implements WriteStore, ReadStore {
     this.pendingBatchSize++;
 
     // Auto-flush if batch is large
-    if (this.pendingBatchSize >= this.maxPendingBatchSize) {
+    if (this.autoFlush && this.pendingBatchSize >= this.maxPendingBatchSize) {
       await this.flush();
     }
   }
@@ -169,7 +207,7 @@ export class RocksStore implements WriteStore, ReadStore {
     this.pendingWrites.set(keyStr, this.packMoveStats(stats));
     this.pendingBatchSize++;
 
-    if (this.pendingBatchSize >= this.maxPendingBatchSize) {
+    if (this.autoFlush && this.pendingBatchSize >= this.maxPendingBatchSize) {
       await this.flush();
     }
   }
@@ -178,6 +216,7 @@ export class RocksStore implements WriteStore, ReadStore {
     // Accumulate all updates in memory first
     const positionUpdates = new Map<string, PositionStats>();
     const moveUpdates = new Map<string, MoveStats>();
+    const topGameUpdates = new Map<string, TopGameRef[]>();
 
     for (const update of updates) {
       // Position update
@@ -211,6 +250,59 @@ export class RocksStore implements WriteStore, ReadStore {
       }
 
       this.applyResultToMove(moveStats, update.result, update.rating);
+
+      // Segment updates (same stats, keyed by rating bucket/speed/month, and
+      // again per player when the update carries player names)
+      const segment = segmentOf(update);
+      const segmentKeys: Array<[Buffer, Buffer]> = [
+        [
+          this.makeSegmentPositionKey(update.hash, segment),
+          this.makeSegmentMoveKey(update.hash, segment, update.move),
+        ],
+        ...playerTagsOf(update).map((tag): [Buffer, Buffer] => [
+          this.makePlayerPositionKey(update.hash, tag, segment),
+          this.makePlayerMoveKey(update.hash, tag, segment, update.move),
+        ]),
+      ];
+
+      for (const [segPosKey, segMoveKey] of segmentKeys) {
+        const segPosKeyStr = segPosKey.toString('hex');
+        let segPosStats = positionUpdates.get(segPosKeyStr);
+
+        if (!segPosStats) {
+          const existing = await this.getPositionStatsByKey(segPosKey);
+          segPosStats = existing ?? { white: 0, draws: 0, black: 0 };
+          positionUpdates.set(segPosKeyStr, segPosStats);
+        }
+
+        this.applyResult(segPosStats, update.result);
+
+        const segMoveKeyStr = segMoveKey.toString('hex');
+        let segMoveStats = moveUpdates.get(segMoveKeyStr);
+
+        if (!segMoveStats) {
+          const existing = await this.getMoveStatsByKey(segMoveKey, update.move);
+          segMoveStats = existing ?? {
+            uci: update.move,
+            white: 0,
+            draws: 0,
+            black: 0,
+            ratingSum: 0,
+            games: 0,
+          };
+          moveUpdates.set(segMoveKeyStr, segMoveStats);
+        }
+
+        this.applyResultToMove(segMoveStats, update.result, update.rating);
+      }
+
+      // Top games update
+      if (update.gameId) {
+        const topKeyStr = this.makeTopGamesKey(update.hash).toString('hex');
+        const list = topGameUpdates.get(topKeyStr) ?? (await this.getTopGames(update.hash));
+        const updated = insertTopGame(list, { id: update.gameId, rating: update.rating ?? 0 });
+        topGameUpdates.set(topKeyStr, updated ?? list);
+      }
     }
 
     // Add to pending writes
@@ -222,10 +314,25 @@ export class RocksStore implements WriteStore, ReadStore {
       this.pendingWrites.set(keyStr, this.packMoveStats(stats));
     }
 
-    this.pendingBatchSize += positionUpdates.size + moveUpdates.size;
+    for (const [keyStr, list] of topGameUpdates) {
+      this.pendingWrites.set(keyStr, packTopGames(list));
+    }
+
+    this.pendingBatchSize += positionUpdates.size + moveUpdates.size + topGameUpdates.size;
 
     // Flush if batch is large
-    if (this.pendingBatchSize >= this.maxPendingBatchSize) {
+    if (this.autoFlush && this.pendingBatchSize >= this.maxPendingBatchSize) {
+      await this.flush();
+    }
+  }
+
+  async putGames(games: StoredGame[]): Promise<void> {
+    for (const game of games) {
+      this.pendingWrites.set(this.makeGameKey(game.id).toString('hex'), packGame(game));
+    }
+    this.pendingBatchSize += games.length;
+
+    if (this.autoFlush && this.pendingBatchSize >= this.maxPendingBatchSize) {
       await this.flush();
     }
   }
@@ -255,63 +362,61 @@ export class RocksStore implements WriteStore, ReadStore {
   // ReadStore Implementation
   // ===========================================================================
 
-  async getPosition(hash: bigint): Promise<PositionStats | null> {
-    return this.getPositionStats(hash);
-  }
+  async getPosition(hash: bigint, filter?: ExplorerFilter): Promise<PositionStats | null> {
+    if (!hasFilter(filter)) {
+      return this.getPositionStats(hash);
+    }
 
-  async getMoves(hash: bigint): Promise<MoveStats[]> {
-    const moves: MoveStats[] = [];
-    const prefix = Buffer.concat([MOVE_PREFIX, hashToBuffer(hash), Buffer.from(':')]);
-    const prefixStr = prefix.toString('hex');
+    let stats: PositionStats | null = null;
 
-    // Check pending writes first
-    for (const [keyHex, value] of this.pendingWrites) {
-      if (keyHex.startsWith(prefixStr)) {
-        const stats = this.unpackMoveStats(value);
-        // Extract move UCI from key
-        const key = Buffer.from(keyHex, 'hex');
-        stats.uci = key.subarray(prefix.length).toString('utf8');
-        moves.push(stats);
+    for (const prefix of this.makeFilterPrefixes(hash, filter, SEGMENT_POSITION_PREFIX, PLAYER_POSITION_PREFIX)) {
+      for (const { key, value } of await this.scanPrefix(prefix)) {
+        if (!matchesFilter(decodeSegment(key.subarray(prefix.length)), filter)) continue;
+
+        const segment = this.unpackPositionStats(value);
+        stats ??= { white: 0, draws: 0, black: 0 };
+        stats.white += segment.white;
+        stats.draws += segment.draws;
+        stats.black += segment.black;
       }
     }
 
-    // Scan disk
-    const seenKeys = new Set(
-      Array.from(this.pendingWrites.keys()).filter((k) => k.startsWith(prefixStr))
-    );
+    return stats;
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      const iterator = this.db.iterator({
-        gte: prefix,
-        lte: Buffer.concat([prefix, Buffer.alloc(256, 0xff)]),
-      });
+  async getMoves(hash: bigint, filter?: ExplorerFilter): Promise<MoveStats[]> {
+    const filtered = hasFilter(filter);
+    const prefixes = filtered
+      ? this.makeFilterPrefixes(hash, filter, SEGMENT_MOVE_PREFIX, PLAYER_MOVE_PREFIX)
+      : [Buffer.concat([MOVE_PREFIX, hashToBuffer(hash), Buffer.from(':')])];
+    const byUci = new Map<string, MoveStats>();
 
-      const next = (): void => {
-        iterator.next((err: Error | null, key?: Buffer, value?: Buffer) => {
-          if (err) {
-            iterator.end(() => reject(err));
-            return;
-          }
-
-          if (!key || !value) {
-            iterator.end(() => resolve());
-            return;
-          }
+    for (const prefix of prefixes) {
+      // Segment keys carry the segment between the hash (or player tag) and the move
+      const uciOffset = prefix.length + (filtered ? SEGMENT_SIZE : 0);
 
-          // Check if this key is in pending (already added)
-          const keyHex = key.toString('hex');
-          if (!seenKeys.has(keyHex)) {
-            const stats = this.unpackMoveStats(value);
-            stats.uci = key.subarray(prefix.length).toString('utf8');
-            moves.push(stats);
-          }
+      for (const { key, value } of await this.scanPrefix(prefix)) {
+        if (filtered && !matchesFilter(decodeSegment(key.subarray(prefix.length, uciOffset)), filter)) {
+          continue;
+        }
 
-          next();
-        });
-      };
+        const stats = this.unpackMoveStats(value);
+        stats.uci = key.subarray(uciOffset).toString('utf8');
+
+        const existing = byUci.get(stats.uci);
+        if (existing) {
+          existing.white += stats.white;
+          existing.draws += stats.draws;
+          existing.black += stats.black;
+          existing.ratingSum += stats.ratingSum;
+          existing.games += stats.games;
+        } else {
+          byUci.set(stats.uci, stats);
+        }
+      }
+    }
 
-      next();
-    });
+    const moves = Array.from(byUci.values());
 
     // Sort by total games
     moves.sort((a, b) => {
@@ -323,11 +428,36 @@ export class RocksStore implements WriteStore, ReadStore {
     return moves;
   }
 
+  async getTopGames(hash: bigint): Promise<TopGameRef[]> {
+    const value = await this.getRaw(this.makeTopGamesKey(hash));
+    return value ? unpackTopGames(value) : [];
+  }
+
+  async getGame(id: string): Promise<StoredGame | null> {
+    const value = await this.getRaw(this.makeGameKey(id));
+    return value ? unpackGame(value) : null;
+  }
+
   async hasPosition(hash: bigint): Promise<boolean> {
     const stats = await this.getPositionStats(hash);
     return stats !== null;
   }
 
+  // ===========================================================================
+  // MetaStore Implementation
+  // ===========================================================================
+
+  async getMeta(name: string): Promise<Buffer | null> {
+    return (await this.getRaw(this.makeMetaKey(name))) ?? null;
+  }
+
+  /**
+   * Set a metadata entry, written in the same batch as the pending stats
+   */
+  async putMeta(name: string, value: Buffer): Promise<void> {
+    this.pendingWrites.set(this.makeMetaKey(name).toString('hex'), value);
+  }
+
   async close(): Promise<void> {
     if (!this.isOpen) return;
 
@@ -346,6 +476,11 @@ export class RocksStore implements WriteStore, ReadStore {
   async getStats(): Promise<StoreStats> {
     let positionCount = 0;
     let moveCount = 0;
+    let segmentCount = 0;
+    let gameCount = 0;
+    let topGameListCount = 0;
+    let playerEntryCount = 0;
+    let metaCount = 0;
 
     await new Promise<void>((resolve, reject) => {
       const iterator = this.db.iterator();
@@ -366,6 +501,22 @@ export class RocksStore implements WriteStore, ReadStore {
             positionCount++;
           } else if (key[0] === MOVE_PREFIX[0] && key[1] === MOVE_PREFIX[1]) {
             moveCount++;
+          } else if (
+            key[1] === 0x3a &&
+            (key[0] === SEGMENT_POSITION_PREFIX[0] || key[0] === SEGMENT_MOVE_PREFIX[0])
+          ) {
+            segmentCount++;
+          } else if (key[0] === GAME_PREFIX[0] && key[1] === GAME_PREFIX[1]) {
+            gameCount++;
+          } else if (key[0] === TOP_GAMES_PREFIX[0] && key[1] === TOP_GAMES_PREFIX[1]) {
+            topGameListCount++;
+          } else if (
+            key[1] === 0x3a &&
+            (key[0] === PLAYER_POSITION_PREFIX[0] || key[0] === PLAYER_MOVE_PREFIX[0])
+          ) {
+            playerEntryCount++;
+          } else if (key[0] === META_PREFIX[0] && key[1] === META_PREFIX[1]) {
+            metaCount++;
           }
 
           next();
@@ -378,7 +529,16 @@ export class RocksStore implements WriteStore, ReadStore {
     // Estimate size (rough)
     const sizeBytes = positionCount * 12 + moveCount * 24;
 
-    return { positionCount, moveCount, sizeBytes };
+    return {
+      positionCount,
+      moveCount,
+      segmentCount,
+      gameCount,
+      topGameListCount,
+      playerEntryCount,
+      metaCount,
+      sizeBytes,
+    };
   }
 
   // ===========================================================================
@@ -398,8 +558,124 @@ export class RocksStore implements WriteStore, ReadStore {
     ]);
   }
 
+  private makeSegmentPositionKey(hash: bigint, segment: GameSegment): Buffer {
+    return Buffer.concat([SEGMENT_POSITION_PREFIX, hashToBuffer(hash), encodeSegment(segment)]);
+  }
+
+  private makeSegmentMoveKey(hash: bigint, segment: GameSegment, move: string): Buffer {
+    return Buffer.concat([
+      SEGMENT_MOVE_PREFIX,
+      hashToBuffer(hash),
+      encodeSegment(segment),
+      Buffer.from(move, 'utf8'),
+    ]);
+  }
+
+  private makePlayerPositionKey(hash: bigint, tag: Buffer, segment: GameSegment): Buffer {
+    return Buffer.concat([PLAYER_POSITION_PREFIX, hashToBuffer(hash), tag, encodeSegment(segment)]);
+  }
+
+  private makePlayerMoveKey(hash: bigint, tag: Buffer, segment: GameSegment, move: string): Buffer {
+    return Buffer.concat([
+      PLAYER_MOVE_PREFIX,
+      hashToBuffer(hash),
+      tag,
+      encodeSegment(segment),
+      Buffer.from(move, 'utf8'),
+    ]);
+  }
+
+  /**
+   * Key prefixes holding a position's filtered entries: its segments, or
+   * its segments for the filtered player (one prefix per color)
+   */
+  private makeFilterPrefixes(
+    hash: bigint,
+    filter: ExplorerFilter,
+    segmentPrefix: Buffer,
+    playerPrefix: Buffer
+  ): Buffer[] {
+    const playerTags = filterPlayerTags(filter);
+    if (!playerTags) {
+      return [Buffer.concat([segmentPrefix, hashToBuffer(hash)])];
+    }
+    return playerTags.map((tag) => Buffer.concat([playerPrefix, hashToBuffer(hash), tag]));
+  }
+
+  private makeGameKey(id: string): Buffer {
+    return Buffer.concat([GAME_PREFIX, Buffer.from(id, 'utf8')]);
+  }
+
+  private makeMetaKey(name: string): Buffer {
+    return Buffer.concat([META_PREFIX, Buffer.from(name, 'utf8')]);
+  }
+
+  private makeTopGamesKey(hash: bigint): Buffer {
+    return Buffer.concat([TOP_GAMES_PREFIX, hashToBuffer(hash)]);
+  }
+
+  /**
+   * Raw value for a key, from pending writes or disk
+   */
+  private async getRaw(key: Buffer): Promise<Buffer | undefined> {
+    return this.pendingWrites.get(key.toString('hex')) ?? (await this.dbGet(key));
+  }
+
+  /**
+   * All entries under a key prefix, pending writes taking precedence over disk
+   */
+  private async scanPrefix(prefix: Buffer): Promise<Array<{ key: Buffer; value: Buffer }>> {
+    const entries: Array<{ key: Buffer; value: Buffer }> = [];
+    const prefixStr = prefix.toString('hex');
+
+    // Check pending writes first
+    const seenKeys = new Set<string>();
+    for (const [keyHex, value] of this.pendingWrites) {
+      if (keyHex.startsWith(prefixStr)) {
+        entries.push({ key: Buffer.from(keyHex, 'hex'), value });
+        seenKeys.add(keyHex);
+      }
+    }
+
+    // Scan disk
+    await new Promise<void>((resolve, reject) => {
+      const iterator = this.db.iterator({
+        gte: prefix,
+        lte: Buffer.concat([prefix, Buffer.alloc(256, 0xff)]),
+      });
+
+      const next = (): void => {
+        iterator.next((err: Error | null, key?: Buffer, value?: Buffer) => {
+          if (err) {
+            iterator.end(() => reject(err));
+            return;
+          }
+
+          if (!key || !value) {
+            iterator.end(() => resolve());
+            return;
+          }
+
+          // Skip keys already taken from pending writes
+          if (!seenKeys.has(key.toString('hex'))) {
+            entries.push({ key, value });
+          }
+
+          next();
+        });
+      };
+
+      next();
+    });
+
+    return entries;
+  }
+
   private async getPositionStats(hash: bigint): Promise<PositionStats | null> {
-    const key = this.makePositionKey(hash);
+    return this.getPositionStatsByKey(this.makePositionKey(hash));
+  }
+
+  private async getPositionStatsByKey(key: Buffer): Promise<PositionStats | null> {
     const keyStr = key.toString('hex');
 
     // Check pending writes first
@@ -418,7 +694,10 @@ export class RocksStore implements WriteStore, ReadStore {
   }
 
   private async getMoveStats(hash: bigint, move: string): Promise<MoveStats | null> {
-    const key = this.makeMoveKey(hash, move);
+    return this.getMoveStatsByKey(this.makeMoveKey(hash, move), move);
+  }
+
+  private async getMoveStatsByKey(key: Buffer, move: string): Promise<MoveStats | null> {
     const keyStr = key.toString('hex');
 
     // Check pending writes first
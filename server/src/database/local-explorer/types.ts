@@ -5,6 +5,8 @@
  * chess positions from a local database.
  */
 
+import type { LichessRating, LichessSpeed } from '@chess/shared';
+
 // =============================================================================
 // Position & Move Statistics
 // =============================================================================
@@ -52,10 +54,15 @@ export interface PositionData {
 /** Result of a chess game */
 export type GameResult = 'white' | 'black' | 'draw';
 
+/** Side a player had in a game */
+export type PlayerColor = 'white' | 'black';
+
 /**
  * Parsed game data ready for indexing
  */
 export interface ParsedGame {
+  /** Game id - the Lichess id from the Site header, or a hash of the game (optional) */
+  id?: string;
   /** Array of moves in UCI notation */
   moves: string[];
   /** Game result */
@@ -66,6 +73,20 @@ export interface ParsedGame {
   event?: string;
   /** Year the game was played (optional) */
   year?: number;
+  /** Speed category from the TimeControl header (optional) */
+  speed?: LichessSpeed;
+  /** Month the game was played, as YYYY-MM (optional) */
+  month?: string;
+  /** White player name (optional) */
+  white?: string;
+  /** Black player name (optional) */
+  black?: string;
+  /** White rating (optional) */
+  whiteRating?: number;
+  /** Black rating (optional) */
+  blackRating?: number;
+  /** PGN date, as YYYY.MM.DD (optional) */
+  date?: string;
 }
 
 /**
@@ -80,6 +101,74 @@ export interface PositionUpdate {
   result: GameResult;
   /** Rating of player who made this move (optional) */
   rating?: number;
+  /** Speed category of the game (optional) */
+  speed?: LichessSpeed;
+  /** Month the game was played, as YYYY-MM (optional) */
+  month?: string;
+  /** Id of the game, for top game lists (optional) */
+  gameId?: string;
+  /** White player name, set when indexing players (optional) */
+  white?: string;
+  /** Black player name, set when indexing players (optional) */
+  black?: string;
+}
+
+// =============================================================================
+// Game Store
+// =============================================================================
+
+/**
+ * A game kept in the local game store (headers plus moves)
+ */
+export interface StoredGame {
+  /** Game id (Lichess id or content hash) */
+  id: string;
+  white: string;
+  black: string;
+  whiteRating?: number;
+  blackRating?: number;
+  result: GameResult;
+  /** PGN date, as YYYY.MM.DD */
+  date?: string;
+  event?: string;
+  speed?: LichessSpeed;
+  /** Moves in SAN notation */
+  moves: string[];
+}
+
+/**
+ * Entry in a position's bounded list of notable games
+ */
+export interface TopGameRef {
+  /** Stored game id */
+  id: string;
+  /** Average rating of the game (0 if unrated) */
+  rating: number;
+}
+
+// =============================================================================
+// Query Filters
+// =============================================================================
+
+/**
+ * Game filters matching the Lichess explorer options
+ *
+ * Games without the filtered field (no ratings, no TimeControl, no date)
+ * never match a filter on that field.
+ */
+export interface ExplorerFilter {
+  /** Rating buckets to include (a game's bucket comes from its average rating) */
+  ratings?: LichessRating[];
+  /** Speed categories to include */
+  speeds?: LichessSpeed[];
+  /** Include games from this month on (YYYY-MM or YYYY-MM-DD) */
+  since?: string;
+  /** Include games up to this month (YYYY-MM or YYYY-MM-DD) */
+  until?: string;
+  /** Only games played by this player (needs a database indexed with players) */
+  player?: string;
+  /** With a player, only games where they had this color */
+  color?: PlayerColor;
 }
 
 // =============================================================================
@@ -110,6 +199,11 @@ export interface WriteStore {
    */
   batchWrite(updates: PositionUpdate[]): Promise<void>;
 
+  /**
+   * Add games to the game store (top game lists reference them by id)
+   */
+  putGames(games: StoredGame[]): Promise<void>;
+
   /**
    * Flush any pending writes to disk
    */
@@ -131,14 +225,24 @@ export interface WriteStore {
  */
 export interface ReadStore {
   /**
-   * Get statistics for a position
+   * Get statistics for a position, summed over the games matching a filter
+   */
+  getPosition(hash: bigint, filter?: ExplorerFilter): Promise<PositionStats | null>;
+
+  /**
+   * Get all moves played from a position, summed over the games matching a filter
+   */
+  getMoves(hash: bigint, filter?: ExplorerFilter): Promise<MoveStats[]>;
+
+  /**
+   * Get the notable games that reached a position, highest rated first
    */
-  getPosition(hash: bigint): Promise<PositionStats | null>;
+  getTopGames(hash: bigint): Promise<TopGameRef[]>;
 
   /**
-   * Get all moves played from a position
+   * Get a game from the game store
    */
-  getMoves(hash: bigint): Promise<MoveStats[]>;
+  getGame(id: string): Promise<StoredGame | null>;
 
   /**
    * Check if a position exists in the database
@@ -164,10 +268,68 @@ export interface StoreStats {
   positionCount: number;
   /** Total number of move entries */
   moveCount: number;
+  /** Number of per-segment (rating/speed/month) position and move entries */
+  segmentCount?: number;
+  /** Number of games in the game store */
+  gameCount?: number;
+  /** Number of per-position top game lists */
+  topGameListCount?: number;
+  /** Number of per-player position and move entries */
+  playerEntryCount?: number;
+  /** Number of metadata entries (source manifest) */
+  metaCount?: number;
   /** Size on disk in bytes */
   sizeBytes: number;
 }
 
+/**
+ * Store with named metadata entries ("x:" + name), kept with the stats so
+ * they follow the data through compaction (see manifest.ts)
+ */
+export interface MetaStore {
+  getMeta(name: string): Promise<Buffer | null>;
+  putMeta(name: string, value: Buffer): Promise<void>;
+}
+
+/**
+ * A source file included in a database (see manifest.ts)
+ */
+export interface ManifestEntry {
+  /** File name, e.g. "lichess_db_standard_rated_2025-12.pgn.zst" */
+  source: string;
+  /** File size in bytes when it was indexed */
+  bytes?: number;
+  /** Games indexed from it */
+  games: number;
+  /** When it was indexed (ISO date) */
+  addedAt: string;
+  /**
+   * Set while a merge writes this source's stats - a target left with it
+   * holds part of them and has to be rebuilt (see merger.ts)
+   */
+  mergeInProgress?: boolean;
+}
+
+/**
+ * Progress of an indexing run, committed with each flushed batch (see checkpoint.ts)
+ */
+export interface IndexingCheckpoint {
+  /** File name of the source being indexed */
+  source: string;
+  /** Byte offset in the (decompressed) PGN after the last committed game */
+  byteOffset: number;
+  /** Games indexed up to the offset */
+  gamesProcessed: number;
+  /** Games skipped up to the offset */
+  gamesSkipped: number;
+  /** Position updates written up to the offset */
+  positionsIndexed: number;
+  /** Batches committed so far */
+  batchesFlushed: number;
+  /** When the checkpoint was committed (ISO date) */
+  updatedAt: string;
+}
+
 // =============================================================================
 // Indexer Configuration
 // =============================================================================
@@ -188,6 +350,12 @@ export interface IndexerConfig {
   /** Batch size for writes (default: 10000) */
   batchSize?: number;
 
+  /** Keep games with an id in the game store for top games (default: true) */
+  storeGames?: boolean;
+
+  /** Write per-player entries for player/color queries (default: false) */
+  indexPlayers?: boolean;
+
   /** Path to the write store */
   storePath: string;
 
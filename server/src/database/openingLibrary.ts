@@ -1,4 +1,5 @@
-import type { OpeningLine, OpeningTreeNode, OpeningVariation } from '@chess/shared';
+import { Chess } from 'chess.js';
+import type { ExplorerResult, OpeningLine, OpeningTreeNode, OpeningVariation } from '@chess/shared';
 
 // Comprehensive opening library with variations and common responses
 export const OPENING_LIBRARY: OpeningLine[] = [
@@ -323,13 +324,14 @@ export function buildOpeningTree(openingId: string): OpeningTreeNode | null {
   let currentFen = root.fen;
 
   // Build main line
-  for (const san of mainMoves) {
+  for (const [i, san] of mainMoves.entries()) {
     const newFen = applyMoveToFen(currentFen, san);
     const child: OpeningTreeNode = {
       san,
       fen: newFen,
       children: [],
       isMainLine: true,
+      comment: i === mainMoves.length - 1 ? opening.description : undefined,
     };
     currentNode.children.push(child);
     currentNode = child;
@@ -356,6 +358,8 @@ function parseMoves(pgn: string): string[] {
 
 function addVariationToTree(root: OpeningTreeNode, variation: OpeningVariation): void {
   const moves = parseMoves(variation.moves);
+  // A "Main Line" variation continues the opening's main line
+  const isMainLine = variation.name === 'Main Line';
   let currentNode = root;
 
   for (let i = 0; i < moves.length; i++) {
@@ -370,8 +374,8 @@ function addVariationToTree(root: OpeningTreeNode, variation: OpeningVariation):
         san,
         fen: newFen,
         children: [],
-        isMainLine: false,
-        comment: i === moves.length - 1 ? variation.description : undefined,
+        isMainLine: isMainLine && currentNode.isMainLine === true,
+        comment: i === moves.length - 1 ? describeVariation(variation) : undefined,
       };
       currentNode.children.push(child);
     }
@@ -380,11 +384,72 @@ function addVariationToTree(root: OpeningTreeNode, variation: OpeningVariation):
   }
 }
 
-// Simple FEN manipulation (in production, use chess.js)
+function describeVariation(variation: OpeningVariation): string {
+  return [`${variation.name}: ${variation.description ?? ''}`.trim(), variation.response]
+    .filter(Boolean)
+    .join(' ');
+}
+
 function applyMoveToFen(fen: string, san: string): string {
-  // This is a simplified version - in production, use chess.js
-  // For now, we'll store pre-computed FENs in the opening data
-  return fen; // Placeholder
+  const chess = new Chess(fen);
+  chess.move(san);
+  return chess.fen();
+}
+
+export interface OpeningTreeStatsOptions {
+  /** Checked before each query - a cancelled run stops and keeps the stats found so far */
+  isCancelled?: () => boolean;
+  /** Stop after this many queries (default: no limit) */
+  maxQueries?: number;
+}
+
+/**
+ * Fill in each node's explorer stats (games after the move)
+ *
+ * Each position with children is queried once, in tree order, and its
+ * moves are matched to the children by SAN. Stops at the first failed
+ * query (e.g. rate limited), when cancelled or at the query limit, and
+ * keeps the stats found so far.
+ */
+export async function addOpeningTreeStats(
+  root: OpeningTreeNode,
+  query: (fen: string) => Promise<ExplorerResult>,
+  options: OpeningTreeStatsOptions = {}
+): Promise<OpeningTreeNode> {
+  const maxQueries = options.maxQueries ?? Infinity;
+  let queries = 0;
+
+  const fill = async (node: OpeningTreeNode): Promise<boolean> => {
+    if (node.children.length === 0) return true;
+    if (options.isCancelled?.() || queries >= maxQueries) return false;
+
+    let result: ExplorerResult;
+    try {
+      queries++;
+      result = await query(node.fen);
+    } catch {
+      return false;
+    }
+
+    if (node === root) {
+      const { white, draws, black } = result.raw;
+      root.stats = { white, draws, black, games: result.stats.totalGames };
+    }
+    for (const child of node.children) {
+      const move = result.moves.find((m) => m.san === child.san);
+      child.stats = move
+        ? { white: move.white, draws: move.draws, black: move.black, games: move.totalGames }
+        : { white: 0, draws: 0, black: 0, games: 0 };
+    }
+
+    for (const child of node.children) {
+      if (!(await fill(child))) return false;
+    }
+    return true;
+  };
+
+  await fill(root);
+  return root;
 }
 
 export function getOpeningById(id: string): OpeningLine | undefined {
@@ -0,0 +1,109 @@
+/**
+ * Database Sparring
+ *
+ * An opponent that only plays moves real players chose: every reply is
+ * sampled by play rate from masters, lichess or local explorer statistics,
+ * filtered to a rating band and time controls. When a position has no
+ * games left, the bot announces it and stops playing until moves are taken
+ * back to before that position.
+ */
+
+import type {
+  DatabaseSparringConfig,
+  DatabaseSparringState,
+  ExplorerResult,
+  SparringReply,
+} from '@chess/shared';
+import { pickBookMove, plyOf, toReply } from '../engine/sparring.js';
+import { RATING_BUCKETS, SPEEDS } from './local-explorer/segments.js';
+
+const DEFAULT_MIN_GAMES = 1;
+
+/** Fetches filtered explorer statistics for a position */
+export type DatabaseLookup = (fen: string, config: DatabaseSparringConfig) => Promise<ExplorerResult>;
+
+/**
+ * Validate a database sparring config from the client, dropping unknown filters
+ */
+export function normalizeDatabaseSparringConfig(config: DatabaseSparringConfig): DatabaseSparringConfig {
+  if (config.color !== 'white' && config.color !== 'black') {
+    throw new Error('color must be "white" or "black"');
+  }
+  if (!['masters', 'lichess', 'local'].includes(config.database)) {
+    throw new Error('database must be "masters", "lichess" or "local"');
+  }
+
+  const normalized: DatabaseSparringConfig = {
+    color: config.color,
+    database: config.database,
+    minGames: Math.max(1, Math.round(config.minGames ?? DEFAULT_MIN_GAMES)),
+  };
+  const ratings = config.ratings?.filter((rating) => RATING_BUCKETS.includes(rating));
+  if (ratings && ratings.length > 0) {
+    normalized.ratings = ratings;
+  }
+  const speeds = config.speeds?.filter((speed) => SPEEDS.includes(speed));
+  if (speeds && speeds.length > 0) {
+    normalized.speeds = speeds;
+  }
+  return normalized;
+}
+
+export class DatabaseSparring {
+  private config: DatabaseSparringConfig;
+  private lookup: DatabaseLookup;
+  private random: () => number;
+  private thinking = false;
+  private lastReply: SparringReply | null = null;
+  private leftDatabase: { fen: string; ply: number } | null = null;
+
+  constructor(config: DatabaseSparringConfig, lookup: DatabaseLookup, random: () => number = Math.random) {
+    this.config = config;
+    this.lookup = lookup;
+    this.random = random;
+  }
+
+  getState(): DatabaseSparringState {
+    return {
+      opponent: 'database',
+      config: this.config,
+      thinking: this.thinking,
+      lastReply: this.lastReply,
+      leftDatabase: this.leftDatabase,
+    };
+  }
+
+  /**
+   * Whether the bot is to move in a position (never once the line left the
+   * database, unless moves were taken back to before that point)
+   */
+  isOpponentTurn(fen: string): boolean {
+    if (this.leftDatabase) {
+      if (plyOf(fen) >= this.leftDatabase.ply) return false;
+      this.leftDatabase = null;
+    }
+    const turn = fen.split(' ')[1] === 'b' ? 'black' : 'white';
+    return turn !== this.config.color;
+  }
+
+  /**
+   * Sample a reply from the database, or return null when the position has
+   * no games left (the bot stops there)
+   */
+  async chooseReply(fen: string): Promise<SparringReply | null> {
+    this.thinking = true;
+    try {
+      const result = await this.lookup(fen, this.config);
+      const move = pickBookMove(result, this.config.minGames ?? DEFAULT_MIN_GAMES, this.random);
+      if (!move) {
+        this.leftDatabase = { fen, ply: plyOf(fen) };
+        return null;
+      }
+      const reply: SparringReply = { ...toReply(fen, move.san), source: 'book', playRate: move.playRate };
+      this.lastReply = reply;
+      return reply;
+    } finally {
+      this.thinking = false;
+    }
+  }
+}
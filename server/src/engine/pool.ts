@@ -0,0 +1,345 @@
+/**
+ * Engine Pool
+ *
+ * Shares a bounded number of Stockfish processes between clients.
+ * Callers lease an engine for as long as they need it and queue when every
+ * engine is busy. Queued requests are served by priority (agent, then moves
+ * a player waits for, then UI, then batch jobs) and in arrival order within
+ * a priority.
+ */
+
+import { StockfishService, type StockfishConfig } from './stockfish.js';
+
+/**
+ * Who is asking for an engine - lower priorities wait for higher ones.
+ * 'play' is an opponent's move the user is waiting for, which may take an
+ * engine from open-ended UI analysis.
+ */
+export type EnginePriority = 'agent' | 'play' | 'ui' | 'batch';
+
+const PRIORITY_RANK: Record<EnginePriority, number> = {
+  agent: 0,
+  play: 1,
+  ui: 2,
+  batch: 3,
+};
+
+/**
+ * Default number of engine processes
+ */
+const DEFAULT_MAX_ENGINES = 2;
+
+export interface EnginePoolConfig {
+  /** Maximum number of Stockfish processes (default: ENGINE_POOL_SIZE or 2) */
+  maxEngines?: number;
+  /** Configuration passed to each spawned engine */
+  engineConfig?: StockfishConfig;
+  /** Engine factory (defaults to a new StockfishService) */
+  createEngine?: () => StockfishService;
+}
+
+export interface AcquireOptions {
+  /**
+   * Called when a higher-priority request is waiting and no engine is free.
+   * The holder should stop its work and release the lease. Leases acquired
+   * without this callback are never preempted.
+   */
+  onPreempt?: () => void;
+}
+
+/**
+ * Exclusive use of one engine until released
+ */
+export interface EngineLease {
+  readonly engine: StockfishService;
+  /** Client session holding the lease */
+  readonly ownerId: string;
+  readonly priority: EnginePriority;
+  readonly released: boolean;
+  /** Stop any running analysis and return the engine to the pool */
+  release(): Promise<void>;
+}
+
+export interface EnginePoolStats {
+  maxEngines: number;
+  engines: number;
+  busy: number;
+  queued: number;
+}
+
+interface PoolSlot {
+  engine: StockfishService;
+  lease: PoolLease | null;
+}
+
+interface PendingRequest {
+  ownerId: string;
+  priority: EnginePriority;
+  options: AcquireOptions;
+  resolve: (lease: EngineLease) => void;
+  reject: (error: Error) => void;
+}
+
+class PoolLease implements EngineLease {
+  released = false;
+  preempted = false;
+
+  constructor(
+    readonly engine: StockfishService,
+    readonly ownerId: string,
+    readonly priority: EnginePriority,
+    readonly options: AcquireOptions,
+    private pool: EnginePool
+  ) {}
+
+  release(): Promise<void> {
+    return this.pool.release(this);
+  }
+}
+
+/**
+ * EnginePool - bounded set of engines leased per client session
+ *
+ * @example
+ * ```typescript
+ * const pool = getEnginePool();
+ * const result = await pool.withEngine(socket.id, 'agent', (engine) =>
+ *   engine.analyze(fen, { depth: 20 })
+ * );
+ * ```
+ */
+export class EnginePool {
+  private readonly maxEngines: number;
+  private readonly createEngine: () => StockfishService;
+  private slots: PoolSlot[] = [];
+  private spawning = 0;
+  private queue: PendingRequest[] = [];
+  private isShutdown = false;
+
+  constructor(config: EnginePoolConfig = {}) {
+    this.maxEngines = Math.max(1, config.maxEngines ?? DEFAULT_MAX_ENGINES);
+    this.createEngine = config.createEngine ?? (() => new StockfishService(config.engineConfig));
+  }
+
+  /**
+   * Lease an engine, waiting in the queue if all engines are busy
+   */
+  acquire(ownerId: string, priority: EnginePriority, options: AcquireOptions = {}): Promise<EngineLease> {
+    if (this.isShutdown) {
+      return Promise.reject(new Error('Engine pool is shut down'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: PendingRequest = { ownerId, priority, options, resolve, reject };
+
+      // Insert after every request of the same or higher priority
+      const rank = PRIORITY_RANK[priority];
+      const index = this.queue.findIndex((pending) => PRIORITY_RANK[pending.priority] > rank);
+      if (index === -1) {
+        this.queue.push(request);
+      } else {
+        this.queue.splice(index, 0, request);
+      }
+
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Run a task with a leased engine, releasing it afterwards
+   */
+  async withEngine<T>(
+    ownerId: string,
+    priority: EnginePriority,
+    task: (engine: StockfishService) => Promise<T>
+  ): Promise<T> {
+    const lease = await this.acquire(ownerId, priority);
+    try {
+      return await task(lease.engine);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  /**
+   * Return a leased engine to the pool
+   */
+  async release(lease: EngineLease): Promise<void> {
+    const slot = this.slots.find((s) => s.lease === lease);
+    if (!slot || slot.lease!.released) return;
+    slot.lease!.released = true;
+
+    // Leave the engine idle for the next holder
+    if (slot.engine.isAnalyzing()) {
+      try {
+        await slot.engine.stopAnalysis();
+      } catch (error) {
+        console.warn('Failed to stop analysis on released engine:', error);
+      }
+    }
+
+    slot.lease = null;
+
+    // Drop engines that crashed while leased - a fresh one is spawned on demand
+    if (!slot.engine.isReady()) {
+      this.removeSlot(slot);
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * Release every lease and cancel every queued request of a client session
+   */
+  async releaseOwner(ownerId: string): Promise<void> {
+    const cancelled = this.queue.filter((request) => request.ownerId === ownerId);
+    this.queue = this.queue.filter((request) => request.ownerId !== ownerId);
+    for (const request of cancelled) {
+      request.reject(new Error('Engine request cancelled'));
+    }
+
+    const leases = this.slots
+      .map((slot) => slot.lease)
+      .filter((lease): lease is PoolLease => lease !== null && lease.ownerId === ownerId);
+    await Promise.all(leases.map((lease) => this.release(lease)));
+  }
+
+  getStats(): EnginePoolStats {
+    return {
+      maxEngines: this.maxEngines,
+      engines: this.slots.length,
+      busy: this.slots.filter((slot) => slot.lease !== null).length,
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Cancel queued requests and quit every engine
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+
+    const cancelled = this.queue;
+    this.queue = [];
+    for (const request of cancelled) {
+      request.reject(new Error('Engine pool is shut down'));
+    }
+
+    const slots = this.slots;
+    this.slots = [];
+    await Promise.all(
+      slots.map(async (slot) => {
+        if (slot.lease) slot.lease.released = true;
+        await slot.engine.quit();
+      })
+    );
+  }
+
+  /**
+   * Hand out idle engines, spawn new ones up to the limit, or preempt
+   * lower-priority work for the request at the front of the queue
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0 && !this.isShutdown) {
+      const idle = this.slots.find((slot) => slot.lease === null);
+      if (idle) {
+        if (!idle.engine.isReady()) {
+          this.removeSlot(idle);
+          continue;
+        }
+        this.assign(idle, this.queue.shift()!);
+        continue;
+      }
+
+      if (this.slots.length + this.spawning < this.maxEngines) {
+        this.spawn(this.queue.shift()!);
+        continue;
+      }
+
+      this.preemptFor(this.queue[0]);
+      return;
+    }
+  }
+
+  private assign(slot: PoolSlot, request: PendingRequest): void {
+    const lease = new PoolLease(slot.engine, request.ownerId, request.priority, request.options, this);
+    slot.lease = lease;
+    request.resolve(lease);
+  }
+
+  private spawn(request: PendingRequest): void {
+    this.spawning++;
+    const engine = this.createEngine();
+
+    engine
+      .init()
+      .then(() => {
+        this.spawning--;
+        if (this.isShutdown) {
+          void engine.quit();
+          request.reject(new Error('Engine pool is shut down'));
+          return;
+        }
+        const slot: PoolSlot = { engine, lease: null };
+        this.slots.push(slot);
+        this.assign(slot, request);
+        this.dispatch();
+      })
+      .catch((error: unknown) => {
+        this.spawning--;
+        void engine.quit().catch(() => {});
+        request.reject(error instanceof Error ? error : new Error(String(error)));
+        this.dispatch();
+      });
+  }
+
+  /**
+   * Ask the lowest-priority preemptible holder to give up its engine
+   */
+  private preemptFor(request: PendingRequest): void {
+    const rank = PRIORITY_RANK[request.priority];
+
+    // A preemption already in flight will free an engine for this request
+    if (this.slots.some((slot) => slot.lease?.preempted)) return;
+
+    let victim: PoolLease | null = null;
+    for (const slot of this.slots) {
+      const lease = slot.lease;
+      if (!lease || !lease.options.onPreempt || PRIORITY_RANK[lease.priority] <= rank) continue;
+      if (!victim || PRIORITY_RANK[lease.priority] > PRIORITY_RANK[victim.priority]) {
+        victim = lease;
+      }
+    }
+
+    if (victim) {
+      victim.preempted = true;
+      victim.options.onPreempt!();
+    }
+  }
+
+  private removeSlot(slot: PoolSlot): void {
+    this.slots = this.slots.filter((s) => s !== slot);
+    void slot.engine.quit().catch(() => {});
+  }
+}
+
+// =============================================================================
+// Shared Instance
+// =============================================================================
+
+let instance: EnginePool | null = null;
+
+/**
+ * Get the process-wide engine pool
+ *
+ * The pool size comes from ENGINE_POOL_SIZE (default 2).
+ */
+export function getEnginePool(): EnginePool {
+  if (!instance) {
+    const size = process.env.ENGINE_POOL_SIZE
+      ? parseInt(process.env.ENGINE_POOL_SIZE, 10)
+      : undefined;
+    instance = new EnginePool({ maxEngines: Number.isNaN(size) ? undefined : size });
+  }
+  return instance;
+}
@@ -0,0 +1,222 @@
+/**
+ * Game Review
+ *
+ * Evaluates every position of a game line and grades each move by how much
+ * it changed the mover's winning chances. Thresholds and the accuracy curve
+ * follow the ones lichess uses for its computer analysis.
+ */
+
+import { Chess } from 'chess.js';
+import type {
+  EngineScore,
+  GameReviewSide,
+  GameReviewSummary,
+  Move,
+  MoveClassification,
+  MoveReview,
+} from '@chess/shared';
+import type { StockfishService } from './stockfish.js';
+
+/** Default search depth per position */
+export const DEFAULT_REVIEW_DEPTH = 16;
+
+/** Evaluations are capped so lost-anyway positions don't produce huge losses */
+const CP_CAP = 1000;
+
+/** Win probability drop (percentage points) at which a move is flagged */
+const INACCURACY_THRESHOLD = 5;
+const MISTAKE_THRESHOLD = 10;
+const BLUNDER_THRESHOLD = 15;
+
+/** Engine evaluation of one position */
+export interface PositionEvaluation {
+  fen: string;
+  /** Score from White's side (mate 0 = side to move is checkmated) */
+  score: EngineScore;
+  /** Best move in UCI (empty when the game is over) */
+  bestMove: string;
+  depth: number;
+}
+
+export type PositionEvaluator = (fen: string) => Promise<PositionEvaluation>;
+
+export interface ReviewGameOptions {
+  /** Called after each position, with the move it completed (if any) */
+  onProgress?: (completed: number, total: number, moveIndex: number | null, review: MoveReview | null) => void;
+  /** Checked between positions - a cancelled review stops early and returns null */
+  isCancelled?: () => boolean;
+}
+
+export interface GameReviewResult {
+  reviews: MoveReview[];
+  summary: GameReviewSummary;
+}
+
+/**
+ * Evaluate a position with an engine, handling finished games without searching
+ */
+export async function evaluatePosition(
+  engine: StockfishService,
+  fen: string,
+  depth: number = DEFAULT_REVIEW_DEPTH
+): Promise<PositionEvaluation> {
+  const chess = new Chess(fen);
+  if (chess.isCheckmate()) {
+    return { fen, score: { type: 'mate', value: 0 }, bestMove: '', depth: 0 };
+  }
+  if (chess.isDraw() || chess.isStalemate()) {
+    return { fen, score: { type: 'cp', value: 0 }, bestMove: '', depth: 0 };
+  }
+
+  const result = await engine.analyze(fen, { depth, multiPv: 1 });
+  const line = result.lines[0];
+  const score = line?.score ?? { type: 'cp', value: 0 };
+
+  // UCI scores are from the side to move
+  const sign = chess.turn() === 'w' ? 1 : -1;
+  return {
+    fen,
+    score: { type: score.type, value: score.value * sign },
+    bestMove: result.bestMove,
+    depth: line?.depth ?? depth,
+  };
+}
+
+/**
+ * Centipawn value of a White-side score, capped at ±1000
+ *
+ * `sideToMove` resolves the winner of a mate-0 (checkmate) score.
+ */
+export function scoreToCp(score: EngineScore, sideToMove: 'w' | 'b'): number {
+  if (score.type === 'mate') {
+    if (score.value === 0) {
+      return sideToMove === 'w' ? -CP_CAP : CP_CAP;
+    }
+    return score.value > 0 ? CP_CAP : -CP_CAP;
+  }
+  return Math.max(-CP_CAP, Math.min(CP_CAP, score.value));
+}
+
+/**
+ * Winning chances (0-100) for a centipawn advantage
+ */
+export function winProbability(cp: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+/**
+ * Accuracy (0-100) of a move that dropped the win probability by `winChanceLoss` points
+ */
+export function moveAccuracy(winChanceLoss: number): number {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * winChanceLoss) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+export function classifyMove(winChanceLoss: number, playedBest: boolean): MoveClassification {
+  if (playedBest) return 'best';
+  if (winChanceLoss >= BLUNDER_THRESHOLD) return 'blunder';
+  if (winChanceLoss >= MISTAKE_THRESHOLD) return 'mistake';
+  if (winChanceLoss >= INACCURACY_THRESHOLD) return 'inaccuracy';
+  return 'good';
+}
+
+function toUci(move: Move): string {
+  return `${move.from}${move.to}${move.promotion ?? ''}`;
+}
+
+function toSan(fen: string, uci: string): string | undefined {
+  if (!uci) return undefined;
+  try {
+    const chess = new Chess(fen);
+    return chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] }).san;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Grade a move from the evaluations before and after it
+ */
+export function reviewMove(before: PositionEvaluation, after: PositionEvaluation, move: Move): MoveReview {
+  const mover = before.fen.split(' ')[1] === 'b' ? 'b' : 'w';
+  const opponent = mover === 'w' ? 'b' : 'w';
+  const sign = mover === 'w' ? 1 : -1;
+
+  const cpBefore = scoreToCp(before.score, mover) * sign;
+  const cpAfter = scoreToCp(after.score, opponent) * sign;
+  const cpLoss = Math.max(0, cpBefore - cpAfter);
+  const winChanceLoss = Math.max(0, winProbability(cpBefore) - winProbability(cpAfter));
+
+  return {
+    classification: classifyMove(winChanceLoss, toUci(move) === before.bestMove),
+    cpLoss: Math.round(cpLoss),
+    winChanceLoss: Math.round(winChanceLoss * 10) / 10,
+    accuracy: Math.round(moveAccuracy(winChanceLoss) * 10) / 10,
+    evalBefore: before.score,
+    evalAfter: after.score,
+    bestMove: before.bestMove,
+    bestMoveSan: toSan(before.fen, before.bestMove),
+    depth: before.depth,
+  };
+}
+
+function summarizeSide(reviews: MoveReview[]): GameReviewSide {
+  const count = (classification: MoveClassification) =>
+    reviews.filter((review) => review.classification === classification).length;
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    accuracy: Math.round(mean(reviews.map((r) => r.accuracy)) * 10) / 10,
+    averageCpLoss: Math.round(mean(reviews.map((r) => r.cpLoss))),
+    inaccuracies: count('inaccuracy'),
+    mistakes: count('mistake'),
+    blunders: count('blunder'),
+  };
+}
+
+/**
+ * Per-side accuracy and error counts for reviewed moves
+ *
+ * @param startsWithWhite - whether the first reviewed move is White's
+ */
+export function summarizeReview(reviews: MoveReview[], startsWithWhite: boolean, depth: number): GameReviewSummary {
+  const white = reviews.filter((_, i) => (i % 2 === 0) === startsWithWhite);
+  const black = reviews.filter((_, i) => (i % 2 === 0) !== startsWithWhite);
+  return { white: summarizeSide(white), black: summarizeSide(black), depth };
+}
+
+/**
+ * Evaluate every position of a line and review each move in order
+ *
+ * @param positions - FENs from the start of the line (one more than moves)
+ * @param moves - moves played between consecutive positions
+ */
+export async function reviewGame(
+  positions: string[],
+  moves: Move[],
+  evaluate: PositionEvaluator,
+  options: ReviewGameOptions = {}
+): Promise<GameReviewResult | null> {
+  const reviews: MoveReview[] = [];
+  let previous: PositionEvaluation | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < positions.length; i++) {
+    if (options.isCancelled?.()) return null;
+
+    const evaluation = await evaluate(positions[i]);
+    depth = Math.max(depth, evaluation.depth);
+
+    let review: MoveReview | null = null;
+    if (previous) {
+      review = reviewMove(previous, evaluation, moves[i - 1]);
+      reviews.push(review);
+    }
+    options.onProgress?.(i + 1, positions.length, previous ? i - 1 : null, review);
+    previous = evaluation;
+  }
+
+  const startsWithWhite = positions[0]?.split(' ')[1] !== 'b';
+  return { reviews, summary: summarizeReview(reviews, startsWithWhite, depth) };
+}
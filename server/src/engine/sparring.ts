@@ -0,0 +1,239 @@
+/**
+ * Engine Sparring
+ *
+ * Plays the opponent's side of a game on the session board with Stockfish,
+ * weakened with UCI_LimitStrength/UCI_Elo or Skill Level when asked. An
+ * optional book phase picks opening moves by database play rate until the
+ * position leaves theory.
+ */
+
+import { Chess } from 'chess.js';
+import type {
+  EngineSparringConfig,
+  EngineSparringState,
+  ExplorerMoveStats,
+  ExplorerResult,
+  SparringBookOptions,
+  SparringReply,
+} from '@chess/shared';
+import type { StockfishService } from './stockfish.js';
+
+/** Stockfish's UCI_Elo range */
+export const MIN_ENGINE_ELO = 1320;
+export const MAX_ENGINE_ELO = 3190;
+
+const MAX_SKILL_LEVEL = 20;
+const MIN_MOVE_TIME = 50;
+const MAX_MOVE_TIME = 30000;
+
+const DEFAULT_BOOK_PLIES = 20;
+const DEFAULT_BOOK_MIN_GAMES = 10;
+
+/** Runs a task on a leased engine */
+export type EngineRunner = <T>(task: (engine: StockfishService) => Promise<T>) => Promise<T>;
+
+/** Fetches database statistics for a position */
+export type BookLookup = (fen: string, database: SparringBookOptions['database']) => Promise<ExplorerResult>;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+/**
+ * Validate a sparring config from the client, clamping numbers into range
+ */
+export function normalizeSparringConfig(config: EngineSparringConfig): EngineSparringConfig {
+  if (config.color !== 'white' && config.color !== 'black') {
+    throw new Error('color must be "white" or "black"');
+  }
+
+  const normalized: EngineSparringConfig = {
+    color: config.color,
+    moveTime: clamp(Number(config.moveTime) || 1000, MIN_MOVE_TIME, MAX_MOVE_TIME),
+  };
+  if (config.elo !== undefined && config.elo !== null) {
+    normalized.elo = clamp(Number(config.elo), MIN_ENGINE_ELO, MAX_ENGINE_ELO);
+  }
+  if (config.skillLevel !== undefined && config.skillLevel !== null) {
+    normalized.skillLevel = clamp(Number(config.skillLevel), 0, MAX_SKILL_LEVEL);
+  }
+  if (config.book) {
+    if (config.book.database !== 'masters' && config.book.database !== 'lichess') {
+      throw new Error('book database must be "masters" or "lichess"');
+    }
+    normalized.book = {
+      database: config.book.database,
+      maxPlies: clamp(config.book.maxPlies ?? DEFAULT_BOOK_PLIES, 0, 100),
+      minGames: Math.max(1, Math.round(config.book.minGames ?? DEFAULT_BOOK_MIN_GAMES)),
+    };
+  }
+  return normalized;
+}
+
+/**
+ * Half-moves played before a position, from its FEN move counters
+ */
+export function plyOf(fen: string): number {
+  const [, turn, , , , fullmove] = fen.split(' ');
+  return (Math.max(1, parseInt(fullmove, 10) || 1) - 1) * 2 + (turn === 'b' ? 1 : 0);
+}
+
+/**
+ * Pick a database move at random, weighted by play rate
+ *
+ * Returns null when the position has fewer than `minGames` games.
+ */
+export function pickBookMove(
+  result: ExplorerResult,
+  minGames: number,
+  random: () => number = Math.random
+): ExplorerMoveStats | null {
+  if (result.stats.totalGames < minGames) return null;
+
+  const candidates = result.moves.filter((move) => move.playRate > 0);
+  const total = candidates.reduce((sum, move) => sum + move.playRate, 0);
+  if (total <= 0) return null;
+
+  let roll = random() * total;
+  for (const move of candidates) {
+    roll -= move.playRate;
+    if (roll < 0) return move;
+  }
+  return candidates[candidates.length - 1];
+}
+
+async function applyStrength(engine: StockfishService, config: EngineSparringConfig): Promise<void> {
+  if (config.elo !== undefined) {
+    await engine.setOption('UCI_LimitStrength', true);
+    await engine.setOption('UCI_Elo', config.elo);
+  }
+  if (config.skillLevel !== undefined) {
+    await engine.setOption('Skill Level', config.skillLevel);
+  }
+}
+
+// Pooled engines are shared, so every weakened search is undone afterwards
+async function resetStrength(engine: StockfishService, config: EngineSparringConfig): Promise<void> {
+  if (config.elo !== undefined) {
+    await engine.setOption('UCI_LimitStrength', false);
+  }
+  if (config.skillLevel !== undefined) {
+    await engine.setOption('Skill Level', MAX_SKILL_LEVEL);
+  }
+}
+
+/**
+ * SAN and UCI of a move played from a position (throws if it is illegal)
+ */
+export function toReply(fen: string, move: string | { from: string; to: string; promotion?: string }): Omit<SparringReply, 'source'> {
+  const chess = new Chess(fen);
+  const played = chess.move(move);
+  return { san: played.san, uci: `${played.from}${played.to}${played.promotion ?? ''}` };
+}
+
+export class EngineSparring {
+  private config: EngineSparringConfig;
+  private runEngine: EngineRunner;
+  private lookupBook: BookLookup;
+  private random: () => number;
+  private thinking = false;
+  private lastReply: SparringReply | null = null;
+  // Ply where the book ran out - taking moves back before it re-enters the book
+  private leftBookAt: number | null = null;
+
+  constructor(
+    config: EngineSparringConfig,
+    runEngine: EngineRunner,
+    lookupBook: BookLookup,
+    random: () => number = Math.random
+  ) {
+    this.config = config;
+    this.runEngine = runEngine;
+    this.lookupBook = lookupBook;
+    this.random = random;
+  }
+
+  getState(): EngineSparringState {
+    return {
+      opponent: 'engine',
+      config: this.config,
+      inBook: this.config.book !== undefined && this.leftBookAt === null,
+      thinking: this.thinking,
+      lastReply: this.lastReply,
+    };
+  }
+
+  /**
+   * Whether the opponent is to move in a position
+   */
+  isOpponentTurn(fen: string): boolean {
+    const turn = fen.split(' ')[1] === 'b' ? 'black' : 'white';
+    return turn !== this.config.color;
+  }
+
+  /**
+   * Choose the opponent's reply in a position: a book move while in theory,
+   * otherwise the engine's choice at the configured strength
+   */
+  async chooseReply(fen: string): Promise<SparringReply> {
+    this.thinking = true;
+    try {
+      const reply = (await this.bookReply(fen)) ?? (await this.engineReply(fen));
+      this.lastReply = reply;
+      return reply;
+    } finally {
+      this.thinking = false;
+    }
+  }
+
+  private async bookReply(fen: string): Promise<SparringReply | null> {
+    const book = this.config.book;
+    if (!book) return null;
+
+    const ply = plyOf(fen);
+    if (this.leftBookAt !== null) {
+      if (ply >= this.leftBookAt) return null;
+      this.leftBookAt = null;
+    }
+    if (ply >= (book.maxPlies ?? DEFAULT_BOOK_PLIES)) {
+      this.leftBookAt = ply;
+      return null;
+    }
+
+    let result: ExplorerResult;
+    try {
+      result = await this.lookupBook(fen, book.database);
+    } catch (error) {
+      // Database unavailable - let the engine play this move without leaving the book
+      console.warn('Sparring book lookup failed:', error);
+      return null;
+    }
+
+    const move = pickBookMove(result, book.minGames ?? DEFAULT_BOOK_MIN_GAMES, this.random);
+    if (!move) {
+      this.leftBookAt = ply;
+      return null;
+    }
+    return { ...toReply(fen, move.san), source: 'book', playRate: move.playRate };
+  }
+
+  private async engineReply(fen: string): Promise<SparringReply> {
+    const bestMove = await this.runEngine(async (engine) => {
+      await applyStrength(engine, this.config);
+      try {
+        const result = await engine.analyze(fen, { movetime: this.config.moveTime, multiPv: 1 });
+        return result.bestMove;
+      } finally {
+        await resetStrength(engine, this.config);
+      }
+    });
+
+    if (!bestMove || bestMove === '(none)' || bestMove === '0000') {
+      throw new Error('Engine found no move');
+    }
+    return {
+      ...toReply(fen, { from: bestMove.slice(0, 2), to: bestMove.slice(2, 4), promotion: bestMove[4] }),
+      source: 'engine',
+    };
+  }
+}
@@ -556,32 +556,3 @@ export class StockfishService extends EventEmitter {
     }
   }
 }
-
-// =============================================================================
-// Singleton Instance
-// =============================================================================
-
-let instance: StockfishService | null = null;
-
-/**
- * Get the singleton StockfishService instance
- *
- * Note: Call await getStockfishService().init() before using analysis methods
- */
-export function getStockfishService(): StockfishService {
-  if (!instance) {
-    instance = new StockfishService();
-  }
-  return instance;
-}
-
-/**
- * Initialize and get the singleton StockfishService instance
- */
-export async function initStockfishService(config?: StockfishConfig): Promise<StockfishService> {
-  if (!instance) {
-    instance = new StockfishService(config);
-  }
-  await instance.init();
-  return instance;
-}
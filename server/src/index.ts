@@ -5,7 +5,7 @@ import { createServer } from 'http';
 import cors from 'cors';
 import { Server } from 'socket.io';
 import type { ServerToClientEvents, ClientToServerEvents } from '@chess/shared';
-import { setupSocketHandlers } from './socket/handlers.js';
+import { setupSocketHandlers, flushSessionSaves } from './socket/handlers.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -32,3 +32,12 @@ httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
 
+// Write debounced session saves before exiting, so the last changes survive a restart
+async function shutdown(signal: string) {
+  console.log(`${signal} received, saving sessions...`);
+  await flushSessionSaves();
+  process.exit(0);
+}
+
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
@@ -0,0 +1,70 @@
+/**
+ * File Session Store
+ *
+ * Stores each session as a JSON file in a directory:
+ *   {dir}/{sessionId}.json
+ *
+ * Files are written to a temporary file first and then renamed, so a crash
+ * during a save leaves the previous version intact.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { PersistedSession, SessionStore } from './types.js';
+
+const EXTENSION = '.json';
+
+export class FileSessionStore implements SessionStore {
+  private dir: string;
+  private ready: Promise<void>;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.ready = mkdir(dir, { recursive: true }).then(() => undefined);
+  }
+
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    await this.ready;
+    try {
+      const json = await readFile(this.pathFor(sessionId), 'utf-8');
+      return JSON.parse(json) as PersistedSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(record: PersistedSession): Promise<void> {
+    await this.ready;
+    const path = this.pathFor(record.session.sessionId);
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(record), 'utf-8');
+    await rename(tmpPath, path);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.ready;
+    await rm(this.pathFor(sessionId), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    await this.ready;
+    const files = await readdir(this.dir);
+    return files
+      .filter((file) => file.endsWith(EXTENSION))
+      .map((file) => decodeURIComponent(file.slice(0, -EXTENSION.length)));
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open between calls
+  }
+
+  /**
+   * Session ids come from the client, so encode them to keep paths inside the directory
+   */
+  private pathFor(sessionId: string): string {
+    return join(this.dir, encodeURIComponent(sessionId) + EXTENSION);
+  }
+}
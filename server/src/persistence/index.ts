@@ -0,0 +1,60 @@
+/**
+ * Session Persistence
+ *
+ * Pluggable storage for sessions so they survive server restarts.
+ *
+ * Backend is selected with SESSION_STORE:
+ * - file (default): one JSON file per session
+ * - lmdb: embedded LMDB database
+ * - memory: no persistence (sessions are lost on restart)
+ *
+ * Data lives in SESSION_DATA_DIR (default: server/data/sessions).
+ */
+
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { SessionStore } from './types.js';
+import { FileSessionStore } from './file-store.js';
+import { LmdbSessionStore } from './lmdb-store.js';
+import { MemorySessionStore } from './memory-store.js';
+
+export type { PersistedSession, SessionStore } from './types.js';
+export { FileSessionStore } from './file-store.js';
+export { LmdbSessionStore } from './lmdb-store.js';
+export { MemorySessionStore } from './memory-store.js';
+
+export type SessionStoreType = 'file' | 'lmdb' | 'memory';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_DATA_DIR = join(__dirname, '..', '..', 'data', 'sessions');
+
+/**
+ * Create a session store of the given type rooted at a directory
+ */
+export function createSessionStore(type: SessionStoreType, dataDir: string = DEFAULT_DATA_DIR): SessionStore {
+  switch (type) {
+    case 'file':
+      return new FileSessionStore(dataDir);
+    case 'lmdb':
+      return new LmdbSessionStore(join(dataDir, 'sessions.lmdb'));
+    case 'memory':
+      return new MemorySessionStore();
+    default:
+      throw new Error(`Unknown session store: ${type}`);
+  }
+}
+
+// Singleton instance
+let storeInstance: SessionStore | null = null;
+
+/**
+ * Get the session store configured by SESSION_STORE / SESSION_DATA_DIR
+ */
+export function getSessionStore(): SessionStore {
+  if (!storeInstance) {
+    const type = (process.env.SESSION_STORE || 'file') as SessionStoreType;
+    storeInstance = createSessionStore(type, process.env.SESSION_DATA_DIR || DEFAULT_DATA_DIR);
+    console.log(`Session store: ${type}`);
+  }
+  return storeInstance;
+}
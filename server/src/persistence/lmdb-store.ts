@@ -0,0 +1,41 @@
+/**
+ * LMDB Session Store
+ *
+ * Stores sessions in an embedded LMDB database, keyed by session id with
+ * JSON-encoded values. Writes are transactional, so a session is never
+ * left half-written.
+ */
+
+import { open, RootDatabase } from 'lmdb';
+import type { PersistedSession, SessionStore } from './types.js';
+
+export class LmdbSessionStore implements SessionStore {
+  private db: RootDatabase<PersistedSession, string>;
+
+  constructor(path: string) {
+    this.db = open<PersistedSession, string>({
+      path,
+      encoding: 'json',
+    });
+  }
+
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    return this.db.get(sessionId) ?? null;
+  }
+
+  async save(record: PersistedSession): Promise<void> {
+    await this.db.put(record.session.sessionId, record);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.db.remove(sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.db.getKeys());
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+}
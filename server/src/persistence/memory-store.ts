@@ -0,0 +1,34 @@
+/**
+ * In-Memory Session Store
+ *
+ * Keeps sessions in a Map. Sessions are lost on restart, so this is only
+ * meant for tests and for running without a data directory.
+ */
+
+import type { PersistedSession, SessionStore } from './types.js';
+
+export class MemorySessionStore implements SessionStore {
+  private records = new Map<string, string>();
+
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    const json = this.records.get(sessionId);
+    return json ? (JSON.parse(json) as PersistedSession) : null;
+  }
+
+  async save(record: PersistedSession): Promise<void> {
+    // Stored serialized so later mutations of the live session don't leak in
+    this.records.set(record.session.sessionId, JSON.stringify(record));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.records.delete(sessionId);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+
+  async close(): Promise<void> {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Session Persistence Types
+ *
+ * A persisted session is everything needed to rebuild a socket session after
+ * a server restart: the session metadata, the full game tree, every
+ * conversation (messages and tool calls included), the repertoires,
+ * their drill review schedule and the student profile.
+ */
+
+import type { Conversation, Repertoire, ReviewCard, SessionData, StudentProfile } from '@chess/shared';
+import type { ChessManagerSnapshot } from '../chess/manager.js';
+
+/**
+ * Everything stored for one session
+ */
+export interface PersistedSession {
+  /** Session metadata as sent to the client on restore */
+  session: SessionData;
+  /** Game tree, viewed line and current position */
+  board: ChessManagerSnapshot;
+  /** All conversations of the session, oldest first */
+  conversations: Conversation[];
+  /** White and black opening repertoires */
+  repertoires: Repertoire[];
+  /** Spaced-repetition state of drilled positions */
+  reviewCards: ReviewCard[];
+  /** What the agent remembers about the student (missing in sessions saved before profiles) */
+  studentProfile?: StudentProfile;
+}
+
+/**
+ * Storage backend for persisted sessions
+ */
+export interface SessionStore {
+  /** Load a session, or null if it was never saved */
+  load(sessionId: string): Promise<PersistedSession | null>;
+
+  /** Create or overwrite a session */
+  save(record: PersistedSession): Promise<void>;
+
+  /** Remove a session. Deleting an unknown session is a no-op. */
+  delete(sessionId: string): Promise<void>;
+
+  /** Ids of all stored sessions */
+  list(): Promise<string[]>;
+
+  /** Release any resources held by the store */
+  close(): Promise<void>;
+}
@@ -0,0 +1,224 @@
+/**
+ * Repertoire Drill
+ *
+ * Plays through repertoire lines from the starting position: the board makes
+ * the opponent's moves and waits for ours at every position where we have a
+ * prepared move. Opponent replies are chosen to steer towards positions that
+ * are new or due for review.
+ *
+ * Drills use their own board and never touch the session's ChessManager.
+ */
+
+import { Chess, type Move as ChessMove } from 'chess.js';
+import type { DrillState, Move, PieceType, RepertoireColor, RepertoireMove } from '@chess/shared';
+import { fenAfterMove, positionKey, type RepertoireManager } from './manager.js';
+import { GRADE_CORRECT, GRADE_MISTAKE, isOurTurn, type ReviewScheduler } from './scheduler.js';
+
+export class DrillSession {
+  private color: RepertoireColor;
+  private repertoires: RepertoireManager;
+  private scheduler: ReviewScheduler;
+  private random: () => number;
+  private board: Chess;
+  private moves: Move[];
+  private state: DrillState;
+  // Positions already graded in this line (a retry after a mistake is not graded again)
+  private graded: Set<string>;
+
+  constructor(
+    color: RepertoireColor,
+    repertoires: RepertoireManager,
+    scheduler: ReviewScheduler,
+    random: () => number = Math.random
+  ) {
+    this.color = color;
+    this.repertoires = repertoires;
+    this.scheduler = scheduler;
+    this.random = random;
+    this.board = new Chess();
+    this.moves = [];
+    this.graded = new Set();
+    this.state = this.buildState('awaitingUser', null, 0, 0);
+  }
+
+  getColor(): RepertoireColor {
+    return this.color;
+  }
+
+  getState(): DrillState {
+    return this.state;
+  }
+
+  /**
+   * Start a new line from the starting position
+   */
+  start(): DrillState {
+    if (this.getPreparedMoves(new Chess().fen()).length === 0) {
+      throw new Error(`The ${this.color} repertoire is empty`);
+    }
+
+    this.board.reset();
+    this.moves = [];
+    this.graded.clear();
+    this.state = this.buildState(
+      this.nextStatus(),
+      null,
+      this.state.correctCount,
+      this.state.mistakeCount
+    );
+    return this.state;
+  }
+
+  /**
+   * Play our move. Wrong moves are recorded and the position stays on the board for a retry.
+   */
+  playMove(from: string, to: string, promotion?: PieceType): DrillState {
+    if (this.state.status !== 'awaitingUser') {
+      throw new Error('Not waiting for a move');
+    }
+
+    const fen = this.board.fen();
+    const prepared = this.getPreparedMoves(fen);
+    const expected = prepared.find((m) => m.isMain) ?? prepared[0];
+
+    let played: ChessMove;
+    try {
+      played = this.board.move({ from, to, promotion });
+    } catch {
+      throw new Error('Illegal move');
+    }
+
+    const key = positionKey(fen);
+    const firstTry = !this.graded.has(key);
+    this.graded.add(key);
+
+    if (played.san === expected.san) {
+      if (firstTry) {
+        this.scheduler.review(this.color, fen, GRADE_CORRECT);
+      }
+      this.moves.push(this.convertMove(played));
+      this.state = this.buildState(
+        this.nextStatus(),
+        { result: 'correct', played: played.san, expected: expected.san },
+        this.state.correctCount + (firstTry ? 1 : 0),
+        this.state.mistakeCount
+      );
+      return this.state;
+    }
+
+    // Take the move back - we must find the main move
+    this.board.undo();
+
+    if (prepared.some((m) => m.san === played.san)) {
+      // A known alternative is not a mistake, but the main move is still expected
+      if (firstTry) {
+        this.graded.delete(key);
+      }
+      this.state = this.buildState(
+        'awaitingUser',
+        { result: 'alternative', played: played.san, expected: expected.san },
+        this.state.correctCount,
+        this.state.mistakeCount
+      );
+      return this.state;
+    }
+
+    if (firstTry) {
+      this.scheduler.review(this.color, fen, GRADE_MISTAKE);
+    }
+    this.scheduler.recordMistake(this.color, fen, played.san, expected.san);
+    this.state = this.buildState(
+      'awaitingUser',
+      { result: 'mistake', played: played.san, expected: expected.san },
+      this.state.correctCount,
+      this.state.mistakeCount + 1
+    );
+    return this.state;
+  }
+
+  /**
+   * Play the opponent's reply, preferring lines that lead to new or due positions
+   */
+  playOpponentMove(): DrillState {
+    if (this.state.status !== 'opponentToMove') {
+      throw new Error('Not the opponent to move');
+    }
+
+    const fen = this.board.fen();
+    const replies = this.getPreparedMoves(fen);
+    const pending = replies.filter((m) => this.hasPendingPositions(fenAfterMove(fen, m.san)));
+    const candidates = pending.length > 0 ? pending : replies;
+    const reply = candidates[Math.floor(this.random() * candidates.length)];
+
+    const played = this.board.move(reply.san);
+    this.moves.push(this.convertMove(played));
+    this.state = this.buildState(
+      this.nextStatus(),
+      this.state.feedback,
+      this.state.correctCount,
+      this.state.mistakeCount
+    );
+    return this.state;
+  }
+
+  /**
+   * Moves stored in the repertoire at a position
+   */
+  private getPreparedMoves(fen: string): RepertoireMove[] {
+    return this.repertoires.getMoves(this.color, fen);
+  }
+
+  private nextStatus(): DrillState['status'] {
+    const fen = this.board.fen();
+    if (this.getPreparedMoves(fen).length === 0) {
+      return 'complete';
+    }
+    return isOurTurn(this.color, fen) ? 'awaitingUser' : 'opponentToMove';
+  }
+
+  /**
+   * Whether a new or due position of ours can be reached from a position
+   */
+  private hasPendingPositions(fen: string, visited: Set<string> = new Set()): boolean {
+    const key = positionKey(fen);
+    if (visited.has(key)) return false;
+    visited.add(key);
+
+    const moves = this.getPreparedMoves(fen);
+    if (moves.length === 0) return false;
+    if (isOurTurn(this.color, fen) && this.scheduler.isPending(this.color, fen)) {
+      return true;
+    }
+    return moves.some((m) => this.hasPendingPositions(fenAfterMove(fen, m.san), visited));
+  }
+
+  private buildState(
+    status: DrillState['status'],
+    feedback: DrillState['feedback'],
+    correctCount: number,
+    mistakeCount: number
+  ): DrillState {
+    return {
+      color: this.color,
+      fen: this.board.fen(),
+      moves: [...this.moves],
+      lastMove: this.moves[this.moves.length - 1] ?? null,
+      status,
+      feedback,
+      correctCount,
+      mistakeCount,
+    };
+  }
+
+  private convertMove(move: ChessMove): Move {
+    return {
+      from: move.from,
+      to: move.to,
+      promotion: move.promotion as PieceType | undefined,
+      san: move.san,
+      piece: move.piece as PieceType,
+      captured: move.captured as PieceType | undefined,
+      flags: move.flags,
+    };
+  }
+}
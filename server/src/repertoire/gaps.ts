@@ -0,0 +1,167 @@
+/**
+ * Repertoire Gap Finder
+ *
+ * Walks a repertoire from the starting position and, at every position where
+ * the opponent is to move, compares the replies we have prepared with the
+ * explorer statistics. Popular replies without a prepared answer are gaps.
+ *
+ * Gaps are ranked by frequency: the chance of meeting the reply in a game
+ * played with this repertoire, i.e. the product of the opponent play rates
+ * along the line (assuming we always play our prepared moves).
+ *
+ * Positions where a line simply ends are not reported - that is where
+ * preparation stops, not a hole in it.
+ */
+
+import type {
+  ExplorerResult,
+  LichessRating,
+  RepertoireColor,
+  RepertoireGap,
+  RepertoireGapOptions,
+  RepertoireGapReport,
+} from '@chess/shared';
+import { getExplorer } from '../database/lichess/index.js';
+import type { LocalExplorer } from '../database/local-explorer/index.js';
+import { fenAfterMove, positionKey, type RepertoireManager } from './manager.js';
+import { isOurTurn } from './scheduler.js';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const DEFAULT_MIN_PLAY_RATE = 5;
+const DEFAULT_MAX_POSITIONS = 40;
+// Each position is one explorer query - clients cannot ask for more
+const MAX_POSITIONS = 200;
+
+/** Lichess explorer rating buckets (lower bound of each band) */
+const LICHESS_RATINGS: LichessRating[] = [400, 1000, 1200, 1400, 1600, 1800, 2000, 2200, 2500];
+
+/** Query explorer statistics for a position */
+export type GapExplorerQuery = (fen: string) => Promise<ExplorerResult>;
+
+export interface FindGapsOptions {
+  minPlayRate?: number;
+  maxPositions?: number;
+}
+
+/**
+ * Lichess rating band containing a rating
+ */
+export function ratingBand(rating: number): LichessRating[] {
+  const band = [...LICHESS_RATINGS].reverse().find((r) => rating >= r) ?? LICHESS_RATINGS[0];
+  return [band];
+}
+
+interface PendingPosition {
+  fen: string;
+  line: string[];
+  /** Chance of reaching this position (0-1) */
+  reach: number;
+}
+
+/**
+ * Find popular opponent replies that the repertoire has no answer for
+ */
+export async function findRepertoireGaps(
+  repertoires: RepertoireManager,
+  color: RepertoireColor,
+  query: GapExplorerQuery,
+  options: FindGapsOptions = {}
+): Promise<Omit<RepertoireGapReport, 'database' | 'ratings'>> {
+  const minPlayRate = options.minPlayRate ?? DEFAULT_MIN_PLAY_RATE;
+  const maxPositions = Math.max(1, Math.min(Math.round(options.maxPositions ?? DEFAULT_MAX_POSITIONS), MAX_POSITIONS));
+
+  const gaps: RepertoireGap[] = [];
+  const visited = new Set<string>();
+  const queue: PendingPosition[] = [{ fen: STARTING_FEN, line: [], reach: 1 }];
+  let positionsChecked = 0;
+  let truncated = false;
+
+  while (queue.length > 0) {
+    // Most likely positions first, so the position limit cuts off the rarest lines
+    queue.sort((a, b) => b.reach - a.reach);
+    const { fen, line, reach } = queue.shift()!;
+
+    const key = positionKey(fen);
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const prepared = repertoires.getMoves(color, fen);
+    if (prepared.length === 0) continue;
+
+    if (isOurTurn(color, fen)) {
+      for (const move of prepared) {
+        queue.push({ fen: fenAfterMove(fen, move.san), line: [...line, move.san], reach });
+      }
+      continue;
+    }
+
+    if (positionsChecked >= maxPositions) {
+      truncated = true;
+      break;
+    }
+    positionsChecked++;
+
+    const result = await query(fen);
+    const preparedSans = new Set(prepared.map((m) => m.san));
+
+    for (const move of result.moves) {
+      if (preparedSans.has(move.san) || move.playRate < minPlayRate) continue;
+      gaps.push({
+        fen,
+        line,
+        san: move.san,
+        uci: move.uci,
+        playRate: move.playRate,
+        games: move.totalGames,
+        frequency: reach * move.playRate,
+      });
+    }
+
+    for (const move of prepared) {
+      const stats = result.moves.find((m) => m.san === move.san);
+      queue.push({
+        fen: fenAfterMove(fen, move.san),
+        line: [...line, move.san],
+        reach: reach * ((stats?.playRate ?? 0) / 100),
+      });
+    }
+  }
+
+  gaps.sort((a, b) => b.frequency - a.frequency || b.games - a.games);
+  return { color, minPlayRate, gaps, positionsChecked, truncated };
+}
+
+/**
+ * Gap report using the explorer database chosen in the options
+ */
+export async function buildGapReport(
+  repertoires: RepertoireManager,
+  color: RepertoireColor,
+  options: RepertoireGapOptions = {},
+  localExplorer: LocalExplorer | null = null
+): Promise<RepertoireGapReport> {
+  const database = options.database ?? 'lichess';
+  // Masters games have no rating buckets - lichess and local statistics do
+  const ratings = database !== 'masters' && options.rating ? ratingBand(options.rating) : undefined;
+
+  let query: GapExplorerQuery;
+  switch (database) {
+    case 'masters':
+      query = (fen) => getExplorer().masters(fen);
+      break;
+    case 'lichess':
+      query = (fen) => getExplorer().lichess(fen, ratings ? { ratings } : {});
+      break;
+    case 'local':
+      if (!localExplorer) {
+        throw new Error('Local explorer database not available');
+      }
+      query = (fen) => localExplorer.query(fen, ratings ? { ratings } : {});
+      break;
+    default:
+      throw new Error(`Unsupported database for gap report: ${database}`);
+  }
+
+  const report = await findRepertoireGaps(repertoires, color, query, options);
+  return { ...report, database, ratings };
+}
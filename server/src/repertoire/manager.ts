@@ -0,0 +1,222 @@
+/**
+ * Repertoire Manager
+ *
+ * Keeps a white and a black opening repertoire. Each repertoire is a set of
+ * positions linked by moves rather than a move tree, so lines that transpose
+ * into each other share their preparation.
+ *
+ * At positions where it is our turn the main move is the move we play;
+ * at the opponent's positions every stored move is a prepared reply.
+ */
+
+import { Chess } from 'chess.js';
+import type { Move, Repertoire, RepertoireColor, RepertoireMove } from '@chess/shared';
+import { writePgn, type PgnNode } from '../chess/pgn.js';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * Position key: piece placement, side to move, castling and en passant.
+ * Move counters are dropped so transpositions map to the same position.
+ */
+export function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Position after playing a SAN move
+ */
+export function fenAfterMove(fen: string, san: string): string {
+  const board = new Chess(fen);
+  board.move(san);
+  return board.fen();
+}
+
+function emptyRepertoire(color: RepertoireColor): Repertoire {
+  return { color, positions: {}, updatedAt: Date.now() };
+}
+
+/** Main moves first, then in the order they were added */
+function sortMoves(moves: RepertoireMove[]): void {
+  moves.sort((a, b) => Number(b.isMain) - Number(a.isMain) || a.addedAt - b.addedAt);
+}
+
+export class RepertoireManager {
+  private repertoires: Record<RepertoireColor, Repertoire>;
+
+  constructor(repertoires: Repertoire[] = []) {
+    this.repertoires = {
+      white: emptyRepertoire('white'),
+      black: emptyRepertoire('black'),
+    };
+    for (const repertoire of repertoires) {
+      this.repertoires[repertoire.color] = repertoire;
+    }
+  }
+
+  getRepertoire(color: RepertoireColor): Repertoire {
+    return this.repertoires[color];
+  }
+
+  getAllRepertoires(): Repertoire[] {
+    return [this.repertoires.white, this.repertoires.black];
+  }
+
+  /**
+   * Moves stored at a position (main move first)
+   */
+  getMoves(color: RepertoireColor, fen: string): RepertoireMove[] {
+    return this.repertoires[color].positions[positionKey(fen)]?.moves ?? [];
+  }
+
+  /**
+   * Add a line of moves played from the starting position.
+   * The first move stored at a position becomes its main move, later ones are alternatives.
+   * @returns number of moves that were not in the repertoire yet
+   */
+  addLine(color: RepertoireColor, startFen: string, moves: Move[]): number {
+    if (positionKey(startFen) !== positionKey(STARTING_FEN)) {
+      throw new Error('Repertoire lines must start from the initial position');
+    }
+    if (moves.length === 0) {
+      throw new Error('No moves to add');
+    }
+
+    const repertoire = this.repertoires[color];
+    const board = new Chess(startFen);
+    let added = 0;
+
+    for (const move of moves) {
+      const key = positionKey(board.fen());
+      let result;
+      try {
+        result = board.move({ from: move.from, to: move.to, promotion: move.promotion });
+      } catch {
+        throw new Error(`Invalid move in line: ${move.san ?? move.from + move.to}`);
+      }
+
+      const position = (repertoire.positions[key] ??= { fen: key, moves: [] });
+      if (!position.moves.some((m) => m.san === result.san)) {
+        position.moves.push({
+          san: result.san,
+          uci: result.from + result.to + (result.promotion ?? ''),
+          isMain: position.moves.length === 0,
+          addedAt: Date.now(),
+        });
+        added++;
+      }
+    }
+
+    if (added > 0) {
+      repertoire.updatedAt = Date.now();
+    }
+    return added;
+  }
+
+  /**
+   * Mark a move as main or alternative. A position has at most one main move,
+   * so marking a move as main demotes the previous one.
+   */
+  markMove(color: RepertoireColor, fen: string, san: string, isMain: boolean): void {
+    const repertoire = this.repertoires[color];
+    const position = repertoire.positions[positionKey(fen)];
+    const target = position?.moves.find((m) => m.san === san);
+    if (!position || !target) {
+      throw new Error(`Move ${san} is not in the ${color} repertoire at this position`);
+    }
+
+    if (isMain) {
+      for (const move of position.moves) {
+        move.isMain = move === target;
+      }
+    } else {
+      target.isMain = false;
+    }
+    sortMoves(position.moves);
+    repertoire.updatedAt = Date.now();
+  }
+
+  /**
+   * Remove a move and every position only reachable through it
+   */
+  removeMove(color: RepertoireColor, fen: string, san: string): void {
+    const repertoire = this.repertoires[color];
+    const key = positionKey(fen);
+    const position = repertoire.positions[key];
+    if (!position || !position.moves.some((m) => m.san === san)) {
+      throw new Error(`Move ${san} is not in the ${color} repertoire at this position`);
+    }
+
+    position.moves = position.moves.filter((m) => m.san !== san);
+    if (position.moves.length === 0) {
+      delete repertoire.positions[key];
+    }
+    this.pruneUnreachable(repertoire);
+    repertoire.updatedAt = Date.now();
+  }
+
+  /**
+   * Export a repertoire as a single PGN game with side lines.
+   * A position reached by transposition is only expanded the first time it appears.
+   */
+  exportPgn(color: RepertoireColor): string {
+    const repertoire = this.repertoires[color];
+    const expanded = new Set<string>();
+    const board = new Chess();
+
+    const buildNodes = (fen: string): PgnNode[] => {
+      const key = positionKey(fen);
+      const position = repertoire.positions[key];
+      if (!position || expanded.has(key)) return [];
+      expanded.add(key);
+
+      return position.moves.map((move) => {
+        board.load(fen);
+        board.move(move.san);
+        return {
+          san: move.san,
+          nags: [],
+          children: buildNodes(board.fen()),
+        };
+      });
+    };
+
+    const title = color === 'white' ? 'White' : 'Black';
+    return writePgn(
+      {
+        headers: { Event: `${title} repertoire` },
+        moves: buildNodes(STARTING_FEN),
+        result: '*',
+      },
+      STARTING_FEN
+    );
+  }
+
+  /**
+   * Drop positions that can no longer be reached from the starting position
+   */
+  private pruneUnreachable(repertoire: Repertoire): void {
+    const reachable = new Set<string>();
+    const board = new Chess();
+    const queue = [STARTING_FEN];
+
+    while (queue.length > 0) {
+      const fen = queue.shift()!;
+      const key = positionKey(fen);
+      if (reachable.has(key)) continue;
+      reachable.add(key);
+
+      for (const move of repertoire.positions[key]?.moves ?? []) {
+        board.load(fen);
+        board.move(move.san);
+        queue.push(board.fen());
+      }
+    }
+
+    for (const key of Object.keys(repertoire.positions)) {
+      if (!reachable.has(key)) {
+        delete repertoire.positions[key];
+      }
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Review Scheduler
+ *
+ * SM-2 spaced repetition for repertoire drills. Every position where it is
+ * our move is a card; a review grades how well we remembered the move
+ * (0 = blackout ... 5 = perfect recall).
+ *
+ * - Grade >= 3: the interval grows (1 day, 6 days, then interval * ease factor)
+ * - Grade < 3: the card lapses and is due again tomorrow
+ * - The ease factor moves with each grade and never drops below 1.3
+ */
+
+import type { DrillDueCounts, RepertoireColor, ReviewCard } from '@chess/shared';
+import { positionKey, type RepertoireManager } from './manager.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const PASSING_GRADE = 3;
+const MAX_MISTAKES = 10;
+
+/** Grade given for the main move played first time */
+export const GRADE_CORRECT = 4;
+/** Grade given when a wrong move was played */
+export const GRADE_MISTAKE = 1;
+
+/**
+ * Whether it is our move at a position of a repertoire
+ */
+export function isOurTurn(color: RepertoireColor, fen: string): boolean {
+  return (fen.split(' ')[1] === 'w') === (color === 'white');
+}
+
+export class ReviewScheduler {
+  private cards: Map<string, ReviewCard>;
+
+  constructor(cards: ReviewCard[] = []) {
+    this.cards = new Map(cards.map((card) => [this.cardKey(card.color, card.fen), card]));
+  }
+
+  getCard(color: RepertoireColor, fen: string): ReviewCard | undefined {
+    return this.cards.get(this.cardKey(color, positionKey(fen)));
+  }
+
+  getAllCards(): ReviewCard[] {
+    return Array.from(this.cards.values());
+  }
+
+  /**
+   * A position is pending when it was never reviewed or its review is due
+   */
+  isPending(color: RepertoireColor, fen: string, now: number = Date.now()): boolean {
+    const card = this.getCard(color, fen);
+    return !card || card.dueAt <= now;
+  }
+
+  /**
+   * Grade a review of a position and schedule the next one
+   */
+  review(color: RepertoireColor, fen: string, grade: number, now: number = Date.now()): ReviewCard {
+    const key = positionKey(fen);
+    const card = this.getCard(color, key) ?? {
+      color,
+      fen: key,
+      repetitions: 0,
+      interval: 0,
+      easeFactor: INITIAL_EASE_FACTOR,
+      dueAt: now,
+      lastReviewedAt: now,
+      lapses: 0,
+      mistakes: [],
+    };
+
+    if (grade >= PASSING_GRADE) {
+      card.interval =
+        card.repetitions === 0 ? 1 : card.repetitions === 1 ? 6 : Math.round(card.interval * card.easeFactor);
+      card.repetitions++;
+    } else {
+      card.repetitions = 0;
+      card.interval = 1;
+      card.lapses++;
+    }
+
+    card.easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+    );
+    card.lastReviewedAt = now;
+    card.dueAt = now + card.interval * DAY_MS;
+
+    this.cards.set(this.cardKey(color, key), card);
+    return card;
+  }
+
+  /**
+   * Record a wrong move at a position (kept alongside the card)
+   */
+  recordMistake(color: RepertoireColor, fen: string, played: string, expected: string, now: number = Date.now()): void {
+    const card = this.getCard(color, fen);
+    if (!card) return;
+    card.mistakes.push({ played, expected, at: now });
+    if (card.mistakes.length > MAX_MISTAKES) {
+      card.mistakes.splice(0, card.mistakes.length - MAX_MISTAKES);
+    }
+  }
+
+  /**
+   * Count due and new positions among those reachable in a repertoire
+   */
+  getDueCounts(repertoires: RepertoireManager, color: RepertoireColor, now: number = Date.now()): DrillDueCounts {
+    const counts: DrillDueCounts = { due: 0, new: 0, total: 0 };
+    const positions = repertoires.getRepertoire(color).positions;
+
+    for (const position of Object.values(positions)) {
+      if (position.moves.length === 0 || !isOurTurn(color, position.fen)) continue;
+      counts.total++;
+      const card = this.getCard(color, position.fen);
+      if (!card) {
+        counts.new++;
+      } else if (card.dueAt <= now) {
+        counts.due++;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Drop cards for positions that are no longer in the repertoire
+   */
+  prune(repertoires: RepertoireManager): void {
+    for (const [key, card] of this.cards) {
+      const position = repertoires.getRepertoire(card.color).positions[card.fen];
+      if (!position || position.moves.length === 0) {
+        this.cards.delete(key);
+      }
+    }
+  }
+
+  private cardKey(color: RepertoireColor, fen: string): string {
+    return `${color}:${fen}`;
+  }
+}
@@ -1,98 +1,59 @@
 import { Server, Socket } from 'socket.io';
-import { existsSync } from 'node:fs';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-import type { ServerToClientEvents, ClientToServerEvents, GameState, Move, AIModelId, PromptStyleId, SessionData, LichessDatabase, ExplorerStatus, AnalysisOptions, AnalysisInfo, AnalysisComplete, OpeningSearchResult } from '@chess/shared';
+import type { ServerToClientEvents, ClientToServerEvents, GameState, Move, AIModelId, PromptStyleId, SessionData, ExplorerDatabaseId, LocalPlayerFilter, LocalGameFilter, PersonalExplorerQuery, ExplorerStatus, AnalysisOptions, AnalysisInfo, AnalysisComplete, OpeningSearchResult, RepertoireColor, RepertoireGapOptions, DrillDueCounts, PieceType, EngineSparringConfig, DatabaseSparringConfig, StudentProfileUpdate } from '@chess/shared';
 import { ChessManager } from '../chess/manager.js';
 import { ConversationManager } from '../agent/conversationManager.js';
+import { RepertoireManager } from '../repertoire/manager.js';
+import { ReviewScheduler } from '../repertoire/scheduler.js';
+import { DrillSession } from '../repertoire/drill.js';
+import { buildGapReport } from '../repertoire/gaps.js';
 import { AgentHarness } from '../agent/harness.js';
-import { getOpeningById } from '../database/openingLibrary.js';
+import { StudentProfileManager } from '../agent/student-profile.js';
+import { OPENING_LIBRARY, getOpeningById, buildOpeningTree, addOpeningTreeStats } from '../database/openingLibrary.js';
 import { getLichessOpeningLibrary } from '../database/lichess-openings/index.js';
-import { getExplorer } from '../database/lichess/index.js';
-import { LocalExplorer } from '../database/local-explorer/index.js';
+import { getExplorer, getGamePgn } from '../database/lichess/index.js';
+import { getLocalDatabaseRegistry, normalizeFilter } from '../database/local-explorer/index.js';
 import { agentLog } from '../utils/logger.js';
-import { getStockfishService, type StockfishService } from '../engine/stockfish.js';
+import { getEnginePool, type EngineLease } from '../engine/pool.js';
+import { evaluatePosition, reviewGame, DEFAULT_REVIEW_DEPTH } from '../engine/review.js';
+import { EngineSparring, normalizeSparringConfig } from '../engine/sparring.js';
+import { DatabaseSparring, normalizeDatabaseSparringConfig } from '../database/sparring.js';
+import { getSessionStore, type PersistedSession } from '../persistence/index.js';
 
-// Local explorer - hardcoded path relative to server directory
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const LOCAL_EXPLORER_PATH = join(__dirname, '..', '..', 'data', 'opening-explorer.lmdb');
-
-// Global local explorer instance (lazily initialized)
-let localExplorer: LocalExplorer | null = null;
-let localExplorerStatus: ExplorerStatus = { localAvailable: false };
-
-// Global Stockfish service instance
-let stockfishService: StockfishService | null = null;
-let stockfishInitializing: Promise<void> | null = null;
+// Local explorer databases (server/data/databases plus the original opening-explorer.lmdb)
+const localDatabases = getLocalDatabaseRegistry();
 
 /**
- * Initialize the local explorer if database exists
+ * Log the local databases found at startup
  */
-async function initLocalExplorer(): Promise<void> {
-  if (existsSync(LOCAL_EXPLORER_PATH)) {
-    try {
-      localExplorer = new LocalExplorer(LOCAL_EXPLORER_PATH);
-      await localExplorer.open();
-      const stats = await localExplorer.getStats();
-      localExplorerStatus = {
-        localAvailable: true,
-        localPositionCount: stats.positionCount,
-        localGameCount: stats.moveCount, // Approximate - we don't track exact game count
-      };
-      console.log(`Local explorer initialized: ${stats.positionCount} positions`);
-    } catch (error) {
-      console.warn('Failed to initialize local explorer:', error);
-      localExplorer = null;
-      localExplorerStatus = { localAvailable: false };
+async function logLocalDatabases(): Promise<void> {
+  try {
+    const databases = await localDatabases.list();
+    if (databases.length === 0) {
+      console.log('No local explorer databases found');
+      return;
     }
-  } else {
-    console.log('Local explorer database not found at:', LOCAL_EXPLORER_PATH);
-    localExplorerStatus = { localAvailable: false };
+    for (const db of databases) {
+      console.log(`Local explorer database "${db.id}": ${db.positionCount ?? 0} positions`);
+    }
+  } catch (error) {
+    console.warn('Failed to list local explorer databases:', error);
   }
 }
 
-// Initialize local explorer on module load
-initLocalExplorer();
-
-/**
- * Initialize Stockfish service (lazy, on first use)
- */
-async function initStockfish(): Promise<StockfishService> {
-  if (stockfishService?.isReady()) {
-    return stockfishService;
-  }
-
-  // Prevent multiple parallel initializations
-  if (stockfishInitializing) {
-    await stockfishInitializing;
-    return stockfishService!;
-  }
-
-  stockfishInitializing = (async () => {
-    try {
-      stockfishService = getStockfishService();
-      const info = await stockfishService.init();
-      console.log(`Stockfish initialized: ${info.name} (NNUE: ${info.nnue})`);
-    } catch (error) {
-      console.error('Failed to initialize Stockfish:', error);
-      stockfishService = null;
-      throw error;
-    }
-  })();
-
-  await stockfishInitializing;
-  stockfishInitializing = null;
-  return stockfishService!;
-}
+logLocalDatabases();
 
 type SocketServer = Server<ClientToServerEvents, ServerToClientEvents>;
 type ClientSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
 
 // Session-based storage (persists across socket reconnections)
-// In future, this could be backed by a database for multi-user support
+// Sessions are kept in memory and written through to the session store,
+// so they can be rebuilt after a server restart
 interface SessionState {
   gameManager: ChessManager;
   conversationManager: ConversationManager;
+  repertoireManager: RepertoireManager;
+  reviewScheduler: ReviewScheduler;
+  studentProfile: StudentProfileManager;
   createdAt: number;
   updatedAt: number;
 }
@@ -112,6 +73,9 @@ function getOrCreateSession(sessionId: string): SessionState {
     session = {
       gameManager: new ChessManager(),
       conversationManager: new ConversationManager(),
+      repertoireManager: new RepertoireManager(),
+      reviewScheduler: new ReviewScheduler(),
+      studentProfile: new StudentProfileManager(),
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
@@ -137,6 +101,121 @@ function updateSessionTimestamp(sessionId: string): void {
   const session = sessions.get(sessionId);
   if (session) {
     session.updatedAt = Date.now();
+    scheduleSessionSave(sessionId);
+  }
+}
+
+// Pause before the drill board plays the opponent's reply
+const DRILL_OPPONENT_DELAY_MS = 500;
+
+// Explorer queries per opening tree against lichess.org (rate limited) -
+// deeper positions keep no stats
+const MAX_REMOTE_TREE_QUERIES = 12;
+
+// Debounce session writes - moves and navigation can arrive in quick bursts
+const SESSION_SAVE_DELAY_MS = 1000;
+const pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+// Writes in progress, awaited on shutdown
+const runningSaves = new Set<Promise<void>>();
+
+/**
+ * Temporary sessions belong to a single socket and are never persisted
+ */
+function isPersistentSession(sessionId: string): boolean {
+  return !sessionId.startsWith('temp-');
+}
+
+function scheduleSessionSave(sessionId: string): void {
+  if (!isPersistentSession(sessionId) || !sessions.has(sessionId)) return;
+
+  const pending = pendingSaves.get(sessionId);
+  if (pending) clearTimeout(pending);
+
+  pendingSaves.set(
+    sessionId,
+    setTimeout(() => {
+      pendingSaves.delete(sessionId);
+      const save = saveSession(sessionId);
+      runningSaves.add(save);
+      void save.finally(() => runningSaves.delete(save));
+    }, SESSION_SAVE_DELAY_MS)
+  );
+}
+
+/**
+ * Write a pending save immediately (e.g. when the client disconnects)
+ */
+async function flushSessionSave(sessionId: string): Promise<void> {
+  const pending = pendingSaves.get(sessionId);
+  if (!pending) return;
+  clearTimeout(pending);
+  pendingSaves.delete(sessionId);
+  await saveSession(sessionId);
+}
+
+/**
+ * Write every pending save immediately (e.g. when the server shuts down)
+ */
+export async function flushSessionSaves(): Promise<void> {
+  await Promise.all([
+    ...runningSaves,
+    ...[...pendingSaves.keys()].map((sessionId) => flushSessionSave(sessionId)),
+  ]);
+}
+
+async function saveSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  const data = getSessionData(sessionId);
+  if (!session || !data) return;
+
+  const record: PersistedSession = {
+    session: data,
+    board: session.gameManager.snapshot(),
+    conversations: session.conversationManager
+      .getAllConversations()
+      .sort((a, b) => a.createdAt - b.createdAt),
+    repertoires: session.repertoireManager.getAllRepertoires(),
+    reviewCards: session.reviewScheduler.getAllCards(),
+    studentProfile: session.studentProfile.getProfile(),
+  };
+
+  try {
+    await getSessionStore().save(record);
+  } catch (error) {
+    console.error(`Failed to save session ${sessionId}:`, error);
+  }
+}
+
+/**
+ * Rebuild a session from the session store into memory
+ * @returns true if the session was found and restored
+ */
+async function loadPersistedSession(sessionId: string): Promise<boolean> {
+  if (!isPersistentSession(sessionId)) return false;
+
+  try {
+    const record = await getSessionStore().load(sessionId);
+    if (!record) return false;
+
+    // Another socket may have restored it while we were loading
+    if (sessions.has(sessionId)) return true;
+
+    const gameManager = new ChessManager();
+    gameManager.restore(record.board);
+    sessions.set(sessionId, {
+      gameManager,
+      conversationManager: new ConversationManager(record.conversations),
+      repertoireManager: new RepertoireManager(record.repertoires),
+      reviewScheduler: new ReviewScheduler(record.reviewCards),
+      studentProfile: new StudentProfileManager(record.studentProfile),
+      createdAt: record.session.createdAt,
+      updatedAt: record.session.updatedAt,
+    });
+    console.log(`Loaded persisted session: ${sessionId}`);
+    return true;
+  } catch (error) {
+    console.error(`Failed to load session ${sessionId}:`, error);
+    return false;
   }
 }
 
@@ -171,7 +250,23 @@ export function setupSocketHandlers(io: SocketServer): void {
     let currentSessionId: string | null = null;
     let gameManager: ChessManager;
     let conversationManager: ConversationManager;
+    let repertoireManager: RepertoireManager;
+    let reviewScheduler: ReviewScheduler;
+    let studentProfile: StudentProfileManager;
+    // Active repertoire drill - separate from the session's game board
+    let drillSession: DrillSession | null = null;
+    let drillOpponentTimer: ReturnType<typeof setTimeout> | null = null;
+    // Running game review - flagged to stop between positions
+    let gameReviewRun: { cancelled: boolean } | null = null;
+    // Sparring on the session board - the engine or database bot answers our moves
+    let sparring: EngineSparring | DatabaseSparring | null = null;
+    // Bumped to drop a reply that is still being chosen
+    let sparringReplyId = 0;
+    // Explorer stats being added to an opening tree - flagged to stop when another is shown
+    let openingTreeRun: { cancelled: boolean } | null = null;
     let agentHarness: AgentHarness;
+    // Local database this socket queries for 'local' (explorer, gaps, sparring, agent)
+    let selectedDatabase: string | null = localDatabases.defaultId();
 
     // Initialize managers (will be replaced when session is established)
     const initializeForSession = (sessionId: string) => {
@@ -180,12 +275,33 @@ export function setupSocketHandlers(io: SocketServer): void {
       const session = getOrCreateSession(sessionId);
       gameManager = session.gameManager;
       conversationManager = session.conversationManager;
-      agentHarness = new AgentHarness(gameManager, conversationManager, socket);
+      repertoireManager = session.repertoireManager;
+      reviewScheduler = session.reviewScheduler;
+      studentProfile = session.studentProfile;
+      stopDrill();
+      cancelGameReview();
+      stopSparring();
+      agentHarness?.endVirtualBoard();
+      agentHarness = new AgentHarness(gameManager, conversationManager, socket, repertoireManager, studentProfile);
+      agentHarness.setLocalDatabase(selectedDatabase);
     };
 
-    // Session management events
-    socket.on('session:restore', (sessionId: string) => {
+    // Session being restored - events that arrive meanwhile wait for it,
+    // so they act on the restored session and not the temporary one
+    let sessionRestore: Promise<void> | null = null;
+    socket.use((_event, next) => {
+      if (sessionRestore) {
+        sessionRestore.then(() => next(), () => next());
+      } else {
+        next();
+      }
+    });
+
+    const restoreSession = async (sessionId: string) => {
       console.log(`Restoring session: ${sessionId}`);
+      if (!sessions.has(sessionId)) {
+        await loadPersistedSession(sessionId);
+      }
       const existingData = getSessionData(sessionId);
       
       if (existingData) {
@@ -195,16 +311,31 @@ export function setupSocketHandlers(io: SocketServer): void {
       } else {
         // Session not found, create new one with same ID
         initializeForSession(sessionId);
+        scheduleSessionSave(sessionId);
         socket.emit('session:created', sessionId);
         socket.emit('game:state', gameManager.getState());
         console.log(`Session not found, created new: ${sessionId}`);
       }
+    };
+
+    // Session management events
+    socket.on('session:restore', (sessionId: string) => {
+      const restore = restoreSession(sessionId);
+      sessionRestore = restore;
+      restore
+        .catch((error) => console.error(`Failed to restore session ${sessionId}:`, error))
+        .finally(() => {
+          if (sessionRestore === restore) {
+            sessionRestore = null;
+          }
+        });
     });
 
     socket.on('session:create', () => {
       const newSessionId = generateSessionId();
       console.log(`Creating new session: ${newSessionId}`);
       initializeForSession(newSessionId);
+      scheduleSessionSave(newSessionId);
       socket.emit('session:created', newSessionId);
       socket.emit('game:state', gameManager.getState());
     });
@@ -217,6 +348,9 @@ export function setupSocketHandlers(io: SocketServer): void {
     // Game events
     socket.on('game:load', ({ type, data }: { type: 'fen' | 'pgn'; data: string }) => {
       try {
+        cancelGameReview();
+        stopSparring();
+        agentHarness.endVirtualBoard();
         if (type === 'fen') {
           gameManager.loadFEN(data);
         } else {
@@ -231,6 +365,14 @@ export function setupSocketHandlers(io: SocketServer): void {
       }
     });
 
+    socket.on('game:exportPgn', () => {
+      try {
+        socket.emit('game:pgn', gameManager.exportPGN());
+      } catch (error) {
+        socket.emit('game:error', error instanceof Error ? error.message : 'Failed to export game');
+      }
+    });
+
     socket.on('game:loadOpening', (openingId: string) => {
       try {
         const opening = getOpeningById(openingId);
@@ -238,6 +380,7 @@ export function setupSocketHandlers(io: SocketServer): void {
           socket.emit('game:error', `Opening not found: ${openingId}`);
           return;
         }
+        agentHarness.endVirtualBoard();
         gameManager.loadPGN(opening.moves);
         if (currentSessionId) {
           updateSessionTimestamp(currentSessionId);
@@ -245,6 +388,7 @@ export function setupSocketHandlers(io: SocketServer): void {
         socket.emit('game:state', gameManager.getState());
         // Emit opening loaded event
         socket.emit('opening:loaded', { eco: opening.eco, name: opening.name, pgn: opening.moves });
+        playSparringReply();
       } catch (error) {
         socket.emit('game:error', error instanceof Error ? error.message : 'Failed to load opening');
       }
@@ -253,6 +397,7 @@ export function setupSocketHandlers(io: SocketServer): void {
     // Load opening by PGN (from Lichess database search)
     socket.on('game:loadOpeningByPgn', (pgn: string) => {
       try {
+        agentHarness.endVirtualBoard();
         gameManager.loadPGN(pgn);
         if (currentSessionId) {
           updateSessionTimestamp(currentSessionId);
@@ -267,6 +412,7 @@ export function setupSocketHandlers(io: SocketServer): void {
         } else {
           socket.emit('opening:loaded', null);
         }
+        playSparringReply();
       } catch (error) {
         socket.emit('game:error', error instanceof Error ? error.message : 'Failed to load opening');
       }
@@ -290,14 +436,62 @@ export function setupSocketHandlers(io: SocketServer): void {
       }
     });
 
+    // Curated opening library (themes, descriptions and variations)
+    socket.on('opening:list', () => {
+      socket.emit('opening:library', OPENING_LIBRARY);
+    });
+
+    socket.on('opening:getTree', async (openingId: string, requested?: ExplorerDatabaseId) => {
+      const tree = buildOpeningTree(openingId);
+      if (!tree) {
+        socket.emit('game:error', `Opening not found: ${openingId}`);
+        return;
+      }
+      cancelOpeningTreeStats();
+      const run = { cancelled: false };
+      openingTreeRun = run;
+      socket.emit('opening:tree', tree, openingId);
+
+      // Then again with the explorer's stats on each move - from the selected
+      // local database unless asked otherwise, and only the first few remote
+      // queries, which are rate limited
+      const database = requested ?? (selectedDatabase ? 'local' : 'lichess');
+      const remote = database === 'masters' || database === 'lichess';
+      const query = (fen: string) => {
+        if (database === 'masters') return getExplorer().masters(fen);
+        if (database === 'lichess') return getExplorer().lichess(fen);
+        return localDatabases.query(localDatabaseFor(database), fen);
+      };
+      await addOpeningTreeStats(tree, query, {
+        isCancelled: () => run.cancelled,
+        maxQueries: remote ? MAX_REMOTE_TREE_QUERIES : undefined,
+      });
+      if (!run.cancelled) {
+        socket.emit('opening:tree', tree, openingId);
+      }
+    });
+
+    function cancelOpeningTreeStats() {
+      if (openingTreeRun) {
+        openingTreeRun.cancelled = true;
+        openingTreeRun = null;
+      }
+    }
+
     socket.on('game:move', (move: { from: string; to: string; promotion?: string }) => {
       try {
+        if (sparring?.isOpponentTurn(gameManager.getFEN())) {
+          socket.emit('game:error', "It's the engine's turn");
+          return;
+        }
         const result = gameManager.makeMove(move.from, move.to, move.promotion as any);
         if (result) {
+          agentHarness.endVirtualBoard();
           if (currentSessionId) {
             updateSessionTimestamp(currentSessionId);
           }
           socket.emit('game:move', result, gameManager.getState());
+          playSparringReply();
         } else {
           socket.emit('game:error', 'Invalid move');
         }
@@ -306,16 +500,54 @@ export function setupSocketHandlers(io: SocketServer): void {
       }
     });
 
-    socket.on('game:navigate', (index: number) => {
+    socket.on('game:navigate', (target: number | string) => {
       try {
-        gameManager.navigateToMove(index);
+        agentHarness.endVirtualBoard();
+        if (typeof target === 'string') {
+          gameManager.navigateToNode(target);
+        } else {
+          gameManager.navigateToMove(target);
+        }
+        if (currentSessionId) {
+          scheduleSessionSave(currentSessionId);
+        }
         socket.emit('game:state', gameManager.getState());
+        // Taking moves back while sparring: the engine answers from the new position
+        playSparringReply();
       } catch (error) {
         socket.emit('game:error', error instanceof Error ? error.message : 'Navigation failed');
       }
     });
 
+    socket.on('game:promoteVariation', (nodeId: string) => {
+      try {
+        gameManager.promoteVariation(nodeId);
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        socket.emit('game:state', gameManager.getState());
+      } catch (error) {
+        socket.emit('game:error', error instanceof Error ? error.message : 'Failed to promote variation');
+      }
+    });
+
+    socket.on('game:deleteVariation', (nodeId: string) => {
+      try {
+        agentHarness.endVirtualBoard();
+        gameManager.deleteVariation(nodeId);
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        socket.emit('game:state', gameManager.getState());
+      } catch (error) {
+        socket.emit('game:error', error instanceof Error ? error.message : 'Failed to delete variation');
+      }
+    });
+
     socket.on('game:reset', () => {
+      cancelGameReview();
+      stopSparring();
+      agentHarness.endVirtualBoard();
       gameManager.reset();
       if (currentSessionId) {
         updateSessionTimestamp(currentSessionId);
@@ -327,6 +559,9 @@ export function setupSocketHandlers(io: SocketServer): void {
     socket.on('conversation:create', (clientId?: string) => {
       agentLog.socket('conversation:create', 'receive', { clientId });
       const conversation = conversationManager.createConversation(clientId);
+      if (currentSessionId) {
+        scheduleSessionSave(currentSessionId);
+      }
       agentLog.conversation(conversation.id, 'CREATED via socket');
       agentLog.socket('conversation:message', 'emit', { type: 'system', conversationId: conversation.id });
       socket.emit('conversation:message', {
@@ -348,6 +583,11 @@ export function setupSocketHandlers(io: SocketServer): void {
       } catch (error) {
         agentLog.error('conversation:send handler', error);
         socket.emit('conversation:error', error instanceof Error ? error.message : 'Failed to process message');
+      } finally {
+        // Messages, tool calls and any board changes made by the agent
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
       }
     });
 
@@ -368,6 +608,9 @@ export function setupSocketHandlers(io: SocketServer): void {
     socket.on('conversation:delete', (conversationId: string) => {
       agentLog.socket('conversation:delete', 'receive', { conversationId: conversationId.slice(0, 8) });
       conversationManager.deleteConversation(conversationId);
+      if (currentSessionId) {
+        scheduleSessionSave(currentSessionId);
+      }
       agentLog.conversation(conversationId, 'DELETED');
     });
 
@@ -379,9 +622,10 @@ export function setupSocketHandlers(io: SocketServer): void {
     // Analysis events - Legacy simple request
     socket.on('analysis:request', async (depth = 20) => {
       try {
-        const sf = await initStockfish();
         const fen = gameManager.getState().fen;
-        const result = await sf.analyze(fen, { depth });
+        const result = await getEnginePool().withEngine(socket.id, 'ui', (sf) =>
+          sf.analyze(fen, { ...analysisOptions, depth })
+        );
         
         // Convert to legacy format
         const line = result.lines[0];
@@ -400,35 +644,88 @@ export function setupSocketHandlers(io: SocketServer): void {
       }
     });
 
-    // Streaming analysis - per-socket state for event cleanup
+    // Streaming analysis - per-socket engine lease and event handlers
+    let analysisLease: EngineLease | null = null;
+    let analysisLeasePending: Promise<EngineLease> | null = null;
+    let analysisOptions: Partial<AnalysisOptions> = {};
     let analysisInfoHandler: ((info: AnalysisInfo) => void) | null = null;
     let analysisBestmoveHandler: ((result: AnalysisComplete) => void) | null = null;
     let analysisErrorHandler: ((error: Error) => void) | null = null;
 
     const cleanupAnalysisHandlers = () => {
-      if (stockfishService) {
+      const sf = analysisLease?.engine;
+      if (sf) {
         if (analysisInfoHandler) {
-          stockfishService.removeListener('info', analysisInfoHandler);
-          analysisInfoHandler = null;
+          sf.removeListener('info', analysisInfoHandler);
         }
         if (analysisBestmoveHandler) {
-          stockfishService.removeListener('bestmove', analysisBestmoveHandler);
-          analysisBestmoveHandler = null;
+          sf.removeListener('bestmove', analysisBestmoveHandler);
         }
         if (analysisErrorHandler) {
-          stockfishService.removeListener('error', analysisErrorHandler);
-          analysisErrorHandler = null;
+          sf.removeListener('error', analysisErrorHandler);
         }
       }
+      analysisInfoHandler = null;
+      analysisBestmoveHandler = null;
+      analysisErrorHandler = null;
+    };
+
+    /**
+     * Stop streaming analysis and give the engine back to the pool.
+     * A stopped search still reports its result through the bestmove handler.
+     */
+    const releaseAnalysisEngine = async () => {
+      const lease = analysisLease;
+      if (!lease) return;
+      try {
+        if (lease.engine.isAnalyzing()) {
+          await lease.engine.stopAnalysis();
+        }
+      } finally {
+        cleanupAnalysisHandlers();
+        if (analysisLease === lease) {
+          analysisLease = null;
+        }
+        await lease.release();
+      }
+    };
+
+    /**
+     * Lease an engine for this socket's streaming analysis (reused across restarts
+     * of the analysis, given up when a higher-priority request needs it)
+     */
+    const acquireAnalysisEngine = async (): Promise<EngineLease> => {
+      if (analysisLease && !analysisLease.released) {
+        return analysisLease;
+      }
+      if (!analysisLeasePending) {
+        analysisLeasePending = getEnginePool()
+          .acquire(socket.id, 'ui', {
+            onPreempt: () => {
+              releaseAnalysisEngine().catch((error) => {
+                console.error('Failed to release preempted engine:', error);
+              });
+            },
+          })
+          .finally(() => {
+            analysisLeasePending = null;
+          });
+      }
+      analysisLease = await analysisLeasePending;
+      return analysisLease;
     };
 
     // Start streaming analysis
     socket.on('analysis:start', async ({ fen, options }: { fen: string; options: AnalysisOptions }) => {
       try {
-        const sf = await initStockfish();
+        const lease = await acquireAnalysisEngine();
+        const sf = lease.engine;
 
-        // Clean up any existing handlers from this socket
+        // Stop the previous search before listening, so its result isn't reported
         cleanupAnalysisHandlers();
+        if (sf.isAnalyzing()) {
+          await sf.stopAnalysis();
+        }
 
         // Set up event handlers for this socket
         analysisInfoHandler = (info: AnalysisInfo) => {
@@ -436,11 +733,11 @@ export function setupSocketHandlers(io: SocketServer): void {
         };
         analysisBestmoveHandler = (result: AnalysisComplete) => {
           socket.emit('analysis:complete', result);
-          cleanupAnalysisHandlers();
+          void releaseAnalysisEngine();
         };
         analysisErrorHandler = (error: Error) => {
           socket.emit('analysis:error', error.message);
-          cleanupAnalysisHandlers();
+          void releaseAnalysisEngine();
         };
 
         sf.on('info', analysisInfoHandler);
@@ -458,53 +755,105 @@ export function setupSocketHandlers(io: SocketServer): void {
         }
 
         // Start analysis
-        await sf.startAnalysis(fen, options);
+        await sf.startAnalysis(fen, { ...analysisOptions, ...options });
       } catch (error) {
         console.error('Analysis start error:', error);
         socket.emit('analysis:error', error instanceof Error ? error.message : 'Failed to start analysis');
-        cleanupAnalysisHandlers();
+        await releaseAnalysisEngine().catch(() => {});
       }
     });
 
     // Stop streaming analysis
     socket.on('analysis:stop', async () => {
       try {
-        if (stockfishService?.isAnalyzing()) {
-          const result = await stockfishService.stopAnalysis();
-          if (result) {
-            socket.emit('analysis:complete', result);
-          }
-        }
+        await releaseAnalysisEngine();
       } catch (error) {
         console.error('Analysis stop error:', error);
         socket.emit('analysis:error', error instanceof Error ? error.message : 'Failed to stop analysis');
-      } finally {
-        cleanupAnalysisHandlers();
       }
     });
 
-    // Configure analysis options (for subsequent analyses)
-    socket.on('analysis:configure', async (options: Partial<AnalysisOptions>) => {
+    // Configure analysis options (for this socket's subsequent analyses)
+    socket.on('analysis:configure', (options: Partial<AnalysisOptions>) => {
+      analysisOptions = { ...analysisOptions };
+      if (options.threads !== undefined) {
+        analysisOptions.threads = options.threads;
+      }
+      if (options.hash !== undefined) {
+        analysisOptions.hash = options.hash;
+      }
+      if (options.multiPv !== undefined) {
+        analysisOptions.multiPv = options.multiPv;
+      }
+    });
+
+    // Game review - evaluates the current line position by position at batch priority,
+    // so agent and UI analysis can take the engine between positions
+    socket.on('review:start', async (options = {}) => {
+      cancelGameReview();
+      const run = { cancelled: false };
+      gameReviewRun = run;
+
+      const reviewedGame = gameManager;
+      const { moves, positions, nodeIds } = reviewedGame.getFullHistory();
+      if (moves.length === 0) {
+        gameReviewRun = null;
+        socket.emit('review:error', 'No moves to review');
+        return;
+      }
+
+      const depth = options.depth ?? DEFAULT_REVIEW_DEPTH;
       try {
-        const sf = await initStockfish();
-        
-        if (options.threads !== undefined) {
-          await sf.setOption('Threads', options.threads);
-        }
-        if (options.hash !== undefined) {
-          await sf.setOption('Hash', options.hash);
-        }
-        if (options.multiPv !== undefined) {
-          await sf.setOption('MultiPV', options.multiPv);
+        const result = await reviewGame(
+          positions,
+          moves,
+          (fen) => getEnginePool().withEngine(socket.id, 'batch', (sf) => evaluatePosition(sf, fen, depth)),
+          {
+            isCancelled: () => run.cancelled,
+            onProgress: (completed, total, moveIndex, review) => {
+              if (run.cancelled) return;
+              if (moveIndex === null || !review) {
+                socket.emit('review:progress', { completed, total });
+                return;
+              }
+              const nodeId = nodeIds[moveIndex];
+              reviewedGame.setMoveReview(nodeId, review);
+              socket.emit('review:progress', { completed, total, nodeId, review });
+            },
+          }
+        );
+        if (!result || run.cancelled) return;
+
+        socket.emit('review:complete', result.summary);
+        socket.emit('game:state', reviewedGame.getState());
+        if (currentSessionId) {
+          scheduleSessionSave(currentSessionId);
         }
       } catch (error) {
-        console.error('Analysis configure error:', error);
-        socket.emit('analysis:error', error instanceof Error ? error.message : 'Failed to configure analysis');
+        if (run.cancelled) return;
+        console.error('Game review error:', error);
+        socket.emit('review:error', error instanceof Error ? error.message : 'Game review failed');
+      } finally {
+        if (gameReviewRun === run) {
+          gameReviewRun = null;
+        }
       }
     });
 
+    socket.on('review:cancel', () => {
+      cancelGameReview();
+    });
+
+    function cancelGameReview() {
+      if (gameReviewRun) {
+        gameReviewRun.cancelled = true;
+        gameReviewRun = null;
+      }
+    }
+
     // Virtual mode events
     socket.on('virtual:exit', () => {
+      agentHarness.exitVirtualBoard();
       // Clear any annotations when exiting virtual mode
       socket.emit('board:clearAnnotations');
     });
@@ -546,23 +895,45 @@ export function setupSocketHandlers(io: SocketServer): void {
     });
 
     // Opening Explorer events
-    socket.on('explorer:request', async ({ fen, database }: { fen?: string; database: LichessDatabase }) => {
+    // Resolve a requested database to a local database id ('local' is the selected one)
+    const localDatabaseFor = (database: ExplorerDatabaseId, personal?: PersonalExplorerQuery): string => {
+      const id =
+        database === 'local'
+          ? selectedDatabase
+          : database === 'personal'
+            ? localDatabases.personalId(personal?.name)
+            : database;
+      if (!id || !localDatabases.has(id)) {
+        throw new Error(id ? `Local database not found: ${id}` : 'Local database not available');
+      }
+      return id;
+    };
+
+    const explorerStatus = async (): Promise<ExplorerStatus> => {
+      const databases = await localDatabases.list();
+      // Fall back to the default when the selected database went away
+      const selected = databases.find((db) => db.id === selectedDatabase) ?? databases[0];
+      if ((selected?.id ?? null) !== selectedDatabase) {
+        selectedDatabase = selected?.id ?? null;
+        agentHarness?.setLocalDatabase(selectedDatabase);
+      }
+      return {
+        localAvailable: Boolean(selected),
+        localPositionCount: selected?.positionCount,
+        localGameCount: selected?.gameCount,
+        databases,
+        selectedDatabase,
+        personalDatabases: databases
+          .filter((db) => db.kind === 'personal')
+          .map((db) => ({ name: db.id, positionCount: db.positionCount ?? 0 })),
+      };
+    };
+
+    socket.on('explorer:request', async ({ fen, database, player, color, personal, ...gameFilter }: { fen?: string; database: ExplorerDatabaseId; personal?: PersonalExplorerQuery } & LocalPlayerFilter & LocalGameFilter) => {
       try {
         const positionFen = fen || gameManager.getFEN();
         
-        if (database === 'local') {
-          // Handle local database query
-          if (!localExplorer) {
-            socket.emit('explorer:error', { 
-              error: 'Local database not available',
-              database 
-            });
-            return;
-          }
-          
-          const result = await localExplorer.query(positionFen);
-          socket.emit('explorer:result', { result, database });
-        } else {
+        if (database === 'masters' || database === 'lichess') {
           // Handle remote Lichess API query
           const explorer = getExplorer();
           
@@ -571,6 +942,14 @@ export function setupSocketHandlers(io: SocketServer): void {
             : await explorer.lichess(positionFen);
           
           socket.emit('explorer:result', { result, database });
+        } else {
+          // Handle local database query (by id, or the selected one for 'local')
+          const result = await localDatabases.query(localDatabaseFor(database, personal), positionFen, {
+            ...normalizeFilter(gameFilter),
+            player: player ?? personal?.player,
+            color: color ?? personal?.color,
+          });
+          socket.emit('explorer:result', { result, database });
         }
       } catch (error) {
         console.error('Explorer error:', error);
@@ -581,8 +960,308 @@ export function setupSocketHandlers(io: SocketServer): void {
       }
     });
     
-    socket.on('explorer:getStatus', () => {
-      socket.emit('explorer:status', localExplorerStatus);
+    socket.on('explorer:loadGame', async ({ id, database, personal }: { id: string; database: ExplorerDatabaseId; personal?: PersonalExplorerQuery }) => {
+      try {
+        // Local top games come from the game store, not lichess.org
+        const pgn = database === 'masters' || database === 'lichess'
+          ? await getGamePgn(id, database)
+          : await localDatabases.getGamePgn(localDatabaseFor(database, personal), id);
+
+        cancelGameReview();
+        stopSparring();
+        agentHarness.endVirtualBoard();
+        gameManager.loadPGN(pgn);
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        socket.emit('game:state', gameManager.getState());
+      } catch (error) {
+        socket.emit('game:error', error instanceof Error ? error.message : 'Failed to load game');
+      }
+    });
+
+    socket.on('explorer:getStatus', async () => {
+      socket.emit('explorer:status', await explorerStatus());
+    });
+
+    socket.on('explorer:listDatabases', async () => {
+      const { databases = [] } = await explorerStatus();
+      socket.emit('explorer:databases', { databases, selected: selectedDatabase });
+    });
+
+    socket.on('explorer:selectDatabase', async (id: string) => {
+      if (!localDatabases.has(id)) {
+        socket.emit('explorer:error', { error: `Local database not found: ${id}`, database: id });
+        return;
+      }
+      selectedDatabase = id;
+      agentHarness?.setLocalDatabase(id);
+      const { databases = [] } = await explorerStatus();
+      socket.emit('explorer:databases', { databases, selected: selectedDatabase });
+    });
+
+    // Repertoire events
+    socket.on('repertoire:get', (color: RepertoireColor) => {
+      socket.emit('repertoire:data', repertoireManager.getRepertoire(color));
+    });
+
+    socket.on('repertoire:addLine', (color: RepertoireColor) => {
+      try {
+        const { moves, positions } = gameManager.getFullHistory();
+        const { currentMoveIndex } = gameManager.getState();
+        repertoireManager.addLine(color, positions[0], moves.slice(0, currentMoveIndex));
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        socket.emit('repertoire:data', repertoireManager.getRepertoire(color));
+      } catch (error) {
+        socket.emit('repertoire:error', error instanceof Error ? error.message : 'Failed to add line');
+      }
+    });
+
+    socket.on('repertoire:markMove', ({ color, fen, san, isMain }: { color: RepertoireColor; fen: string; san: string; isMain: boolean }) => {
+      try {
+        repertoireManager.markMove(color, fen, san, isMain);
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        socket.emit('repertoire:data', repertoireManager.getRepertoire(color));
+      } catch (error) {
+        socket.emit('repertoire:error', error instanceof Error ? error.message : 'Failed to update move');
+      }
+    });
+
+    socket.on('repertoire:removeMove', ({ color, fen, san }: { color: RepertoireColor; fen: string; san: string }) => {
+      try {
+        repertoireManager.removeMove(color, fen, san);
+        reviewScheduler.prune(repertoireManager);
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        socket.emit('repertoire:data', repertoireManager.getRepertoire(color));
+      } catch (error) {
+        socket.emit('repertoire:error', error instanceof Error ? error.message : 'Failed to remove move');
+      }
+    });
+
+    socket.on('repertoire:exportPgn', (color: RepertoireColor) => {
+      try {
+        socket.emit('repertoire:pgn', { color, pgn: repertoireManager.exportPgn(color) });
+      } catch (error) {
+        socket.emit('repertoire:error', error instanceof Error ? error.message : 'Failed to export repertoire');
+      }
+    });
+
+    socket.on('repertoire:findGaps', async ({ color, options }: { color: RepertoireColor; options?: RepertoireGapOptions }) => {
+      try {
+        const localExplorer = selectedDatabase ? await localDatabases.get(selectedDatabase) : null;
+        const report = await buildGapReport(repertoireManager, color, options, localExplorer);
+        socket.emit('repertoire:gaps', report);
+      } catch (error) {
+        socket.emit('repertoire:error', error instanceof Error ? error.message : 'Failed to find repertoire gaps');
+      }
+    });
+
+    // Drill events
+    const emitDueCounts = () => {
+      const counts: Record<RepertoireColor, DrillDueCounts> = {
+        white: reviewScheduler.getDueCounts(repertoireManager, 'white'),
+        black: reviewScheduler.getDueCounts(repertoireManager, 'black'),
+      };
+      socket.emit('drill:dueCounts', counts);
+    };
+
+    // Let our move show on the board before the opponent replies
+    const scheduleOpponentMove = () => {
+      drillOpponentTimer = setTimeout(() => {
+        drillOpponentTimer = null;
+        if (!drillSession) return;
+        const state = drillSession.playOpponentMove();
+        socket.emit('drill:state', state);
+        if (state.status === 'opponentToMove') {
+          scheduleOpponentMove();
+        }
+      }, DRILL_OPPONENT_DELAY_MS);
+    };
+
+    const emitDrillState = () => {
+      if (!drillSession) return;
+      const state = drillSession.getState();
+      socket.emit('drill:state', state);
+      if (state.status === 'opponentToMove') {
+        scheduleOpponentMove();
+      }
+    };
+
+    function stopDrill() {
+      if (drillOpponentTimer) {
+        clearTimeout(drillOpponentTimer);
+        drillOpponentTimer = null;
+      }
+      drillSession = null;
+    }
+
+    socket.on('drill:start', (color: RepertoireColor) => {
+      try {
+        stopDrill();
+        drillSession = new DrillSession(color, repertoireManager, reviewScheduler);
+        drillSession.start();
+        emitDrillState();
+      } catch (error) {
+        stopDrill();
+        socket.emit('drill:error', error instanceof Error ? error.message : 'Failed to start drill');
+      }
+    });
+
+    socket.on('drill:move', (move: { from: string; to: string; promotion?: PieceType }) => {
+      if (!drillSession) {
+        socket.emit('drill:error', 'No drill in progress');
+        return;
+      }
+      try {
+        drillSession.playMove(move.from, move.to, move.promotion);
+        if (currentSessionId) {
+          updateSessionTimestamp(currentSessionId);
+        }
+        emitDrillState();
+        emitDueCounts();
+      } catch (error) {
+        socket.emit('drill:error', error instanceof Error ? error.message : 'Move failed');
+      }
+    });
+
+    socket.on('drill:next', () => {
+      if (!drillSession) {
+        socket.emit('drill:error', 'No drill in progress');
+        return;
+      }
+      try {
+        drillSession.start();
+        emitDrillState();
+      } catch (error) {
+        socket.emit('drill:error', error instanceof Error ? error.message : 'Failed to start line');
+      }
+    });
+
+    socket.on('drill:stop', () => {
+      stopDrill();
+      // Put the real board back
+      socket.emit('game:state', gameManager.getState());
+    });
+
+    socket.on('drill:getDueCounts', () => {
+      emitDueCounts();
+    });
+
+    // Engine sparring events
+    function playSparringReply() {
+      const opponent = sparring;
+      const replyId = ++sparringReplyId;
+      if (!opponent) return;
+
+      const fen = gameManager.getFEN();
+      if (!opponent.isOpponentTurn(fen) || gameManager.getState().isGameOver) {
+        socket.emit('sparring:state', opponent.getState());
+        return;
+      }
+
+      const reply = opponent.chooseReply(fen);
+      socket.emit('sparring:state', opponent.getState());
+      reply
+        .then((move) => {
+          // Stopped, superseded or the board moved on while thinking
+          if (sparring !== opponent || replyId !== sparringReplyId || gameManager.getFEN() !== fen) return;
+          if (!move) {
+            // The line left the database - the bot stops here
+            socket.emit('sparring:state', opponent.getState());
+            return;
+          }
+          agentHarness.endVirtualBoard();
+          const result = gameManager.makeMove(move.uci.slice(0, 2), move.uci.slice(2, 4), move.uci[4] as PieceType | undefined);
+          if (!result) {
+            socket.emit('sparring:error', `Reply ${move.san} could not be played`);
+            return;
+          }
+          if (currentSessionId) {
+            updateSessionTimestamp(currentSessionId);
+          }
+          socket.emit('game:move', result, gameManager.getState());
+          socket.emit('sparring:state', opponent.getState());
+        })
+        .catch((error) => {
+          if (sparring !== opponent || replyId !== sparringReplyId) return;
+          socket.emit('sparring:state', opponent.getState());
+          socket.emit('sparring:error', error instanceof Error ? error.message : 'Failed to choose a reply');
+        });
+    }
+
+    function stopSparring() {
+      sparringReplyId++;
+      if (sparring) {
+        sparring = null;
+        socket.emit('sparring:state', null);
+      }
+    }
+
+    socket.on('sparring:start', (config: EngineSparringConfig) => {
+      try {
+        stopSparring();
+        sparring = new EngineSparring(
+          normalizeSparringConfig(config),
+          // Takes the engine from streaming analysis, so the reply never waits for it
+          (task) => getEnginePool().withEngine(socket.id, 'play', task),
+          (fen, database) => (database === 'masters' ? getExplorer().masters(fen) : getExplorer().lichess(fen))
+        );
+        playSparringReply();
+      } catch (error) {
+        socket.emit('sparring:error', error instanceof Error ? error.message : 'Failed to start sparring');
+      }
+    });
+
+    socket.on('sparring:startDatabase', async (config: DatabaseSparringConfig) => {
+      try {
+        stopSparring();
+        const normalized = normalizeDatabaseSparringConfig(config);
+        const localExplorer = normalized.database === 'local' ? await localDatabases.get(localDatabaseFor('local')) : null;
+        sparring = new DatabaseSparring(normalized, (fen, { database, ratings, speeds }) => {
+          switch (database) {
+            case 'masters':
+              return getExplorer().masters(fen);
+            case 'lichess':
+              return getExplorer().lichess(fen, { ratings, speeds });
+            case 'local':
+              return localExplorer!.query(fen, { ratings, speeds });
+          }
+        });
+        playSparringReply();
+      } catch (error) {
+        socket.emit('sparring:error', error instanceof Error ? error.message : 'Failed to start sparring');
+      }
+    });
+
+    socket.on('sparring:stop', () => {
+      stopSparring();
+    });
+
+    // Student profile events
+    socket.on('profile:get', () => {
+      socket.emit('profile:data', studentProfile.getProfile());
+    });
+
+    socket.on('profile:update', (update: StudentProfileUpdate) => {
+      studentProfile.update(update ?? {});
+      if (currentSessionId) {
+        updateSessionTimestamp(currentSessionId);
+      }
+      socket.emit('profile:data', studentProfile.getProfile());
+    });
+
+    socket.on('profile:reset', () => {
+      studentProfile.reset();
+      if (currentSessionId) {
+        updateSessionTimestamp(currentSessionId);
+      }
+      socket.emit('profile:data', studentProfile.getProfile());
     });
 
     // Cleanup on disconnect
@@ -590,9 +1269,18 @@ export function setupSocketHandlers(io: SocketServer): void {
       console.log(`Client disconnected: ${socket.id}`);
       // Only remove socket-to-session mapping, keep session data for reconnection
       socketToSession.delete(socket.id);
-      // Clean up analysis event handlers
-      cleanupAnalysisHandlers();
-      // Note: Session data persists in memory for reconnection
+      stopDrill();
+      cancelGameReview();
+      cancelOpeningTreeStats();
+      stopSparring();
+      if (currentSessionId) {
+        void flushSessionSave(currentSessionId);
+      }
+      // Give back this socket's engines and drop its queued engine requests
+      void releaseAnalysisEngine()
+        .catch(() => {})
+        .finally(() => getEnginePool().releaseOwner(socket.id));
+      // Note: Session data stays in memory for reconnection and in the session store across restarts
       // In production, consider adding session expiration/cleanup
     });
   });
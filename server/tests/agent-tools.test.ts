@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { createTools, executeToolCall } from '../src/agent/tools/index.js';
 import { ChessManager } from '../src/chess/manager.js';
+import { VirtualBoard } from '../src/agent/virtual-board.js';
+import { StudentProfileManager } from '../src/agent/student-profile.js';
 import { createMockSocket, MockSocket } from './mocks/socket.js';
 
 describe('Agent Tools', () => {
@@ -28,14 +30,22 @@ describe('Agent Tools', () => {
       expect(toolNames).toContain('undo_moves');
       expect(toolNames).toContain('goto_move');
       expect(toolNames).toContain('set_position');
+      expect(toolNames).toContain('show_variation');
+      expect(toolNames).toContain('end_variation');
 
       // Annotation tools
       expect(toolNames).toContain('draw_arrows');
       expect(toolNames).toContain('highlight_squares');
       expect(toolNames).toContain('clear_annotations');
+      expect(toolNames).toContain('set_board_orientation');
 
       // Analysis tools
       expect(toolNames).toContain('analyze_position');
+
+      // Teaching flow tools
+      expect(toolNames).toContain('ask_multiple_choice');
+      expect(toolNames).toContain('pause_for_user');
+      expect(toolNames).toContain('update_student_profile');
     });
 
     it('should have proper parameter definitions for each tool', () => {
@@ -497,6 +507,316 @@ describe('Agent Tools', () => {
       expect(mockSocket.emit).toHaveBeenCalledWith('board:clearAnnotations');
     });
   });
+
+  describe('set_board_orientation', () => {
+    it('should declare the valid sides', () => {
+      const tool = createTools().find((t) => t.name === 'set_board_orientation')!;
+      expect(tool.parameters.properties.orientation.enum).toEqual(['white', 'black']);
+    });
+
+    it('should emit the requested orientation', async () => {
+      const result = await executeToolCall(
+        'set_board_orientation',
+        { orientation: 'black' },
+        gameManager,
+        mockSocket as any
+      );
+
+      expect(result).toMatchObject({ success: true });
+      expect(mockSocket.emit).toHaveBeenCalledWith('board:orientation', 'black');
+    });
+
+    it('should reject unknown sides', async () => {
+      const result = await executeToolCall(
+        'set_board_orientation',
+        { orientation: 'sideways' },
+        gameManager,
+        mockSocket as any
+      );
+
+      expect(result).toMatchObject({ error: expect.stringContaining('white') });
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  // =============================================================================
+  // VARIATION PREVIEW TOOLS
+  // =============================================================================
+
+  describe('show_variation', () => {
+    let virtualBoard: VirtualBoard;
+
+    beforeEach(() => {
+      virtualBoard = new VirtualBoard(mockSocket as any);
+      gameManager.makeMove('e2', 'e4');
+      gameManager.makeMove('e7', 'e5');
+      mockSocket.clearEmitted();
+    });
+
+    it('should preview a line without changing the game', async () => {
+      const fen = gameManager.getFEN();
+      const result = await executeToolCall(
+        'show_variation',
+        {
+          title: 'Scotch Game',
+          animate: false,
+          moves: [
+            { move: 'Nf3' },
+            { move: 'Nc6', comment: 'Defending e5' },
+            { move: 'd4', arrows: [{ from: 'd4', to: 'e5', color: 'red' }] },
+          ],
+        },
+        gameManager,
+        mockSocket as any,
+        { virtualBoard }
+      );
+
+      expect(result).toMatchObject({ success: true, line: '2. Nf3 Nc6 3. d4', movesShown: 3 });
+      expect(gameManager.getFEN()).toBe(fen);
+      expect(mockSocket.getEmittedEvent('virtual:start')).toEqual([fen, 2, 'Scotch Game']);
+
+      const [moves] = mockSocket.getEmittedEvent('virtual:moves') as [any[]];
+      expect(moves.map((m) => m.san)).toEqual(['Nf3', 'Nc6', 'd4']);
+      expect(moves[1].comment).toBe('Defending e5');
+      expect(moves[2].annotations).toEqual({
+        arrows: [{ from: 'd4', to: 'e5', color: 'red' }],
+        highlights: [],
+      });
+      expect(mockSocket.getEmittedEvent('game:state')).toBeUndefined();
+    });
+
+    it('should reject a line with an illegal move', async () => {
+      const result = await executeToolCall(
+        'show_variation',
+        { moves: ['Nf3', 'Nc6', 'Ke3'], animate: false },
+        gameManager,
+        mockSocket as any,
+        { virtualBoard }
+      );
+
+      expect(result).toMatchObject({ error: expect.stringContaining('"Ke3" at move 3') });
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+
+    it('should return to the game position when the preview ends', async () => {
+      const fen = gameManager.getFEN();
+      await executeToolCall('show_variation', { moves: ['Bc4'], animate: false }, gameManager, mockSocket as any, {
+        virtualBoard,
+      });
+
+      const result = await executeToolCall('end_variation', {}, gameManager, mockSocket as any, { virtualBoard });
+      expect(result).toMatchObject({ success: true, fen });
+      expect(mockSocket.emit).toHaveBeenCalledWith('virtual:end');
+      expect(virtualBoard.isActive()).toBe(false);
+
+      mockSocket.clearEmitted();
+      await executeToolCall('end_variation', {}, gameManager, mockSocket as any, { virtualBoard });
+      expect(mockSocket.emit).not.toHaveBeenCalled();
+    });
+
+    it('should stop playing the line when the user leaves the preview', async () => {
+      const line = [{ from: 'g1', to: 'f3', san: 'Nf3' }, { from: 'b8', to: 'c6', san: 'Nc6' }];
+      const shown = virtualBoard.show(gameManager.getFEN(), 2, line, { delayMs: 20 });
+      virtualBoard.exit();
+
+      expect(await shown).toBe(1);
+      expect(mockSocket.emittedEvents.filter((e) => e.event === 'virtual:moves')).toHaveLength(1);
+      expect(mockSocket.getEmittedEvent('virtual:end')).toBeUndefined();
+    });
+
+    it('should stop playing the line when the agent is interrupted', async () => {
+      const fen = gameManager.getFEN();
+      const pending = executeToolCall(
+        'show_variation',
+        { moves: ['Nf3', 'Nc6', 'Bb5'], delayMs: 500 },
+        gameManager,
+        mockSocket as any,
+        { virtualBoard }
+      );
+      virtualBoard.stop();
+
+      expect(await pending).toMatchObject({ success: true, stopped: true, movesShown: 1 });
+      expect(mockSocket.getEmittedEvent('virtual:moves')).toEqual([[expect.objectContaining({ san: 'Nf3' })], undefined, fen]);
+      expect(virtualBoard.isActive()).toBe(true);
+    });
+
+    it('should end the preview before changing the game', async () => {
+      await executeToolCall('show_variation', { moves: ['Bc4'], animate: false }, gameManager, mockSocket as any, {
+        virtualBoard,
+      });
+      mockSocket.clearEmitted();
+
+      await executeToolCall('make_move', { move: 'Nf3' }, gameManager, mockSocket as any, { virtualBoard });
+
+      expect(virtualBoard.isActive()).toBe(false);
+      expect(mockSocket.emittedEvents.map((e) => e.event)).toEqual(['virtual:end', 'game:state']);
+    });
+  });
+
+  // =============================================================================
+  // TEACHING FLOW TOOLS
+  // =============================================================================
+
+  describe('pause_for_user', () => {
+    const pauseIdOf = () => (mockSocket.getEmittedEvent('conversation:pause')![0] as { pauseId: string }).pauseId;
+
+    it('should wait until the user continues', async () => {
+      const pending = executeToolCall(
+        'pause_for_user',
+        { message: 'Ready for the answer?' },
+        gameManager,
+        mockSocket as any
+      );
+
+      expect(mockSocket.getEmittedEvent('conversation:pause')).toEqual([
+        { conversationId: '', pauseId: expect.stringMatching(/^pause-/), message: 'Ready for the answer?' },
+      ]);
+
+      mockSocket.receive('conversation:continue', 'pause-other');
+      mockSocket.receive('conversation:continue', pauseIdOf());
+
+      expect(await pending).toMatchObject({ success: true, continued: true, userInteracted: true });
+      expect(mockSocket.listenerCount('conversation:continue')).toBe(0);
+      expect(mockSocket.listenerCount('conversation:dismissPrompt')).toBe(0);
+    });
+
+    it('should stop the loop when the user dismisses the pause', async () => {
+      const pending = executeToolCall('pause_for_user', {}, gameManager, mockSocket as any);
+      mockSocket.receive('conversation:dismissPrompt', pauseIdOf());
+
+      expect(await pending).toMatchObject({ continued: false, reason: 'dismissed', stopLoop: true });
+    });
+
+    it('should be cancelled by a new message or an interrupt', async () => {
+      let cancel: (() => void) | null = null;
+      const clearPendingUserWait = vi.fn();
+      const pending = executeToolCall('pause_for_user', {}, gameManager, mockSocket as any, {
+        registerPendingUserWait: (fn) => {
+          cancel = fn;
+        },
+        clearPendingUserWait,
+      });
+
+      cancel!();
+      expect(await pending).toMatchObject({ continued: false, reason: 'cancelled', cancelled: true });
+      expect(clearPendingUserWait).toHaveBeenCalled();
+      expect(mockSocket.listenerCount('conversation:continue')).toBe(0);
+    });
+
+    it('should give up after five minutes', async () => {
+      vi.useFakeTimers();
+      try {
+        const pending = executeToolCall('pause_for_user', {}, gameManager, mockSocket as any);
+        await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+        expect(await pending).toMatchObject({ continued: false, reason: 'timeout', stopLoop: true });
+        expect(mockSocket.listenerCount('conversation:continue')).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('ask_multiple_choice quiz', () => {
+    const questionIdOf = () =>
+      (mockSocket.getEmittedEvent('conversation:multipleChoice')![0] as { questionId: string }).questionId;
+
+    it('should record the answer to a quiz question in the student profile', async () => {
+      const studentProfile = new StudentProfileManager();
+      const pending = executeToolCall(
+        'ask_multiple_choice',
+        { question: 'Best reply to 3. e5?', options: ['Bf5', 'c5', 'e6'], correct_option: 1, topic: 'Caro-Kann' },
+        gameManager,
+        mockSocket as any,
+        { studentProfile }
+      );
+
+      mockSocket.receive('conversation:answer', { questionId: questionIdOf(), answerIndex: 1 });
+
+      expect(await pending).toMatchObject({
+        answered: true,
+        correct: false,
+        correctOption: 'Bf5',
+        message: 'User selected option 2: c5 (wrong - the answer was: Bf5)',
+      });
+      expect(studentProfile.getProfile().quizAnswers).toEqual([
+        expect.objectContaining({ question: 'Best reply to 3. e5?', answer: 'c5', correct: false, topic: 'Caro-Kann' }),
+      ]);
+      expect(mockSocket.getEmittedEvent('profile:data')).toEqual([studentProfile.getProfile()]);
+    });
+
+    it('should not record questions without a correct option', async () => {
+      const studentProfile = new StudentProfileManager();
+      const pending = executeToolCall(
+        'ask_multiple_choice',
+        { question: 'What next?', options: ['Main line', 'A trap'] },
+        gameManager,
+        mockSocket as any,
+        { studentProfile }
+      );
+
+      mockSocket.receive('conversation:answer', { questionId: questionIdOf(), answerIndex: 0 });
+
+      const result = await pending;
+      expect(result).not.toHaveProperty('correct');
+      expect(studentProfile.isEmpty()).toBe(true);
+    });
+
+    it('should reject a correct option that is not one of the options', async () => {
+      const result = await executeToolCall(
+        'ask_multiple_choice',
+        { question: 'Best move?', options: ['Nf3', 'e4'], correct_option: 3 },
+        gameManager,
+        mockSocket as any
+      );
+      expect(result).toEqual({ error: 'correct_option must be between 1 and 2' });
+    });
+  });
+
+  describe('update_student_profile', () => {
+    it('should record openings, mistakes and style', async () => {
+      const studentProfile = new StudentProfileManager();
+      studentProfile.recordMistake('Forgets to castle');
+
+      const result = await executeToolCall(
+        'update_student_profile',
+        {
+          openings: [{ name: 'Caro-Kann Defense', color: 'black' }],
+          mistakes: [{ description: 'Plays ...Bg4 too early', example: '3... Bg4' }],
+          resolved_mistakes: ['Forgets to castle', 'Hangs pieces'],
+          style: 'Solid',
+        },
+        gameManager,
+        mockSocket as any,
+        { studentProfile }
+      );
+
+      expect(result).toEqual({
+        success: true,
+        recorded: ['Opening: Caro-Kann Defense', 'Mistake: Plays ...Bg4 too early (1x)', 'Resolved: Forgets to castle', 'Style: Solid'],
+        unknownMistakes: ['Hangs pieces'],
+        recordedMistakes: ['Plays ...Bg4 too early'],
+      });
+      expect(studentProfile.getProfile()).toMatchObject({
+        openings: [{ name: 'Caro-Kann Defense', color: 'black' }],
+        style: 'Solid',
+      });
+      expect(mockSocket.getEmittedEvent('profile:data')).toEqual([studentProfile.getProfile()]);
+    });
+
+    it('should require something to record', async () => {
+      const result = await executeToolCall('update_student_profile', {}, gameManager, mockSocket as any, {
+        studentProfile: new StudentProfileManager(),
+      });
+      expect(result).toHaveProperty('error');
+      expect(mockSocket.getEmittedEvent('profile:data')).toBeUndefined();
+    });
+
+    it('should report when the session has no profile', async () => {
+      const result = await executeToolCall('update_student_profile', { style: 'Solid' }, gameManager, mockSocket as any);
+      expect(result).toEqual({ error: 'No student profile available in this session' });
+    });
+  });
 });
 
 describe('Board Manipulation - Coach Workflow', () => {
@@ -161,6 +161,93 @@ describe('ChessManager', () => {
     });
   });
 
+  describe('variations', () => {
+    beforeEach(() => {
+      manager.makeMove('e2', 'e4');
+      manager.makeMove('e7', 'e5');
+      manager.makeMove('g1', 'f3');
+      manager.makeMove('b8', 'c6');
+    });
+
+    it('should keep the main line when a different move is made earlier', () => {
+      manager.navigateToMove(2);
+      manager.makeMove('f1', 'c4');
+
+      const state = manager.getState();
+      expect(state.history.map((m) => m.san)).toEqual(['e4', 'e5', 'Bc4']);
+      expect(state.currentMoveIndex).toBe(3);
+
+      // e4 -> e5 -> [Nf3 (main), Bc4 (side line)]
+      const e5 = state.moveTree[0].children[0];
+      expect(e5.children.map((n) => n.move.san)).toEqual(['Nf3', 'Bc4']);
+      expect(e5.children[0].children[0].move.san).toBe('Nc6');
+    });
+
+    it('should follow an existing continuation instead of duplicating it', () => {
+      manager.navigateToMove(2);
+      manager.makeMove('g1', 'f3');
+
+      const state = manager.getState();
+      expect(state.moveTree[0].children[0].children).toHaveLength(1);
+      expect(state.history).toHaveLength(4);
+      expect(state.currentMoveIndex).toBe(3);
+    });
+
+    it('should navigate between variations by node id', () => {
+      const mainLineNf3 = manager.getState().moveTree[0].children[0].children[0].id;
+      manager.navigateToMove(2);
+      manager.makeMove('f1', 'c4');
+
+      manager.navigateToNode(mainLineNf3);
+      const state = manager.getState();
+      expect(state.currentNodeId).toBe(mainLineNf3);
+      expect(state.history.map((m) => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+      expect(state.currentMoveIndex).toBe(3);
+    });
+
+    it('should keep following a side line when stepping back and forward', () => {
+      manager.navigateToMove(2);
+      manager.makeMove('f1', 'c4');
+      manager.makeMove('g8', 'f6');
+
+      manager.navigateToMove(2);
+      manager.navigateToMove(3);
+      expect(manager.getState().history.map((m) => m.san)).toEqual(['e4', 'e5', 'Bc4', 'Nf6']);
+    });
+
+    it('should promote a side line to the main line', () => {
+      manager.navigateToMove(2);
+      manager.makeMove('f1', 'c4');
+      manager.makeMove('g8', 'f6');
+      const nf6 = manager.getCurrentNodeId()!;
+
+      expect(manager.promoteVariation(nf6)).toBe(true);
+
+      const e5 = manager.getState().moveTree[0].children[0];
+      expect(e5.children.map((n) => n.move.san)).toEqual(['Bc4', 'Nf3']);
+      expect(manager.promoteVariation(nf6)).toBe(false);
+    });
+
+    it('should delete a variation and move back to the branch point', () => {
+      manager.navigateToMove(2);
+      manager.makeMove('f1', 'c4');
+      const bc4 = manager.getCurrentNodeId()!;
+      manager.makeMove('g8', 'f6');
+
+      manager.deleteVariation(bc4);
+
+      const state = manager.getState();
+      expect(state.moveTree[0].children[0].children.map((n) => n.move.san)).toEqual(['Nf3']);
+      expect(state.currentMoveIndex).toBe(2);
+      expect(state.history.map((m) => m.san)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    });
+
+    it('should throw on unknown node ids', () => {
+      expect(() => manager.navigateToNode('missing')).toThrow();
+      expect(() => manager.deleteVariation('missing')).toThrow();
+    });
+  });
+
   describe('getLegalMoves', () => {
     it('should return legal moves from starting position', () => {
       const moves = manager.getLegalMoves();
@@ -0,0 +1,195 @@
+/**
+ * Conversation Context Tests
+ *
+ * Verifies that:
+ * 1. Tokens are estimated per provider
+ * 2. Recent turns are sent in full and older turns are summarized
+ * 3. Bulky tool results are shortened
+ * 4. Older tool results of a turn are compacted and stale board snapshots dropped
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ConversationMessage } from '@chess/shared';
+import { ConversationContext, getContextBudget, type ContextBudget } from '../src/agent/conversation-context.js';
+import type { Message } from '../src/agent/providers/index.js';
+
+const SMALL_BUDGET: ContextBudget = {
+  maxTokens: 2_000,
+  historyTokens: 300,
+  summaryTokens: 200,
+  toolResultTokens: 200,
+  recentTurns: 2,
+};
+
+let nextId = 0;
+function message(role: 'user' | 'assistant', content: string, toolNames: string[] = []): ConversationMessage {
+  return {
+    id: `msg-${nextId++}`,
+    conversationId: 'conv-1',
+    role,
+    content,
+    timestamp: Date.now(),
+    ...(toolNames.length > 0 && {
+      toolCalls: toolNames.map((name, i) => ({ id: `call-${i}`, name, arguments: {} })),
+    }),
+  };
+}
+
+function conversation(turns: number, replyLength = 200): ConversationMessage[] {
+  return Array.from({ length: turns }, (_, i) => [
+    message('user', `Question ${i + 1}: what about move ${i + 1}?`),
+    message('assistant', `Answer ${i + 1}. ${'The idea is to control the center. '.repeat(replyLength / 35)}`, ['make_moves']),
+  ]).flat();
+}
+
+function toolMessage(name: string, result: unknown): Message {
+  return { role: 'tool', name, toolCallId: `call-${nextId++}`, content: JSON.stringify(result) };
+}
+
+describe('ConversationContext', () => {
+  it('should estimate tokens from the provider', () => {
+    const text = 'a'.repeat(700);
+    expect(new ConversationContext('anthropic').estimateTokens(text)).toBe(200);
+    expect(new ConversationContext('openai').estimateTokens(text)).toBe(175);
+    expect(new ConversationContext('unknown').estimateTokens(text)).toBe(200);
+    expect(getContextBudget('unknown')).toEqual(getContextBudget('anthropic'));
+  });
+
+  describe('buildHistory', () => {
+    it('should send a short conversation in full', () => {
+      const history = new ConversationContext('anthropic').buildHistory(conversation(3));
+
+      expect(history.summary).toBeNull();
+      expect(history.summarizedTurns).toBe(0);
+      expect(history.messages).toHaveLength(6);
+      expect(history.messages[0]).toEqual({ role: 'user', content: 'Question 1: what about move 1?' });
+    });
+
+    it('should summarize the turns that do not fit', () => {
+      const context = new ConversationContext('anthropic', SMALL_BUDGET);
+      const history = context.buildHistory(conversation(10));
+
+      // Each turn is about 75 tokens - the two recent ones plus what fits into 300
+      expect(history.messages[0].content).toBe('Question 7: what about move 7?');
+      expect(history.messages.at(-1)?.content).toMatch(/^Answer 10\./);
+      expect(history.summarizedTurns).toBe(6);
+      expect(history.summary).toContain('- User: Question 6: what about move 6?');
+      expect(history.summary).toContain('  You: Answer 6.');
+      expect(history.summary).toContain('  Tools used: make_moves');
+    });
+
+    it('should keep the summary within its budget, most recent turns first', () => {
+      const context = new ConversationContext('anthropic', SMALL_BUDGET);
+      const history = context.buildHistory(conversation(30));
+
+      expect(history.summary).toMatch(/^\(\d+ earlier turns not shown\)/);
+      expect(history.summary).toContain('Question 26');
+      expect(history.summary).not.toContain('Question 1:');
+      expect(context.estimateTokens(history.summary!)).toBeLessThan(SMALL_BUDGET.summaryTokens + 100);
+    });
+
+    it('should always send the recent turns even when they are over the budget', () => {
+      const context = new ConversationContext('anthropic', SMALL_BUDGET);
+      const history = context.buildHistory(conversation(3, 2_000));
+
+      expect(history.summarizedTurns).toBe(1);
+      expect(history.messages).toHaveLength(4);
+    });
+
+    it('should leave out tool-only replies', () => {
+      const messages = [message('user', 'Show me e4'), message('assistant', '', ['make_move']), message('user', 'Thanks')];
+      const history = new ConversationContext('anthropic').buildHistory(messages);
+
+      expect(history.messages.map((m) => m.role)).toEqual(['user', 'user']);
+    });
+  });
+
+  describe('formatToolResult', () => {
+    it('should pass small results through', () => {
+      const result = { success: true, fen: 'x' };
+      expect(new ConversationContext('anthropic', SMALL_BUDGET).formatToolResult(result)).toBe(JSON.stringify(result));
+    });
+
+    it('should shorten bulky results', () => {
+      const context = new ConversationContext('anthropic', SMALL_BUDGET);
+      const result = {
+        line: 'e4 e5 Nf3 Nc6 Bc4',
+        summary: 'All 5 moves are well-represented',
+        analysis: Array.from({ length: 40 }, (_, i) => ({ moveNumber: i, stats: { white: 40, draws: 30, black: 30 } })),
+      };
+
+      const content = context.formatToolResult(result);
+      const parsed = JSON.parse(content);
+
+      expect(context.estimateTokens(content)).toBeLessThanOrEqual(SMALL_BUDGET.toolResultTokens);
+      expect(parsed.trimmed).toBeTruthy();
+      expect(parsed.summary).toBe(result.summary);
+      expect(parsed.analysis.at(-1)).toMatch(/^… \d+ more$/);
+    });
+
+    it('should cut results that cannot be shortened by structure', () => {
+      const context = new ConversationContext('anthropic', SMALL_BUDGET);
+      const content = context.formatToolResult({ keys: Object.fromEntries(Array.from({ length: 200 }, (_, i) => [`k${i}`, i])) });
+
+      expect(context.estimateTokens(content)).toBeLessThanOrEqual(SMALL_BUDGET.toolResultTokens);
+      expect(JSON.parse(content).preview).toBeTruthy();
+    });
+  });
+
+  describe('compact', () => {
+    it('should drop board snapshots superseded by a later one', () => {
+      const context = new ConversationContext('anthropic');
+      const messages: Message[] = [
+        { role: 'user', content: 'Show me the Italian' },
+        { role: 'assistant', content: '' },
+        toolMessage('make_moves', { success: true, movesPlayed: ['e4', 'e5'], fen: 'fen-1' }),
+        { role: 'assistant', content: '' },
+        toolMessage('make_moves', { success: true, movesPlayed: ['Nf3'], fen: 'fen-2' }),
+      ];
+
+      expect(context.compact(messages)).toBe(1);
+      expect(JSON.parse(messages[2].content)).toEqual({
+        success: true,
+        movesPlayed: ['e4', 'e5'],
+        board: expect.stringContaining('current position is in the system prompt'),
+      });
+      expect(JSON.parse(messages[4].content).fen).toBe('fen-2');
+      // Nothing more to do the second time
+      expect(context.compact(messages)).toBe(0);
+    });
+
+    it('should compact the oldest tool results while over the budget', () => {
+      const context = new ConversationContext('anthropic', { ...SMALL_BUDGET, maxTokens: 400 });
+      const bulky = (summary: string) => ({ summary, details: 'x'.repeat(600) });
+      const messages: Message[] = [
+        { role: 'user', content: 'Analyze the line' },
+        { role: 'assistant', content: '' },
+        toolMessage('analyze_line', bulky('First')),
+        { role: 'assistant', content: '' },
+        toolMessage('explore_continuations', bulky('Second')),
+        { role: 'assistant', content: '' },
+        toolMessage('analyze_line', bulky('Latest')),
+      ];
+
+      expect(context.compact(messages)).toBe(2);
+      expect(JSON.parse(messages[2].content)).toEqual({ compacted: expect.any(String), summary: 'First' });
+      expect(JSON.parse(messages[4].content)).toEqual({ compacted: expect.any(String), summary: 'Second' });
+      // The latest step is what the model acts on next
+      expect(JSON.parse(messages[6].content).summary).toBe('Latest');
+    });
+
+    it('should stop compacting once the request fits', () => {
+      const context = new ConversationContext('anthropic', { ...SMALL_BUDGET, maxTokens: 450 });
+      const messages: Message[] = [
+        { role: 'user', content: 'Analyze the line' },
+        toolMessage('analyze_line', { details: 'x'.repeat(600) }),
+        toolMessage('analyze_line', { details: 'x'.repeat(600) }),
+        { role: 'assistant', content: '' },
+        toolMessage('analyze_line', { details: 'x'.repeat(600) }),
+      ];
+
+      expect(context.compact(messages)).toBe(1);
+      expect(messages[2].content).toContain('xxx');
+    });
+  });
+});
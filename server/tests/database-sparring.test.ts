@@ -0,0 +1,90 @@
+/**
+ * Database Sparring Tests
+ *
+ * Uses scripted explorer statistics, so these run without network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DatabaseSparringConfig, ExplorerResult } from '@chess/shared';
+import { DatabaseSparring, normalizeDatabaseSparringConfig, type DatabaseLookup } from '../src/database/sparring.js';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+const AFTER_E4_C5_NF3 = 'rnbqkbnr/pp1ppppp/8/2p5/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 1 2';
+
+function explorerResult(totalGames: number, moves: Array<[string, number]>): ExplorerResult {
+  return {
+    raw: {} as ExplorerResult['raw'],
+    stats: { totalGames } as ExplorerResult['stats'],
+    moves: moves.map(([san, playRate]) => ({ san, playRate }) as ExplorerResult['moves'][number]),
+    database: 'lichess',
+  };
+}
+
+function config(overrides: Partial<DatabaseSparringConfig> = {}): DatabaseSparringConfig {
+  return normalizeDatabaseSparringConfig({ color: 'white', database: 'lichess', ...overrides });
+}
+
+describe('database sparring config', () => {
+  it('should keep known filters and drop the rest', () => {
+    const normalized = config({
+      ratings: [1400, 1600, 1500 as 1400],
+      speeds: ['blitz', 'hyperbullet' as 'blitz'],
+    });
+    expect(normalized).toEqual({ color: 'white', database: 'lichess', minGames: 1, ratings: [1400, 1600], speeds: ['blitz'] });
+  });
+
+  it('should reject unknown databases', () => {
+    expect(() => config({ database: 'chessbase' as 'local' })).toThrow('database');
+  });
+});
+
+describe('DatabaseSparring', () => {
+  it('should sample replies from the filtered statistics', async () => {
+    const requests: DatabaseSparringConfig[] = [];
+    const lookup: DatabaseLookup = async (_fen, options) => {
+      requests.push(options);
+      return explorerResult(300, [
+        ['c5', 60],
+        ['e5', 40],
+      ]);
+    };
+    const sparring = new DatabaseSparring(config({ ratings: [1400, 1600] }), lookup, () => 0.7);
+
+    const reply = await sparring.chooseReply(AFTER_E4);
+
+    expect(reply).toEqual({ san: 'e5', uci: 'e7e5', source: 'book', playRate: 40 });
+    expect(requests[0].ratings).toEqual([1400, 1600]);
+    expect(sparring.getState()).toMatchObject({ opponent: 'database', lastReply: reply, leftDatabase: null });
+  });
+
+  it('should announce leaving the database and stop playing', async () => {
+    const sparring = new DatabaseSparring(config(), async () => explorerResult(0, []));
+
+    expect(sparring.isOpponentTurn(AFTER_E4_C5_NF3)).toBe(true);
+    const reply = await sparring.chooseReply(AFTER_E4_C5_NF3);
+
+    expect(reply).toBeNull();
+    expect(sparring.getState().leftDatabase).toEqual({ fen: AFTER_E4_C5_NF3, ply: 3 });
+    expect(sparring.isOpponentTurn(AFTER_E4_C5_NF3)).toBe(false);
+  });
+
+  it('should play again after taking back to before leaving the database', async () => {
+    let games = 0;
+    const sparring = new DatabaseSparring(config(), async () => explorerResult(games, [['c5', 100]]));
+
+    expect(await sparring.chooseReply(AFTER_E4_C5_NF3)).toBeNull();
+    expect(sparring.isOpponentTurn(AFTER_E4_C5_NF3)).toBe(false);
+
+    // Takeback to 1. e4 - the bot answers from there
+    expect(sparring.isOpponentTurn(AFTER_E4)).toBe(true);
+    expect(sparring.getState().leftDatabase).toBeNull();
+
+    games = 300;
+    expect(await sparring.chooseReply(AFTER_E4)).toMatchObject({ san: 'c5' });
+  });
+
+  it('should leave the database below the minimum game count', async () => {
+    const sparring = new DatabaseSparring(config({ minGames: 50 }), async () => explorerResult(20, [['c5', 100]]));
+    expect(await sparring.chooseReply(AFTER_E4)).toBeNull();
+  });
+});
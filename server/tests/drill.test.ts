@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RepertoireManager } from '../src/repertoire/manager.js';
+import { ReviewScheduler, GRADE_CORRECT, GRADE_MISTAKE } from '../src/repertoire/scheduler.js';
+import { DrillSession } from '../src/repertoire/drill.js';
+import { ChessManager } from '../src/chess/manager.js';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addLine(manager: RepertoireManager, color: 'white' | 'black', pgn: string) {
+  const game = new ChessManager();
+  game.loadPGN(pgn);
+  const { moves, positions } = game.getFullHistory();
+  manager.addLine(color, positions[0], moves);
+  return positions;
+}
+
+describe('ReviewScheduler', () => {
+  let scheduler: ReviewScheduler;
+
+  beforeEach(() => {
+    scheduler = new ReviewScheduler();
+  });
+
+  it('should grow the interval with each successful review', () => {
+    const now = 1_000_000;
+    expect(scheduler.review('white', STARTING_FEN, GRADE_CORRECT, now).interval).toBe(1);
+    expect(scheduler.review('white', STARTING_FEN, GRADE_CORRECT, now).interval).toBe(6);
+    const card = scheduler.review('white', STARTING_FEN, GRADE_CORRECT, now);
+    expect(card.interval).toBe(15);
+    expect(card.repetitions).toBe(3);
+    expect(card.dueAt).toBe(now + 15 * DAY_MS);
+  });
+
+  it('should reset a card after a lapse and lower its ease factor', () => {
+    scheduler.review('white', STARTING_FEN, GRADE_CORRECT);
+    scheduler.review('white', STARTING_FEN, GRADE_CORRECT);
+    const card = scheduler.review('white', STARTING_FEN, GRADE_MISTAKE);
+    expect(card.repetitions).toBe(0);
+    expect(card.interval).toBe(1);
+    expect(card.lapses).toBe(1);
+    expect(card.easeFactor).toBeLessThan(2.5);
+
+    for (let i = 0; i < 10; i++) {
+      scheduler.review('white', STARTING_FEN, 0);
+    }
+    expect(scheduler.getCard('white', STARTING_FEN)?.easeFactor).toBe(1.3);
+  });
+
+  it('should count new and due positions where it is our move', () => {
+    const repertoires = new RepertoireManager();
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3 Nc6 3. Bb5');
+    addLine(repertoires, 'white', '1. e4 c5 2. Nf3');
+
+    expect(scheduler.getDueCounts(repertoires, 'white')).toEqual({ due: 0, new: 4, total: 4 });
+
+    const now = Date.now();
+    scheduler.review('white', positions[0], GRADE_CORRECT, now - 2 * DAY_MS);
+    scheduler.review('white', positions[2], GRADE_CORRECT, now);
+    expect(scheduler.getDueCounts(repertoires, 'white', now)).toEqual({ due: 1, new: 2, total: 4 });
+    expect(scheduler.getDueCounts(repertoires, 'black')).toEqual({ due: 0, new: 0, total: 0 });
+  });
+
+  it('should drop cards of removed positions', () => {
+    const repertoires = new RepertoireManager();
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3');
+    scheduler.review('white', positions[0], GRADE_CORRECT);
+    scheduler.review('white', positions[2], GRADE_CORRECT);
+
+    repertoires.removeMove('white', positions[1], 'e5');
+    scheduler.prune(repertoires);
+    expect(scheduler.getAllCards().map((c) => c.fen)).toEqual([STARTING_FEN.split(' ').slice(0, 4).join(' ')]);
+  });
+});
+
+describe('DrillSession', () => {
+  let repertoires: RepertoireManager;
+  let scheduler: ReviewScheduler;
+
+  beforeEach(() => {
+    repertoires = new RepertoireManager();
+    scheduler = new ReviewScheduler();
+  });
+
+  it('should wait for our move and play the prepared reply', () => {
+    addLine(repertoires, 'white', '1. e4 e5 2. Nf3');
+    const drill = new DrillSession('white', repertoires, scheduler);
+
+    expect(drill.start().status).toBe('awaitingUser');
+
+    let state = drill.playMove('e2', 'e4');
+    expect(state.feedback).toEqual({ result: 'correct', played: 'e4', expected: 'e4' });
+    expect(state.status).toBe('opponentToMove');
+
+    state = drill.playOpponentMove();
+    expect(state.lastMove?.san).toBe('e5');
+    expect(state.status).toBe('awaitingUser');
+
+    state = drill.playMove('g1', 'f3');
+    expect(state.status).toBe('complete');
+    expect(state.correctCount).toBe(2);
+    expect(scheduler.getAllCards()).toHaveLength(2);
+  });
+
+  it('should let the board move first in a black repertoire', () => {
+    addLine(repertoires, 'black', '1. e4 c5');
+    const drill = new DrillSession('black', repertoires, scheduler);
+
+    expect(drill.start().status).toBe('opponentToMove');
+    expect(drill.playOpponentMove().status).toBe('awaitingUser');
+    expect(drill.playMove('c7', 'c5').status).toBe('complete');
+  });
+
+  it('should record mistakes and keep the position for a retry', () => {
+    addLine(repertoires, 'white', '1. e4 e5');
+    const drill = new DrillSession('white', repertoires, scheduler);
+    drill.start();
+
+    let state = drill.playMove('d2', 'd4');
+    expect(state.feedback).toEqual({ result: 'mistake', played: 'd4', expected: 'e4' });
+    expect(state.status).toBe('awaitingUser');
+    expect(state.fen).toBe(STARTING_FEN);
+    expect(state.mistakeCount).toBe(1);
+
+    // The retry is not graded again
+    state = drill.playMove('e2', 'e4');
+    expect(state.feedback?.result).toBe('correct');
+    expect(state.correctCount).toBe(0);
+
+    const card = scheduler.getCard('white', STARTING_FEN)!;
+    expect(card.lapses).toBe(1);
+    expect(card.mistakes).toEqual([expect.objectContaining({ played: 'd4', expected: 'e4' })]);
+  });
+
+  it('should ask for the main move when an alternative is played', () => {
+    addLine(repertoires, 'white', '1. e4 e5');
+    addLine(repertoires, 'white', '1. d4 d5');
+    const drill = new DrillSession('white', repertoires, scheduler);
+    drill.start();
+
+    const state = drill.playMove('d2', 'd4');
+    expect(state.feedback?.result).toBe('alternative');
+    expect(state.mistakeCount).toBe(0);
+    expect(scheduler.getAllCards()).toHaveLength(0);
+
+    expect(drill.playMove('e2', 'e4').correctCount).toBe(1);
+  });
+
+  it('should steer towards positions that are not yet learned', () => {
+    addLine(repertoires, 'white', '1. e4 e5 2. Nf3');
+    const sicilian = addLine(repertoires, 'white', '1. e4 c5 2. Nf3');
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3');
+    scheduler.review('white', positions[0], GRADE_CORRECT);
+    scheduler.review('white', positions[2], GRADE_CORRECT);
+
+    // random() = 0 would pick e5 (the first reply) if it were not already learned
+    const drill = new DrillSession('white', repertoires, scheduler, () => 0);
+    drill.start();
+    drill.playMove('e2', 'e4');
+    expect(drill.playOpponentMove().fen).toBe(sicilian[2]);
+  });
+
+  it('should refuse to drill an empty repertoire', () => {
+    const drill = new DrillSession('black', repertoires, scheduler);
+    expect(() => drill.start()).toThrow('empty');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Engine Pool Tests
+ *
+ * Uses fake engines, so these run without a Stockfish binary.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { EnginePool, type EngineLease } from '../src/engine/pool.js';
+import type { StockfishService } from '../src/engine/stockfish.js';
+
+class FakeEngine extends EventEmitter {
+  ready = false;
+  analyzing = false;
+  quitCalls = 0;
+
+  constructor(readonly id: number, private failInit = false) {
+    super();
+  }
+
+  async init() {
+    if (this.failInit) throw new Error('Stockfish binary not found');
+    this.ready = true;
+    return { name: `Fake ${this.id}`, authors: '', nnue: false, options: [] };
+  }
+
+  isReady() {
+    return this.ready;
+  }
+
+  isAnalyzing() {
+    return this.analyzing;
+  }
+
+  async stopAnalysis() {
+    this.analyzing = false;
+    return null;
+  }
+
+  async quit() {
+    this.quitCalls++;
+    this.ready = false;
+  }
+}
+
+function createPool(maxEngines: number, options: { failInit?: boolean } = {}) {
+  const engines: FakeEngine[] = [];
+  const pool = new EnginePool({
+    maxEngines,
+    createEngine: () => {
+      const engine = new FakeEngine(engines.length + 1, options.failInit);
+      engines.push(engine);
+      return engine as unknown as StockfishService;
+    },
+  });
+  return { pool, engines };
+}
+
+const idOf = (lease: EngineLease) => (lease.engine as unknown as FakeEngine).id;
+
+describe('EnginePool', () => {
+  it('should give each session its own engine up to the limit', async () => {
+    const { pool, engines } = createPool(2);
+
+    const a = await pool.acquire('tab-a', 'ui');
+    const b = await pool.acquire('tab-b', 'ui');
+
+    expect(idOf(a)).not.toBe(idOf(b));
+    expect(engines).toHaveLength(2);
+    expect(pool.getStats()).toEqual({ maxEngines: 2, engines: 2, busy: 2, queued: 0 });
+  });
+
+  it('should reuse released engines', async () => {
+    const { pool, engines } = createPool(2);
+
+    const first = await pool.acquire('tab-a', 'ui');
+    await first.release();
+    const second = await pool.acquire('tab-b', 'ui');
+
+    expect(idOf(second)).toBe(idOf(first));
+    expect(engines).toHaveLength(1);
+    expect(first.released).toBe(true);
+  });
+
+  it('should queue requests when every engine is busy', async () => {
+    const { pool } = createPool(1);
+
+    const held = await pool.acquire('tab-a', 'ui');
+    let granted: EngineLease | null = null;
+    const waiting = pool.acquire('tab-b', 'ui').then((lease) => (granted = lease));
+
+    await Promise.resolve();
+    expect(granted).toBeNull();
+    expect(pool.getStats().queued).toBe(1);
+
+    await held.release();
+    await waiting;
+    expect(granted!.ownerId).toBe('tab-b');
+  });
+
+  it('should serve agent requests before UI and batch requests', async () => {
+    const { pool } = createPool(1);
+    const held = await pool.acquire('tab-a', 'ui');
+
+    const order: string[] = [];
+    const requests = [
+      pool.acquire('review', 'batch'),
+      pool.acquire('tab-b', 'ui'),
+      pool.acquire('agent', 'agent'),
+    ].map((request) =>
+      request.then(async (lease) => {
+        order.push(lease.priority);
+        await lease.release();
+      })
+    );
+
+    await held.release();
+    await Promise.all(requests);
+    expect(order).toEqual(['agent', 'ui', 'batch']);
+  });
+
+  it('should stop running analysis when a lease is released', async () => {
+    const { pool, engines } = createPool(1);
+
+    const lease = await pool.acquire('tab-a', 'ui');
+    engines[0].analyzing = true;
+    await lease.release();
+
+    expect(engines[0].analyzing).toBe(false);
+  });
+
+  it('should preempt lower-priority leases that allow it', async () => {
+    const { pool } = createPool(1);
+
+    let uiLease: EngineLease | null = null;
+    const onPreempt = vi.fn(() => {
+      void uiLease!.release();
+    });
+    uiLease = await pool.acquire('tab-a', 'ui', { onPreempt });
+
+    const agentLease = await pool.acquire('tab-a', 'agent');
+
+    expect(onPreempt).toHaveBeenCalledTimes(1);
+    expect(uiLease.released).toBe(true);
+    expect(agentLease.priority).toBe('agent');
+  });
+
+  it('should preempt UI analysis for a sparring reply', async () => {
+    const { pool } = createPool(1);
+
+    let analysisLease: EngineLease | null = null;
+    analysisLease = await pool.acquire('tab-a', 'ui', {
+      onPreempt: () => {
+        void analysisLease!.release();
+      },
+    });
+
+    const reply = await pool.withEngine('tab-a', 'play', async (engine) => engine);
+
+    expect(analysisLease.released).toBe(true);
+    expect(reply).toBe(analysisLease.engine);
+  });
+
+  it('should not preempt leases of the same priority', async () => {
+    const { pool } = createPool(1);
+
+    const onPreempt = vi.fn();
+    await pool.acquire('tab-a', 'ui', { onPreempt });
+    void pool.acquire('tab-b', 'ui');
+    await Promise.resolve();
+
+    expect(onPreempt).not.toHaveBeenCalled();
+    expect(pool.getStats().queued).toBe(1);
+  });
+
+  it('should release leases and cancel queued requests of a session', async () => {
+    const { pool } = createPool(1);
+
+    const held = await pool.acquire('tab-a', 'ui');
+    const queued = pool.acquire('tab-a', 'agent');
+    const other = pool.acquire('tab-b', 'ui');
+
+    await pool.releaseOwner('tab-a');
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(held.released).toBe(true);
+    expect((await other).ownerId).toBe('tab-b');
+  });
+
+  it('should reject requests when an engine cannot start', async () => {
+    const { pool } = createPool(1, { failInit: true });
+
+    await expect(pool.acquire('tab-a', 'agent')).rejects.toThrow('binary not found');
+    expect(pool.getStats().engines).toBe(0);
+  });
+
+  it('should replace engines that exited', async () => {
+    const { pool, engines } = createPool(1);
+
+    const lease = await pool.acquire('tab-a', 'ui');
+    engines[0].ready = false;
+    await lease.release();
+
+    const next = await pool.acquire('tab-b', 'ui');
+    expect(idOf(next)).toBe(2);
+    expect(engines[0].quitCalls).toBe(1);
+  });
+
+  it('should release the engine after withEngine even when the task fails', async () => {
+    const { pool } = createPool(1);
+
+    await expect(
+      pool.withEngine('tab-a', 'batch', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(pool.getStats().busy).toBe(0);
+  });
+
+  it('should quit engines and reject requests after shutdown', async () => {
+    const { pool, engines } = createPool(1);
+
+    await pool.acquire('tab-a', 'ui');
+    const queued = pool.acquire('tab-b', 'ui');
+    await pool.shutdown();
+
+    await expect(queued).rejects.toThrow('shut down');
+    await expect(pool.acquire('tab-c', 'ui')).rejects.toThrow('shut down');
+    expect(engines[0].quitCalls).toBe(1);
+  });
+});
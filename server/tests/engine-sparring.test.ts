@@ -0,0 +1,163 @@
+/**
+ * Engine Sparring Tests
+ *
+ * Uses a fake engine and scripted database statistics, so these run without
+ * a Stockfish binary or network access.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnalysisOptions, EngineSparringConfig, ExplorerResult } from '@chess/shared';
+import {
+  EngineSparring,
+  normalizeSparringConfig,
+  pickBookMove,
+  plyOf,
+  MIN_ENGINE_ELO,
+  type BookLookup,
+  type EngineRunner,
+} from '../src/engine/sparring.js';
+import type { StockfishService } from '../src/engine/stockfish.js';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function explorerResult(totalGames: number, moves: Array<[string, number]>): ExplorerResult {
+  return {
+    raw: {} as ExplorerResult['raw'],
+    stats: { totalGames } as ExplorerResult['stats'],
+    moves: moves.map(([san, playRate]) => ({ san, playRate }) as ExplorerResult['moves'][number]),
+    database: 'masters',
+  };
+}
+
+/**
+ * Engine double recording option changes and searches
+ */
+function fakeEngine(bestMove: string) {
+  const options: Array<[string, unknown]> = [];
+  const searches: AnalysisOptions[] = [];
+  const engine = {
+    setOption: async (name: string, value: unknown) => {
+      options.push([name, value]);
+    },
+    analyze: async (fen: string, analysisOptions: AnalysisOptions) => {
+      searches.push(analysisOptions);
+      return { fen, bestMove, lines: [], totalTime: 1 };
+    },
+  } as unknown as StockfishService;
+  const run: EngineRunner = (task) => task(engine);
+  return { run, options, searches };
+}
+
+function config(overrides: Partial<EngineSparringConfig> = {}): EngineSparringConfig {
+  return normalizeSparringConfig({ color: 'white', moveTime: 500, ...overrides });
+}
+
+describe('sparring config', () => {
+  it('should clamp strength and think time into range', () => {
+    const normalized = normalizeSparringConfig({ color: 'black', elo: 800, skillLevel: 35, moveTime: 10 });
+    expect(normalized).toMatchObject({ color: 'black', elo: MIN_ENGINE_ELO, skillLevel: 20, moveTime: 50 });
+  });
+
+  it('should fill in book defaults and reject unknown sides', () => {
+    expect(config({ book: { database: 'lichess' } }).book).toEqual({ database: 'lichess', maxPlies: 20, minGames: 10 });
+    expect(() => normalizeSparringConfig({ color: 'red' as 'white', moveTime: 500 })).toThrow('color');
+  });
+
+  it('should count plies from the FEN move counters', () => {
+    expect(plyOf(START)).toBe(0);
+    expect(plyOf(AFTER_E4)).toBe(1);
+    expect(plyOf('r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3')).toBe(4);
+  });
+});
+
+describe('pickBookMove', () => {
+  const result = explorerResult(1000, [
+    ['e5', 50],
+    ['c5', 30],
+    ['e6', 20],
+  ]);
+
+  it('should sample moves in proportion to their play rate', () => {
+    expect(pickBookMove(result, 10, () => 0.1)!.san).toBe('e5');
+    expect(pickBookMove(result, 10, () => 0.6)!.san).toBe('c5');
+    expect(pickBookMove(result, 10, () => 0.95)!.san).toBe('e6');
+  });
+
+  it('should treat thin positions as out of theory', () => {
+    expect(pickBookMove(explorerResult(5, [['e5', 100]]), 10)).toBeNull();
+    expect(pickBookMove(explorerResult(100, []), 10)).toBeNull();
+  });
+});
+
+describe('EngineSparring', () => {
+  it('should know whose turn it is', () => {
+    const { run } = fakeEngine('e7e5');
+    const sparring = new EngineSparring(config(), run, async () => explorerResult(0, []));
+    expect(sparring.isOpponentTurn(START)).toBe(false);
+    expect(sparring.isOpponentTurn(AFTER_E4)).toBe(true);
+  });
+
+  it('should limit strength for the search and restore the engine afterwards', async () => {
+    const { run, options, searches } = fakeEngine('e7e5');
+    const sparring = new EngineSparring(config({ elo: 1500, skillLevel: 5 }), run, async () => explorerResult(0, []));
+
+    const reply = await sparring.chooseReply(AFTER_E4);
+
+    expect(reply).toEqual({ san: 'e5', uci: 'e7e5', source: 'engine' });
+    expect(searches).toEqual([{ movetime: 500, multiPv: 1 }]);
+    expect(options).toEqual([
+      ['UCI_LimitStrength', true],
+      ['UCI_Elo', 1500],
+      ['Skill Level', 5],
+      ['UCI_LimitStrength', false],
+      ['Skill Level', 20],
+    ]);
+  });
+
+  it('should play book moves until the position leaves theory', async () => {
+    const { run, searches } = fakeEngine('g8f6');
+    const lookups: string[] = [];
+    const lookupBook: BookLookup = async (fen) => {
+      lookups.push(fen);
+      return fen === AFTER_E4 ? explorerResult(500, [['c5', 100]]) : explorerResult(2, [['Nf6', 100]]);
+    };
+    const sparring = new EngineSparring(config({ book: { database: 'masters' } }), run, lookupBook, () => 0);
+
+    const book = await sparring.chooseReply(AFTER_E4);
+    expect(book).toEqual({ san: 'c5', uci: 'c7c5', source: 'book', playRate: 100 });
+    expect(sparring.getState().inBook).toBe(true);
+
+    const afterD4 = 'rnbqkbnr/pp1ppppp/8/2p5/3PP3/8/PPP2PPP/RNBQKBNR b KQkq - 0 2';
+    const engine = await sparring.chooseReply(afterD4);
+    expect(engine.source).toBe('engine');
+    expect(sparring.getState().inBook).toBe(false);
+    expect(searches).toHaveLength(1);
+
+    // Later positions skip the database entirely
+    await sparring.chooseReply('rnbqkbnr/pp1ppppp/8/8/3pP3/5N2/PPP2PPP/RNBQKB1R b KQkq - 1 3');
+    expect(lookups).toHaveLength(2);
+  });
+
+  it('should fall back to the engine when the database is unreachable', async () => {
+    const { run } = fakeEngine('e7e5');
+    const sparring = new EngineSparring(
+      config({ book: { database: 'lichess' } }),
+      run,
+      async () => {
+        throw new Error('offline');
+      }
+    );
+
+    const reply = await sparring.chooseReply(AFTER_E4);
+    expect(reply.source).toBe('engine');
+    expect(sparring.getState().inBook).toBe(true);
+  });
+
+  it('should fail when the engine has no move', async () => {
+    const { run } = fakeEngine('(none)');
+    const sparring = new EngineSparring(config(), run, async () => explorerResult(0, []));
+    await expect(sparring.chooseReply(AFTER_E4)).rejects.toThrow('no move');
+    expect(sparring.getState().thinking).toBe(false);
+  });
+});
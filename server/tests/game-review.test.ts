@@ -0,0 +1,208 @@
+/**
+ * Game Review Tests
+ *
+ * Uses scripted evaluations, so these run without a Stockfish binary.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AnalysisComplete, EngineScore } from '@chess/shared';
+import { ChessManager } from '../src/chess/manager.js';
+import {
+  classifyMove,
+  evaluatePosition,
+  moveAccuracy,
+  reviewGame,
+  scoreToCp,
+  winProbability,
+  type PositionEvaluation,
+} from '../src/engine/review.js';
+import type { StockfishService } from '../src/engine/stockfish.js';
+
+function cp(value: number): EngineScore {
+  return { type: 'cp', value };
+}
+
+/**
+ * Evaluator returning scripted White-side scores and best moves, position by position
+ */
+function scripted(steps: Array<{ score: EngineScore; bestMove: string }>) {
+  let index = 0;
+  return async (fen: string): Promise<PositionEvaluation> => {
+    const step = steps[index++];
+    return { fen, score: step.score, bestMove: step.bestMove, depth: 12 };
+  };
+}
+
+function loadLine(pgn: string) {
+  const game = new ChessManager();
+  game.loadPGN(pgn);
+  return { game, ...game.getFullHistory() };
+}
+
+describe('review scoring', () => {
+  it('should map centipawns to winning chances', () => {
+    expect(winProbability(0)).toBeCloseTo(50);
+    expect(winProbability(300)).toBeGreaterThan(70);
+    expect(winProbability(-300)).toBeCloseTo(100 - winProbability(300));
+  });
+
+  it('should cap evaluations and resolve mate scores', () => {
+    expect(scoreToCp(cp(2500), 'w')).toBe(1000);
+    expect(scoreToCp({ type: 'mate', value: -3 }, 'w')).toBe(-1000);
+    // Checkmate on the board: the side to move has lost
+    expect(scoreToCp({ type: 'mate', value: 0 }, 'b')).toBe(1000);
+  });
+
+  it('should classify by win probability drop', () => {
+    expect(classifyMove(30, true)).toBe('best');
+    expect(classifyMove(2, false)).toBe('good');
+    expect(classifyMove(6, false)).toBe('inaccuracy');
+    expect(classifyMove(12, false)).toBe('mistake');
+    expect(classifyMove(40, false)).toBe('blunder');
+  });
+
+  it('should give full accuracy for moves that keep the evaluation', () => {
+    expect(moveAccuracy(0)).toBeCloseTo(100, 0);
+    expect(moveAccuracy(50)).toBeLessThan(20);
+  });
+});
+
+describe('reviewGame', () => {
+  it('should review every move of the line and report progress', async () => {
+    const { moves, positions } = loadLine('1. e4 e5 2. Qh5 Nc6 3. Qxf7+');
+    const progress: Array<[number, number, number | null]> = [];
+
+    const result = await reviewGame(
+      positions,
+      moves,
+      scripted([
+        { score: cp(30), bestMove: 'e2e4' },
+        { score: cp(30), bestMove: 'e7e5' },
+        { score: cp(30), bestMove: 'g1f3' },
+        // 2. Qh5 drops a little
+        { score: cp(-50), bestMove: 'b8c6' },
+        { score: cp(-50), bestMove: 'g1f3' },
+        // 3. Qxf7+ throws the queen away
+        { score: cp(-900), bestMove: 'e8f7' },
+      ]),
+      { onProgress: (completed, total, moveIndex) => progress.push([completed, total, moveIndex]) }
+    );
+
+    expect(result!.reviews.map((r) => r.classification)).toEqual([
+      'best',
+      'best',
+      'inaccuracy',
+      'best',
+      'blunder',
+    ]);
+    expect(result!.reviews[4].cpLoss).toBe(850);
+    expect(result!.reviews[4].bestMoveSan).toBe('Nf3');
+    expect(progress[0]).toEqual([1, 6, null]);
+    expect(progress[5]).toEqual([6, 6, 4]);
+  });
+
+  it('should measure losses from the mover side', async () => {
+    const { moves, positions } = loadLine('1. e4 f6');
+
+    const result = await reviewGame(
+      positions,
+      moves,
+      scripted([
+        { score: cp(30), bestMove: 'e2e4' },
+        { score: cp(30), bestMove: 'e7e5' },
+        { score: cp(250), bestMove: 'd2d4' },
+      ])
+    );
+
+    expect(result!.reviews[1].cpLoss).toBe(220);
+    expect(result!.reviews[1].classification).toBe('blunder');
+    expect(result!.summary.black.blunders).toBe(1);
+    expect(result!.summary.white.accuracy).toBeGreaterThan(result!.summary.black.accuracy);
+  });
+
+  it('should treat delivering checkmate as the best outcome', async () => {
+    const { moves, positions } = loadLine('1. f3 e5 2. g4 Qh4#');
+
+    const result = await reviewGame(
+      positions,
+      moves,
+      scripted([
+        { score: cp(0), bestMove: 'e2e4' },
+        { score: cp(-60), bestMove: 'e7e5' },
+        { score: cp(-60), bestMove: 'e1f2' },
+        { score: { type: 'mate', value: -1 }, bestMove: 'd8h4' },
+        { score: { type: 'mate', value: 0 }, bestMove: '' },
+      ])
+    );
+
+    expect(result!.reviews[3]).toMatchObject({ classification: 'best', cpLoss: 0 });
+    expect(result!.reviews[2].classification).toBe('blunder');
+  });
+
+  it('should stop when cancelled', async () => {
+    const { moves, positions } = loadLine('1. e4 e5 2. Nf3');
+    let evaluated = 0;
+
+    const result = await reviewGame(
+      positions,
+      moves,
+      async (fen) => {
+        evaluated++;
+        return { fen, score: cp(0), bestMove: '', depth: 1 };
+      },
+      { isCancelled: () => evaluated >= 2 }
+    );
+
+    expect(result).toBeNull();
+    expect(evaluated).toBe(2);
+  });
+});
+
+describe('evaluatePosition', () => {
+  const fakeEngine = (value: number) =>
+    ({
+      analyze: async (fen: string): Promise<AnalysisComplete> => ({
+        fen,
+        bestMove: 'e7e5',
+        lines: [{ pv: 1, depth: 14, seldepth: 14, score: cp(value), nodes: 0, nps: 0, time: 0, moves: ['e7e5'] }],
+        totalTime: 1,
+      }),
+    }) as unknown as StockfishService;
+
+  it('should convert side-to-move scores to White side', async () => {
+    const { positions } = loadLine('1. e4');
+    const evaluation = await evaluatePosition(fakeEngine(40), positions[1], 14);
+    expect(evaluation.score).toEqual(cp(-40));
+    expect(evaluation.bestMove).toBe('e7e5');
+  });
+
+  it('should not search finished games', async () => {
+    const { positions } = loadLine('1. f3 e5 2. g4 Qh4#');
+    const evaluation = await evaluatePosition(fakeEngine(40), positions[4]);
+    expect(evaluation.score).toEqual({ type: 'mate', value: 0 });
+  });
+});
+
+describe('ChessManager move reviews', () => {
+  it('should store reviews on move nodes and expose them in the move tree', () => {
+    const { game, nodeIds } = loadLine('1. e4 e5');
+    const review = {
+      classification: 'good' as const,
+      cpLoss: 5,
+      winChanceLoss: 0.5,
+      accuracy: 98,
+      evalBefore: cp(20),
+      evalAfter: cp(15),
+      bestMove: 'g1f3',
+      depth: 12,
+    };
+
+    expect(game.setMoveReview(nodeIds[1], review)).toBe(true);
+    expect(game.setMoveReview('missing', review)).toBe(false);
+    expect(game.getState().moveTree[0].children[0].review).toEqual(review);
+
+    const restored = new ChessManager();
+    restored.restore(game.snapshot());
+    expect(restored.getMoveTree()[0].children[0].review).toEqual(review);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Local Explorer Checkpoint Tests
+ *
+ * Verifies that:
+ * 1. PGN lines carry the byte offset they end at (LF, CRLF, multi-byte text)
+ * 2. Checkpointed runs commit the offset, games and batches with each write
+ * 3. An interrupted run resumes from its checkpoint without counting a game twice
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync, existsSync, mkdirSync, writeFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  openRocksStore,
+  parallelIndexPgnFile,
+  readPgnLines,
+  skipBytes,
+  streamPgnFileWithOffsets,
+  readCheckpoint,
+  commitCheckpoint,
+  STARTING_POSITION_HASH,
+} from '../src/database/local-explorer/index.js';
+import type { PgnLine } from '../src/database/local-explorer/index.js';
+
+const ROOT_DIR = join(tmpdir(), 'chess-checkpoint-' + Date.now());
+const PGN_PATH = join(ROOT_DIR, 'lichess_db_standard_rated_2026-01.pgn');
+const GAME_COUNT = 30;
+
+const OPENINGS = ['1. e4 e5 2. Nf3 Nc6', '1. d4 d5 2. c4 e6', '1. e4 c5 2. Nf3 d6', '1. c4 e5 2. Nc3 Nf6'];
+const RESULTS = ['1-0', '0-1', '1/2-1/2'];
+
+function pgnGame(i: number): string {
+  const result = RESULTS[i % RESULTS.length];
+  return `[Event "Rated Blitz game"]
+[Site "https://lichess.org/game${String(i).padStart(4, '0')}"]
+[UTCDate "2026.01.${String((i % 28) + 1).padStart(2, '0')}"]
+[WhiteElo "${1800 + i * 10}"]
+[BlackElo "${1800 + i * 10}"]
+[TimeControl "180+0"]
+[Result "${result}"]
+
+${OPENINGS[i % OPENINGS.length]} ${result}
+`;
+}
+
+async function* chunksOf(text: string, size: number): AsyncGenerator<Buffer> {
+  const bytes = Buffer.from(text, 'utf8');
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
+const indexConfig = { storePath: '', workerCount: 1, gamesPerBatch: 4, batchSize: 20, checkpoints: true };
+
+beforeAll(() => {
+  rmSync(ROOT_DIR, { recursive: true, force: true });
+  mkdirSync(ROOT_DIR, { recursive: true });
+  writeFileSync(PGN_PATH, Array.from({ length: GAME_COUNT }, (_, i) => pgnGame(i)).join('\n'));
+});
+
+afterAll(() => {
+  if (existsSync(ROOT_DIR)) {
+    rmSync(ROOT_DIR, { recursive: true, force: true });
+  }
+});
+
+describe('PGN line offsets', () => {
+  it('should end each line at its byte offset across chunks', async () => {
+    const text = '[White "Müller"]\r\n\r\n1. e4 e5\nlast';
+    const lines = await collect<PgnLine>(readPgnLines(chunksOf(text, 3)));
+
+    expect(lines.map((l) => l.text)).toEqual(['[White "Müller"]', '', '1. e4 e5', 'last']);
+    // "ü" is two bytes
+    expect(lines.map((l) => l.offset)).toEqual([19, 21, 30, 34]);
+    expect(Buffer.byteLength(text)).toBe(34);
+  });
+
+  it('should number lines from the start offset after skipping', async () => {
+    const text = 'one\ntwo\nthree\n';
+    const lines = await collect<PgnLine>(readPgnLines(skipBytes(chunksOf(text, 2), 4), 4));
+    expect(lines).toEqual([
+      { text: 'two', offset: 8 },
+      { text: 'three', offset: 14 },
+    ]);
+  });
+
+  it('should stream games from an offset', async () => {
+    const all = await collect(streamPgnFileWithOffsets(PGN_PATH));
+    expect(all).toHaveLength(GAME_COUNT);
+    expect(all[GAME_COUNT - 1].offset).toBe(statSync(PGN_PATH).size);
+
+    const rest = await collect(streamPgnFileWithOffsets(PGN_PATH, { startOffset: all[9].offset }));
+    expect(rest.map((g) => g.game.id)).toEqual(all.slice(10).map((g) => g.game.id));
+  });
+});
+
+describe('Checkpointed indexing', () => {
+  let expected: { white: number; draws: number; black: number } | null;
+
+  beforeAll(async () => {
+    const store = await openRocksStore({ path: join(ROOT_DIR, 'full.rocks'), autoFlush: false });
+    const stats = await parallelIndexPgnFile(PGN_PATH, store, indexConfig);
+    expect(stats.gamesProcessed).toBe(GAME_COUNT);
+    expected = await store.getPosition(STARTING_POSITION_HASH);
+    await store.close();
+  });
+
+  it('should commit the end of the file with the last batch', async () => {
+    const store = await openRocksStore({ path: join(ROOT_DIR, 'full.rocks') });
+    const checkpoint = await readCheckpoint(store, PGN_PATH);
+    await store.close();
+
+    expect(checkpoint).toMatchObject({
+      source: 'lichess_db_standard_rated_2026-01.pgn',
+      byteOffset: statSync(PGN_PATH).size,
+      gamesProcessed: GAME_COUNT,
+      gamesSkipped: 0,
+    });
+    expect(checkpoint!.batchesFlushed).toBeGreaterThan(1);
+    expect(expected).toEqual({ white: 10, draws: 10, black: 10 });
+  });
+
+  it('should resume an interrupted run from its checkpoint', async () => {
+    const path = join(ROOT_DIR, 'interrupted.rocks');
+
+    // Interrupt after the first committed batch
+    let store = await openRocksStore({ path, autoFlush: false });
+    await expect(
+      parallelIndexPgnFile(PGN_PATH, store, {
+        ...indexConfig,
+        onProgress: () => {
+          throw new Error('interrupted');
+        },
+      })
+    ).rejects.toThrow('interrupted');
+    await store.close();
+
+    store = await openRocksStore({ path, autoFlush: false });
+    const checkpoint = (await readCheckpoint(store, PGN_PATH))!;
+    expect(checkpoint.batchesFlushed).toBe(1);
+    expect(checkpoint.gamesProcessed).toBeLessThan(GAME_COUNT);
+    expect(checkpoint.byteOffset).toBeLessThan(statSync(PGN_PATH).size);
+
+    const stats = await parallelIndexPgnFile(PGN_PATH, store, indexConfig);
+    expect(stats.resumedFrom).toBe(checkpoint.byteOffset);
+    expect(stats.gamesProcessed).toBe(GAME_COUNT);
+    expect(await store.getPosition(STARTING_POSITION_HASH)).toEqual(expected);
+    await store.close();
+  });
+
+  it('should not count games again when rerun after finishing', async () => {
+    const store = await openRocksStore({ path: join(ROOT_DIR, 'full.rocks'), autoFlush: false });
+    const stats = await parallelIndexPgnFile(PGN_PATH, store, indexConfig);
+    expect(stats.gamesProcessed).toBe(GAME_COUNT);
+    expect(await store.getPosition(STARTING_POSITION_HASH)).toEqual(expected);
+    await store.close();
+  });
+
+  it('should ignore a checkpoint for another file', async () => {
+    const store = await openRocksStore({ path: join(ROOT_DIR, 'other.rocks'), autoFlush: false });
+    await commitCheckpoint(store, {
+      source: 'lichess_db_standard_rated_2025-12.pgn',
+      byteOffset: 100,
+      gamesProcessed: 1,
+      gamesSkipped: 0,
+      positionsIndexed: 4,
+      batchesFlushed: 1,
+    });
+
+    expect(await readCheckpoint(store, PGN_PATH)).toBeNull();
+    expect((await readCheckpoint(store))!.byteOffset).toBe(100);
+    await store.close();
+  });
+});
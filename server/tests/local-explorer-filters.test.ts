@@ -0,0 +1,192 @@
+/**
+ * Local Explorer Filter Tests
+ *
+ * Verifies that:
+ * 1. PGN headers map to Lichess rating buckets, speeds and months
+ * 2. Segments round-trip through their key encoding
+ * 3. Filtered queries sum only matching games (memory, RocksDB and LMDB)
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  MemoryStore,
+  createLocalExplorer,
+  openRocksStore,
+  compact,
+  indexGames,
+  parseGamesFromString,
+  ratingBucket,
+  speedFromTimeControl,
+  monthFromDate,
+  encodeSegment,
+  decodeSegment,
+  matchesFilter,
+  normalizeFilter,
+  STARTING_POSITION_HASH,
+} from '../src/database/local-explorer/index.js';
+import type { LocalExplorer } from '../src/database/local-explorer/index.js';
+import type { ParsedGame } from '../src/database/local-explorer/types.js';
+
+const ROCKS_PATH = join(tmpdir(), 'chess-filters-rocks-' + Date.now());
+const LMDB_PATH = join(tmpdir(), 'chess-filters-lmdb-' + Date.now());
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function cleanupDb(path: string) {
+  if (existsSync(path)) {
+    rmSync(path, { recursive: true, force: true });
+  }
+}
+
+const testGames: ParsedGame[] = [
+  { moves: ['e4', 'e5'], result: 'white', averageRating: 1850, speed: 'blitz', month: '2024-01' },
+  { moves: ['e4', 'c5'], result: 'black', averageRating: 1950, speed: 'blitz', month: '2024-03' },
+  { moves: ['d4', 'd5'], result: 'draw', averageRating: 1900, speed: 'rapid', month: '2024-03' },
+  { moves: ['e4', 'e5'], result: 'draw', averageRating: 2300, speed: 'blitz', month: '2024-06' },
+  { moves: ['c4', 'e5'], result: 'white' },
+];
+
+describe('Segment classification', () => {
+  it('should bucket ratings like the Lichess explorer', () => {
+    expect(ratingBucket(850)).toBe(400);
+    expect(ratingBucket(1000)).toBe(1000);
+    expect(ratingBucket(1999)).toBe(1800);
+    expect(ratingBucket(2700)).toBe(2500);
+  });
+
+  it('should derive speed from the TimeControl header', () => {
+    expect(speedFromTimeControl('15+0')).toBe('ultraBullet');
+    expect(speedFromTimeControl('60+0')).toBe('bullet');
+    expect(speedFromTimeControl('180+2')).toBe('blitz');
+    expect(speedFromTimeControl('600+5')).toBe('rapid');
+    expect(speedFromTimeControl('1800+30')).toBe('classical');
+    expect(speedFromTimeControl('-')).toBe('correspondence');
+    expect(speedFromTimeControl('?')).toBeUndefined();
+    expect(speedFromTimeControl(undefined)).toBeUndefined();
+  });
+
+  it('should read months from PGN and filter dates', () => {
+    expect(monthFromDate('2024.03.15')).toBe('2024-03');
+    expect(monthFromDate('2024-03')).toBe('2024-03');
+    expect(monthFromDate('2024.??.??')).toBeUndefined();
+  });
+
+  it('should parse speed and month from PGN headers', () => {
+    const [game] = parseGamesFromString(`[Event "Rated Blitz game"]
+[UTCDate "2024.02.11"]
+[WhiteElo "1800"]
+[BlackElo "1900"]
+[TimeControl "300+0"]
+[Result "1-0"]
+
+1. e4 e5 1-0
+`);
+
+    expect(game).toMatchObject({ averageRating: 1850, speed: 'blitz', month: '2024-02' });
+  });
+
+  it('should round-trip segments through their key encoding', () => {
+    const segment = { rating: 1800 as const, speed: 'rapid' as const, month: '2023-12' };
+    expect(decodeSegment(encodeSegment(segment))).toEqual(segment);
+    expect(decodeSegment(encodeSegment({}))).toEqual({});
+  });
+
+  it('should exclude games missing a filtered field', () => {
+    expect(matchesFilter({}, {})).toBe(true);
+    expect(matchesFilter({ speed: 'blitz' }, { ratings: [1800] })).toBe(false);
+    expect(matchesFilter({ rating: 1800 }, { since: '2024-01' })).toBe(false);
+    expect(matchesFilter({ month: '2024-01' }, { since: '2024-01-15', until: '2024-01' })).toBe(true);
+  });
+
+  it('should drop unknown values from requested filters', () => {
+    expect(normalizeFilter({
+      ratings: [1800, 1900 as 1800],
+      speeds: ['blitz', 'hyperbullet' as 'blitz'],
+      since: '2024-01-15',
+      until: 'yesterday',
+      player: 'me',
+    })).toEqual({ ratings: [1800], speeds: ['blitz'], since: '2024-01' });
+    expect(normalizeFilter({ ratings: [], speeds: [] })).toEqual({});
+  });
+});
+
+describe('MemoryStore filters', () => {
+  it('should sum only matching segments', async () => {
+    const store = new MemoryStore();
+    await indexGames(testGames, store);
+
+    expect(await store.getPosition(STARTING_POSITION_HASH)).toEqual({ white: 2, draws: 2, black: 1 });
+    expect(await store.getPosition(STARTING_POSITION_HASH, { speeds: ['blitz'] })).toEqual({
+      white: 1,
+      draws: 1,
+      black: 1,
+    });
+    expect(await store.getPosition(STARTING_POSITION_HASH, { speeds: ['bullet'] })).toBeNull();
+
+    const moves = await store.getMoves(STARTING_POSITION_HASH, { ratings: [1800] });
+    expect(moves.map((m) => [m.uci, m.white + m.draws + m.black])).toEqual([
+      ['e2e4', 2],
+      ['d2d4', 1],
+    ]);
+  });
+});
+
+describe('LocalExplorer filters', () => {
+  let explorer: LocalExplorer;
+
+  beforeAll(async () => {
+    cleanupDb(ROCKS_PATH);
+    cleanupDb(LMDB_PATH);
+
+    const rocksStore = await openRocksStore({ path: ROCKS_PATH });
+    await indexGames(testGames, rocksStore);
+
+    // Filtered reads from RocksDB merge pending writes with disk
+    expect(await rocksStore.getPosition(STARTING_POSITION_HASH, { ratings: [2200] })).toEqual({
+      white: 0,
+      draws: 1,
+      black: 0,
+    });
+    await rocksStore.close();
+
+    await compact({ sourcePath: ROCKS_PATH, targetPath: LMDB_PATH });
+    explorer = await createLocalExplorer(LMDB_PATH);
+  });
+
+  afterAll(async () => {
+    await explorer.close();
+    cleanupDb(ROCKS_PATH);
+    cleanupDb(LMDB_PATH);
+  });
+
+  it('should keep unfiltered queries on the aggregate entries', async () => {
+    const result = await explorer.query(STARTING_FEN);
+    expect(result.stats.totalGames).toBe(5);
+    expect(result.moves[0].san).toBe('e4');
+    expect(result.moves).toHaveLength(3);
+  });
+
+  it('should filter by rating bucket and speed', async () => {
+    const result = await explorer.query(STARTING_FEN, { ratings: [1800, 2000], speeds: ['blitz'] });
+
+    expect(result.stats.totalGames).toBe(2);
+    expect(result.moves).toHaveLength(1);
+    expect(result.moves[0]).toMatchObject({ san: 'e4', totalGames: 2, playRate: 100, averageRating: 1900 });
+  });
+
+  it('should filter by month range', async () => {
+    const result = await explorer.query(STARTING_FEN, { since: '2024-02', until: '2024-05' });
+
+    expect(result.stats.totalGames).toBe(2);
+    expect(result.moves.map((m) => m.san).sort()).toEqual(['d4', 'e4']);
+  });
+
+  it('should return an empty result when nothing matches', async () => {
+    const result = await explorer.query(STARTING_FEN, { speeds: ['correspondence'] });
+    expect(result.stats.totalGames).toBe(0);
+    expect(result.moves).toEqual([]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Local Explorer Merge Tests
+ *
+ * Verifies that:
+ * 1. Source manifests are written with RocksDB batches and survive compaction
+ * 2. Merging two compacted LMDB databases sums their stats
+ * 3. A source already included in the target is never merged twice
+ * 4. A merge that fails partway keeps the source from being merged again
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync, existsSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  createLocalExplorer,
+  openRocksStore,
+  openLmdbStore,
+  compact,
+  verifyCompaction,
+  merge,
+  indexPgnString,
+  readManifest,
+  addToManifest,
+  findIncludedSources,
+  sourceName,
+  STARTING_POSITION_HASH,
+} from '../src/database/local-explorer/index.js';
+import type { ManifestEntry } from '../src/database/local-explorer/index.js';
+
+const ROOT_DIR = join(tmpdir(), 'chess-merge-' + Date.now());
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function pgnGame(site: string, rating: number, result: string, moves: string, date: string): string {
+  return `[Event "Rated Blitz game"]
+[Site "https://lichess.org/${site}"]
+[UTCDate "${date}"]
+[White "w${site}"]
+[Black "b${site}"]
+[WhiteElo "${rating}"]
+[BlackElo "${rating}"]
+[TimeControl "180+0"]
+[Result "${result}"]
+
+${moves} ${result}
+`;
+}
+
+const DECEMBER = [
+  pgnGame('dec00001', 2200, '1-0', '1. e4 e5 2. Nf3', '2025.12.01'),
+  pgnGame('dec00002', 1600, '0-1', '1. e4 c5', '2025.12.02'),
+].join('\n');
+
+const JANUARY = [
+  pgnGame('jan00001', 2500, '1/2-1/2', '1. e4 e5 2. Nf3', '2026.01.01'),
+  pgnGame('jan00002', 1800, '1-0', '1. d4 d5', '2026.01.02'),
+].join('\n');
+
+function entry(source: string, games: number): ManifestEntry {
+  return { source, games, addedAt: new Date().toISOString() };
+}
+
+/**
+ * Index PGN into RocksDB with a manifest entry, then compact it to LMDB
+ */
+async function buildMonth(name: string, pgn: string, source: string): Promise<string> {
+  const rocksPath = join(ROOT_DIR, `${name}.rocks`);
+  const lmdbPath = join(ROOT_DIR, `${name}.lmdb`);
+
+  const store = await openRocksStore({ path: rocksPath });
+  await indexPgnString(pgn, store);
+  await addToManifest(store, [entry(source, 2)]);
+  await store.close();
+
+  const result = await compact({ sourcePath: rocksPath, targetPath: lmdbPath });
+  expect(result.success).toBe(true);
+  return lmdbPath;
+}
+
+beforeAll(() => {
+  rmSync(ROOT_DIR, { recursive: true, force: true });
+  mkdirSync(ROOT_DIR, { recursive: true });
+});
+
+afterAll(() => {
+  if (existsSync(ROOT_DIR)) {
+    rmSync(ROOT_DIR, { recursive: true, force: true });
+  }
+});
+
+describe('Source manifest', () => {
+  it('should name sources by file name', () => {
+    expect(sourceName('/data/lichess_db_standard_rated_2025-12.pgn.zst')).toBe('lichess_db_standard_rated_2025-12.pgn.zst');
+  });
+
+  it('should write the manifest with the pending RocksDB batch', async () => {
+    const rocksPath = join(ROOT_DIR, 'manifest.rocks');
+    const store = await openRocksStore({ path: rocksPath });
+
+    expect(await readManifest(store)).toEqual([]);
+    await addToManifest(store, [entry('a.pgn.zst', 10)]);
+    // Visible before the flush, like pending stats
+    expect(await findIncludedSources(store, ['/tmp/a.pgn.zst', '/tmp/b.pgn.zst'])).toEqual(['a.pgn.zst']);
+    await store.close();
+
+    const reopened = await openRocksStore({ path: rocksPath });
+    expect((await readManifest(reopened)).map((e) => e.source)).toEqual(['a.pgn.zst']);
+    await expect(addToManifest(reopened, [entry('a.pgn.zst', 10)])).rejects.toThrow('already included');
+    await reopened.close();
+  });
+
+  it('should carry the manifest through compaction', async () => {
+    const lmdbPath = await buildMonth('compacted', DECEMBER, 'dec.pgn.zst');
+
+    const verification = await verifyCompaction(join(ROOT_DIR, 'compacted.rocks'), lmdbPath);
+    expect(verification.differences).toEqual([]);
+
+    const lmdb = openLmdbStore({ path: lmdbPath, readOnly: true });
+    expect((await readManifest(lmdb)).map((e) => e.source)).toEqual(['dec.pgn.zst']);
+    expect((await lmdb.getStats()).metaCount).toBe(1);
+    await lmdb.close();
+  });
+});
+
+describe('Merging LMDB databases', () => {
+  let targetPath: string;
+  let januaryPath: string;
+
+  beforeAll(async () => {
+    targetPath = await buildMonth('lichess', DECEMBER, 'dec.pgn.zst');
+    januaryPath = await buildMonth('january', JANUARY, 'jan.pgn.zst');
+  });
+
+  it('should sum stats into the target', async () => {
+    const result = await merge({ sourcePath: januaryPath, targetPath, batchSize: 3 });
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.positionsMerged).toBeGreaterThan(0);
+    // Only the position after 1. d4 is new to the target
+    expect(result.positionsAdded).toBe(1);
+
+    const explorer = await createLocalExplorer(targetPath);
+    try {
+      const start = await explorer.query(STARTING_FEN);
+      expect(start.stats.totalGames).toBe(4);
+      const e4 = start.moves.find((m) => m.san === 'e4')!;
+      expect(e4).toMatchObject({ white: 1, draws: 1, black: 1 });
+      expect(e4.averageRating).toBe(Math.round((2200 + 1600 + 2500) / 3));
+
+      // Segment entries are summed too
+      const january = await explorer.query(STARTING_FEN, { since: '2026-01' });
+      expect(january.stats.totalGames).toBe(2);
+
+      // Top games from both months, best rated first, with their games
+      const afterE4 = await explorer.query(AFTER_E4);
+      expect(afterE4.raw.topGames.map((g) => g.id)).toEqual(['jan00001', 'dec00001', 'dec00002']);
+      expect(await explorer.getGamePgn('jan00001')).toContain('1/2-1/2');
+    } finally {
+      await explorer.close();
+    }
+  });
+
+  it('should combine the manifests', async () => {
+    const lmdb = openLmdbStore({ path: targetPath, readOnly: true });
+    expect((await readManifest(lmdb)).map((e) => e.source)).toEqual(['dec.pgn.zst', 'jan.pgn.zst']);
+    expect(await lmdb.getPosition(STARTING_POSITION_HASH)).toEqual({ white: 2, draws: 1, black: 1 });
+    await lmdb.close();
+  });
+
+  it('should refuse to merge a source twice', async () => {
+    const result = await merge({ sourcePath: januaryPath, targetPath });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('jan.pgn.zst');
+
+    const lmdb = openLmdbStore({ path: targetPath, readOnly: true });
+    expect(await lmdb.getPosition(STARTING_POSITION_HASH)).toEqual({ white: 2, draws: 1, black: 1 });
+    await lmdb.close();
+  });
+
+  it('should refuse to merge again after a merge failed partway', async () => {
+    const partialPath = await buildMonth('partial', DECEMBER, 'dec.pgn.zst');
+
+    const failed = await merge({
+      sourcePath: januaryPath,
+      targetPath: partialPath,
+      batchSize: 1,
+      onProgress: () => {
+        throw new Error('disk full');
+      },
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.error).toContain('disk full');
+
+    const lmdb = openLmdbStore({ path: partialPath, readOnly: true });
+    expect(await readManifest(lmdb)).toEqual([
+      expect.objectContaining({ source: 'dec.pgn.zst' }),
+      expect.objectContaining({ source: 'jan.pgn.zst', mergeInProgress: true }),
+    ]);
+    const partial = await lmdb.getPosition(STARTING_POSITION_HASH);
+    await lmdb.close();
+
+    const retry = await merge({ sourcePath: januaryPath, targetPath: partialPath });
+    expect(retry.success).toBe(false);
+    expect(retry.error).toContain('failed partway');
+
+    const after = openLmdbStore({ path: partialPath, readOnly: true });
+    expect(await after.getPosition(STARTING_POSITION_HASH)).toEqual(partial);
+    await after.close();
+  });
+
+  it('should create a missing target', async () => {
+    const copyPath = join(ROOT_DIR, 'copy.lmdb');
+    const result = await merge({ sourcePath: januaryPath, targetPath: copyPath });
+    expect(result.success).toBe(true);
+    expect(result.positionsAdded).toBe(result.positionsMerged);
+
+    const lmdb = openLmdbStore({ path: copyPath, readOnly: true });
+    expect(await lmdb.getPosition(STARTING_POSITION_HASH)).toEqual({ white: 1, draws: 1, black: 0 });
+    await lmdb.close();
+  });
+});
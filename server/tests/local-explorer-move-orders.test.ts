@@ -0,0 +1,95 @@
+/**
+ * Move Order Tests
+ *
+ * Verifies that:
+ * 1. Move orders reaching a transposed position are found, most common first
+ * 2. The position's games are split between them by estimated share
+ * 3. Rare, unreachable and unknown positions are handled
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Chess } from 'chess.js';
+import { MemoryStore, indexPgnString, findMoveOrders, formatMoveOrder } from '../src/database/local-explorer/index.js';
+
+const NIMZO = ['d4', 'Nf6', 'c4', 'e6', 'Nc3', 'Bb4'];
+const NIMZO_VIA_ENGLISH = ['c4', 'e6', 'Nc3', 'Nf6', 'd4', 'Bb4'];
+
+function pgnGame(moves: string[], result: string): string {
+  return `[Event "Casual game"]
+[Result "${result}"]
+
+${formatMoveOrder(moves)} ${result}
+`;
+}
+
+function fenAfter(moves: string[]): string {
+  const chess = new Chess();
+  for (const move of moves) chess.move(move);
+  return chess.fen();
+}
+
+describe('findMoveOrders', () => {
+  const store = new MemoryStore();
+  const nimzoFen = fenAfter(NIMZO);
+
+  beforeAll(async () => {
+    const games = [
+      pgnGame([...NIMZO, 'e3'], '1-0'),
+      pgnGame([...NIMZO, 'Qc2'], '0-1'),
+      pgnGame([...NIMZO, 'e3'], '1/2-1/2'),
+      pgnGame([...NIMZO_VIA_ENGLISH, 'Qc2'], '1-0'),
+      pgnGame(['e4', 'e5', 'Nf3', 'Nc6'], '1-0'),
+      pgnGame(['e4', 'c5', 'Nf3', 'd6'], '0-1'),
+    ];
+    await indexPgnString(games.join('\n'), store);
+  });
+
+  it('should find the move orders reaching a position', async () => {
+    const report = await findMoveOrders(store, nimzoFen);
+
+    expect(report.totalGames).toBe(4);
+    expect(report.truncated).toBe(false);
+    expect(report.moveOrders.map((order) => order.moves)).toEqual([NIMZO, NIMZO_VIA_ENGLISH]);
+  });
+
+  it('should split the games by the chance of each move order', async () => {
+    const report = await findMoveOrders(store, nimzoFen);
+    const [main, english] = report.moveOrders;
+
+    // 1. d4 is played in 3 of 6 games, 1. c4 in 1 of 6 - everything after is forced
+    expect(main.share).toBeCloseTo(75);
+    expect(english.share).toBeCloseTo(25);
+    expect(main.games).toBe(3);
+    expect(english.games).toBe(1);
+
+    expect(report.usual).toEqual(main);
+    expect(report.summary).toBe(
+      'Usually reached via 1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 (75%), also via 1. c4 e6 2. Nc3 Nf6 3. d4 Bb4 (25%)'
+    );
+  });
+
+  it('should skip move orders below the minimum share', async () => {
+    const report = await findMoveOrders(store, nimzoFen, { minShare: 50 });
+    expect(report.moveOrders.map((order) => order.moves)).toEqual([NIMZO]);
+    expect(report.usual).toBeUndefined();
+    expect(report.summary).toBe('Reached via 1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 (100%)');
+  });
+
+  it('should report a single move order without flagging it as usual', async () => {
+    const report = await findMoveOrders(store, fenAfter(['e4', 'e5', 'Nf3']));
+    expect(report.moveOrders).toEqual([{ moves: ['e4', 'e5', 'Nf3'], games: 1, share: 100 }]);
+    expect(report.usual).toBeUndefined();
+  });
+
+  it('should stop at the position limit', async () => {
+    const report = await findMoveOrders(store, nimzoFen, { maxPositions: 2 });
+    expect(report.truncated).toBe(true);
+    expect(report.positionsSearched).toBe(2);
+  });
+
+  it('should handle positions it cannot search', async () => {
+    expect((await findMoveOrders(store, new Chess().fen())).summary).toBe('Starting position');
+    expect((await findMoveOrders(store, fenAfter(['a4']))).summary).toBe('Position not found in database');
+    expect((await findMoveOrders(store, nimzoFen, { maxPlies: 4 })).summary).toContain('too deep');
+  });
+});
@@ -118,6 +118,17 @@ describe('Parallel Indexer', () => {
       const posStats = await memStore.getPosition(STARTING_POSITION_HASH);
       expect(posStats!.white + posStats!.draws + posStats!.black).toBe(300);
     }, 30000);
+
+    it('should keep the game store only when asked to', async () => {
+      const games = generateTestGames(4).map((game, i) => ({ ...game, id: `game000${i}`, white: 'w', black: 'b' }));
+
+      await parallelIndexGames(games, memStore, { workerCount: 2 });
+      expect(await memStore.getGame('game0000')).toBeNull();
+
+      const withGames = new MemoryStore();
+      await parallelIndexGames(games, withGames, { workerCount: 2, storeGames: true });
+      expect(await withGames.getGame('game0000')).toMatchObject({ id: 'game0000', moves: games[0].moves });
+    }, 30000);
   });
 
   describe('Performance', () => {
@@ -0,0 +1,224 @@
+/**
+ * Personal Game Database Tests
+ *
+ * Verifies that:
+ * 1. Player entries answer player/color queries (memory, RocksDB and LMDB)
+ * 2. Personal PGN exports import into named databases
+ * 3. The database registry lists, queries and exports personal games
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync, existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  MemoryStore,
+  createLocalExplorer,
+  openRocksStore,
+  compact,
+  indexPgnString,
+  parseGamesFromString,
+  encodePlayerTag,
+  matchesPlayer,
+  normalizeDatabaseId,
+  localDatabasePath,
+  importPersonalGames,
+  LocalDatabaseRegistry,
+  STARTING_POSITION_HASH,
+} from '../src/database/local-explorer/index.js';
+import type { LocalExplorer } from '../src/database/local-explorer/index.js';
+
+const ROCKS_PATH = join(tmpdir(), 'chess-personal-rocks-' + Date.now());
+const LMDB_PATH = join(tmpdir(), 'chess-personal-lmdb-' + Date.now());
+const PERSONAL_DIR = join(tmpdir(), 'chess-personal-dbs-' + Date.now());
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+function cleanupDb(path: string) {
+  if (existsSync(path)) {
+    rmSync(path, { recursive: true, force: true });
+  }
+}
+
+function pgnGame(white: string, black: string, result: string, moves: string, date = '2024.05.02'): string {
+  return `[Event "Casual game"]
+[Site "Chess.com"]
+[Date "${date}"]
+[White "${white}"]
+[Black "${black}"]
+[TimeControl "600"]
+[Result "${result}"]
+
+${moves} ${result}
+`;
+}
+
+// "Me" plays 1. e4 as White and the Sicilian as Black
+const PGN = [
+  pgnGame('Me', 'rival', '1-0', '1. e4 {[%clk 0:09:58]} 1... e5 2. Nf3 Nc6'),
+  pgnGame('me', 'other', '1/2-1/2', '1. e4 c6 2. d4 d5', '2024.06.10'),
+  pgnGame('rival', 'Me', '0-1', '1. e4 c5 2. Nf3 d6'),
+  pgnGame('rival', 'other', '1-0', '1. d4 d5'),
+].join('\n');
+
+describe('Player entries', () => {
+  it('should tag players case-insensitively and by color', () => {
+    expect(encodePlayerTag('white', ' Me ')).toEqual(encodePlayerTag('white', 'me'));
+    expect(encodePlayerTag('white', 'me')).not.toEqual(encodePlayerTag('black', 'me'));
+    expect(encodePlayerTag('white', 'me')).not.toEqual(encodePlayerTag('white', 'meg'));
+  });
+
+  it('should match games by player and color', () => {
+    const game = { white: 'Me', black: 'rival' };
+    expect(matchesPlayer(game, { player: 'me' })).toBe(true);
+    expect(matchesPlayer(game, { player: 'me', color: 'black' })).toBe(false);
+    expect(matchesPlayer(game, { player: 'RIVAL', color: 'black' })).toBe(true);
+    expect(matchesPlayer(game, {})).toBe(true);
+  });
+
+  it('should keep annotated moves and castling with check', () => {
+    const [game] = parseGamesFromString(pgnGame('me', 'you', '1-0', '1. e4!? e5?! 2. Nf3 $1 Nc6'));
+    expect(game.moves).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+
+    const [castled] = parseGamesFromString(pgnGame('me', 'you', '1-0', '1. O-O+ O-O-O#'));
+    expect(castled.moves).toEqual(['O-O+', 'O-O-O#']);
+  });
+
+  it('should only be written when indexing players', async () => {
+    const plain = new MemoryStore();
+    await indexPgnString(PGN, plain);
+    expect((await plain.getStats()).playerEntryCount).toBe(0);
+    expect(await plain.getPosition(STARTING_POSITION_HASH, { player: 'me' })).toBeNull();
+
+    const store = new MemoryStore();
+    await indexPgnString(PGN, store, { indexPlayers: true });
+
+    expect(await store.getPosition(STARTING_POSITION_HASH, { player: 'me' })).toEqual({
+      white: 1,
+      draws: 1,
+      black: 1,
+    });
+    const asBlack = await store.getMoves(STARTING_POSITION_HASH, { player: 'me', color: 'black' });
+    expect(asBlack.map((m) => m.uci)).toEqual(['e2e4']);
+  });
+});
+
+describe('LocalExplorer player queries', () => {
+  let explorer: LocalExplorer;
+
+  beforeAll(async () => {
+    cleanupDb(ROCKS_PATH);
+    cleanupDb(LMDB_PATH);
+
+    const rocksStore = await openRocksStore({ path: ROCKS_PATH });
+    await indexPgnString(PGN, rocksStore, { indexPlayers: true });
+
+    // Player reads from RocksDB merge pending writes with disk
+    expect(await rocksStore.getPosition(STARTING_POSITION_HASH, { player: 'rival', color: 'white' })).toEqual({
+      white: 1,
+      draws: 0,
+      black: 1,
+    });
+    await rocksStore.close();
+
+    await compact({ sourcePath: ROCKS_PATH, targetPath: LMDB_PATH });
+    explorer = await createLocalExplorer(LMDB_PATH);
+  });
+
+  afterAll(async () => {
+    await explorer.close();
+    cleanupDb(ROCKS_PATH);
+    cleanupDb(LMDB_PATH);
+  });
+
+  it('should answer what a player played as one color', async () => {
+    const result = await explorer.query(AFTER_E4, { player: 'me', color: 'black' });
+
+    expect(result.stats.totalGames).toBe(1);
+    expect(result.moves.map((m) => m.san)).toEqual(['c5']);
+  });
+
+  it('should sum both colors without a color', async () => {
+    const result = await explorer.query(STARTING_FEN, { player: 'me' });
+
+    expect(result.stats.totalGames).toBe(3);
+    expect(result.moves).toHaveLength(1);
+    expect(result.moves[0]).toMatchObject({ san: 'e4', totalGames: 3 });
+  });
+
+  it('should combine player and month filters', async () => {
+    const result = await explorer.query(STARTING_FEN, { player: 'me', color: 'white', since: '2024-06' });
+    expect(result.stats.totalGames).toBe(1);
+  });
+
+  it('should return an empty result for unknown players', async () => {
+    const result = await explorer.query(STARTING_FEN, { player: 'nobody' });
+    expect(result.stats.totalGames).toBe(0);
+  });
+});
+
+describe('Personal databases', () => {
+  const databases = new LocalDatabaseRegistry(PERSONAL_DIR, []);
+
+  beforeAll(async () => {
+    cleanupDb(PERSONAL_DIR);
+    mkdirSync(PERSONAL_DIR, { recursive: true });
+
+    const pgnPath = join(PERSONAL_DIR, 'export.pgn');
+    writeFileSync(pgnPath, PGN);
+    const stats = await importPersonalGames(localDatabasePath('My Games', PERSONAL_DIR), [pgnPath]);
+    expect(stats.gamesProcessed).toBe(4);
+  });
+
+  afterAll(async () => {
+    await databases.close();
+    cleanupDb(PERSONAL_DIR);
+  });
+
+  it('should normalize database names into file names', () => {
+    expect(normalizeDatabaseId(' My Games! ')).toBe('my-games');
+    expect(() => normalizeDatabaseId('???')).toThrow('Invalid database name');
+  });
+
+  it('should list imported databases', async () => {
+    expect(databases.ids()).toEqual(['my-games']);
+
+    const [info] = await databases.list();
+    expect(info).toMatchObject({ id: 'my-games', kind: 'personal', gameCount: 4, players: true, sources: ['export.pgn'] });
+    expect(info.positionCount).toBeGreaterThan(0);
+  });
+
+  it('should query a personal database by player', async () => {
+    const result = await databases.query('my-games', AFTER_E4, { player: 'me', color: 'white' });
+
+    expect(result.stats.totalGames).toBe(2);
+    expect(result.moves.map((m) => m.san).sort()).toEqual(['c6', 'e5']);
+    expect(result.raw.topGames.every((g) => g.white.name.toLowerCase() === 'me')).toBe(true);
+  });
+
+  it('should export personal games as PGN', async () => {
+    const result = await databases.query('my-games', STARTING_FEN, { player: 'me', color: 'black' });
+    const [game] = result.raw.topGames;
+
+    const pgn = await databases.getGamePgn('my-games', game.id);
+    expect(pgn).toContain('[Black "Me"]');
+    expect(pgn).toContain('1. e4 c5 2. Nf3 d6 0-1');
+  });
+
+  it('should reject unknown databases', async () => {
+    await expect(databases.query('missing', STARTING_FEN)).rejects.toThrow('not found');
+  });
+
+  it('should resolve the personal alias to your own games', () => {
+    expect(databases.personalId()).toBe('my-games');
+    expect(databases.personalId('My Games')).toBe('my-games');
+    expect(new LocalDatabaseRegistry(join(PERSONAL_DIR, 'none'), [], null).personalId()).toBeNull();
+  });
+
+  it('should list databases imported into the old personal directory', async () => {
+    const registry = new LocalDatabaseRegistry(join(PERSONAL_DIR, 'none'), [], PERSONAL_DIR);
+    expect(registry.ids()).toEqual(['my-games']);
+    expect(registry.personalId()).toBe('my-games');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Local Database Registry Tests
+ *
+ * Verifies that:
+ * 1. Indexing runs are recorded in metadata sidecars (sources, games, filters, date)
+ * 2. The registry lists named databases, with the legacy database first
+ * 3. Databases are queried and their games exported by id
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync, existsSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  openLmdbStore,
+  indexPgnString,
+  LocalDatabaseRegistry,
+  localDatabasePath,
+  metadataPath,
+  readDatabaseMetadata,
+  recordDatabaseBuild,
+} from '../src/database/local-explorer/index.js';
+
+const ROOT_DIR = join(tmpdir(), 'chess-registry-' + Date.now());
+const DB_DIR = join(ROOT_DIR, 'databases');
+const LEGACY_PATH = join(ROOT_DIR, 'opening-explorer.lmdb');
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function pgnGame(site: string, moves: string): string {
+  return `[Event "Rated Blitz game"]
+[Site "https://lichess.org/${site}"]
+[Date "2025.12.01"]
+[White "alice"]
+[Black "bob"]
+[WhiteElo "1900"]
+[BlackElo "1850"]
+[TimeControl "180+0"]
+[Result "1-0"]
+
+${moves} 1-0
+`;
+}
+
+async function buildDatabase(path: string, pgn: string): Promise<void> {
+  const store = openLmdbStore({ path });
+  await indexPgnString(pgn, store);
+  await store.flush();
+  await store.close();
+}
+
+describe('Database metadata', () => {
+  const path = join(ROOT_DIR, 'metadata', 'twic.lmdb');
+
+  afterAll(() => {
+    rmSync(join(ROOT_DIR, 'metadata'), { recursive: true, force: true });
+  });
+
+  it('should keep the sidecar next to the database', () => {
+    expect(metadataPath('/data/databases/twic.lmdb')).toBe('/data/databases/twic.json');
+    expect(readDatabaseMetadata(path)).toBeNull();
+  });
+
+  it('should merge sources and sum games across runs', () => {
+    recordDatabaseBuild(path, {
+      kind: 'pgn',
+      sources: ['twic1600.pgn'],
+      gameCount: 100,
+      filters: { minRating: 2000 },
+      positionCount: 900,
+    });
+    const metadata = recordDatabaseBuild(path, {
+      kind: 'pgn',
+      sources: ['twic1600.pgn', 'twic1601.pgn'],
+      gameCount: 50,
+      filters: { storeGames: true },
+    });
+
+    expect(metadata).toMatchObject({
+      kind: 'pgn',
+      sources: ['twic1600.pgn', 'twic1601.pgn'],
+      gameCount: 150,
+      filters: { minRating: 2000, storeGames: true },
+      players: false,
+    });
+    // Appending drops the stale position count
+    expect(metadata.positionCount).toBeUndefined();
+    expect(Date.parse(metadata.builtAt!)).not.toBeNaN();
+    expect(readDatabaseMetadata(path)).toEqual(metadata);
+  });
+});
+
+describe('LocalDatabaseRegistry', () => {
+  const registry = new LocalDatabaseRegistry(DB_DIR, [{ id: 'opening-explorer', path: LEGACY_PATH }]);
+
+  beforeAll(async () => {
+    rmSync(ROOT_DIR, { recursive: true, force: true });
+    mkdirSync(DB_DIR, { recursive: true });
+
+    await buildDatabase(LEGACY_PATH, pgnGame('legacy01', '1. d4 d5'));
+
+    const twicPath = localDatabasePath('twic', DB_DIR);
+    await buildDatabase(twicPath, pgnGame('twic0001', '1. c4 e5') + '\n' + pgnGame('twic0002', '1. c4 c5'));
+    recordDatabaseBuild(twicPath, {
+      kind: 'pgn',
+      sources: ['twic1600.pgn'],
+      gameCount: 2,
+      filters: { storeGames: true },
+      positionCount: 5,
+    });
+
+    await buildDatabase(localDatabasePath('lichess-2025-12', DB_DIR), pgnGame('lichess1', '1. e4 e5'));
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    if (existsSync(ROOT_DIR)) {
+      rmSync(ROOT_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it('should list the legacy database first, then by name', () => {
+    expect(registry.ids()).toEqual(['opening-explorer', 'lichess-2025-12', 'twic']);
+    expect(registry.defaultId()).toBe('opening-explorer');
+    expect(registry.has('twic')).toBe(true);
+    expect(registry.has('missing')).toBe(false);
+  });
+
+  it('should list metadata, counting positions without a sidecar', async () => {
+    const databases = await registry.list();
+    const byId = Object.fromEntries(databases.map((db) => [db.id, db]));
+
+    expect(byId['twic']).toMatchObject({ kind: 'pgn', sources: ['twic1600.pgn'], gameCount: 2, positionCount: 5 });
+    expect(byId['opening-explorer']).toMatchObject({ kind: 'lichess', sources: [], players: false });
+    expect(byId['opening-explorer'].positionCount).toBeGreaterThan(0);
+    expect(byId['lichess-2025-12'].kind).toBe('pgn');
+  });
+
+  it('should query each database by id', async () => {
+    const twic = await registry.query('twic', STARTING_FEN);
+    expect(twic.stats.totalGames).toBe(2);
+    expect(twic.moves.map((m) => m.san)).toEqual(['c4']);
+
+    const lichess = await registry.query('lichess-2025-12', STARTING_FEN, { speeds: ['blitz'] });
+    expect(lichess.moves.map((m) => m.san)).toEqual(['e4']);
+  });
+
+  it('should export games from the database they are stored in', async () => {
+    const pgn = await registry.getGamePgn('opening-explorer', 'legacy01');
+    expect(pgn).toContain('1. d4 d5 1-0');
+
+    await expect(registry.getGamePgn('twic', 'legacy01')).rejects.toThrow('Game not found');
+  });
+
+  it('should pick up databases built while running', async () => {
+    await buildDatabase(localDatabasePath('my-games', DB_DIR), pgnGame('mine0001', '1. e4 c5'));
+    expect(registry.ids()).toContain('my-games');
+  });
+});
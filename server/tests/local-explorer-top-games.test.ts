@@ -0,0 +1,198 @@
+/**
+ * Local Explorer Top Games Tests
+ *
+ * Verifies that:
+ * 1. Games get stable ids and bounded per-position top lists
+ * 2. The indexer fills the game store alongside position stats
+ * 3. LocalExplorer returns raw.topGames and exports stored games as PGN
+ * 4. Filters that match no stored top game fall back to the unfiltered list
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  MemoryStore,
+  createLocalExplorer,
+  openRocksStore,
+  compact,
+  indexPgnString,
+  gameIdFromHeaders,
+  insertTopGame,
+  hashFen,
+  MAX_TOP_GAMES,
+  STARTING_POSITION_HASH,
+} from '../src/database/local-explorer/index.js';
+import type { LocalExplorer } from '../src/database/local-explorer/index.js';
+
+const ROCKS_PATH = join(tmpdir(), 'chess-top-games-rocks-' + Date.now());
+const LMDB_PATH = join(tmpdir(), 'chess-top-games-lmdb-' + Date.now());
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_D4 = 'rnbqkbnr/pppppppp/8/8/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 1';
+
+function cleanupDb(path: string) {
+  if (existsSync(path)) {
+    rmSync(path, { recursive: true, force: true });
+  }
+}
+
+function pgnGame(site: string, white: [string, number], black: [string, number], result: string, moves: string, speed = '600+0'): string {
+  return `[Event "Rated Rapid game"]
+[Site "${site}"]
+[UTCDate "2024.05.02"]
+[White "${white[0]}"]
+[Black "${black[0]}"]
+[WhiteElo "${white[1]}"]
+[BlackElo "${black[1]}"]
+[TimeControl "${speed}"]
+[Result "${result}"]
+
+${moves} ${result}
+`;
+}
+
+const PGN = [
+  pgnGame('https://lichess.org/AAAAAAAA', ['alice', 2400], ['bob', 2300], '1-0', '1. e4 e5 2. Nf3 Nc6'),
+  pgnGame('https://lichess.org/BBBBBBBB', ['carol', 1500], ['dave', 1500], '0-1', '1. e4 c5'),
+  pgnGame('https://lichess.org/CCCCCCCC', ['erin', 2000], ['frank', 2100], '1/2-1/2', '1. d4 d5', '60+0'),
+].join('\n');
+
+describe('Top game lists', () => {
+  it('should take the Lichess id from the Site header', () => {
+    expect(gameIdFromHeaders({ Site: 'https://lichess.org/AbCd1234' }, ['e4'])).toBe('AbCd1234');
+  });
+
+  it('should hash games without a Lichess id stably', () => {
+    const headers = { White: 'me', Black: 'you', Date: '2024.01.01' };
+    const id = gameIdFromHeaders(headers, ['e4', 'e5']);
+    expect(id).toHaveLength(12);
+    expect(gameIdFromHeaders(headers, ['e4', 'e5'])).toBe(id);
+    expect(gameIdFromHeaders(headers, ['d4', 'd5'])).not.toBe(id);
+  });
+
+  it('should keep lists sorted, bounded and free of duplicates', () => {
+    let list = insertTopGame([], { id: 'a', rating: 1800 }, 2)!;
+    list = insertTopGame(list, { id: 'b', rating: 2200 }, 2)!;
+    expect(list.map((g) => g.id)).toEqual(['b', 'a']);
+
+    expect(insertTopGame(list, { id: 'c', rating: 1500 }, 2)).toBeNull();
+    expect(insertTopGame(list, { id: 'a', rating: 1800 }, 2)).toBeNull();
+    expect(insertTopGame(list, { id: 'd', rating: 2000 }, 2)!.map((g) => g.id)).toEqual(['b', 'd']);
+  });
+});
+
+describe('MemoryStore game store', () => {
+  it('should index games and top lists together', async () => {
+    const store = new MemoryStore();
+    await indexPgnString(PGN, store);
+
+    const top = await store.getTopGames(STARTING_POSITION_HASH);
+    expect(top.map((g) => g.id)).toEqual(['AAAAAAAA', 'CCCCCCCC', 'BBBBBBBB']);
+    expect(await store.getGame('BBBBBBBB')).toMatchObject({ white: 'carol', black: 'dave', result: 'black', moves: ['e4', 'c5'] });
+    expect(await store.getTopGames(hashFen(AFTER_D4))).toEqual([{ id: 'CCCCCCCC', rating: 2050 }]);
+  });
+
+  it('should skip the game store when turned off', async () => {
+    const store = new MemoryStore();
+    await indexPgnString(PGN, store, { storeGames: false });
+
+    expect(await store.getGame('AAAAAAAA')).toBeNull();
+    expect((await store.getStats()).gameCount).toBe(0);
+  });
+});
+
+describe('LocalExplorer top games', () => {
+  let explorer: LocalExplorer;
+
+  beforeAll(async () => {
+    cleanupDb(ROCKS_PATH);
+    cleanupDb(LMDB_PATH);
+
+    const rocksStore = await openRocksStore({ path: ROCKS_PATH });
+    await indexPgnString(PGN, rocksStore);
+    await rocksStore.close();
+
+    await compact({ sourcePath: ROCKS_PATH, targetPath: LMDB_PATH });
+    explorer = await createLocalExplorer(LMDB_PATH);
+  });
+
+  afterAll(async () => {
+    await explorer.close();
+    cleanupDb(ROCKS_PATH);
+    cleanupDb(LMDB_PATH);
+  });
+
+  it('should fill raw.topGames in the Lichess format', async () => {
+    const result = await explorer.query(STARTING_FEN);
+
+    expect(result.raw.topGames.map((g) => g.id)).toEqual(['AAAAAAAA', 'CCCCCCCC', 'BBBBBBBB']);
+    expect(result.raw.topGames[0]).toEqual({
+      id: 'AAAAAAAA',
+      white: { name: 'alice', rating: 2400 },
+      black: { name: 'bob', rating: 2300 },
+      winner: 'white',
+      year: 2024,
+      month: 5,
+      speed: 'rapid',
+    });
+  });
+
+  it('should apply query filters and limits to top games', async () => {
+    const bullet = await explorer.query(STARTING_FEN, { speeds: ['bullet'] });
+    expect(bullet.raw.topGames.map((g) => g.id)).toEqual(['CCCCCCCC']);
+    expect(bullet.topGamesUnfiltered).toBeUndefined();
+
+    const limited = await explorer.query(STARTING_FEN, { topGames: 1 });
+    expect(limited.raw.topGames).toHaveLength(1);
+  });
+
+  it('should export stored games as PGN', async () => {
+    const pgn = await explorer.getGamePgn('AAAAAAAA');
+
+    expect(pgn).toContain('[White "alice"]');
+    expect(pgn).toContain('[WhiteElo "2400"]');
+    expect(pgn).toContain('1. e4 e5 2. Nf3 Nc6 1-0');
+    expect(await explorer.getGamePgn('missing1')).toBeNull();
+  });
+});
+
+describe('LocalExplorer top games beyond the stored list', () => {
+  const rocksPath = ROCKS_PATH + '-crowded';
+  const lmdbPath = LMDB_PATH + '-crowded';
+  let explorer: LocalExplorer;
+
+  beforeAll(async () => {
+    cleanupDb(rocksPath);
+    cleanupDb(lmdbPath);
+
+    // Eight strong rapid games fill the stored list, pushing out the blitz game
+    const strong = Array.from({ length: MAX_TOP_GAMES }, (_, i) =>
+      pgnGame(`https://lichess.org/STRONG0${i}`, ['alice', 2400], ['bob', 2400], '1-0', '1. e4 e5')
+    );
+    const blitz = pgnGame('https://lichess.org/BLITZ001', ['carol', 1500], ['dave', 1500], '0-1', '1. e4 c5', '180+0');
+
+    const rocksStore = await openRocksStore({ path: rocksPath });
+    await indexPgnString([...strong, blitz].join('\n'), rocksStore);
+    await rocksStore.close();
+
+    await compact({ sourcePath: rocksPath, targetPath: lmdbPath });
+    explorer = await createLocalExplorer(lmdbPath);
+  });
+
+  afterAll(async () => {
+    await explorer.close();
+    cleanupDb(rocksPath);
+    cleanupDb(lmdbPath);
+  });
+
+  it('should fall back to the unfiltered top games when none match the filter', async () => {
+    const result = await explorer.query(STARTING_FEN, { speeds: ['blitz'] });
+
+    expect(result.stats.totalGames).toBe(1);
+    expect(result.raw.topGames).toHaveLength(MAX_TOP_GAMES);
+    expect(result.raw.topGames.every((g) => g.speed === 'rapid')).toBe(true);
+    expect(result.topGamesUnfiltered).toBe(true);
+  });
+});
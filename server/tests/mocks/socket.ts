@@ -3,21 +3,37 @@ import type { ServerToClientEvents, ClientToServerEvents, GameState, Move, Board
 
 export interface MockSocket {
   emit: ReturnType<typeof vi.fn>;
+  on: ReturnType<typeof vi.fn>;
+  off: ReturnType<typeof vi.fn>;
   emittedEvents: Array<{ event: string; args: unknown[] }>;
   getEmittedEvent: (eventName: string) => unknown[] | undefined;
   clearEmitted: () => void;
+  /** Deliver a client event to the registered listeners */
+  receive: (eventName: string, ...args: unknown[]) => void;
+  listenerCount: (eventName: string) => number;
 }
 
 export function createMockSocket(): MockSocket {
   const emittedEvents: Array<{ event: string; args: unknown[] }> = [];
+  const listeners = new Map<string, Array<(...args: unknown[]) => void>>();
 
   const emit = vi.fn((event: string, ...args: unknown[]) => {
     emittedEvents.push({ event, args });
     return true;
   });
 
+  const on = vi.fn((event: string, listener: (...args: unknown[]) => void) => {
+    listeners.set(event, [...(listeners.get(event) || []), listener]);
+  });
+
+  const off = vi.fn((event: string, listener: (...args: unknown[]) => void) => {
+    listeners.set(event, (listeners.get(event) || []).filter((l) => l !== listener));
+  });
+
   return {
     emit,
+    on,
+    off,
     emittedEvents,
     getEmittedEvent: (eventName: string) => {
       const found = emittedEvents.find((e) => e.event === eventName);
@@ -27,7 +43,11 @@ export function createMockSocket(): MockSocket {
       emittedEvents.length = 0;
       emit.mockClear();
     },
+    receive: (eventName: string, ...args: unknown[]) => {
+      for (const listener of [...(listeners.get(eventName) || [])]) {
+        listener(...args);
+      }
+    },
+    listenerCount: (eventName: string) => (listeners.get(eventName) || []).length,
   };
 }
-
-
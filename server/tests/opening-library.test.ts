@@ -0,0 +1,139 @@
+/**
+ * Opening Library Tests
+ *
+ * Verifies that:
+ * 1. Every curated opening builds a tree with real positions
+ * 2. Main line, variations and their comments are marked on the tree
+ * 3. Explorer stats are filled in per move, keeping what was found when a query fails
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import type { ExplorerResult, OpeningTreeNode } from '@chess/shared';
+import { OPENING_LIBRARY, buildOpeningTree, addOpeningTreeStats } from '../src/database/openingLibrary.js';
+
+function mainLine(root: OpeningTreeNode): OpeningTreeNode[] {
+  const nodes: OpeningTreeNode[] = [];
+  for (let node = root.children[0]; node; node = node.children[0]) {
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+function explorerResult(moves: Array<{ san: string; games: number }>): ExplorerResult {
+  const total = moves.reduce((sum, m) => sum + m.games, 0);
+  return {
+    raw: { white: total, draws: 0, black: 0, moves: [], topGames: [] } as any,
+    stats: { totalGames: total, whiteWinPercent: 100, drawPercent: 0, blackWinPercent: 0 },
+    moves: moves.map((m) => ({
+      uci: '',
+      san: m.san,
+      averageRating: 2000,
+      white: m.games,
+      draws: 0,
+      black: 0,
+      totalGames: m.games,
+      playRate: (m.games / total) * 100,
+      whiteWinPercent: 100,
+      drawPercent: 0,
+      blackWinPercent: 0,
+    })),
+    database: 'lichess',
+  } as ExplorerResult;
+}
+
+describe('buildOpeningTree', () => {
+  it('should build every opening in the library', () => {
+    for (const opening of OPENING_LIBRARY) {
+      expect(buildOpeningTree(opening.id), opening.id).not.toBeNull();
+    }
+    expect(buildOpeningTree('no-such-opening')).toBeNull();
+  });
+
+  it('should give each node the position after its move', () => {
+    const tree = buildOpeningTree('london-system')!;
+    const line = mainLine(tree);
+
+    const chess = new Chess();
+    for (const node of line) {
+      chess.move(node.san);
+      expect(node.fen).toBe(chess.fen());
+    }
+  });
+
+  it('should mark the main line and comment the opening and its variations', () => {
+    const opening = OPENING_LIBRARY.find((o) => o.id === 'jobava-london')!;
+    const tree = buildOpeningTree(opening.id)!;
+    const line = mainLine(tree);
+
+    // 1. d4 d5 2. Nc3 Nf6 3. Bf4, then the "Main Line" variation continues it
+    expect(line.map((n) => n.san).slice(0, 6)).toEqual(['d4', 'd5', 'Nc3', 'Nf6', 'Bf4', 'c5']);
+    expect(line.every((n) => n.isMainLine)).toBe(true);
+    expect(line[4].comment).toBe(opening.description);
+
+    const bf4 = line[4];
+    const sideLine = bf4.children.find((n) => n.san === 'e6')!;
+    expect(sideLine.isMainLine).toBe(false);
+    expect(sideLine.children[0].children[0].comment).toBe(
+      'Solid ...e6 Response: Black plays solidly and challenges the bishop. After 5. Bxd6 cxd6, White has the bishop pair but Black has solid structure.'
+    );
+  });
+});
+
+describe('addOpeningTreeStats', () => {
+  it('should fill in the games after each move', async () => {
+    const tree = buildOpeningTree('caro-kann')!;
+    const queried: string[] = [];
+
+    await addOpeningTreeStats(tree, async (fen) => {
+      queried.push(fen);
+      return explorerResult([
+        { san: 'e4', games: 60 },
+        { san: 'c6', games: 30 },
+        { san: 'd4', games: 10 },
+      ]);
+    });
+
+    expect(tree.stats?.games).toBe(100);
+    expect(tree.children[0].stats).toEqual({ white: 60, draws: 0, black: 0, games: 60 });
+    expect(tree.children[0].children[0].stats?.games).toBe(30);
+    // Each position with moves is queried once
+    expect(new Set(queried).size).toBe(queried.length);
+  });
+
+  it('should keep the stats found before a query fails', async () => {
+    const tree = buildOpeningTree('caro-kann')!;
+    let calls = 0;
+
+    await addOpeningTreeStats(tree, async () => {
+      if (++calls > 1) throw new Error('Rate limited by Lichess API');
+      return explorerResult([{ san: 'e4', games: 5 }]);
+    });
+
+    expect(tree.children[0].stats?.games).toBe(5);
+    expect(tree.children[0].children[0].stats).toBeUndefined();
+  });
+
+  it('should stop when cancelled or at the query limit', async () => {
+    const query = async () => explorerResult([{ san: 'e4', games: 5 }]);
+
+    let cancelled = false;
+    const cancelledTree = buildOpeningTree('caro-kann')!;
+    await addOpeningTreeStats(cancelledTree, async () => {
+      cancelled = true;
+      return query();
+    }, { isCancelled: () => cancelled });
+    expect(cancelledTree.children[0].stats?.games).toBe(5);
+    expect(cancelledTree.children[0].children[0].stats).toBeUndefined();
+
+    let calls = 0;
+    const limitedTree = buildOpeningTree('caro-kann')!;
+    await addOpeningTreeStats(limitedTree, async () => {
+      calls++;
+      return query();
+    }, { maxQueries: 2 });
+    expect(calls).toBe(2);
+    expect(limitedTree.children[0].children[0].stats).toBeDefined();
+    expect(limitedTree.children[0].children[0].children[0].stats).toBeUndefined();
+  });
+});
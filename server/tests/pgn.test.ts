@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { parsePgn, writePgn, extractCommentAnnotations } from '../src/chess/pgn.js';
+import { ChessManager } from '../src/chess/manager.js';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const ANNOTATED_GAME = `[Event "Study"]
+[White "Morphy, Paul"]
+[Black "Duke Karl / Count Isouard"]
+[Result "1-0"]
+
+{ The Opera Game } 1. e4 e5 2. Nf3 d6 3. d4 Bg4 $6 { [%csl Rg4] [%cal Gd4e5]
+Better is 3...exd4. } (3... exd4 4. Nxd4 (4. Qxd4 Nc6) 4... Nf6) 4. dxe5 Bxf3 5.
+Qxf3 dxe5 6. Bc4 $1 Nf6 7. Qb3 $18 1-0
+`;
+
+describe('PGN', () => {
+  describe('parsePgn', () => {
+    it('should parse headers and the main line', () => {
+      const game = parsePgn(ANNOTATED_GAME);
+
+      expect(game.headers.White).toBe('Morphy, Paul');
+      expect(game.result).toBe('1-0');
+      expect(game.comment).toBe('The Opera Game');
+
+      const mainLine: string[] = [];
+      let nodes = game.moves;
+      while (nodes.length > 0) {
+        mainLine.push(nodes[0].san);
+        nodes = nodes[0].children;
+      }
+      expect(mainLine).toEqual([
+        'e4', 'e5', 'Nf3', 'd6', 'd4', 'Bg4', 'dxe5', 'Bxf3', 'Qxf3', 'dxe5', 'Bc4', 'Nf6', 'Qb3',
+      ]);
+    });
+
+    it('should attach NAGs, comments and nested variations', () => {
+      const game = parsePgn(ANNOTATED_GAME);
+      const d4 = game.moves[0].children[0].children[0].children[0].children[0];
+      const [bg4, exd4] = d4.children;
+
+      expect(bg4.san).toBe('Bg4');
+      expect(bg4.nags).toEqual([6]);
+      expect(bg4.comment).toBe('Better is 3...exd4.');
+      expect(bg4.annotations).toEqual({
+        arrows: [{ from: 'd4', to: 'e5', color: 'green' }],
+        highlights: [{ square: 'g4', color: 'red', type: 'custom' }],
+      });
+
+      expect(exd4.san).toBe('exd4');
+      const [nxd4, qxd4] = exd4.children;
+      expect(nxd4.san).toBe('Nxd4');
+      expect(qxd4.san).toBe('Qxd4');
+      expect(qxd4.children[0].san).toBe('Nc6');
+    });
+
+    it('should convert suffix glyphs to NAGs', () => {
+      const game = parsePgn('1. e4! e5?! 2. Qh5?? *');
+      expect(game.moves[0].nags).toEqual([1]);
+      expect(game.moves[0].children[0].nags).toEqual([6]);
+      expect(game.moves[0].children[0].children[0].nags).toEqual([4]);
+    });
+
+    it('should keep comments placed before the first move of a variation', () => {
+      const game = parsePgn('1. e4 (1. d4 { Queen pawn }) ({ Flank } 1. c4) e5 *');
+      expect(game.moves[1].comment).toBe('Queen pawn');
+      expect(game.moves[2].commentBefore).toBe('Flank');
+    });
+
+    it('should reject unbalanced variations', () => {
+      expect(() => parsePgn('1. e4 (1. d4 e5 *')).toThrow();
+      expect(() => parsePgn('1. e4 ) e5 *')).toThrow();
+    });
+
+    it('should reject stray closing brackets', () => {
+      expect(() => parsePgn('1. e4 ] e5 *')).toThrow('Unexpected character "]" at 6');
+      expect(() => parsePgn('1. e4 e5 } *')).toThrow('Unexpected character "}" at 9');
+    });
+  });
+
+  describe('extractCommentAnnotations', () => {
+    it('should leave other commands in the comment', () => {
+      const { comment, annotations } = extractCommentAnnotations('[%clk 0:03:00] [%cal Ye1g1] Castle');
+      expect(comment).toBe('[%clk 0:03:00] Castle');
+      expect(annotations?.arrows).toEqual([{ from: 'e1', to: 'g1', color: 'yellow' }]);
+    });
+  });
+
+  describe('writePgn', () => {
+    it('should write an exported game back out unchanged', () => {
+      const once = writePgn(parsePgn(ANNOTATED_GAME), STARTING_FEN);
+      const twice = writePgn(parsePgn(once), STARTING_FEN);
+      expect(twice).toBe(once);
+      const flat = once.replace(/\s+/g, ' ');
+      expect(flat).toContain('(3... exd4 4. Nxd4 (4. Qxd4 Nc6) 4... Nf6)');
+      expect(flat).toContain('$6 { [%csl Rg4] [%cal Gd4e5] Better is 3...exd4. }');
+    });
+
+    it('should wrap movetext lines', () => {
+      const pgn = writePgn(parsePgn(ANNOTATED_GAME), STARTING_FEN);
+      for (const line of pgn.split('\n')) {
+        expect(line.length).toBeLessThanOrEqual(80);
+      }
+    });
+  });
+
+  describe('ChessManager round-trip', () => {
+    it('should load an annotated PGN into the move tree', () => {
+      const manager = new ChessManager();
+      manager.loadPGN(ANNOTATED_GAME);
+
+      const state = manager.getState();
+      expect(state.history).toHaveLength(13);
+      expect(state.currentMoveIndex).toBe(13);
+
+      const d4 = state.moveTree[0].children[0].children[0].children[0].children[0];
+      expect(d4.children.map((n) => n.move.san)).toEqual(['Bg4', 'exd4']);
+      expect(d4.children[0].nags).toEqual([6]);
+      expect(d4.children[0].annotations?.arrows).toHaveLength(1);
+    });
+
+    it('should export the same PGN it loaded', () => {
+      const manager = new ChessManager();
+      manager.loadPGN(ANNOTATED_GAME);
+      const exported = manager.exportPGN();
+
+      const reloaded = new ChessManager();
+      reloaded.loadPGN(exported);
+      expect(reloaded.exportPGN()).toBe(exported);
+      expect(exported).toBe(writePgn(parsePgn(ANNOTATED_GAME), STARTING_FEN));
+    });
+
+    it('should export variations created on the board', () => {
+      const manager = new ChessManager();
+      manager.makeMove('e2', 'e4');
+      manager.makeMove('e7', 'e5');
+      manager.navigateToMove(1);
+      manager.makeMove('c7', 'c5');
+
+      expect(manager.exportPGN()).toBe('1. e4 e5 (1... c5) *\n');
+    });
+
+    it('should keep the current game when the PGN is invalid', () => {
+      const manager = new ChessManager();
+      manager.makeMove('e2', 'e4');
+
+      expect(() => manager.loadPGN('1. e4 e5 2. Ke3 *')).toThrow('Invalid move in PGN: Ke3');
+      expect(manager.getState().history.map((m) => m.san)).toEqual(['e4']);
+    });
+
+    it('should write SetUp and FEN headers for games from a custom position', () => {
+      const manager = new ChessManager();
+      manager.loadFEN('4k3/8/8/8/8/8/4P3/4K3 b - - 0 1');
+      manager.makeMove('e8', 'd7');
+
+      const exported = manager.exportPGN();
+      expect(exported).toContain('[FEN "4k3/8/8/8/8/8/4P3/4K3 b - - 0 1"]');
+      expect(exported).toContain('1... Kd7 *');
+
+      const reloaded = new ChessManager();
+      reloaded.loadPGN(exported);
+      expect(reloaded.getState().history.map((m) => m.san)).toEqual(['Kd7']);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ExplorerMoveStats, ExplorerResult } from '@chess/shared';
+import { RepertoireManager, positionKey } from '../src/repertoire/manager.js';
+import { buildGapReport, findRepertoireGaps, ratingBand } from '../src/repertoire/gaps.js';
+import type { LocalExplorer } from '../src/database/local-explorer/index.js';
+import { ChessManager } from '../src/chess/manager.js';
+
+function addLine(manager: RepertoireManager, color: 'white' | 'black', pgn: string) {
+  const game = new ChessManager();
+  game.loadPGN(pgn);
+  const { moves, positions } = game.getFullHistory();
+  manager.addLine(color, positions[0], moves);
+  return positions;
+}
+
+function move(san: string, playRate: number): ExplorerMoveStats {
+  return {
+    uci: '',
+    san,
+    averageRating: 1800,
+    white: 0,
+    draws: 0,
+    black: 0,
+    totalGames: playRate * 10,
+    playRate,
+    whiteWinPercent: 0,
+    drawPercent: 0,
+    blackWinPercent: 0,
+  } as ExplorerMoveStats;
+}
+
+function result(moves: ExplorerMoveStats[]): ExplorerResult {
+  return { moves } as ExplorerResult;
+}
+
+describe('findRepertoireGaps', () => {
+  let repertoires: RepertoireManager;
+  let explorerData: Map<string, ExplorerResult>;
+  let queried: string[];
+
+  const query = async (fen: string) => {
+    queried.push(fen);
+    return explorerData.get(positionKey(fen)) ?? result([]);
+  };
+
+  beforeEach(() => {
+    repertoires = new RepertoireManager();
+    explorerData = new Map();
+    queried = [];
+  });
+
+  it('should report popular replies without a prepared answer', async () => {
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3');
+    explorerData.set(positionKey(positions[1]), result([move('e5', 40), move('c5', 35), move('e6', 10), move('a6', 1)]));
+
+    const report = await findRepertoireGaps(repertoires, 'white', query);
+
+    expect(report.gaps.map((g) => g.san)).toEqual(['c5', 'e6']);
+    expect(report.gaps[0].line).toEqual(['e4']);
+    expect(report.positionsChecked).toBe(1);
+    expect(report.truncated).toBe(false);
+  });
+
+  it('should respect the play rate threshold', async () => {
+    const positions = addLine(repertoires, 'white', '1. e4 e5');
+    explorerData.set(positionKey(positions[1]), result([move('e5', 40), move('c5', 35), move('e6', 10)]));
+
+    const report = await findRepertoireGaps(repertoires, 'white', query, { minPlayRate: 20 });
+    expect(report.gaps.map((g) => g.san)).toEqual(['c5']);
+  });
+
+  it('should rank deeper gaps by how often the line is reached', async () => {
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3 Nc6 3. Bb5');
+    const sicilian = addLine(repertoires, 'white', '1. e4 c5 2. Nf3 d6 3. d4');
+    explorerData.set(positionKey(positions[1]), result([move('e5', 50), move('c5', 20)]));
+    // Rare reply in the common line vs common reply in the rarer line
+    explorerData.set(positionKey(positions[3]), result([move('Nc6', 70), move('d6', 10)]));
+    explorerData.set(positionKey(sicilian[3]), result([move('d6', 50), move('Nc6', 40)]));
+
+    const report = await findRepertoireGaps(repertoires, 'white', query);
+
+    // d6 after 2.Nf3 in the open game: 0.5 * 10 = 5, Nc6 in the Sicilian: 0.2 * 40 = 8
+    expect(report.gaps.map((g) => [g.line.join(' '), g.san])).toEqual([
+      ['e4 c5 Nf3', 'Nc6'],
+      ['e4 e5 Nf3', 'd6'],
+    ]);
+    expect(report.gaps[0].frequency).toBeCloseTo(8);
+  });
+
+  it('should check the start position for a black repertoire', async () => {
+    addLine(repertoires, 'black', '1. e4 c5');
+    explorerData.set(positionKey(new ChessManager().getFEN()), result([move('e4', 45), move('d4', 35)]));
+
+    const report = await findRepertoireGaps(repertoires, 'black', query);
+    expect(report.gaps.map((g) => g.san)).toEqual(['d4']);
+    expect(report.gaps[0].line).toEqual([]);
+  });
+
+  it('should stop at the position limit, keeping the most common lines', async () => {
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3 Nc6 3. Bb5');
+    explorerData.set(positionKey(positions[1]), result([move('e5', 50)]));
+
+    const report = await findRepertoireGaps(repertoires, 'white', query, { maxPositions: 1 });
+    expect(report.truncated).toBe(true);
+    expect(queried).toHaveLength(1);
+  });
+
+  it('should check at least one position whatever the limit asked for', async () => {
+    const positions = addLine(repertoires, 'white', '1. e4 e5 2. Nf3 Nc6 3. Bb5');
+    explorerData.set(positionKey(positions[1]), result([move('e5', 50)]));
+
+    const report = await findRepertoireGaps(repertoires, 'white', query, { maxPositions: -5 });
+    expect(report.positionsChecked).toBe(1);
+  });
+
+  it('should not query anything for an empty repertoire', async () => {
+    const report = await findRepertoireGaps(repertoires, 'white', query);
+    expect(report.positionsChecked).toBe(0);
+    expect(report.gaps).toEqual([]);
+  });
+});
+
+describe('ratingBand', () => {
+  it('should map a rating to its lichess rating band', () => {
+    expect(ratingBand(1650)).toEqual([1600]);
+    expect(ratingBand(2700)).toEqual([2500]);
+    expect(ratingBand(300)).toEqual([400]);
+  });
+});
+
+describe('buildGapReport', () => {
+  it('should filter local statistics to our rating band', async () => {
+    const repertoires = new RepertoireManager();
+    addLine(repertoires, 'white', '1. e4 e5 2. Nf3');
+    const filters: unknown[] = [];
+    const localExplorer = {
+      query: async (_fen: string, filter: unknown) => {
+        filters.push(filter);
+        return result([move('c5', 40)]);
+      },
+    } as unknown as LocalExplorer;
+
+    const report = await buildGapReport(repertoires, 'white', { database: 'local', rating: 1650 }, localExplorer);
+
+    expect(filters[0]).toEqual({ ratings: [1600] });
+    expect(report).toMatchObject({ database: 'local', ratings: [1600] });
+  });
+});
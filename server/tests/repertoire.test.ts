@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RepertoireManager, positionKey } from '../src/repertoire/manager.js';
+import { ChessManager } from '../src/chess/manager.js';
+import { parsePgn } from '../src/chess/pgn.js';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+function lineFromPgn(pgn: string) {
+  const game = new ChessManager();
+  game.loadPGN(pgn);
+  const { moves, positions } = game.getFullHistory();
+  return { startFen: positions[0], moves, positions };
+}
+
+describe('RepertoireManager', () => {
+  let manager: RepertoireManager;
+
+  beforeEach(() => {
+    manager = new RepertoireManager();
+  });
+
+  it('should start with empty white and black repertoires', () => {
+    expect(manager.getRepertoire('white').positions).toEqual({});
+    expect(manager.getRepertoire('black').positions).toEqual({});
+  });
+
+  it('should add a line with the first move at each position as main', () => {
+    const { startFen, moves } = lineFromPgn('1. e4 e5 2. Nf3 Nc6');
+    expect(manager.addLine('white', startFen, moves)).toBe(4);
+
+    const first = manager.getMoves('white', STARTING_FEN);
+    expect(first).toEqual([expect.objectContaining({ san: 'e4', uci: 'e2e4', isMain: true })]);
+    expect(Object.keys(manager.getRepertoire('white').positions)).toHaveLength(4);
+  });
+
+  it('should add prepared replies as alternatives and skip known moves', () => {
+    const main = lineFromPgn('1. e4 e5 2. Nf3');
+    const sicilian = lineFromPgn('1. e4 c5 2. Nf3');
+    manager.addLine('white', main.startFen, main.moves);
+
+    expect(manager.addLine('white', sicilian.startFen, sicilian.moves)).toBe(2);
+    const replies = manager.getMoves('white', main.positions[1]);
+    expect(replies.map((m) => [m.san, m.isMain])).toEqual([
+      ['e5', true],
+      ['c5', false],
+    ]);
+  });
+
+  it('should share preparation between transposing lines', () => {
+    const a = lineFromPgn('1. Nf3 d5 2. d4');
+    const b = lineFromPgn('1. d4 d5 2. Nf3 Nf6');
+    manager.addLine('white', a.startFen, a.moves);
+    manager.addLine('white', b.startFen, b.moves);
+
+    // Both lines reach the same position after move 2 (move counters differ only)
+    expect(positionKey(a.positions[3])).toBe(positionKey(b.positions[3]));
+    expect(manager.getMoves('white', a.positions[3]).map((m) => m.san)).toEqual(['Nf6']);
+  });
+
+  it('should keep one main move per position', () => {
+    const e4 = lineFromPgn('1. e4');
+    const d4 = lineFromPgn('1. d4');
+    manager.addLine('white', e4.startFen, e4.moves);
+    manager.addLine('white', d4.startFen, d4.moves);
+
+    manager.markMove('white', STARTING_FEN, 'd4', true);
+    expect(manager.getMoves('white', STARTING_FEN).map((m) => [m.san, m.isMain])).toEqual([
+      ['d4', true],
+      ['e4', false],
+    ]);
+
+    manager.markMove('white', STARTING_FEN, 'd4', false);
+    expect(manager.getMoves('white', STARTING_FEN).every((m) => !m.isMain)).toBe(true);
+    expect(() => manager.markMove('white', STARTING_FEN, 'c4', true)).toThrow();
+  });
+
+  it('should remove a move with the positions only reachable through it', () => {
+    const main = lineFromPgn('1. e4 e5 2. Nf3 Nc6 3. Bb5');
+    const sicilian = lineFromPgn('1. e4 c5 2. Nf3');
+    manager.addLine('black', main.startFen, main.moves);
+    manager.addLine('black', sicilian.startFen, sicilian.moves);
+
+    manager.removeMove('black', main.positions[1], 'e5');
+
+    const positions = manager.getRepertoire('black').positions;
+    expect(positions[positionKey(main.positions[2])]).toBeUndefined();
+    expect(positions[positionKey(main.positions[4])]).toBeUndefined();
+    expect(manager.getMoves('black', main.positions[1]).map((m) => m.san)).toEqual(['c5']);
+  });
+
+  it('should reject lines that do not start from the initial position', () => {
+    const { moves } = lineFromPgn('1. e4');
+    expect(() =>
+      manager.addLine('white', '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1', moves)
+    ).toThrow('initial position');
+    expect(() => manager.addLine('white', STARTING_FEN, [])).toThrow();
+  });
+
+  it('should export a repertoire as PGN with side lines', () => {
+    const main = lineFromPgn('1. e4 e5 2. Nf3 Nc6');
+    const sicilian = lineFromPgn('1. e4 c5 2. Nf3 d6');
+    manager.addLine('white', main.startFen, main.moves);
+    manager.addLine('white', sicilian.startFen, sicilian.moves);
+
+    const pgn = manager.exportPgn('white');
+    expect(pgn).toContain('[Event "White repertoire"]');
+    expect(pgn.replace(/\s+/g, ' ')).toContain('1. e4 e5 (1... c5 2. Nf3 d6) 2. Nf3 Nc6 *');
+
+    // The export is a valid PGN that loads back into the same tree
+    const game = parsePgn(pgn);
+    expect(game.moves[0].children.map((n) => n.san)).toEqual(['e5', 'c5']);
+  });
+
+  it('should restore saved repertoires', () => {
+    const { startFen, moves } = lineFromPgn('1. d4 d5');
+    manager.addLine('black', startFen, moves);
+
+    const restored = new RepertoireManager(JSON.parse(JSON.stringify(manager.getAllRepertoires())));
+    expect(restored.getRepertoire('black')).toEqual(manager.getRepertoire('black'));
+    expect(restored.getRepertoire('white').positions).toEqual({});
+  });
+});
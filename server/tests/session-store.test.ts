@@ -0,0 +1,140 @@
+/**
+ * Session Persistence Tests
+ *
+ * Tests:
+ * 1. Each store backend round-trips a session
+ * 2. ChessManager and ConversationManager rebuild from a stored session
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  createSessionStore,
+  type PersistedSession,
+  type SessionStore,
+  type SessionStoreType,
+} from '../src/persistence/index.js';
+import { ChessManager } from '../src/chess/manager.js';
+import { ConversationManager } from '../src/agent/conversationManager.js';
+
+function buildRecord(sessionId: string): PersistedSession {
+  const gameManager = new ChessManager();
+  gameManager.makeMove('e2', 'e4');
+  gameManager.makeMove('e7', 'e5');
+  gameManager.navigateToMove(1);
+  gameManager.makeMove('c7', 'c5');
+
+  const conversationManager = new ConversationManager();
+  const conversation = conversationManager.createConversation('conv-1');
+  conversationManager.addMessage(conversation.id, {
+    conversationId: conversation.id,
+    role: 'user',
+    content: 'What is the Sicilian?',
+  });
+  conversationManager.addMessage(conversation.id, {
+    conversationId: conversation.id,
+    role: 'assistant',
+    content: 'A sharp reply to 1.e4.',
+    toolCalls: [{ id: 'call-1', name: 'get_position', arguments: {}, result: { fen: 'x' } }],
+  });
+
+  return {
+    session: {
+      sessionId,
+      gameState: gameManager.getState(),
+      createdAt: 1,
+      updatedAt: 2,
+    },
+    board: gameManager.snapshot(),
+    conversations: conversationManager.getAllConversations(),
+    repertoires: [],
+    reviewCards: [],
+    studentProfile: {
+      openings: [{ name: 'Sicilian Defense', color: 'black', lastStudiedAt: 3 }],
+      quizAnswers: [],
+      mistakes: [{ description: 'Plays ...e5 too early', count: 2, lastSeenAt: 4 }],
+      style: 'Sharp',
+      notes: '',
+      updatedAt: 4,
+    },
+  };
+}
+
+const STORE_TYPES: SessionStoreType[] = ['memory', 'file', 'lmdb'];
+
+describe.each(STORE_TYPES)('%s session store', (type) => {
+  let dataDir: string;
+  let store: SessionStore;
+
+  beforeEach(() => {
+    dataDir = join(tmpdir(), `chess-session-store-test-${type}-${Date.now()}`);
+    store = createSessionStore(type, dataDir);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    if (existsSync(dataDir)) {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return null for unknown sessions', async () => {
+    expect(await store.load('session-missing')).toBeNull();
+  });
+
+  it('should save and load a session', async () => {
+    const record = buildRecord('session-1');
+    await store.save(record);
+
+    const loaded = await store.load('session-1');
+    expect(loaded).toEqual(record);
+  });
+
+  it('should overwrite, list and delete sessions', async () => {
+    await store.save(buildRecord('session-1'));
+    const updated = buildRecord('session-1');
+    updated.session.updatedAt = 99;
+    await store.save(updated);
+    await store.save(buildRecord('session/../2'));
+
+    expect((await store.list()).sort()).toEqual(['session-1', 'session/../2']);
+    expect((await store.load('session-1'))?.session.updatedAt).toBe(99);
+
+    await store.delete('session-1');
+    await store.delete('session-never-saved');
+    expect(await store.list()).toEqual(['session/../2']);
+  });
+});
+
+describe('restoring a session', () => {
+  it('should rebuild the board with variations and current position', () => {
+    const record = buildRecord('session-1');
+    const restored = new ChessManager();
+    restored.restore(JSON.parse(JSON.stringify(record.board)));
+
+    expect(restored.getState()).toEqual(record.session.gameState);
+
+    // Node ids keep counting from where the snapshot left off
+    restored.navigateToMove(1);
+    restored.makeMove('e7', 'e6');
+    const ids = new Set(restored.getState().moveTree[0].children.map((n) => n.id));
+    expect(ids.size).toBe(3);
+  });
+
+  it('should reject a snapshot without its current node', () => {
+    const record = buildRecord('session-1');
+    const restored = new ChessManager();
+    expect(() => restored.restore({ ...record.board, currentNodeId: 'm999' })).toThrow();
+  });
+
+  it('should rebuild conversations with messages and tool calls', () => {
+    const record = buildRecord('session-1');
+    const manager = new ConversationManager(record.conversations);
+
+    const conversation = manager.getConversation('conv-1');
+    expect(conversation?.messages).toHaveLength(2);
+    expect(conversation?.messages[1].toolCalls?.[0].name).toBe('get_position');
+  });
+});
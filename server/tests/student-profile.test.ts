@@ -0,0 +1,117 @@
+/**
+ * Student Profile Tests
+ *
+ * Verifies that:
+ * 1. Openings, mistakes and quiz answers are recorded and merged
+ * 2. Edits from the UI replace the profile's fields
+ * 3. The profile is summarized for the system prompt
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StudentProfileManager } from '../src/agent/student-profile.js';
+
+describe('StudentProfileManager', () => {
+  let profile: StudentProfileManager;
+
+  beforeEach(() => {
+    profile = new StudentProfileManager();
+  });
+
+  it('should start empty', () => {
+    expect(profile.isEmpty()).toBe(true);
+    expect(profile.summarize()).toBe('');
+  });
+
+  it('should keep the most recently studied opening first', () => {
+    profile.recordOpening('Caro-Kann Defense', 'black', 'Knows the main line');
+    profile.recordOpening('London System', 'white');
+    profile.recordOpening('caro-kann defense');
+
+    const openings = profile.getProfile().openings;
+    expect(openings.map((o) => o.name)).toEqual(['caro-kann defense', 'London System']);
+    // Earlier details are kept when not given again
+    expect(openings[0]).toMatchObject({ color: 'black', notes: 'Knows the main line' });
+  });
+
+  it('should count a mistake each time it is made', () => {
+    profile.recordMistake('Moves the queen out early');
+    profile.recordMistake('Forgets to castle');
+    profile.recordMistake('moves the queen out early', '1. e4 e5 2. Qh5');
+
+    const mistakes = profile.getProfile().mistakes;
+    expect(mistakes.map((m) => [m.description, m.count])).toEqual([
+      ['Moves the queen out early', 2],
+      ['Forgets to castle', 1],
+    ]);
+    expect(mistakes[0].example).toBe('1. e4 e5 2. Qh5');
+
+    expect(profile.resolveMistake('Forgets to castle')).toBe(true);
+    expect(profile.resolveMistake('Forgets to castle')).toBe(false);
+    expect(profile.getProfile().mistakes).toHaveLength(1);
+  });
+
+  it('should keep only the most recent quiz answers', () => {
+    for (let i = 0; i < 55; i++) {
+      profile.recordQuizAnswer({ question: `Question ${i}`, answer: 'a', correctAnswer: 'a', correct: true });
+    }
+    const answers = profile.getProfile().quizAnswers;
+    expect(answers).toHaveLength(50);
+    expect(answers[0].question).toBe('Question 5');
+  });
+
+  it('should apply edits from the UI', () => {
+    profile.recordMistake('Moves the queen out early');
+    profile.recordQuizAnswer({ question: 'Best move?', answer: 'Nf3', correctAnswer: 'Nf3', correct: true });
+
+    profile.update({
+      style: '  Positional  ',
+      mistakes: [{ description: 'Hangs the b7 pawn', count: 3, lastSeenAt: 1 }, { description: ' ', count: 1, lastSeenAt: 1 }],
+      quizAnswers: [],
+    });
+
+    const updated = profile.getProfile();
+    expect(updated.style).toBe('Positional');
+    expect(updated.mistakes).toEqual([{ description: 'Hangs the b7 pawn', example: undefined, count: 3, lastSeenAt: 1 }]);
+    expect(updated.quizAnswers).toEqual([]);
+    // Fields that were not given are left alone
+    expect(updated.notes).toBe('');
+  });
+
+  it('should not add quiz answers from the UI', () => {
+    profile.update({
+      quizAnswers: [{ question: 'Best move?', answer: 'Nf3', correctAnswer: 'Nf3', correct: true, answeredAt: 1 }],
+    });
+    expect(profile.getProfile().quizAnswers).toEqual([]);
+  });
+
+  it('should restore a stored profile and reset it', () => {
+    profile.setStyle('Aggressive');
+    const restored = new StudentProfileManager(JSON.parse(JSON.stringify(profile.getProfile())));
+    expect(restored.getProfile().style).toBe('Aggressive');
+
+    restored.reset();
+    expect(restored.isEmpty()).toBe(true);
+  });
+
+  it('should summarize the profile for the system prompt', () => {
+    profile.setStyle('Aggressive, likes gambits');
+    profile.recordOpening('Caro-Kann Defense', 'black');
+    profile.recordMistake('Moves the queen out early');
+    profile.recordMistake('Moves the queen out early', '2. Qh5');
+    profile.recordQuizAnswer({ question: 'Best reply to 3. e5?', answer: 'c5', correctAnswer: 'Bf5', correct: false });
+    profile.recordQuizAnswer({ question: 'Main move?', answer: 'd5', correctAnswer: 'd5', correct: true });
+    profile.setNotes('Rated about 1400');
+
+    expect(profile.summarize()).toBe(
+      [
+        '- Preferred style: Aggressive, likes gambits',
+        '- Openings studied (most recent first): Caro-Kann Defense (as black)',
+        '- Repeated mistakes:',
+        '  - Moves the queen out early (2 times) e.g. 2. Qh5',
+        '- Quiz results: 1 of the last 2 answered correctly',
+        '  - Missed "Best reply to 3. e5?": answered "c5", correct was "Bf5"',
+        '- Notes: Rated about 1400',
+      ].join('\n')
+    );
+  });
+});
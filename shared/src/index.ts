@@ -33,6 +33,10 @@ export interface GameState {
   isStalemate: boolean;
   isDraw: boolean;
   isGameOver: boolean;
+  /** Variations from the starting position (first child of each node is the main line) */
+  moveTree: MoveTreeNode[];
+  /** Node the board is showing (null at the starting position) */
+  currentNodeId: string | null;
 }
 
 export interface Position {
@@ -65,6 +69,7 @@ export interface ServerToClientEvents {
   'game:state': (state: GameState) => void;
   'game:move': (move: Move, state: GameState) => void;
   'game:error': (error: string) => void;
+  'game:pgn': (pgn: string) => void;
   'conversation:message': (message: ConversationMessage) => void;
   'conversation:stream': (chunk: StreamChunk) => void;
   'conversation:thinking': (data: ThinkingEvent) => void;
@@ -80,12 +85,20 @@ export interface ServerToClientEvents {
   'analysis:complete': (result: AnalysisComplete) => void;
   'analysis:error': (error: string) => void;
   'engine:ready': (info: EngineInfo) => void;
+  'review:progress': (progress: GameReviewProgress) => void;
+  'review:complete': (summary: GameReviewSummary) => void;
+  'review:error': (error: string) => void;
   'board:annotations': (annotations: BoardAnnotations) => void;
   'board:clearAnnotations': () => void;
-  'virtual:start': (baseFen: string, baseIndex: number) => void;
-  'virtual:moves': (moves: Move[], annotations?: BoardAnnotations) => void;
+  'board:orientation': (orientation: BoardOrientation) => void;
+  'virtual:start': (baseFen: string, baseIndex: number, title?: string) => void;
+  /** baseFen: position the moves are played from (stale moves are dropped) */
+  'virtual:moves': (moves: VirtualMove[], annotations?: BoardAnnotations, baseFen?: string) => void;
   'virtual:end': () => void;
-  'opening:tree': (tree: OpeningTreeNode) => void;
+  /** The curated opening library (answers opening:list) */
+  'opening:library': (openings: OpeningLine[]) => void;
+  /** An opening's tree, sent again once explorer stats are filled in */
+  'opening:tree': (tree: OpeningTreeNode, openingId: string) => void;
   'opening:searchResults': (results: OpeningSearchResult[]) => void;
   'opening:loaded': (opening: { eco: string; name: string; pgn: string } | null) => void;
   'animation:start': (data: AnimationStartData) => void;
@@ -95,17 +108,110 @@ export interface ServerToClientEvents {
   'model:list': (models: AIModel[]) => void;
   'prompt:changed': (promptStyleId: PromptStyleId) => void;
   'prompt:list': (styles: PromptStyle[]) => void;
-  'explorer:result': (data: { result: ExplorerResult; database: LichessDatabase }) => void;
-  'explorer:error': (data: { error: string; database: LichessDatabase }) => void;
+  'explorer:result': (data: { result: ExplorerResult; database: ExplorerDatabaseId }) => void;
+  'explorer:error': (data: { error: string; database: ExplorerDatabaseId }) => void;
   'explorer:status': (status: ExplorerStatus) => void;
+  'explorer:databases': (data: { databases: LocalDatabaseInfo[]; selected: LocalDatabaseId | null }) => void;
   'agent:settings': (settings: AgentSettings) => void;
+  'repertoire:data': (repertoire: Repertoire) => void;
+  'repertoire:pgn': (data: { color: RepertoireColor; pgn: string }) => void;
+  'repertoire:error': (error: string) => void;
+  'repertoire:gaps': (report: RepertoireGapReport) => void;
+  'drill:state': (state: DrillState) => void;
+  'drill:dueCounts': (counts: Record<RepertoireColor, DrillDueCounts>) => void;
+  'drill:error': (error: string) => void;
+  'sparring:state': (state: SparringState | null) => void;
+  'sparring:error': (error: string) => void;
+  'profile:data': (profile: StudentProfile) => void;
 }
 
 /** Explorer database availability status */
 export interface ExplorerStatus {
   localAvailable: boolean;
+  /** Stats of the selected local database */
   localPositionCount?: number;
   localGameCount?: number;
+  /** Registered local databases */
+  databases?: LocalDatabaseInfo[];
+  /** Id of the local database this session queries */
+  selectedDatabase?: string | null;
+  /** @deprecated Databases of kind 'personal' - use databases */
+  personalDatabases?: PersonalDatabaseInfo[];
+}
+
+/** @deprecated A personal game database - use LocalDatabaseInfo */
+export interface PersonalDatabaseInfo {
+  /** Database id */
+  name: string;
+  positionCount: number;
+}
+
+/**
+ * @deprecated Which personal database to query with the 'personal' database
+ * id - use the database's id with a LocalPlayerFilter
+ */
+export interface PersonalExplorerQuery {
+  /** Personal database name (default: the first one) */
+  name?: string;
+  player?: string;
+  color?: 'white' | 'black';
+}
+
+/** Id of a registered local database (e.g. "lichess-2025-12", "my-games") */
+export type LocalDatabaseId = string;
+
+/**
+ * Database for explorer requests: a remote Lichess database, a local
+ * database id, 'local' for the session's selected local database, or
+ * 'personal' for the user's own games (the first personal database)
+ */
+export type ExplorerDatabaseId = 'masters' | 'lichess' | 'local' | LocalDatabaseId;
+
+/** Where a local database's games came from */
+export type LocalDatabaseKind = 'lichess' | 'personal' | 'pgn';
+
+/** Indexing options a local database was built with */
+export interface LocalDatabaseFilters {
+  minRating?: number;
+  maxGames?: number;
+  maxMovesPerGame?: number;
+  /** Whether games were kept for top games */
+  storeGames?: boolean;
+}
+
+/** A registered local explorer database and how it was built */
+export interface LocalDatabaseInfo {
+  id: LocalDatabaseId;
+  kind: LocalDatabaseKind;
+  /** Source files or download URLs */
+  sources: string[];
+  gameCount?: number;
+  positionCount?: number;
+  filters: LocalDatabaseFilters;
+  /** Whether per-player entries were indexed (player/color queries) */
+  players: boolean;
+  /** When the database was last built or imported into (ISO date) */
+  builtAt?: string;
+}
+
+/** Player filter for local databases indexed with players */
+export interface LocalPlayerFilter {
+  /** Only games played by this player (like the Lichess player explorer) */
+  player?: string;
+  /** With a player, only games where they had this color */
+  color?: 'white' | 'black';
+}
+
+/** Rating, speed and month filter for local databases (like the Lichess explorer's) */
+export interface LocalGameFilter {
+  /** Rating buckets to include (a game's bucket comes from its average rating) */
+  ratings?: LichessRating[];
+  /** Speed categories to include */
+  speeds?: LichessSpeed[];
+  /** Include games from this month on (YYYY-MM) */
+  since?: string;
+  /** Include games up to this month (YYYY-MM) */
+  until?: string;
 }
 
 // Tool Call Event
@@ -210,7 +316,11 @@ export interface ClientToServerEvents {
   'game:loadOpening': (openingId: string) => void;
   'game:loadOpeningByPgn': (pgn: string) => void;
   'game:move': (move: { from: string; to: string; promotion?: PieceType }) => void;
-  'game:navigate': (index: number) => void;
+  /** Navigate by ply index along the current line, or by move tree node id */
+  'game:navigate': (target: number | string) => void;
+  'game:promoteVariation': (nodeId: string) => void;
+  'game:deleteVariation': (nodeId: string) => void;
+  'game:exportPgn': () => void;
   'game:reset': () => void;
   'conversation:send': (payload: { conversationId: string; message: string }) => void;
   'conversation:continue': (pauseId: string) => void;
@@ -224,18 +334,49 @@ export interface ClientToServerEvents {
   'analysis:start': (data: { fen: string; options: AnalysisOptions }) => void;
   'analysis:stop': () => void;
   'analysis:configure': (options: Partial<AnalysisOptions>) => void;
+  /** Review every move of the current line */
+  'review:start': (options?: { depth?: number }) => void;
+  'review:cancel': () => void;
   'opening:list': () => void;
-  'opening:getTree': (openingId: string) => void;
+  /** Stats come from the given explorer database (default: lichess) */
+  'opening:getTree': (openingId: string, database?: ExplorerDatabaseId) => void;
   'opening:search': (query: string) => void;
   'virtual:exit': () => void;
   'model:select': (modelId: AIModelId) => void;
   'model:getList': () => void;
-  'explorer:request': (options: { fen?: string; database: LichessDatabase }) => void;
+  'explorer:request': (
+    options: { fen?: string; database: ExplorerDatabaseId; personal?: PersonalExplorerQuery } & LocalPlayerFilter & LocalGameFilter
+  ) => void;
   'explorer:getStatus': () => void;
+  'explorer:listDatabases': () => void;
+  'explorer:selectDatabase': (id: LocalDatabaseId) => void;
+  'explorer:loadGame': (request: { id: string; database: ExplorerDatabaseId; personal?: PersonalExplorerQuery }) => void;
   'agent:setThinking': (enabled: boolean) => void;
   'agent:setWebSearch': (enabled: boolean) => void;
   'agent:setPromptStyle': (styleId: PromptStyleId) => void;
   'agent:getSettings': () => void;
+  'repertoire:get': (color: RepertoireColor) => void;
+  /** Add the current line, from the start up to the board position */
+  'repertoire:addLine': (color: RepertoireColor) => void;
+  'repertoire:markMove': (data: { color: RepertoireColor; fen: string; san: string; isMain: boolean }) => void;
+  'repertoire:removeMove': (data: { color: RepertoireColor; fen: string; san: string }) => void;
+  'repertoire:exportPgn': (color: RepertoireColor) => void;
+  'repertoire:findGaps': (data: { color: RepertoireColor; options?: RepertoireGapOptions }) => void;
+  'drill:start': (color: RepertoireColor) => void;
+  'drill:move': (move: { from: string; to: string; promotion?: PieceType }) => void;
+  /** Start the next line after the current one is complete */
+  'drill:next': () => void;
+  'drill:stop': () => void;
+  'drill:getDueCounts': () => void;
+  /** Play the current game out against the engine, from the board position */
+  'sparring:start': (config: EngineSparringConfig) => void;
+  /** Play against moves sampled from explorer statistics, from the board position */
+  'sparring:startDatabase': (config: DatabaseSparringConfig) => void;
+  'sparring:stop': () => void;
+  'profile:get': () => void;
+  'profile:update': (update: StudentProfileUpdate) => void;
+  /** Forget everything the agent has learned about the student */
+  'profile:reset': () => void;
 }
 
 // Conversation Types
@@ -396,6 +537,63 @@ export interface EngineInfo {
   nnue: boolean;
 }
 
+// =============================================================================
+// Game Review Types
+// =============================================================================
+
+/** How a played move compares to the engine's choice */
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+/** Engine verdict on a played move */
+export interface MoveReview {
+  classification: MoveClassification;
+  /** Centipawns lost compared to the best move, from the mover's side (evaluations capped at ±1000) */
+  cpLoss: number;
+  /** Drop in the mover's win probability, in percentage points */
+  winChanceLoss: number;
+  /** Move accuracy (0-100) derived from the win probability drop */
+  accuracy: number;
+  /**
+   * Evaluation before and after the move, from White's side.
+   * Mate 0 means the side to move is checkmated.
+   */
+  evalBefore: EngineScore;
+  evalAfter: EngineScore;
+  /** Engine's best move in the position before the move (UCI) */
+  bestMove: string;
+  /** Engine's best move in SAN */
+  bestMoveSan?: string;
+  /** Search depth used */
+  depth: number;
+}
+
+/** Review totals for one side */
+export interface GameReviewSide {
+  /** Mean move accuracy (0-100) */
+  accuracy: number;
+  averageCpLoss: number;
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+}
+
+export interface GameReviewSummary {
+  white: GameReviewSide;
+  black: GameReviewSide;
+  depth: number;
+}
+
+/** Streamed while a review runs */
+export interface GameReviewProgress {
+  /** Positions evaluated so far */
+  completed: number;
+  /** Positions in the reviewed line (moves + 1) */
+  total: number;
+  /** Move reviewed by this step (absent for the first position) */
+  nodeId?: string;
+  review?: MoveReview;
+}
+
 // Opening Database Types
 export interface OpeningInfo {
   eco: string;
@@ -481,12 +679,25 @@ export interface BoardAnnotations {
   highlights: SquareHighlight[];
 }
 
+/** Side shown at the bottom of the board */
+export type BoardOrientation = 'white' | 'black';
+
 // Virtual Board / Analysis Mode Types
+
+/** A move of a previewed line, with what to show after it */
+export interface VirtualMove extends Move {
+  comment?: string;
+  /** Arrows/highlights for the position after the move (replace the line's annotations) */
+  annotations?: BoardAnnotations;
+}
+
 export interface VirtualBoardState {
   isActive: boolean;
   baseFen: string;
   baseIndex: number;
-  virtualMoves: Move[];
+  /** What the previewed line shows, e.g. "The Fried Liver Attack" */
+  title?: string;
+  virtualMoves: VirtualMove[];
   currentVirtualIndex: number;
   annotations: BoardAnnotations;
 }
@@ -499,7 +710,13 @@ export interface MoveTreeNode {
   parent?: string;
   isVirtual?: boolean;
   comment?: string;
+  /** Comment placed before the move in PGN (e.g. at the start of a side line) */
+  commentBefore?: string;
+  /** Numeric Annotation Glyphs ($1 = !, $2 = ?, ...) */
+  nags?: number[];
   annotations?: BoardAnnotations;
+  /** Engine verdict from the last game review */
+  review?: MoveReview;
 }
 
 // =============================================================================
@@ -507,7 +724,7 @@ export interface MoveTreeNode {
 // =============================================================================
 
 /** Database source for opening explorer queries */
-export type LichessDatabase = 'masters' | 'lichess' | 'player' | 'local';
+export type LichessDatabase = 'masters' | 'lichess' | 'player' | 'local' | 'personal';
 
 /** Time control speeds for filtering */
 export type LichessSpeed =
@@ -687,4 +904,260 @@ export interface ExplorerResult {
   opening?: LichessOpeningInfo;
   /** Source database */
   database: LichessDatabase;
+  /** raw.topGames ignores the query filters (local databases keep few top games per position) */
+  topGamesUnfiltered?: boolean;
+}
+
+// =============================================================================
+// Repertoire Types
+// =============================================================================
+
+/** Side a repertoire is played from */
+export type RepertoireColor = 'white' | 'black';
+
+/** A move stored at a repertoire position */
+export interface RepertoireMove {
+  san: string;
+  uci: string;
+  /**
+   * Main move at this position: our chosen move when it is our turn,
+   * the most important prepared reply when it is the opponent's turn
+   */
+  isMain: boolean;
+  addedAt: number;
+}
+
+/** A position in the repertoire with the moves prepared there */
+export interface RepertoirePosition {
+  /** Position key: FEN without the move counters, so transpositions share a position */
+  fen: string;
+  /** Main move first */
+  moves: RepertoireMove[];
 }
+
+/** Repertoire for one color, stored as positions linked by moves */
+export interface Repertoire {
+  color: RepertoireColor;
+  /** Positions keyed by position key */
+  positions: Record<string, RepertoirePosition>;
+  updatedAt: number;
+}
+
+/** Outcome of a move played in a drill */
+export type DrillMoveResult = 'correct' | 'alternative' | 'mistake';
+
+export interface DrillFeedback {
+  result: DrillMoveResult;
+  /** Move we played (SAN) */
+  played: string;
+  /** Main repertoire move at the position (SAN) */
+  expected: string;
+}
+
+/** Current state of a repertoire drill */
+export interface DrillState {
+  color: RepertoireColor;
+  fen: string;
+  /** Moves played so far in this line */
+  moves: Move[];
+  lastMove: Move | null;
+  /**
+   * awaitingUser: waiting for our move
+   * opponentToMove: the board is about to play the opponent's reply
+   * complete: end of the prepared line
+   */
+  status: 'awaitingUser' | 'opponentToMove' | 'complete';
+  /** Feedback on our last move */
+  feedback: DrillFeedback | null;
+  correctCount: number;
+  mistakeCount: number;
+}
+
+/** Review counts for one repertoire */
+export interface DrillDueCounts {
+  /** Positions whose review is due */
+  due: number;
+  /** Positions never reviewed */
+  new: number;
+  /** Positions where we have a move to play */
+  total: number;
+}
+
+/** Spaced-repetition state of one position where it's our move */
+export interface ReviewCard {
+  color: RepertoireColor;
+  /** Position key (FEN without move counters) */
+  fen: string;
+  /** Consecutive successful reviews */
+  repetitions: number;
+  /** Days until the next review */
+  interval: number;
+  easeFactor: number;
+  dueAt: number;
+  lastReviewedAt: number;
+  lapses: number;
+  /** Most recent wrong moves at this position, newest last */
+  mistakes: Array<{ played: string; expected: string; at: number }>;
+}
+
+/** Options for the repertoire gap report */
+export interface RepertoireGapOptions {
+  /** Minimum play rate (%) for an opponent reply to count as a gap (default: 5) */
+  minPlayRate?: number;
+  /** Explorer database to take play rates from (default: 'lichess') */
+  database?: LichessDatabase;
+  /** Our rating - lichess and local statistics are taken from the matching rating band */
+  rating?: number;
+  /** Maximum number of opponent positions to query (default: 40) */
+  maxPositions?: number;
+}
+
+/** A popular opponent reply without a prepared answer */
+export interface RepertoireGap {
+  /** Position where the opponent is to move */
+  fen: string;
+  /** Moves from the starting position to that position (SAN) */
+  line: string[];
+  /** The unprepared reply */
+  san: string;
+  uci: string;
+  /** Share of games at the position continuing with this reply (%) */
+  playRate: number;
+  games: number;
+  /** Estimated share of our games with this repertoire that reach the reply (%) */
+  frequency: number;
+}
+
+export interface RepertoireGapReport {
+  color: RepertoireColor;
+  database: LichessDatabase;
+  minPlayRate: number;
+  /** Rating band the lichess or local statistics were filtered to */
+  ratings?: LichessRating[];
+  /** Most frequent first */
+  gaps: RepertoireGap[];
+  positionsChecked: number;
+  /** True when the position limit stopped the search before the whole repertoire was checked */
+  truncated: boolean;
+}
+
+// =============================================================================
+// Sparring Types
+// =============================================================================
+
+/** Opening phase of an engine sparring game, played from database statistics */
+export interface SparringBookOptions {
+  database: 'masters' | 'lichess';
+  /** Stop using the book after this many plies from the starting position (default: 20) */
+  maxPlies?: number;
+  /** A position with fewer games counts as out of theory (default: 10) */
+  minGames?: number;
+}
+
+export interface EngineSparringConfig {
+  /** Side the user plays */
+  color: RepertoireColor;
+  /** Limit strength to this Elo (UCI_Elo); omit for full strength */
+  elo?: number;
+  /** Stockfish Skill Level, 0-20 */
+  skillLevel?: number;
+  /** Think time per move (ms) */
+  moveTime: number;
+  /** Pick opening moves by database play rate until the position leaves theory */
+  book?: SparringBookOptions;
+}
+
+/** Opponent that only plays moves sampled from explorer statistics */
+export interface DatabaseSparringConfig {
+  /** Side the user plays */
+  color: RepertoireColor;
+  database: 'masters' | 'lichess' | 'local';
+  /** Lichess rating band to sample from */
+  ratings?: LichessRating[];
+  /** Lichess time controls to sample from */
+  speeds?: LichessSpeed[];
+  /** A position with fewer games counts as out of the database (default: 1) */
+  minGames?: number;
+}
+
+/** A reply played by the sparring opponent */
+export interface SparringReply {
+  san: string;
+  uci: string;
+  /** 'book': sampled from database statistics, 'engine': searched */
+  source: 'book' | 'engine';
+  /** Share of database games with this move (%), for book moves */
+  playRate?: number;
+}
+
+export interface EngineSparringState {
+  opponent: 'engine';
+  config: EngineSparringConfig;
+  /** Whether the opponent is still playing book moves */
+  inBook: boolean;
+  /** The opponent is choosing its reply */
+  thinking: boolean;
+  lastReply: SparringReply | null;
+}
+
+export interface DatabaseSparringState {
+  opponent: 'database';
+  config: DatabaseSparringConfig;
+  thinking: boolean;
+  lastReply: SparringReply | null;
+  /** Position where the line left the database - the bot stops playing there */
+  leftDatabase: { fen: string; ply: number } | null;
+}
+
+export type SparringState = EngineSparringState | DatabaseSparringState;
+
+// =============================================================================
+// Student Profile Types
+// =============================================================================
+
+/** An opening the student has studied with the agent */
+export interface StudiedOpening {
+  name: string;
+  /** Side the student plays it from */
+  color?: RepertoireColor;
+  notes?: string;
+  lastStudiedAt: number;
+}
+
+/** A quiz question (ask_multiple_choice with a correct option) and the student's answer */
+export interface QuizAnswer {
+  question: string;
+  answer: string;
+  correctAnswer: string;
+  correct: boolean;
+  /** Opening or theme the question was about */
+  topic?: string;
+  answeredAt: number;
+}
+
+/** A mistake the student has made, counted each time it comes up again */
+export interface StudentMistake {
+  description: string;
+  /** Position or line where it happened */
+  example?: string;
+  count: number;
+  lastSeenAt: number;
+}
+
+/** What the agent remembers about the student between conversations */
+export interface StudentProfile {
+  /** Most recently studied first */
+  openings: StudiedOpening[];
+  /** Oldest first, only the most recent answers are kept */
+  quizAnswers: QuizAnswer[];
+  /** Most frequent first */
+  mistakes: StudentMistake[];
+  /** Preferred playing style, e.g. "Aggressive, likes gambits" */
+  style: string;
+  /** Anything else worth remembering (level, goals, how they like to learn) */
+  notes: string;
+  updatedAt: number;
+}
+
+/** Changes made to the profile from the UI - each given field replaces the stored one */
+export type StudentProfileUpdate = Partial<Omit<StudentProfile, 'updatedAt'>>;